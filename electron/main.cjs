@@ -1,4 +1,10 @@
-const { app, BrowserWindow, globalShortcut, Menu } = require("electron");
+const {
+    app,
+    BrowserWindow,
+    globalShortcut,
+    ipcMain,
+    Menu,
+} = require("electron");
 const path = require("path");
 const fs = require("fs");
 
@@ -217,6 +223,37 @@ function createMenu() {
     Menu.setApplicationMenu(menu);
 }
 
+// Save files live in the user-data directory; the renderer can only name
+// one of the known slots, never a path
+const SAVE_SLOTS = new Set(["meta", "metaBackup", "replays"]);
+
+function getSaveFilePath(slot) {
+    if (!SAVE_SLOTS.has(slot)) {
+        throw new Error(`Unknown save slot "${slot}"`);
+    }
+    return path.join(app.getPath("userData"), "saves", `${slot}.json`);
+}
+
+function registerStorageHandlers() {
+    ipcMain.handle("storage:read", async (_event, slot) => {
+        try {
+            return await fs.promises.readFile(getSaveFilePath(slot), "utf8");
+        } catch (e) {
+            if (e.code === "ENOENT") return null;
+            throw e;
+        }
+    });
+
+    ipcMain.handle("storage:write", async (_event, slot, data) => {
+        const filePath = getSaveFilePath(slot);
+        await fs.promises.mkdir(path.dirname(filePath), { recursive: true });
+        // Write beside the save and swap it in so a crash can't truncate it
+        const tempPath = `${filePath}.tmp`;
+        await fs.promises.writeFile(tempPath, String(data), "utf8");
+        await fs.promises.rename(tempPath, filePath);
+    });
+}
+
 // Register global shortcuts
 function registerShortcuts() {
     // F11 for fullscreen toggle
@@ -232,6 +269,8 @@ function registerShortcuts() {
 
 // App ready
 app.whenReady().then(() => {
+    registerStorageHandlers();
+
     // Show splash screen first
     createSplashWindow();
 
@@ -1,8 +1,13 @@
-const { contextBridge } = require("electron");
+const { contextBridge, ipcRenderer } = require("electron");
 
 // Expose protected methods that allow the renderer process to use
 // specific Electron APIs without exposing the entire API
 contextBridge.exposeInMainWorld("electronAPI", {
     platform: process.platform,
     isElectron: true,
+    // Save files in the user-data directory (see registerStorageHandlers)
+    storage: {
+        read: (slot) => ipcRenderer.invoke("storage:read", slot),
+        write: (slot, data) => ipcRenderer.invoke("storage:write", slot, data),
+    },
 });
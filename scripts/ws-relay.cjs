@@ -0,0 +1,199 @@
+#!/usr/bin/env node
+
+/**
+ * Self-hostable WebSocket relay for online co-op
+ * - For networks that block the public MQTT brokers Trystero signals over
+ * - Groups clients into rooms by the ?room= query and forwards their
+ *   messages to everyone else in the room, or to one peer when addressed
+ * - No dependencies: speaks just enough of RFC 6455 for JSON text frames
+ *
+ * Usage: node scripts/ws-relay.cjs [port]   (default 8787, or RELAY_PORT)
+ * Then build or serve the game with VITE_RELAY_URL=ws://<this-host>:<port>
+ */
+
+const http = require("http");
+const crypto = require("crypto");
+
+const PORT = Number(process.argv[2] || process.env.RELAY_PORT || 8787);
+const HOST = process.env.RELAY_HOST || "0.0.0.0";
+const WS_GUID = "258EAFA5-E914-47DA-95CA-C5AB0DC85B11";
+const MAX_PAYLOAD = 1024 * 1024;
+
+const OPCODE = { continuation: 0, text: 1, close: 8, ping: 9, pong: 10 };
+
+/** room code -> Map<peer id, client> */
+const rooms = new Map();
+
+function encodeFrame(opcode, payload) {
+    const length = payload.length;
+    let header;
+    if (length < 126) {
+        header = Buffer.alloc(2);
+        header[1] = length;
+    } else if (length < 65536) {
+        header = Buffer.alloc(4);
+        header[1] = 126;
+        header.writeUInt16BE(length, 2);
+    } else {
+        header = Buffer.alloc(10);
+        header[1] = 127;
+        header.writeBigUInt64BE(BigInt(length), 2);
+    }
+    header[0] = 0x80 | opcode;
+    return Buffer.concat([header, payload]);
+}
+
+/** Pulls every complete frame off the front of the buffer */
+function decodeFrames(client) {
+    const frames = [];
+    let buffer = client.buffer;
+    while (buffer.length >= 2) {
+        const fin = (buffer[0] & 0x80) !== 0;
+        const opcode = buffer[0] & 0x0f;
+        const masked = (buffer[1] & 0x80) !== 0;
+        let length = buffer[1] & 0x7f;
+        let offset = 2;
+        if (length === 126) {
+            if (buffer.length < 4) break;
+            length = buffer.readUInt16BE(2);
+            offset = 4;
+        } else if (length === 127) {
+            if (buffer.length < 10) break;
+            length = Number(buffer.readBigUInt64BE(2));
+            offset = 10;
+        }
+        if (length > MAX_PAYLOAD) {
+            client.socket.destroy();
+            return [];
+        }
+        const maskOffset = offset;
+        if (masked) offset += 4;
+        if (buffer.length < offset + length) break;
+        const payload = Buffer.from(buffer.subarray(offset, offset + length));
+        if (masked) {
+            for (let i = 0; i < payload.length; i++) {
+                payload[i] ^= buffer[maskOffset + (i % 4)];
+            }
+        }
+        frames.push({ fin, opcode, payload });
+        buffer = buffer.subarray(offset + length);
+    }
+    client.buffer = buffer;
+    return frames;
+}
+
+function send(client, message) {
+    if (client.socket.destroyed) return;
+    client.socket.write(
+        encodeFrame(OPCODE.text, Buffer.from(JSON.stringify(message)))
+    );
+}
+
+function broadcast(room, fromId, message) {
+    room.forEach((client, id) => {
+        if (id !== fromId) send(client, message);
+    });
+}
+
+function handleMessage(client, text) {
+    let message;
+    try {
+        message = JSON.parse(text);
+    } catch {
+        return;
+    }
+    if (message?.type !== "msg" || typeof message.action !== "string") return;
+    const room = rooms.get(client.room);
+    if (!room) return;
+    const forward = {
+        type: "msg",
+        from: client.id,
+        action: message.action,
+        data: message.data,
+    };
+    if (message.to) {
+        const target = room.get(message.to);
+        if (target) send(target, forward);
+    } else {
+        broadcast(room, client.id, forward);
+    }
+}
+
+function handleFrame(client, frame) {
+    switch (frame.opcode) {
+        case OPCODE.text:
+        case OPCODE.continuation:
+            client.fragments.push(frame.payload);
+            if (frame.fin) {
+                const text = Buffer.concat(client.fragments).toString("utf8");
+                client.fragments = [];
+                handleMessage(client, text);
+            }
+            break;
+        case OPCODE.ping:
+            client.socket.write(encodeFrame(OPCODE.pong, frame.payload));
+            break;
+        case OPCODE.close:
+            client.socket.end(encodeFrame(OPCODE.close, Buffer.alloc(0)));
+            break;
+    }
+}
+
+function leave(client) {
+    const room = rooms.get(client.room);
+    if (!room || !room.delete(client.id)) return;
+    if (room.size === 0) rooms.delete(client.room);
+    broadcast(room, client.id, { type: "leave", id: client.id });
+    console.log(`[${client.room}] ${client.id} left (${room.size} in room)`);
+}
+
+const server = http.createServer((_req, res) => {
+    res.writeHead(200, { "Content-Type": "text/plain" });
+    res.end("Quiet Quadrant relay\n");
+});
+
+server.on("upgrade", (req, socket) => {
+    const key = req.headers["sec-websocket-key"];
+    const roomCode = new URL(req.url, "http://relay").searchParams.get("room");
+    if (req.headers.upgrade?.toLowerCase() !== "websocket" || !key || !roomCode) {
+        socket.end("HTTP/1.1 400 Bad Request\r\n\r\n");
+        return;
+    }
+    const accept = crypto
+        .createHash("sha1")
+        .update(key + WS_GUID)
+        .digest("base64");
+    socket.write(
+        "HTTP/1.1 101 Switching Protocols\r\n" +
+            "Upgrade: websocket\r\n" +
+            "Connection: Upgrade\r\n" +
+            `Sec-WebSocket-Accept: ${accept}\r\n\r\n`
+    );
+    socket.setNoDelay(true);
+    socket.setKeepAlive(true, 10000);
+
+    const client = {
+        id: crypto.randomBytes(6).toString("hex"),
+        room: roomCode,
+        socket,
+        buffer: Buffer.alloc(0),
+        fragments: [],
+    };
+    const room = rooms.get(roomCode) ?? new Map();
+    rooms.set(roomCode, room);
+    send(client, { type: "welcome", id: client.id, peers: [...room.keys()] });
+    broadcast(room, client.id, { type: "join", id: client.id });
+    room.set(client.id, client);
+    console.log(`[${roomCode}] ${client.id} joined (${room.size} in room)`);
+
+    socket.on("data", (chunk) => {
+        client.buffer = Buffer.concat([client.buffer, chunk]);
+        decodeFrames(client).forEach((frame) => handleFrame(client, frame));
+    });
+    socket.on("close", () => leave(client));
+    socket.on("error", () => socket.destroy());
+});
+
+server.listen(PORT, HOST, () => {
+    console.log(`Quiet Quadrant relay listening on ws://${HOST}:${PORT}`);
+});
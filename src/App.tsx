@@ -5,6 +5,7 @@ import { GAME_EVENT_KEYS, gameEvents } from "./game/events";
 import { gameManager } from "./game/GameManager";
 import type { RunSummary } from "./models/types";
 import { useMetaStore } from "./state/useMetaStore";
+import { useReplayStore } from "./state/useReplayStore";
 import { useRunStore } from "./state/useRunStore";
 import { useUIStore } from "./state/useUIStore";
 import { CardRewardOverlay } from "./ui/components/CardRewardOverlay";
@@ -39,6 +40,7 @@ function App() {
 
 	useEffect(() => {
 		useMetaStore.getState().actions.hydrateFromPersistence();
+		useReplayStore.getState().actions.hydrateFromPersistence();
 	}, []);
 
 	// Detect mobile and enable touch controls
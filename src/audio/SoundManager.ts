@@ -30,7 +30,7 @@ const ALL_TRACK_URLS = Object.values(soundtrackImports).map(
     (mod) => (mod as { default: string }).default
 );
 
-type SfxKey =
+export type SfxKey =
     | "uiHover"
     | "uiSelect"
     | "shoot"
@@ -0,0 +1,80 @@
+/**
+ * Affix stacking tests: composed multipliers, the conflict table and
+ * hard-week rolls
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rollSeason } from '../../game/seasons';
+import {
+  AFFIXES,
+  affixesConflict,
+  canStackAffix,
+  composeAffixes,
+  getAffixes,
+  runAffixIds,
+} from '../affixes';
+
+describe('composeAffixes', () => {
+  it('multiplies multipliers and adds bonuses', () => {
+    const [swarm, glass, golden] = getAffixes(['swarm-tactics', 'glass-boost', 'golden-age']);
+    const combined = composeAffixes([swarm, glass, golden])!;
+    expect(combined.id).toBe('swarm-tactics+glass-boost+golden-age');
+    expect(combined.name).toBe('Swarm Tactics + Glass Boost + Golden Age');
+    expect(combined.enemyHealthMultiplier).toBeCloseTo(0.85 * 0.88);
+    expect(combined.enemySpeedMultiplier).toBeCloseTo(1.1);
+    expect(combined.waveEnemyCountMultiplier).toBeCloseTo(1.2);
+    expect(combined.rareUpgradeBonus).toBeCloseTo(0.2);
+    expect(combined.legendaryUpgradeBonus).toBeCloseTo(0.05);
+    expect(combined.playerDamageMultiplier).toBeUndefined();
+  });
+
+  it('keeps the smallest upgrade choices override', () => {
+    const tough = AFFIXES.find((a) => a.id === 'tough-choices')!;
+    const abundance = AFFIXES.find((a) => a.id === 'abundance')!;
+    expect(composeAffixes([abundance, tough])?.upgradeChoices).toBe(2);
+    expect(composeAffixes([abundance, ...getAffixes(['bullet-storm'])])?.upgradeChoices).toBe(4);
+  });
+
+  it('returns a lone affix untouched and nothing for an empty stack', () => {
+    expect(composeAffixes([AFFIXES[0]])).toBe(AFFIXES[0]);
+    expect(composeAffixes([])).toBeNull();
+  });
+});
+
+describe('affix conflicts', () => {
+  it('blocks conflicting pairs in both directions', () => {
+    expect(affixesConflict('tough-choices', 'abundance')).toBe(true);
+    expect(affixesConflict('abundance', 'tough-choices')).toBe(true);
+    expect(affixesConflict('enraged-boss', 'bullet-storm')).toBe(false);
+    const [ironclad] = getAffixes(['ironclad']);
+    expect(canStackAffix(getAffixes(['nimble-foes']), ironclad)).toBe(false);
+    expect(canStackAffix(getAffixes(['bullet-storm']), ironclad)).toBe(true);
+    expect(canStackAffix([ironclad], ironclad)).toBe(false);
+  });
+
+  it('never rolls a conflicting or repeated stack', () => {
+    let hardWeeks = 0;
+    for (let seed = 1; seed <= 400; seed++) {
+      const roll = rollSeason(seed);
+      expect(roll.hardWeek).toBe(roll.affixes.length > 1);
+      expect(roll.affixes.length).toBeLessThanOrEqual(3);
+      roll.affixes.forEach((affix, i) => {
+        expect(canStackAffix(roll.affixes.slice(0, i), affix)).toBe(true);
+      });
+      if (roll.hardWeek) hardWeeks++;
+    }
+    expect(hardWeeks).toBeGreaterThan(0);
+    expect(hardWeeks).toBeLessThan(400);
+  });
+});
+
+describe('runAffixIds', () => {
+  it('reads stacked ids and single affixes saved before stacking', () => {
+    expect(runAffixIds({ affixIds: ['ironclad', 'bullet-storm'] })).toEqual([
+      'ironclad',
+      'bullet-storm',
+    ]);
+    expect(runAffixIds({ affixId: 'ironclad' })).toEqual(['ironclad']);
+    expect(runAffixIds({})).toEqual([]);
+  });
+});
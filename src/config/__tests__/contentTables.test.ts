@@ -0,0 +1,144 @@
+/**
+ * Content table tests: the shipped v2/data CSVs must load cleanly, and
+ * malformed tables must report every problem with file, line and column
+ */
+
+import { describe, it, expect } from 'vitest';
+import { readFileSync } from 'node:fs';
+import {
+  CONTENT_TABLE_FILES,
+  loadContentTables,
+  type ContentTableName,
+  type ContentTableSources,
+} from '../content/tables';
+import { parseCsv } from '../content/csv';
+import { formatContentIssues, type ContentIssue } from '../content/issues';
+import { getEnemyDefinition } from '../enemies';
+import { BOSSES } from '../bosses';
+
+const shipped = () => {
+  const sources = {} as ContentTableSources;
+  (Object.keys(CONTENT_TABLE_FILES) as ContentTableName[]).forEach((name) => {
+    sources[name] = readFileSync(`v2/data/${CONTENT_TABLE_FILES[name]}`, 'utf8');
+  });
+  return sources;
+};
+
+const replaceLine = (csv: string, id: string, line: string) =>
+  csv
+    .split('\n')
+    .map((row) => (row.startsWith(`${id},`) ? line : row))
+    .join('\n');
+
+describe('content tables', () => {
+  it('loads the shipped tables without issues', () => {
+    const { content, issues } = loadContentTables(shipped());
+    expect(issues).toEqual([]);
+    expect(content.bosses.map((b) => b.id)).toEqual(['sentinel', 'swarm-core', 'obelisk']);
+    expect(content.affixes).toHaveLength(19);
+    expect(content.miniBosses.map((m) => m.id)).toEqual(['splitter-queen', 'watcher-prime']);
+    expect(content.synergies.find((s) => s.id === 'glass-storm')?.requires).toEqual([
+      'glass-cannon',
+      'bullet-hell',
+    ]);
+  });
+
+  it('feeds the runtime config', () => {
+    expect(getEnemyDefinition('watcher')).toEqual({
+      kind: 'watcher',
+      speed: 65,
+      health: 35,
+      damage: 1,
+      fireCooldown: 1.8,
+      projectileSpeed: 145,
+    });
+    const elite = getEnemyDefinition('mass', true);
+    expect(elite.health).toBeCloseTo(85 * 1.7);
+    expect(elite.eliteBehaviors).toEqual(['burst_movement', 'death_explosion']);
+    expect(BOSSES[2].tuning.projectileSpeedMultiplier).toBe(1.15);
+  });
+
+  it('parses quoted fields with commas, quotes and newlines', () => {
+    const issues: ContentIssue[] = [];
+    const table = parseCsv('id,text\r\na,"one, ""two""\nthree"\r\n\r\nb,plain\r\n', 'x.csv', issues);
+    expect(issues).toEqual([]);
+    expect(table.rows).toEqual([
+      { line: 2, values: { id: 'a', text: 'one, "two"\nthree' } },
+      { line: 5, values: { id: 'b', text: 'plain' } },
+    ]);
+  });
+
+  it('reports shifted rows, bad values and dangling references', () => {
+    const sources = shipped();
+    sources.affixes = replaceLine(
+      sources.affixes,
+      'sluggish',
+      'sluggish,Sluggish,Slow,,,,,0.9,,1.25,,,,,,,,,,'
+    );
+    sources.affixes = replaceLine(
+      sources.affixes,
+      'marathon',
+      'marathon,Marathon,Long,,,,,1.15,0.9,0.8,,,,,,,,,marathon;sprint'
+    );
+    sources.enemies = replaceLine(
+      sources.enemies,
+      'watcher',
+      'watcher,Watcher,lots,65,1,25,20,ranged,1.8,145,1.7,1.25,1.2,sniping,Fires'
+    );
+    sources.bosses = replaceLine(
+      sources.bosses,
+      'obelisk',
+      'obelisk,Obelisk,Slams,800,1.5,1,1,1.15,slam;laser-grid,' +
+        'slam,1,anchor,0,,slam;lane-beams,0.75,hover,0.2,,slam,0.45,hunt,1.5,'
+    );
+    sources.synergies = replaceLine(
+      sources.synergies,
+      'railgun',
+      'railgun,Railgun,Pierces,held-charge;warp-drive,critChance;critDamage,0.05'
+    );
+    sources.upgrades += 'pierce,Dupe,Again,mythic,offense,3,1,pierce,1,,\n';
+    sources.minibosses = replaceLine(
+      sources.minibosses,
+      'watcher-prime',
+      'watcher-prime,Watcher Prime,Aims,watcher,7,1.8,0x7bd3ff,aimed-burst;laser-grid,1.8,3,1,24'
+    );
+
+    const { issues } = loadContentTables(sources);
+    const summary = issues.map((i) => `${i.file}:${i.line} ${i.column ?? ''} ${i.message}`);
+    expect(summary).toEqual(
+      expect.arrayContaining([
+        'affixes.csv:8  expected 19 fields, found 20',
+        "affixes.csv:20 conflicts an affix can't conflict with itself",
+        'affixes.csv:20 conflicts unknown affix "sprint"',
+        'enemies.csv:3 health "lots" is not a number',
+        'enemies.csv:3 elite_behaviors unknown elite behavior "sniping"',
+        'bosses.csv:4 patterns unknown boss pattern "laser-grid"',
+        'bosses.csv:4 phase2_patterns "lane-beams" is not in this boss\'s patterns',
+        'bosses.csv:4 phase2_movement "hover" must be one of orbit, hunt, strafe, anchor',
+        'bosses.csv:4 phase3_overlap 1.5 must be at most 1',
+        'synergies.csv:3 requires unknown upgrade "warp-drive"',
+        'synergies.csv:3 bonus_value expected 2 value(s) for critChance;critDamage',
+        'upgrades.csv:32 id duplicate id "pierce" (first on line 8)',
+        'upgrades.csv:32 rarity "mythic" must be one of common, rare, legendary',
+        'minibosses.csv:3 patterns unknown boss pattern "laser-grid"',
+        'minibosses.csv:3 splitCount only splitters shed minis',
+      ])
+    );
+    expect(issues).toHaveLength(15);
+    expect(formatContentIssues(issues)).toContain('enemies.csv:3 [health] "lots" is not a number');
+  });
+
+  it('reports missing columns and enemy rows', () => {
+    const sources = shipped();
+    sources.bosses = sources.bosses.replace('patterns,phase1', 'pattern_list,phase1');
+    sources.enemies = sources.enemies
+      .split('\n')
+      .filter((row) => !row.startsWith('splitter,'))
+      .join('\n');
+    const { issues } = loadContentTables(sources);
+    expect(issues).toEqual([
+      { file: 'enemies.csv', line: 1, message: 'missing row for enemy "splitter"' },
+      { file: 'bosses.csv', line: 1, column: 'patterns', message: 'missing column' },
+    ]);
+  });
+});
@@ -0,0 +1,78 @@
+/**
+ * Wave script data: every authored wave has to be playable as written
+ */
+
+import { describe, it, expect } from 'vitest';
+import { WAVES } from '../waves';
+import { MINI_BOSSES } from '../miniBosses';
+import { ENEMY_BEHAVIORS } from '../../game/enemies/enemyRegistry';
+import { SPAWN_SIDES } from '../../sim/waveScript';
+import type { EnemyKind, SpawnFormation } from '../../models/types';
+
+const FORMATIONS: SpawnFormation[] = ['scatter', 'ring', 'line', 'pincer', 'corner-stack'];
+
+const ENEMY_KINDS = Object.keys(ENEMY_BEHAVIORS) as EnemyKind[];
+
+const allGroups = WAVES.flatMap((wave) => wave.groups.map((group) => ({ wave: wave.id, group })));
+
+describe('wave scripts', () => {
+  it('gives every wave a unique id and at least one group', () => {
+    expect(new Set(WAVES.map((wave) => wave.id)).size).toBe(WAVES.length);
+    WAVES.forEach((wave) => expect(wave.groups.length, wave.id).toBeGreaterThan(0));
+  });
+
+  it('starts every wave with a group that spawns right away', () => {
+    WAVES.forEach(({ id, groups: [first] }) => {
+      expect(first.delayMs ?? 0, id).toBe(0);
+      expect(first.afterCleared ?? 0, id).toBe(0);
+    });
+  });
+
+  it('only uses known kinds, formations and sides, with whole positive counts', () => {
+    allGroups.forEach(({ wave, group }) => {
+      expect(group.enemies.length, wave).toBeGreaterThan(0);
+      expect(FORMATIONS, wave).toContain(group.formation ?? 'scatter');
+      if (group.side) expect(SPAWN_SIDES, wave).toContain(group.side);
+      group.enemies.forEach((spawn) => {
+        expect(ENEMY_KINDS, wave).toContain(spawn.kind);
+        expect(Number.isInteger(spawn.count) && spawn.count > 0, wave).toBe(true);
+      });
+    });
+  });
+
+  it('keeps triggers in range', () => {
+    allGroups.forEach(({ wave, group }) => {
+      if (group.delayMs !== undefined) expect(group.delayMs, wave).toBeGreaterThanOrEqual(0);
+      if (group.afterCleared !== undefined) {
+        expect(group.afterCleared, wave).toBeGreaterThan(0);
+        expect(group.afterCleared, wave).toBeLessThanOrEqual(1);
+      }
+    });
+  });
+
+  it('saves the boss for its own final wave', () => {
+    const last = WAVES[WAVES.length - 1];
+    expect(last.groups.flatMap((group) => group.enemies)).toEqual([{ kind: 'boss', count: 1 }]);
+    WAVES.slice(0, -1).forEach((wave) =>
+      wave.groups.forEach((group) =>
+        expect(group.enemies.some((spawn) => spawn.kind === 'boss'), wave.id).toBe(false)
+      )
+    );
+  });
+
+  it('brings named mini-bosses into waves 5 and 8', () => {
+    const miniBossWaves = allGroups
+      .filter(({ group }) => group.miniBoss)
+      .map(({ wave, group }) => `${wave}:${group.miniBoss}`);
+    expect(miniBossWaves).toEqual(['wave-5:splitter-queen', 'wave-8:watcher-prime']);
+    const known = MINI_BOSSES.map((miniBoss) => miniBoss.id);
+    allGroups.forEach(({ group }) => {
+      if (group.miniBoss) expect(known).toContain(group.miniBoss);
+    });
+  });
+
+  it('fields every enemy kind somewhere before the boss', () => {
+    const fielded = new Set(allGroups.flatMap(({ group }) => group.enemies.map((spawn) => spawn.kind)));
+    ENEMY_KINDS.forEach((kind) => expect(fielded.has(kind), kind).toBe(true));
+  });
+});
@@ -0,0 +1,98 @@
+/**
+ * Minimal CSV reader for the v2/data content tables
+ *
+ * Handles quoted fields (with embedded commas, newlines and "" escapes) and
+ * CRLF line endings. Rows whose field count doesn't match the header are
+ * reported instead of being silently shifted.
+ */
+
+import type { ContentIssue } from "./issues";
+
+export interface CsvRow {
+    /** 1-based line number in the source file, for error messages */
+    line: number;
+    values: Record<string, string>;
+}
+
+export interface CsvTable {
+    file: string;
+    headers: string[];
+    rows: CsvRow[];
+}
+
+function splitRecords(text: string) {
+    const records: { line: number; fields: string[] }[] = [];
+    let fields: string[] = [];
+    let field = "";
+    let quoted = false;
+    let line = 1;
+    let recordLine = 1;
+
+    for (let i = 0; i < text.length; i++) {
+        const char = text[i];
+        if (quoted) {
+            if (char === '"' && text[i + 1] === '"') {
+                field += '"';
+                i++;
+            } else if (char === '"') {
+                quoted = false;
+            } else {
+                if (char === "\n") line++;
+                field += char;
+            }
+            continue;
+        }
+        if (char === '"' && field === "") {
+            quoted = true;
+        } else if (char === ",") {
+            fields.push(field);
+            field = "";
+        } else if (char === "\n" || char === "\r") {
+            if (char === "\r" && text[i + 1] === "\n") i++;
+            fields.push(field);
+            records.push({ line: recordLine, fields });
+            fields = [];
+            field = "";
+            line++;
+            recordLine = line;
+        } else {
+            field += char;
+        }
+    }
+    if (field !== "" || fields.length > 0) {
+        fields.push(field);
+        records.push({ line: recordLine, fields });
+    }
+    // Blank lines carry no data
+    return records.filter((r) => r.fields.some((f) => f.trim() !== ""));
+}
+
+export function parseCsv(
+    text: string,
+    file: string,
+    issues: ContentIssue[]
+): CsvTable {
+    const [header, ...records] = splitRecords(text);
+    if (!header) {
+        issues.push({ file, line: 1, message: "missing header row" });
+        return { file, headers: [], rows: [] };
+    }
+    const headers = header.fields.map((h) => h.trim());
+    const rows: CsvRow[] = [];
+    records.forEach(({ line, fields }) => {
+        if (fields.length !== headers.length) {
+            issues.push({
+                file,
+                line,
+                message: `expected ${headers.length} fields, found ${fields.length}`,
+            });
+            return;
+        }
+        const values: Record<string, string> = {};
+        headers.forEach((h, index) => {
+            values[h] = fields[index].trim();
+        });
+        rows.push({ line, values });
+    });
+    return { file, headers, rows };
+}
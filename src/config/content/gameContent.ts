@@ -0,0 +1,31 @@
+/**
+ * Game content loaded from v2/data at module load
+ *
+ * The CSVs are bundled as raw text. The Vite build validates the same tables
+ * up front (see vite.config.ts), so a bad table fails the build rather than
+ * reaching players; this throw is the backstop for tests and dev reloads.
+ */
+
+import affixesCsv from "../../../v2/data/affixes.csv?raw";
+import bossesCsv from "../../../v2/data/bosses.csv?raw";
+import enemiesCsv from "../../../v2/data/enemies.csv?raw";
+import miniBossesCsv from "../../../v2/data/minibosses.csv?raw";
+import synergiesCsv from "../../../v2/data/synergies.csv?raw";
+import upgradesCsv from "../../../v2/data/upgrades.csv?raw";
+import { formatContentIssues } from "./issues";
+import { loadContentTables } from "./tables";
+
+const { content, issues } = loadContentTables({
+    enemies: enemiesCsv,
+    bosses: bossesCsv,
+    minibosses: miniBossesCsv,
+    upgrades: upgradesCsv,
+    affixes: affixesCsv,
+    synergies: synergiesCsv,
+});
+
+if (issues.length > 0) {
+    throw new Error(formatContentIssues(issues));
+}
+
+export const GAME_CONTENT = content;
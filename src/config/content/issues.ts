@@ -0,0 +1,21 @@
+/**
+ * Content table diagnostics shared by the CSV reader and the table schemas
+ */
+
+export interface ContentIssue {
+    file: string;
+    line: number;
+    column?: string;
+    message: string;
+}
+
+export const formatContentIssue = (issue: ContentIssue) =>
+    `${issue.file}:${issue.line}${
+        issue.column ? ` [${issue.column}]` : ""
+    } ${issue.message}`;
+
+export const formatContentIssues = (issues: ContentIssue[]) =>
+    [
+        `${issues.length} content table error(s):`,
+        ...issues.map((issue) => `  ${formatContentIssue(issue)}`),
+    ].join("\n");
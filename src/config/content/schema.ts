@@ -0,0 +1,128 @@
+/**
+ * Typed column readers for content tables
+ *
+ * Each reader records a ContentIssue instead of throwing so a single pass can
+ * report every bad cell in every table.
+ */
+
+import type { CsvRow, CsvTable } from "./csv";
+import type { ContentIssue } from "./issues";
+
+interface NumberRule {
+    min?: number;
+    max?: number;
+    integer?: boolean;
+}
+
+export type RowReader = ReturnType<typeof createRowReader>;
+
+export function requireColumns(
+    table: CsvTable,
+    columns: readonly string[],
+    issues: ContentIssue[]
+) {
+    const missing = columns.filter((c) => !table.headers.includes(c));
+    missing.forEach((column) => {
+        issues.push({
+            file: table.file,
+            line: 1,
+            column,
+            message: "missing column",
+        });
+    });
+    return missing.length === 0;
+}
+
+export function createRowReader(
+    table: CsvTable,
+    row: CsvRow,
+    issues: ContentIssue[]
+) {
+    const fail = (column: string, message: string) => {
+        issues.push({ file: table.file, line: row.line, column, message });
+    };
+
+    const optionalNumber = (column: string, rule: NumberRule = {}) => {
+        const raw = row.values[column] ?? "";
+        if (raw === "") return undefined;
+        const value = Number(raw);
+        if (!Number.isFinite(value)) {
+            fail(column, `"${raw}" is not a number`);
+            return undefined;
+        }
+        if (rule.integer && !Number.isInteger(value)) {
+            fail(column, `${raw} must be a whole number`);
+        }
+        if (rule.min !== undefined && value < rule.min) {
+            fail(column, `${raw} must be at least ${rule.min}`);
+        }
+        if (rule.max !== undefined && value > rule.max) {
+            fail(column, `${raw} must be at most ${rule.max}`);
+        }
+        return value;
+    };
+
+    return {
+        fail,
+
+        text(column: string) {
+            const value = row.values[column] ?? "";
+            if (value === "") fail(column, "is required");
+            return value;
+        },
+
+        optionalText(column: string) {
+            const value = row.values[column] ?? "";
+            return value === "" ? undefined : value;
+        },
+
+        optionalNumber,
+
+        number(column: string, rule: NumberRule = {}) {
+            const value = optionalNumber(column, rule);
+            if (value === undefined) {
+                if ((row.values[column] ?? "") === "") {
+                    fail(column, "is required");
+                }
+                return 0;
+            }
+            return value;
+        },
+
+        /** Semicolon-separated list; empty cells give an empty list */
+        list(column: string) {
+            const raw = row.values[column] ?? "";
+            return raw === ""
+                ? []
+                : raw.split(";").map((item) => item.trim());
+        },
+
+        oneOf<T extends string>(column: string, allowed: readonly T[]): T {
+            const value = row.values[column] ?? "";
+            if (!(allowed as readonly string[]).includes(value)) {
+                fail(column, `"${value}" must be one of ${allowed.join(", ")}`);
+                return allowed[0];
+            }
+            return value as T;
+        },
+    };
+}
+
+/** Reports rows that reuse an id already seen earlier in the table */
+export function checkUniqueIds(table: CsvTable, issues: ContentIssue[]) {
+    const seen = new Map<string, number>();
+    table.rows.forEach((row) => {
+        const id = row.values.id;
+        const first = seen.get(id);
+        if (first !== undefined) {
+            issues.push({
+                file: table.file,
+                line: row.line,
+                column: "id",
+                message: `duplicate id "${id}" (first on line ${first})`,
+            });
+        } else {
+            seen.set(id, row.line);
+        }
+    });
+}
@@ -0,0 +1,536 @@
+/**
+ * Content tables - Builds runtime definitions from the v2/data CSV files
+ *
+ * Designers tune enemies, bosses, mini-bosses, upgrades, affixes and
+ * synergies in the CSVs; this module turns them into the typed definitions
+ * the game reads and collects every schema problem (missing columns, bad
+ * numbers, unknown ids, dangling synergy requirements) so the build can fail
+ * with all of them.
+ */
+
+import type {
+    BossDefinition,
+    BossMovementStyle,
+    BossPhaseDefinition,
+    EliteBehavior,
+    EnemyDefinition,
+    EnemyKind,
+    MiniBossDefinition,
+    Rarity,
+    SynergyDefinition,
+    UpgradeDefinition,
+    WeeklyAffix,
+} from "../../models/types";
+import { parseCsv, type CsvTable } from "./csv";
+import type { ContentIssue } from "./issues";
+import {
+    checkUniqueIds,
+    createRowReader,
+    requireColumns,
+    type RowReader,
+} from "./schema";
+
+export const CONTENT_TABLE_FILES = {
+    enemies: "enemies.csv",
+    bosses: "bosses.csv",
+    minibosses: "minibosses.csv",
+    upgrades: "upgrades.csv",
+    affixes: "affixes.csv",
+    synergies: "synergies.csv",
+} as const;
+
+export type ContentTableName = keyof typeof CONTENT_TABLE_FILES;
+
+/** Raw CSV text per table */
+export type ContentTableSources = Record<ContentTableName, string>;
+
+export interface EliteTuning {
+    health: number;
+    speed: number;
+    damage: number;
+    behaviors: EliteBehavior[];
+}
+
+export interface GameContent {
+    enemies: Record<EnemyKind, EnemyDefinition>;
+    elites: Record<EnemyKind, EliteTuning>;
+    bosses: BossDefinition[];
+    miniBosses: MiniBossDefinition[];
+    upgrades: UpgradeDefinition[];
+    affixes: WeeklyAffix[];
+    /** Affix id to the ids it never stacks with; always symmetric */
+    affixConflicts: Record<string, string[]>;
+    synergies: SynergyDefinition[];
+}
+
+const ENEMY_KINDS = Object.keys({
+    drifter: true,
+    watcher: true,
+    mass: true,
+    phantom: true,
+    orbiter: true,
+    splitter: true,
+    shielder: true,
+    sniper: true,
+    minelayer: true,
+    healer: true,
+    boss: true,
+} satisfies Record<EnemyKind, true>) as EnemyKind[];
+
+const ELITE_BEHAVIORS = Object.keys({
+    burst_movement: true,
+    rapid_fire: true,
+    shield_regen: true,
+    death_explosion: true,
+} satisfies Record<EliteBehavior, true>) as EliteBehavior[];
+
+const RARITIES: readonly Rarity[] = ["common", "rare", "legendary"];
+const CATEGORIES: readonly UpgradeDefinition["category"][] = [
+    "offense",
+    "defense",
+    "utility",
+];
+
+/** Patterns the simulation's BossSystem knows how to fire */
+export const BOSS_PATTERN_IDS = [
+    "beam-spin",
+    "aimed-burst",
+    "ring-with-gap",
+    "summon-minions",
+    "cone-volley",
+    "pulse-ring",
+    "slam",
+    "ricochet-shards",
+    "lane-beams",
+] as const;
+
+const BOSS_MOVEMENT_STYLES: readonly BossMovementStyle[] = [
+    "orbit",
+    "hunt",
+    "strafe",
+    "anchor",
+];
+
+const BOSS_PHASES = [1, 2, 3] as const;
+
+const ENEMY_COLUMNS = [
+    "id",
+    "name",
+    "health",
+    "speed",
+    "damage",
+    "xp",
+    "size",
+    "behavior",
+    "fireCooldown",
+    "projectileSpeed",
+    "elite_healthMult",
+    "elite_speedMult",
+    "elite_damageMult",
+    "elite_behaviors",
+] as const;
+
+const BOSS_COLUMNS = [
+    "id",
+    "name",
+    "description",
+    "base_health",
+    "healthMult",
+    "speedMult",
+    "fireRateMult",
+    "projectileSpeedMult",
+    "patterns",
+    ...BOSS_PHASES.flatMap((phase) => [
+        `phase${phase}_patterns`,
+        `phase${phase}_cooldown`,
+        `phase${phase}_movement`,
+        `phase${phase}_overlap`,
+        `phase${phase}_summonMs`,
+    ]),
+];
+
+const MINI_BOSS_COLUMNS = [
+    "id",
+    "name",
+    "description",
+    "kind",
+    "healthMult",
+    "scale",
+    "tint",
+    "patterns",
+    "cooldown",
+    "splitCount",
+    "rareDrops",
+    "threat",
+] as const;
+
+const UPGRADE_COLUMNS = [
+    "id",
+    "name",
+    "description",
+    "rarity",
+    "category",
+    "maxStacks",
+    "dropWeight",
+    "effect_type",
+    "diminishing_after",
+] as const;
+
+const SYNERGY_COLUMNS = [
+    "id",
+    "name",
+    "description",
+    "requires",
+    "bonus_type",
+    "bonus_value",
+] as const;
+
+/** CSV column -> WeeklyAffix field; every modifier is optional */
+const AFFIX_MODIFIERS = {
+    enemyHealthMult: "enemyHealthMultiplier",
+    enemySpeedMult: "enemySpeedMultiplier",
+    enemyDamageMult: "enemyDamageMultiplier",
+    playerDamageMult: "playerDamageMultiplier",
+    playerSpeedMult: "playerSpeedMultiplier",
+    dashCooldownMult: "dashCooldownMultiplier",
+    xpMult: "xpMultiplier",
+    rareUpgradeBonus: "rareUpgradeBonus",
+    legendaryUpgradeBonus: "legendaryUpgradeBonus",
+    upgradeChoices: "upgradeChoices",
+    eliteChanceBonus: "eliteChanceBonus",
+    bossHealthMult: "bossHealthMultiplier",
+    bossProjectileSpeedMult: "bossProjectileSpeedMultiplier",
+    enemyProjectileSpeedMult: "enemyProjectileSpeedMultiplier",
+    waveEnemyCountMult: "waveEnemyCountMultiplier",
+} as const satisfies Record<string, keyof WeeklyAffix>;
+
+function buildEnemies(table: CsvTable, issues: ContentIssue[]) {
+    const enemies = {} as Record<EnemyKind, EnemyDefinition>;
+    const elites = {} as Record<EnemyKind, EliteTuning>;
+    if (!requireColumns(table, ENEMY_COLUMNS, issues)) {
+        return { enemies, elites };
+    }
+    table.rows.forEach((row) => {
+        const read = createRowReader(table, row, issues);
+        const kind = read.oneOf("id", ENEMY_KINDS);
+        read.text("name");
+        read.text("behavior");
+        read.number("xp", { min: 0 });
+        read.number("size", { min: 1 });
+        const definition: EnemyDefinition = {
+            kind,
+            speed: read.number("speed", { min: 0 }),
+            health: read.number("health", { min: 1 }),
+            damage: read.number("damage", { min: 0 }),
+        };
+        const fireCooldown = read.optionalNumber("fireCooldown", { min: 0 });
+        const projectileSpeed = read.optionalNumber("projectileSpeed", {
+            min: 0,
+        });
+        if (fireCooldown !== undefined) definition.fireCooldown = fireCooldown;
+        if (projectileSpeed !== undefined) {
+            definition.projectileSpeed = projectileSpeed;
+        }
+        if ((fireCooldown === undefined) !== (projectileSpeed === undefined)) {
+            read.fail(
+                "fireCooldown",
+                "ranged enemies need both fireCooldown and projectileSpeed"
+            );
+        }
+        enemies[kind] = definition;
+        elites[kind] = {
+            health: read.number("elite_healthMult", { min: 0 }),
+            speed: read.number("elite_speedMult", { min: 0 }),
+            damage: read.number("elite_damageMult", { min: 0 }),
+            behaviors: read.list("elite_behaviors").map((behavior) => {
+                if (!(ELITE_BEHAVIORS as string[]).includes(behavior)) {
+                    read.fail(
+                        "elite_behaviors",
+                        `unknown elite behavior "${behavior}"`
+                    );
+                }
+                return behavior as EliteBehavior;
+            }),
+        };
+    });
+    ENEMY_KINDS.filter((kind) => !enemies[kind]).forEach((kind) => {
+        issues.push({
+            file: table.file,
+            line: 1,
+            message: `missing row for enemy "${kind}"`,
+        });
+    });
+    return { enemies, elites };
+}
+
+function readBossPhase(
+    read: RowReader,
+    phase: number,
+    patterns: string[]
+): BossPhaseDefinition {
+    const column = (name: string) => `phase${phase}_${name}`;
+    const phasePatterns = read.list(column("patterns"));
+    if (phasePatterns.length === 0) {
+        read.fail(column("patterns"), "is required");
+    }
+    phasePatterns
+        .filter((pattern) => !patterns.includes(pattern))
+        .forEach((pattern) => {
+            read.fail(
+                column("patterns"),
+                `"${pattern}" is not in this boss's patterns`
+            );
+        });
+    const definition: BossPhaseDefinition = {
+        patterns: phasePatterns,
+        cooldownMultiplier: read.number(column("cooldown"), { min: 0.1 }),
+        movement: read.oneOf(column("movement"), BOSS_MOVEMENT_STYLES),
+        overlapChance: read.number(column("overlap"), { min: 0, max: 1 }),
+    };
+    const summonIntervalMs = read.optionalNumber(column("summonMs"), {
+        min: 500,
+    });
+    if (summonIntervalMs !== undefined) {
+        definition.summonIntervalMs = summonIntervalMs;
+    }
+    return definition;
+}
+
+function buildBosses(table: CsvTable, issues: ContentIssue[]) {
+    if (!requireColumns(table, BOSS_COLUMNS, issues)) return [];
+    return table.rows.map((row): BossDefinition => {
+        const read = createRowReader(table, row, issues);
+        read.number("base_health", { min: 1 });
+        const tuning: BossDefinition["tuning"] = {};
+        const healthMultiplier = read.optionalNumber("healthMult", { min: 0 });
+        const speedMultiplier = read.optionalNumber("speedMult", { min: 0 });
+        const fireRateMultiplier = read.optionalNumber("fireRateMult", {
+            min: 0,
+        });
+        const projectileSpeedMultiplier = read.optionalNumber(
+            "projectileSpeedMult",
+            { min: 0 }
+        );
+        if (healthMultiplier !== undefined) {
+            tuning.healthMultiplier = healthMultiplier;
+        }
+        if (speedMultiplier !== undefined) {
+            tuning.speedMultiplier = speedMultiplier;
+        }
+        if (fireRateMultiplier !== undefined) {
+            tuning.fireRateMultiplier = fireRateMultiplier;
+        }
+        if (projectileSpeedMultiplier !== undefined) {
+            tuning.projectileSpeedMultiplier = projectileSpeedMultiplier;
+        }
+        const patterns = read.list("patterns");
+        if (patterns.length === 0) read.fail("patterns", "is required");
+        patterns.forEach((pattern) => {
+            if (!(BOSS_PATTERN_IDS as readonly string[]).includes(pattern)) {
+                read.fail("patterns", `unknown boss pattern "${pattern}"`);
+            }
+        });
+        return {
+            id: read.text("id"),
+            name: read.text("name"),
+            description: read.text("description"),
+            tuning,
+            patterns,
+            phases: [
+                readBossPhase(read, 1, patterns),
+                readBossPhase(read, 2, patterns),
+                readBossPhase(read, 3, patterns),
+            ],
+        };
+    });
+}
+
+function buildMiniBosses(table: CsvTable, issues: ContentIssue[]) {
+    if (!requireColumns(table, MINI_BOSS_COLUMNS, issues)) return [];
+    const kinds = ENEMY_KINDS.filter(
+        (kind): kind is MiniBossDefinition["kind"] => kind !== "boss"
+    );
+    return table.rows.map((row): MiniBossDefinition => {
+        const read = createRowReader(table, row, issues);
+        const patterns = read.list("patterns");
+        if (patterns.length === 0) read.fail("patterns", "is required");
+        patterns.forEach((pattern) => {
+            if (!(BOSS_PATTERN_IDS as readonly string[]).includes(pattern)) {
+                read.fail("patterns", `unknown boss pattern "${pattern}"`);
+            }
+        });
+        const miniBoss: MiniBossDefinition = {
+            id: read.text("id"),
+            name: read.text("name"),
+            description: read.text("description"),
+            kind: read.oneOf("kind", kinds),
+            healthMultiplier: read.number("healthMult", { min: 1 }),
+            scale: read.number("scale", { min: 1 }),
+            tint: read.number("tint", { min: 0, max: 0xffffff }),
+            patterns,
+            cooldownMultiplier: read.number("cooldown", { min: 0.1 }),
+            rareDrops: read.number("rareDrops", { min: 0, integer: true }),
+            threat: read.number("threat", { min: 1 }),
+        };
+        const splitCount = read.optionalNumber("splitCount", {
+            min: 1,
+            integer: true,
+        });
+        if (splitCount !== undefined) {
+            if (miniBoss.kind !== "splitter") {
+                read.fail("splitCount", "only splitters shed minis");
+            }
+            miniBoss.splitCount = splitCount;
+        }
+        return miniBoss;
+    });
+}
+
+function buildUpgrades(table: CsvTable, issues: ContentIssue[]) {
+    if (!requireColumns(table, UPGRADE_COLUMNS, issues)) return [];
+    return table.rows.map((row): UpgradeDefinition => {
+        const read = createRowReader(table, row, issues);
+        read.text("effect_type");
+        read.optionalNumber("diminishing_after", { min: 1, integer: true });
+        const upgrade: UpgradeDefinition = {
+            id: read.text("id"),
+            name: read.text("name"),
+            description: read.text("description"),
+            rarity: read.oneOf("rarity", RARITIES),
+            category: read.oneOf("category", CATEGORIES),
+        };
+        const maxStacks = read.optionalNumber("maxStacks", {
+            min: 1,
+            integer: true,
+        });
+        const dropWeight = read.optionalNumber("dropWeight", { min: 0 });
+        if (maxStacks !== undefined) upgrade.maxStacks = maxStacks;
+        if (dropWeight !== undefined) upgrade.dropWeight = dropWeight;
+        return upgrade;
+    });
+}
+
+function buildAffixes(table: CsvTable, issues: ContentIssue[]) {
+    const affixConflicts: Record<string, string[]> = {};
+    const columns = [
+        "id",
+        "name",
+        "description",
+        ...Object.keys(AFFIX_MODIFIERS),
+        "conflicts",
+    ];
+    if (!requireColumns(table, columns, issues)) {
+        return { affixes: [], affixConflicts };
+    }
+    const ids = new Set(table.rows.map((row) => row.values.id));
+    const addConflict = (a: string, b: string) => {
+        const list = (affixConflicts[a] ??= []);
+        if (!list.includes(b)) list.push(b);
+    };
+    const affixes = table.rows.map((row): WeeklyAffix => {
+        const read = createRowReader(table, row, issues);
+        const affix: WeeklyAffix = {
+            id: read.text("id"),
+            name: read.text("name"),
+            description: read.text("description"),
+        };
+        Object.entries(AFFIX_MODIFIERS).forEach(([column, field]) => {
+            const value = read.optionalNumber(column, {
+                min: field === "upgradeChoices" ? 1 : 0,
+                integer: field === "upgradeChoices",
+            });
+            if (value !== undefined) affix[field] = value;
+        });
+        read.list("conflicts").forEach((other) => {
+            if (other === affix.id) {
+                read.fail("conflicts", "an affix can't conflict with itself");
+            } else if (!ids.has(other)) {
+                read.fail("conflicts", `unknown affix "${other}"`);
+            } else {
+                addConflict(affix.id, other);
+                addConflict(other, affix.id);
+            }
+        });
+        return affix;
+    });
+    return { affixes, affixConflicts };
+}
+
+function buildSynergies(
+    table: CsvTable,
+    upgradeIds: Set<string>,
+    issues: ContentIssue[]
+) {
+    if (!requireColumns(table, SYNERGY_COLUMNS, issues)) return [];
+    return table.rows.map((row): SynergyDefinition => {
+        const read = createRowReader(table, row, issues);
+        const requires = read.list("requires");
+        if (requires.length < 2) {
+            read.fail("requires", "a synergy needs at least two upgrades");
+        }
+        requires
+            .filter((id) => !upgradeIds.has(id))
+            .forEach((id) => {
+                read.fail("requires", `unknown upgrade "${id}"`);
+            });
+        // bonus_type "none" marks a purely behavioral synergy
+        const bonusTypes = read.list("bonus_type");
+        const bonusValues = read.list("bonus_value");
+        const behavioral = bonusTypes.length === 1 && bonusTypes[0] === "none";
+        if (!behavioral && bonusTypes.length !== bonusValues.length) {
+            read.fail(
+                "bonus_value",
+                `expected ${bonusTypes.length} value(s) for ${bonusTypes.join(";")}`
+            );
+        }
+        bonusValues.forEach((value) => {
+            if (!Number.isFinite(Number(value))) {
+                read.fail("bonus_value", `"${value}" is not a number`);
+            }
+        });
+        return {
+            id: read.text("id"),
+            name: read.text("name"),
+            description: read.text("description"),
+            requires,
+        };
+    });
+}
+
+/**
+ * Parses and validates every table. Definitions are always returned so
+ * callers can decide whether issues are fatal.
+ */
+export function loadContentTables(sources: ContentTableSources): {
+    content: GameContent;
+    issues: ContentIssue[];
+} {
+    const issues: ContentIssue[] = [];
+    const table = (name: ContentTableName) => {
+        const parsed = parseCsv(
+            sources[name],
+            CONTENT_TABLE_FILES[name],
+            issues
+        );
+        checkUniqueIds(parsed, issues);
+        return parsed;
+    };
+    const { enemies, elites } = buildEnemies(table("enemies"), issues);
+    const upgrades = buildUpgrades(table("upgrades"), issues);
+    const { affixes, affixConflicts } = buildAffixes(table("affixes"), issues);
+    const content: GameContent = {
+        enemies,
+        elites,
+        bosses: buildBosses(table("bosses"), issues),
+        miniBosses: buildMiniBosses(table("minibosses"), issues),
+        upgrades,
+        affixes,
+        affixConflicts,
+        synergies: buildSynergies(
+            table("synergies"),
+            new Set(upgrades.map((u) => u.id)),
+            issues
+        ),
+    };
+    return { content, issues };
+}
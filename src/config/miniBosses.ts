@@ -0,0 +1,8 @@
+import type { MiniBossDefinition } from "../models/types";
+import { GAME_CONTENT } from "./content/gameContent";
+
+// Authored in v2/data/minibosses.csv
+export const MINI_BOSSES: MiniBossDefinition[] = GAME_CONTENT.miniBosses;
+
+export const getMiniBoss = (id: string) =>
+    MINI_BOSSES.find((miniBoss) => miniBoss.id === id);
@@ -229,7 +229,7 @@ export function calculateMaxDefenseMultiplier(upgrades: Record<string, number>):
   const stabilizerStacks = upgrades['stabilizers'] || 0;
   if (stabilizerStacks > 0) {
     // Stabilizers affect collision damage separately, not included in general reduction
-    // This is handled in the collision damage calculation in MainScene
+    // This is handled in the collision damage calculation in CombatSystem
   }
   
   return totalReduction;
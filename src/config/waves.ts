@@ -1,97 +1,298 @@
-import type { WaveDefinition } from "../models/types";
+import type {
+    EnemyKind,
+    SpawnFormation,
+    WaveDefinition,
+} from "../models/types";
 
+/**
+ * Wave scripts. Each wave is a list of groups; the first arrives as the wave
+ * starts, later ones wait on `delayMs` and `afterCleared`. A wave is over
+ * once every group has spawned and been destroyed.
+ */
 export const WAVES: WaveDefinition[] = [
     // Early waves (1-4): Gentle introduction
-    { id: "wave-1", enemies: [{ kind: "drifter", count: 3 }] },
+    { id: "wave-1", groups: [{ enemies: [{ kind: "drifter", count: 3 }] }] },
     {
         id: "wave-2",
-        enemies: [
-            { kind: "drifter", count: 3 },
-            { kind: "watcher", count: 1 },
+        groups: [
+            {
+                enemies: [{ kind: "drifter", count: 3 }],
+                formation: "line",
+                side: "top",
+            },
+            { enemies: [{ kind: "watcher", count: 1 }], delayMs: 4000 },
         ],
     },
     {
         id: "wave-3",
-        enemies: [
-            { kind: "drifter", count: 4 },
-            { kind: "watcher", count: 1 },
-            { kind: "phantom", count: 1 },
+        groups: [
+            { enemies: [{ kind: "drifter", count: 4 }], formation: "ring" },
+            {
+                enemies: [
+                    { kind: "watcher", count: 1 },
+                    { kind: "phantom", count: 1 },
+                ],
+                afterCleared: 0.5,
+            },
         ],
     },
     {
         id: "wave-4",
-        enemies: [
-            { kind: "drifter", count: 4 },
-            { kind: "watcher", count: 2 },
-            { kind: "orbiter", count: 1 },
+        groups: [
+            { enemies: [{ kind: "drifter", count: 4 }], formation: "pincer" },
+            {
+                enemies: [
+                    { kind: "watcher", count: 2 },
+                    { kind: "orbiter", count: 1 },
+                ],
+                formation: "line",
+                delayMs: 5000,
+            },
         ],
     },
 
     // Mid-game waves (5-7): Gradual ramp up
     {
         id: "wave-5",
-        enemies: [
-            { kind: "drifter", count: 5 },
-            { kind: "watcher", count: 2 },
-            { kind: "phantom", count: 1 },
-            { kind: "mass", count: 1 },
+        groups: [
+            {
+                enemies: [
+                    { kind: "drifter", count: 5 },
+                    { kind: "watcher", count: 2 },
+                ],
+            },
+            {
+                enemies: [
+                    { kind: "shielder", count: 1 },
+                    { kind: "mass", count: 1 },
+                ],
+                formation: "corner-stack",
+                afterCleared: 0.4,
+            },
+            { enemies: [{ kind: "phantom", count: 1 }], delayMs: 8000 },
+            {
+                enemies: [{ kind: "drifter", count: 3 }],
+                miniBoss: "splitter-queen",
+                side: "top",
+                afterCleared: 0.7,
+            },
         ],
     },
     {
         id: "wave-6",
-        enemies: [
-            { kind: "drifter", count: 5 },
-            { kind: "watcher", count: 2, elite: true },
-            { kind: "orbiter", count: 2 },
-            { kind: "splitter", count: 1 },
+        groups: [
+            { enemies: [{ kind: "drifter", count: 5 }], formation: "ring" },
+            {
+                enemies: [
+                    { kind: "watcher", count: 2, elite: true },
+                    { kind: "sniper", count: 1 },
+                ],
+                formation: "line",
+                side: "top",
+                delayMs: 3000,
+            },
+            {
+                enemies: [
+                    { kind: "orbiter", count: 2 },
+                    { kind: "splitter", count: 1 },
+                ],
+                formation: "pincer",
+                afterCleared: 0.6,
+            },
         ],
     },
     {
         id: "wave-7",
-        enemies: [
-            { kind: "drifter", count: 6 },
-            { kind: "watcher", count: 2, elite: true },
-            { kind: "phantom", count: 2 },
-            { kind: "orbiter", count: 1 },
-            { kind: "mass", count: 1 },
+        groups: [
+            { enemies: [{ kind: "drifter", count: 6 }], formation: "pincer" },
+            {
+                enemies: [
+                    { kind: "mass", count: 1 },
+                    { kind: "minelayer", count: 1 },
+                    { kind: "healer", count: 1 },
+                ],
+                formation: "corner-stack",
+                afterCleared: 0.3,
+            },
+            {
+                enemies: [
+                    { kind: "watcher", count: 2, elite: true },
+                    { kind: "phantom", count: 2 },
+                    { kind: "orbiter", count: 1 },
+                ],
+                formation: "ring",
+                afterCleared: 0.7,
+            },
         ],
     },
 
     // Late waves (8-10): Challenge waves
     {
         id: "wave-8",
-        enemies: [
-            { kind: "drifter", count: 6 },
-            { kind: "watcher", count: 3, elite: true },
-            { kind: "phantom", count: 2 },
-            { kind: "orbiter", count: 2 },
-            { kind: "splitter", count: 1 },
-            { kind: "mass", count: 1 },
+        groups: [
+            {
+                enemies: [
+                    { kind: "drifter", count: 6 },
+                    { kind: "shielder", count: 1 },
+                ],
+                formation: "line",
+            },
+            {
+                enemies: [
+                    { kind: "watcher", count: 3, elite: true },
+                    { kind: "sniper", count: 1 },
+                    { kind: "healer", count: 1 },
+                ],
+                formation: "pincer",
+                delayMs: 6000,
+            },
+            {
+                enemies: [
+                    { kind: "phantom", count: 2 },
+                    { kind: "orbiter", count: 2 },
+                    { kind: "splitter", count: 1 },
+                    { kind: "mass", count: 1 },
+                ],
+                formation: "ring",
+                afterCleared: 0.6,
+            },
+            {
+                enemies: [{ kind: "phantom", count: 2 }],
+                miniBoss: "watcher-prime",
+                side: "bottom",
+                afterCleared: 0.8,
+            },
         ],
     },
     {
         id: "wave-9",
-        enemies: [
-            { kind: "drifter", count: 7, elite: true },
-            { kind: "watcher", count: 3, elite: true },
-            { kind: "phantom", count: 2, elite: true },
-            { kind: "orbiter", count: 2 },
-            { kind: "splitter", count: 1 },
-            { kind: "mass", count: 2 },
+        groups: [
+            {
+                enemies: [{ kind: "drifter", count: 7, elite: true }],
+                formation: "ring",
+            },
+            {
+                enemies: [
+                    { kind: "shielder", count: 2 },
+                    { kind: "mass", count: 2 },
+                ],
+                formation: "corner-stack",
+                afterCleared: 0.3,
+            },
+            {
+                enemies: [
+                    { kind: "watcher", count: 3, elite: true },
+                    { kind: "sniper", count: 1, elite: true },
+                ],
+                formation: "line",
+                side: "top",
+                delayMs: 7000,
+            },
+            {
+                enemies: [
+                    { kind: "phantom", count: 2, elite: true },
+                    { kind: "orbiter", count: 2 },
+                    { kind: "splitter", count: 1 },
+                    { kind: "minelayer", count: 1 },
+                ],
+                formation: "pincer",
+                afterCleared: 0.7,
+            },
         ],
     },
     {
         id: "wave-10",
-        enemies: [
-            { kind: "drifter", count: 8, elite: true },
-            { kind: "watcher", count: 3, elite: true },
-            { kind: "phantom", count: 2, elite: true },
-            { kind: "orbiter", count: 2, elite: true },
-            { kind: "splitter", count: 2, elite: true },
-            { kind: "mass", count: 2, elite: true },
+        groups: [
+            {
+                enemies: [
+                    { kind: "drifter", count: 8, elite: true },
+                    { kind: "shielder", count: 2, elite: true },
+                ],
+                formation: "pincer",
+            },
+            {
+                enemies: [
+                    { kind: "watcher", count: 3, elite: true },
+                    { kind: "sniper", count: 1, elite: true },
+                    { kind: "healer", count: 1, elite: true },
+                ],
+                formation: "line",
+                side: "bottom",
+                delayMs: 5000,
+            },
+            {
+                enemies: [
+                    { kind: "mass", count: 2, elite: true },
+                    { kind: "minelayer", count: 1, elite: true },
+                ],
+                formation: "corner-stack",
+                afterCleared: 0.4,
+            },
+            {
+                enemies: [
+                    { kind: "phantom", count: 2, elite: true },
+                    { kind: "orbiter", count: 2, elite: true },
+                    { kind: "splitter", count: 2, elite: true },
+                ],
+                formation: "ring",
+                afterCleared: 0.7,
+            },
         ],
     },
-    { id: "boss", enemies: [{ kind: "boss", count: 1 }] },
+    { id: "boss", groups: [{ enemies: [{ kind: "boss", count: 1 }] }] },
 ];
 
 export const FINAL_WAVE_INDEX = WAVES.length;
+
+/** Enemies the infinite-mode generator can field; the boss keeps its own wave */
+export type WaveEnemyKind = Exclude<EnemyKind, "boss">;
+
+/**
+ * What one enemy of each kind costs out of a generated wave's threat budget.
+ * Elites cost `eliteCostMultiplier` times as much.
+ */
+export const ENEMY_THREAT: Record<WaveEnemyKind, number> = {
+    drifter: 1,
+    phantom: 1.5,
+    watcher: 2,
+    orbiter: 2,
+    splitter: 2.5,
+    shielder: 3,
+    sniper: 3,
+    minelayer: 3,
+    healer: 3.5,
+    mass: 4,
+};
+
+/**
+ * Infinite mode past the authored waves. Each wave spends
+ * `baseBudget * countScale` threat across a few groups, and every
+ * `miniBossInterval`th wave sets part of it aside for a pack of elite heavies.
+ */
+export const INFINITE_WAVE_RULES = {
+    // Roughly the threat of the last authored waves before elites
+    baseBudget: 48,
+    eliteCostMultiplier: 1.8,
+    baseEliteChance: 0.15,
+    eliteChancePerWave: 0.05,
+    maxEliteChance: 0.5,
+    minGroups: 2,
+    maxGroups: 4,
+    // Most kinds a single group mixes
+    maxKindsPerGroup: 3,
+    formations: [
+        "scatter",
+        "ring",
+        "line",
+        "pincer",
+        "corner-stack",
+    ] as SpawnFormation[],
+    // Later groups wait on either a timer or a share of the wave cleared
+    delayRangeMs: [3000, 8000] as [number, number],
+    clearedRange: [0.3, 0.7] as [number, number],
+    miniBossInterval: 5,
+    miniBossShare: 0.4,
+    miniBossKinds: ["mass", "shielder", "splitter"] as WaveEnemyKind[],
+    miniBossEscort: "healer" as WaveEnemyKind,
+    miniBossAfterCleared: 0.5,
+};
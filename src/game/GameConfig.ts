@@ -1,7 +1,7 @@
 import Phaser from "phaser";
+import { GAME_HEIGHT, GAME_WIDTH } from "./dimensions";
 
-export const GAME_WIDTH = 1100;
-export const GAME_HEIGHT = 700;
+export { GAME_HEIGHT, GAME_WIDTH };
 
 export const createGameConfig = (
 	parent: string | HTMLElement,
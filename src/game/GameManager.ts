@@ -1,21 +1,35 @@
 import Phaser from "phaser";
-import { AFFIXES } from "../config/affixes";
+import {
+    AFFIXES,
+    composeAffixes,
+    getAffixes,
+    runAffixIds,
+} from "../config/affixes";
 import { BOSSES } from "../config/bosses";
 import type {
     BossDefinition,
     RunMode,
+    RunReplay,
+    RunSetup,
     TwinControlConfig,
     WeeklyAffix,
 } from "../models/types";
-import { getWeeklySeed, hashSeed, Prng, pickFromList } from "../utils/seed";
+import {
+    createRandomSeed,
+    encodeSeedCode,
+    getDailySeed,
+    getSeedValue,
+    getWeeklySeed,
+} from "../utils/seed";
 import { createGameConfig } from "./GameConfig";
 import { BootScene } from "./scenes/BootScene";
 import { MainScene } from "./scenes/MainScene";
+import { rollSeason } from "./seasons";
 
 class GameManager {
     private game?: Phaser.Game;
     private mainScene?: MainScene;
-    private currentAffix?: WeeklyAffix;
+    private currentAffixes?: WeeklyAffix[];
     private seasonSeedId?: string;
     private seasonSeedValue?: number;
     private seasonBoss?: BossDefinition;
@@ -36,34 +50,39 @@ class GameManager {
 
     private ensureSeason(seedId?: string, forceRandom = false) {
         const weekly = getWeeklySeed();
-        // Check if cached seed is stale (from a previous week)
-        const cachedIsWeeklySeed = this.seasonSeedId?.startsWith("week-");
-        const cachedIsCurrentWeek = this.seasonSeedId === weekly.seedId;
-        const useCache = cachedIsWeeklySeed ? cachedIsCurrentWeek : true;
-
-        const finalSeedId = forceRandom
-            ? `random-${crypto.randomUUID()}`
-            : seedId ?? (useCache ? this.seasonSeedId : null) ?? weekly.seedId;
-        const seedValue = forceRandom
-            ? (crypto.randomUUID().split("-")[0] ?? "1")
-                  .split("")
-                  .reduce((acc, ch) => acc + ch.charCodeAt(0), 0)
-            : (seedId
-                  ? hashSeed(seedId)
-                  : (useCache ? this.seasonSeedValue : null) ??
-                    weekly.seedValue) || 1;
+        const daily = getDailySeed();
+        // Check if cached seed is stale (from a previous week or day)
+        const cachedId = this.seasonSeedId;
+        const useCache = cachedId?.startsWith("week-")
+            ? cachedId === weekly.seedId
+            : cachedId?.startsWith("day-")
+              ? cachedId === daily.seedId
+              : true;
+
+        // Random seeds are seed codes too, so any run can be shared
+        const random = forceRandom ? createRandomSeed() : null;
+        const finalSeedId =
+            random?.seedId ??
+            seedId ??
+            (useCache ? this.seasonSeedId : null) ??
+            weekly.seedId;
+        const seedValue =
+            random?.seedValue ??
+            (seedId
+                ? getSeedValue(seedId)
+                : (useCache ? this.seasonSeedValue : null) ??
+                  weekly.seedValue);
         if (
             this.seasonSeedId === finalSeedId &&
             this.seasonSeedValue === seedValue &&
-            this.currentAffix &&
+            this.currentAffixes &&
             this.seasonBoss
         ) {
             return;
         }
-        const affixRng = new Prng(seedValue ^ 0x9e3779b9);
-        this.currentAffix = pickFromList(AFFIXES, affixRng);
-        const bossRng = new Prng(seedValue);
-        this.seasonBoss = BOSSES[bossRng.nextInt(BOSSES.length)] ?? BOSSES[0];
+        const roll = rollSeason(seedValue);
+        this.currentAffixes = roll.affixes;
+        this.seasonBoss = roll.boss;
         this.seasonSeedId = finalSeedId;
         this.seasonSeedValue = seedValue;
     }
@@ -86,13 +105,15 @@ class GameManager {
         if (!this.seasonSeedId || !this.seasonSeedValue) return;
 
         // Use dev overrides if set
-        const affix = this.devAffixOverride ?? this.currentAffix;
+        const affixes = this.devAffixOverride
+            ? [this.devAffixOverride]
+            : this.currentAffixes ?? [];
         const boss = this.devBossOverride ?? this.seasonBoss;
 
         this.mainScene?.startNewRun(
             this.seasonSeedId,
             this.seasonSeedValue,
-            affix,
+            affixes,
             boss,
             {
                 mode: options?.mode,
@@ -101,6 +122,38 @@ class GameManager {
         );
     }
 
+    /** Guest side: builds the online run from the host's setup alone */
+    startOnlineRun(setup: RunSetup, twinControls: TwinControlConfig) {
+        if (!this.game) {
+            this.init("game-root");
+        }
+        this.lastTwinControls = twinControls;
+        const boss = BOSSES.find((b) => b.id === setup.bossId);
+        this.mainScene?.startNewRun(
+            setup.seedId,
+            setup.seedValue,
+            getAffixes(setup.affixIds),
+            boss,
+            { mode: "online", twinControls, setup }
+        );
+    }
+
+    playReplay(replay: RunReplay) {
+        if (!this.game) {
+            this.init("game-root");
+        }
+        // Replays carry their own seed, affixes and boss; the season is untouched
+        const affixes = getAffixes(runAffixIds(replay));
+        const boss = BOSSES.find((b) => b.id === replay.bossId);
+        this.mainScene?.startNewRun(
+            replay.seedId,
+            replay.seedValue,
+            affixes,
+            boss,
+            { mode: replay.mode, replay }
+        );
+    }
+
     applyUpgrade(id: string) {
         if (!this.game) return;
         this.mainScene?.applyUpgrade(id);
@@ -125,8 +178,24 @@ class GameManager {
         this.ensureSeason();
         return {
             seedId: this.seasonSeedId,
+            seedCode:
+                this.seasonSeedValue !== undefined
+                    ? encodeSeedCode(this.seasonSeedValue)
+                    : undefined,
             boss: this.seasonBoss,
-            affix: this.currentAffix,
+            affixes: this.currentAffixes ?? [],
+            affix: composeAffixes(this.currentAffixes ?? []) ?? undefined,
+            hardWeek: (this.currentAffixes?.length ?? 0) > 1,
+        };
+    }
+
+    /** Today's daily seed and its roll; doesn't change the current season */
+    getDailyInfo() {
+        const daily = getDailySeed();
+        return {
+            seedId: daily.seedId,
+            seedCode: encodeSeedCode(daily.seedValue),
+            ...rollSeason(daily.seedValue),
         };
     }
 
@@ -0,0 +1,3 @@
+// Playfield size, kept free of Phaser so headless code can share it.
+export const GAME_WIDTH = 1100;
+export const GAME_HEIGHT = 700;
@@ -0,0 +1,173 @@
+/**
+ * EnemyBehavior - What every enemy kind and elite behavior module plugs into
+ *
+ * A module owns its per-enemy state: `init` builds it when the enemy spawns,
+ * `update` runs it each tick, `draw` paints its telegraphs and `onDeath` runs
+ * when the enemy is destroyed. The state is plain data, so the simulation can
+ * snapshot and restore it. Modules never touch the scene or the simulation
+ * directly, only the enemy's body and the context they are handed, so they
+ * can be run in isolation.
+ */
+
+import type { SfxKey } from "../../audio/SoundManager";
+import type { EliteBehavior, EnemyKind } from "../../models/types";
+
+/** The part of an enemy sprite behaviors move around */
+export interface EnemyBody {
+    x: number;
+    y: number;
+    setVelocity(x: number, y: number): unknown;
+    setPosition(x: number, y: number): unknown;
+}
+
+export interface ArenaBounds {
+    left: number;
+    right: number;
+    top: number;
+    bottom: number;
+}
+
+/** What an enemy's state can draw on as it spawns */
+export interface EnemySpawnContext {
+    getTime: () => number;
+    getBounds: () => ArenaBounds;
+    randFloat: (min: number, max: number) => number;
+    randBetween: (min: number, max: number) => number;
+    rngNext: () => number;
+}
+
+/** Services an enemy can call on while it runs */
+export interface EnemyContext extends EnemySpawnContext {
+    spawnBurstVisual: (
+        x: number,
+        y: number,
+        radius: number,
+        color: number,
+        alpha: number
+    ) => void;
+    fireBullet: (
+        x: number,
+        y: number,
+        dirX: number,
+        dirY: number,
+        speed: number,
+        heavy: boolean
+    ) => void;
+    damagePilotsNear: (source: EnemyBody, radius: number, amount: number) => void;
+    shakeCamera: (durationMs: number, intensity: number) => void;
+    playSfx: (key: SfxKey) => void;
+    spawnMiniSplitter: (x: number, y: number, elite: boolean) => void;
+    steerBoss: (boss: EnemyBody) => void;
+    /** Drops a stationary mine that arms after a moment */
+    layMine: (x: number, y: number) => void;
+    /** Restores a share of max health to other enemies in range */
+    healEnemiesNear: (
+        source: EnemyBody,
+        radius: number,
+        fraction: number
+    ) => number;
+}
+
+/** Telegraphs and auras, drawn on a layer cleared every frame */
+export interface EnemyCanvas {
+    drawArc: (
+        x: number,
+        y: number,
+        radius: number,
+        startAngle: number,
+        endAngle: number,
+        color: number,
+        alpha: number,
+        width: number
+    ) => void;
+    drawLine: (
+        x1: number,
+        y1: number,
+        x2: number,
+        y2: number,
+        color: number,
+        alpha: number,
+        width: number
+    ) => void;
+}
+
+/** Spawn-time numbers, already scaled for difficulty and affixes */
+export interface EnemySetup {
+    kind: EnemyKind;
+    elite: boolean;
+    eliteBehaviors: EliteBehavior[];
+    damage: number;
+    /** Seconds between shots, 0 for enemies that never shoot */
+    fireCooldown: number;
+    projectileSpeed: number;
+    /** Earliest time the first shot goes off */
+    firstShotAt: number;
+    /** Shed by a splitter on death, too small to split again */
+    mini: boolean;
+    /** Minis a splitter sheds when a mini-boss overrides the usual two */
+    splitCount?: number;
+}
+
+export interface EnemyGun {
+    cooldown: number;
+    projectileSpeed: number;
+    nextFire: number;
+}
+
+/** What an enemy is going after this frame */
+export interface EnemyFrame {
+    targetX: number;
+    targetY: number;
+    /** Unit vector toward the target */
+    dirX: number;
+    dirY: number;
+    dist: number;
+    /** Spawn speed with any slow applied */
+    speed: number;
+    /**
+     * Heads straight for the target at `speed * speedScale`, unless an elite
+     * behavior moves the enemy its own way
+     */
+    chase: (speedScale?: number) => void;
+    /** Fires at the target, or along `dir`, once the gun is ready */
+    shoot: (
+        gun: EnemyGun,
+        heavy?: boolean,
+        dir?: { x: number; y: number }
+    ) => void;
+}
+
+export interface EnemyBehavior<S> {
+    /** XP the enemy drops when destroyed */
+    xp: number;
+    init(setup: EnemySetup, ctx: EnemySpawnContext): S;
+    update(enemy: EnemyBody, state: S, frame: EnemyFrame, ctx: EnemyContext): void;
+    /** Read-only: draws from the state `update` left behind */
+    draw?(enemy: EnemyBody, state: S, canvas: EnemyCanvas, now: number): void;
+    onDeath?(enemy: EnemyBody, state: S, ctx: EnemyContext): void;
+    /** Whether a pilot's shot at (x, y) stops against this enemy's guard */
+    blocksShot?(enemy: EnemyBody, state: S, x: number, y: number): boolean;
+}
+
+/** How a chasing elite moves instead of heading straight in */
+export interface ChaseStep {
+    dirX: number;
+    dirY: number;
+    speed: number;
+}
+
+export interface EliteBehaviorModule<S> {
+    init(setup: EnemySetup, ctx: EnemySpawnContext): S;
+    update?(enemy: EnemyBody, state: S, ctx: EnemyContext): void;
+    onDeath?(enemy: EnemyBody, state: S, ctx: EnemyContext): void;
+    /** Takes over `frame.chase` for kinds that chase */
+    chase?(enemy: EnemyBody, state: S, step: ChaseStep, ctx: EnemyContext): void;
+    /** Multiplies the time between shots */
+    fireCooldownScale?: number;
+}
+
+export const loadGun = (setup: EnemySetup): EnemyGun => ({
+    cooldown: setup.fireCooldown,
+    projectileSpeed: setup.projectileSpeed,
+    nextFire: setup.firstShotAt,
+});
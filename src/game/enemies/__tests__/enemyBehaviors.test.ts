@@ -0,0 +1,328 @@
+/**
+ * Enemy behavior modules, run in isolation: a plain body and a stub context
+ * stand in for the Phaser sprite and the scene
+ */
+
+import { describe, it, expect, vi } from 'vitest';
+import type { EnemyBody, EnemyContext, EnemySetup } from '../EnemyBehavior';
+import {
+  ELITE_BEHAVIORS,
+  ENEMY_BEHAVIORS,
+  drawEnemyBehavior,
+  enemyBehaviorDied,
+  enemyBlocksShot,
+  initEnemyBehavior,
+  updateEnemyBehavior,
+} from '../enemyRegistry';
+import type { EliteBehavior, EnemyKind } from '../../../models/types';
+
+const makeBody = (x = 0, y = 0) => {
+  const body = {
+    x,
+    y,
+    vx: 0,
+    vy: 0,
+    setVelocity(vx: number, vy: number) {
+      body.vx = vx;
+      body.vy = vy;
+    },
+    setPosition(px: number, py: number) {
+      body.x = px;
+      body.y = py;
+    },
+  } satisfies EnemyBody & { vx: number; vy: number };
+  return body;
+};
+
+const makeContext = (overrides: Partial<EnemyContext> = {}) => {
+  let now = 1000;
+  const ctx = {
+    getTime: () => now,
+    getBounds: () => ({ left: 0, right: 800, top: 0, bottom: 600 }),
+    randFloat: (min: number) => min,
+    randBetween: (min: number) => min,
+    rngNext: () => 0.75,
+    spawnBurstVisual: vi.fn(),
+    fireBullet: vi.fn(),
+    damagePilotsNear: vi.fn(),
+    shakeCamera: vi.fn(),
+    playSfx: vi.fn(),
+    spawnMiniSplitter: vi.fn(),
+    steerBoss: vi.fn(),
+    layMine: vi.fn(),
+    healEnemiesNear: vi.fn(() => 0),
+    ...overrides,
+  };
+  return { ctx, advance: (ms: number) => (now += ms) };
+};
+
+const makeCanvas = () => ({ drawArc: vi.fn(), drawLine: vi.fn() });
+
+/** Binds an enemy's behavior state to the stub context */
+const bindEnemy = (enemySetup: EnemySetup, ctx: EnemyContext) => {
+  const behavior = initEnemyBehavior(enemySetup, ctx);
+  return {
+    behavior,
+    update: (body: EnemyBody, targetX: number, targetY: number, speed: number) =>
+      updateEnemyBehavior(body, behavior, targetX, targetY, speed, ctx),
+    die: (body: EnemyBody) => enemyBehaviorDied(body, behavior, ctx),
+    blocksShot: (body: EnemyBody, x: number, y: number) => enemyBlocksShot(body, behavior, x, y),
+    draw: (body: EnemyBody, canvas: ReturnType<typeof makeCanvas>) =>
+      drawEnemyBehavior(body, behavior, canvas, ctx.getTime()),
+  };
+};
+
+const setup = (kind: EnemyKind, extra: Partial<EnemySetup> = {}): EnemySetup => ({
+  kind,
+  elite: false,
+  eliteBehaviors: [],
+  damage: 10,
+  fireCooldown: 2,
+  projectileSpeed: 150,
+  firstShotAt: 0,
+  mini: false,
+  ...extra,
+});
+
+describe('enemy registry', () => {
+  it('has a module for every enemy kind and elite behavior', () => {
+    const kinds: EnemyKind[] = [
+      'drifter',
+      'watcher',
+      'mass',
+      'phantom',
+      'orbiter',
+      'splitter',
+      'shielder',
+      'sniper',
+      'minelayer',
+      'healer',
+      'boss',
+    ];
+    const elites: EliteBehavior[] = ['burst_movement', 'rapid_fire', 'shield_regen', 'death_explosion'];
+    expect(Object.keys(ENEMY_BEHAVIORS).sort()).toEqual([...kinds].sort());
+    expect(Object.keys(ELITE_BEHAVIORS).sort()).toEqual([...elites].sort());
+  });
+});
+
+describe('enemy kinds', () => {
+  it('drifters head straight for the target', () => {
+    const { ctx } = makeContext();
+    const body = makeBody();
+    bindEnemy(setup('drifter'), ctx).update(body, 300, 400, 100);
+    expect(body.vx).toBeCloseTo(60);
+    expect(body.vy).toBeCloseTo(80);
+  });
+
+  it('watchers hold their range and shoot when the gun is ready', () => {
+    const { ctx, advance } = makeContext();
+    const watcher = bindEnemy(setup('watcher', { firstShotAt: 1500 }), ctx);
+    const body = makeBody();
+
+    watcher.update(body, 100, 0, 50);
+    expect(body.vx).toBe(-50);
+    watcher.update(body, 200, 0, 50);
+    expect(body.vx).toBe(0);
+    watcher.update(body, 400, 0, 50);
+    expect(body.vx).toBe(50);
+    expect(ctx.fireBullet).not.toHaveBeenCalled();
+
+    advance(500);
+    watcher.update(body, 400, 0, 50);
+    watcher.update(body, 400, 0, 50);
+    expect(ctx.fireBullet).toHaveBeenCalledTimes(1);
+    expect(ctx.fireBullet).toHaveBeenCalledWith(0, 0, 1, 0, 150, false);
+  });
+
+  it('masses lumber in and fire heavy shots', () => {
+    const { ctx } = makeContext();
+    const body = makeBody();
+    bindEnemy(setup('mass'), ctx).update(body, 100, 0, 100);
+    expect(body.vx).toBeCloseTo(70);
+    expect(ctx.fireBullet).toHaveBeenCalledWith(0, 0, 1, 0, 150, true);
+  });
+
+  it('phantoms drift until their teleport comes up, then blink in bounds', () => {
+    const { ctx, advance } = makeContext();
+    const phantom = bindEnemy(setup('phantom'), ctx);
+    const body = makeBody(400, 300);
+
+    phantom.update(body, 500, 300, 100);
+    expect(body.vx).toBeCloseTo(40);
+    expect(ctx.spawnBurstVisual).not.toHaveBeenCalled();
+
+    advance(1500);
+    phantom.update(body, 790, 300, 100);
+    expect(body.x).toBe(760);
+    expect(body.vx).toBe(0);
+    expect(ctx.spawnBurstVisual).toHaveBeenCalledTimes(2);
+  });
+
+  it('orbiters circle the target', () => {
+    const { ctx } = makeContext();
+    const orbiter = bindEnemy(setup('orbiter', { firstShotAt: 5000 }), ctx);
+    const body = makeBody(0, 0);
+    orbiter.update(body, 0, 0, 100);
+    // Starts at angle 0 and radius 120, moving toward the orbit point
+    expect(body.vx).toBeGreaterThan(0);
+    expect(Math.hypot(body.vx, body.vy)).toBeCloseTo(100);
+  });
+
+  it('splitters shed two minis on death, and minis shed none', () => {
+    const { ctx } = makeContext();
+    bindEnemy(setup('splitter', { elite: true }), ctx).die(makeBody(100, 100));
+    expect(ctx.spawnMiniSplitter).toHaveBeenCalledTimes(2);
+    expect(ctx.spawnMiniSplitter).toHaveBeenCalledWith(expect.any(Number), expect.any(Number), true);
+
+    const mini = makeContext();
+    bindEnemy(setup('splitter', { mini: true }), mini.ctx).die(makeBody());
+    expect(mini.ctx.spawnMiniSplitter).not.toHaveBeenCalled();
+  });
+
+  it('a mini-boss splitter sheds its own brood size', () => {
+    const { ctx } = makeContext();
+    bindEnemy(setup('splitter', { elite: true, splitCount: 6 }), ctx).die(makeBody());
+    expect(ctx.spawnMiniSplitter).toHaveBeenCalledTimes(6);
+  });
+
+  it('shielders turn their barrier toward the pilot and block shots on it', () => {
+    const { ctx, advance } = makeContext();
+    const shielder = bindEnemy(setup('shielder'), ctx);
+    const body = makeBody(400, 300);
+
+    // Pilot straight above: the barrier starts facing right and turns slowly
+    shielder.update(body, 400, 100, 60);
+    expect(shielder.blocksShot(body, 456, 300)).toBe(true);
+    expect(shielder.blocksShot(body, 400, 244)).toBe(false);
+
+    advance(1000);
+    shielder.update(body, 400, 100, 60);
+    expect(shielder.blocksShot(body, 400, 244)).toBe(true);
+    expect(shielder.blocksShot(body, 400, 356)).toBe(false);
+    // Shots well inside or outside the ring pass
+    expect(shielder.blocksShot(body, 400, 280)).toBe(false);
+    const canvas = makeCanvas();
+    shielder.draw(body, canvas);
+    expect(canvas.drawArc).toHaveBeenCalled();
+  });
+
+  it('shielders stop short of the pilot', () => {
+    const { ctx } = makeContext();
+    const body = makeBody();
+    const shielder = bindEnemy(setup('shielder'), ctx);
+    shielder.update(body, 300, 0, 60);
+    expect(body.vx).toBe(60);
+    shielder.update(body, 150, 0, 60);
+    expect(body.vx).toBe(0);
+  });
+
+  it('snipers paint a locked laser line before firing down it', () => {
+    const { ctx, advance } = makeContext();
+    const sniper = bindEnemy(setup('sniper'), ctx);
+    const body = makeBody();
+
+    const canvas = makeCanvas();
+    sniper.update(body, 360, 0, 70);
+    sniper.draw(body, canvas);
+    expect(canvas.drawLine).toHaveBeenCalledTimes(1);
+    expect(ctx.fireBullet).not.toHaveBeenCalled();
+
+    // The pilot moves off the line; the shot still goes where it was aimed
+    advance(900);
+    sniper.update(body, 0, 360, 70);
+    sniper.draw(body, canvas);
+    expect(body.vx).toBe(0);
+    expect(ctx.fireBullet).toHaveBeenCalledWith(0, 0, 1, 0, 150, true);
+    expect(canvas.drawLine).toHaveBeenCalledTimes(1);
+  });
+
+  it('mine-layers wander and drop mines on a timer', () => {
+    const { ctx, advance } = makeContext();
+    const minelayer = bindEnemy(setup('minelayer'), ctx);
+    const body = makeBody(400, 300);
+
+    minelayer.update(body, 0, 0, 60);
+    expect(ctx.layMine).not.toHaveBeenCalled();
+    advance(2600);
+    minelayer.update(body, 0, 0, 60);
+    expect(ctx.layMine).toHaveBeenCalledWith(400, 300);
+    // Heads for its waypoint, not the pilot
+    expect(body.vx).toBeLessThan(0);
+    expect(body.vy).toBeLessThan(0);
+  });
+
+  it('healers pulse health into nearby enemies, wider as elites', () => {
+    const { ctx, advance } = makeContext();
+    const healer = bindEnemy(setup('healer'), ctx);
+    const body = makeBody();
+    healer.update(body, 300, 0, 65);
+    expect(ctx.healEnemiesNear).not.toHaveBeenCalled();
+    advance(2800);
+    healer.update(body, 300, 0, 65);
+    expect(ctx.healEnemiesNear).toHaveBeenCalledWith(body, 170, 0.2);
+
+    const elite = makeContext();
+    const eliteHealer = bindEnemy(setup('healer', { elite: true }), elite.ctx);
+    elite.advance(2800);
+    eliteHealer.update(body, 300, 0, 65);
+    expect(elite.ctx.healEnemiesNear).toHaveBeenCalledWith(body, 220, 0.3);
+  });
+
+  it('bosses leave their movement to the boss phase', () => {
+    const { ctx } = makeContext();
+    const body = makeBody();
+    bindEnemy(setup('boss'), ctx).update(body, 100, 100, 55);
+    expect(ctx.steerBoss).toHaveBeenCalledWith(body);
+  });
+});
+
+describe('elite behaviors', () => {
+  it('burst movement dashes, stops, then creeps until the next dash', () => {
+    const { ctx, advance } = makeContext();
+    const elite = bindEnemy(setup('drifter', { elite: true, eliteBehaviors: ['burst_movement'] }), ctx);
+    const body = makeBody();
+
+    elite.update(body, 100, 0, 100);
+    expect(body.vx).toBe(250);
+    advance(301);
+    elite.update(body, 100, 0, 100);
+    expect(body.vx).toBe(0);
+    advance(10);
+    elite.update(body, 100, 0, 100);
+    expect(body.vx).toBeCloseTo(30);
+  });
+
+  it('burst movement leaves kinds that never chase alone', () => {
+    const { ctx } = makeContext();
+    const elite = bindEnemy(setup('phantom', { elite: true, eliteBehaviors: ['burst_movement'] }), ctx);
+    const body = makeBody();
+    elite.update(body, 100, 0, 100);
+    expect(body.vx).toBeCloseTo(40);
+  });
+
+  it('rapid fire halves the time between shots', () => {
+    const { ctx, advance } = makeContext();
+    const elite = bindEnemy(setup('watcher', { elite: true, eliteBehaviors: ['rapid_fire'] }), ctx);
+    const body = makeBody();
+    elite.update(body, 200, 0, 50);
+    advance(999);
+    elite.update(body, 200, 0, 50);
+    expect(ctx.fireBullet).toHaveBeenCalledTimes(1);
+    advance(1);
+    elite.update(body, 200, 0, 50);
+    expect(ctx.fireBullet).toHaveBeenCalledTimes(2);
+  });
+
+  it('death explosions hurt nearby pilots before a splitter splits', () => {
+    const order: string[] = [];
+    const { ctx } = makeContext({
+      damagePilotsNear: vi.fn(() => order.push('explode')),
+      spawnMiniSplitter: vi.fn(() => order.push('split')),
+    });
+    const body = makeBody(50, 50);
+    bindEnemy(setup('splitter', { elite: true, eliteBehaviors: ['death_explosion'] }), ctx).die(body);
+    expect(ctx.damagePilotsNear).toHaveBeenCalledWith(body, 80, 5);
+    expect(ctx.playSfx).toHaveBeenCalledWith('eliteExplosion');
+    expect(order).toEqual(['explode', 'split', 'split']);
+  });
+});
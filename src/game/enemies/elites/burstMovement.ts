@@ -0,0 +1,36 @@
+import type { EliteBehaviorModule } from "../EnemyBehavior";
+
+export interface BurstState {
+    active: boolean;
+    endsAt: number;
+    readyAt: number;
+}
+
+const BURST_MS = 300;
+const BURST_COOLDOWN_MS = 1500;
+
+/** Chases in quick dashes with pauses in between */
+export const burstMovement: EliteBehaviorModule<BurstState> = {
+    init: () => ({ active: false, endsAt: 0, readyAt: 0 }),
+    chase(enemy, state, step, ctx) {
+        const now = ctx.getTime();
+        if (now > state.readyAt && !state.active) {
+            state.active = true;
+            state.endsAt = now + BURST_MS;
+            state.readyAt = now + BURST_COOLDOWN_MS;
+            enemy.setVelocity(
+                step.dirX * step.speed * 2.5,
+                step.dirY * step.speed * 2.5
+            );
+        } else if (state.active && now > state.endsAt) {
+            state.active = false;
+            enemy.setVelocity(0, 0);
+        } else if (!state.active) {
+            // Creep forward between bursts
+            enemy.setVelocity(
+                step.dirX * step.speed * 0.3,
+                step.dirY * step.speed * 0.3
+            );
+        }
+    },
+};
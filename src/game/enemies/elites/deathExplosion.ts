@@ -0,0 +1,18 @@
+import type { EliteBehaviorModule } from "../EnemyBehavior";
+
+export interface DeathExplosionState {
+    damage: number;
+}
+
+const EXPLOSION_RADIUS = 80;
+
+/** Blows up on death, hurting pilots caught close by */
+export const deathExplosion: EliteBehaviorModule<DeathExplosionState> = {
+    init: (setup) => ({ damage: setup.damage || 25 }),
+    onDeath(enemy, state, ctx) {
+        ctx.spawnBurstVisual(enemy.x, enemy.y, EXPLOSION_RADIUS, 0xff4444, 1.0);
+        ctx.damagePilotsNear(enemy, EXPLOSION_RADIUS, state.damage * 0.5);
+        ctx.shakeCamera(300, 0.008);
+        ctx.playSfx("eliteExplosion");
+    },
+};
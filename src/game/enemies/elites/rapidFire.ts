@@ -0,0 +1,7 @@
+import type { EliteBehaviorModule } from "../EnemyBehavior";
+
+/** Fires twice as often */
+export const rapidFire: EliteBehaviorModule<null> = {
+    init: () => null,
+    fireCooldownScale: 0.5,
+};
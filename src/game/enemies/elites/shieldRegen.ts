@@ -0,0 +1,6 @@
+import type { EliteBehaviorModule } from "../EnemyBehavior";
+
+/** Listed in the content tables; no elite regenerates shields yet */
+export const shieldRegen: EliteBehaviorModule<null> = {
+    init: () => null,
+};
@@ -0,0 +1,203 @@
+/**
+ * Enemy registry - Every enemy kind and elite behavior, by id
+ *
+ * `initEnemyBehavior` builds a spawned enemy's state for its kind's module
+ * and its elite behaviors; the functions below run that state. The
+ * simulation and the scene only call these, so a new enemy is an entry here
+ * and nowhere else.
+ */
+
+import type { EliteBehavior, EnemyKind } from "../../models/types";
+import type {
+    EliteBehaviorModule,
+    EnemyBehavior,
+    EnemyBody,
+    EnemyCanvas,
+    EnemyContext,
+    EnemyFrame,
+    EnemyGun,
+    EnemySetup,
+    EnemySpawnContext,
+} from "./EnemyBehavior";
+import { boss } from "./kinds/boss";
+import { drifter } from "./kinds/drifter";
+import { healer } from "./kinds/healer";
+import { mass } from "./kinds/mass";
+import { minelayer } from "./kinds/minelayer";
+import { orbiter } from "./kinds/orbiter";
+import { phantom } from "./kinds/phantom";
+import { shielder } from "./kinds/shielder";
+import { sniper } from "./kinds/sniper";
+import { splitter } from "./kinds/splitter";
+import { watcher } from "./kinds/watcher";
+import { burstMovement } from "./elites/burstMovement";
+import { deathExplosion } from "./elites/deathExplosion";
+import { rapidFire } from "./elites/rapidFire";
+import { shieldRegen } from "./elites/shieldRegen";
+
+const KIND_MODULES = {
+    drifter,
+    watcher,
+    mass,
+    phantom,
+    orbiter,
+    splitter,
+    shielder,
+    sniper,
+    minelayer,
+    healer,
+    boss,
+};
+
+const ELITE_MODULES = {
+    burst_movement: burstMovement,
+    rapid_fire: rapidFire,
+    shield_regen: shieldRegen,
+    death_explosion: deathExplosion,
+};
+
+type KindState<B> = B extends EnemyBehavior<infer S> ? S : never;
+type EliteState<B> = B extends EliteBehaviorModule<infer S> ? S : never;
+
+/** Fails to compile until every kind and behavior has a module */
+export const ENEMY_BEHAVIORS: {
+    [K in EnemyKind]: EnemyBehavior<KindState<(typeof KIND_MODULES)[K]>>;
+} = KIND_MODULES;
+
+export const ELITE_BEHAVIORS: {
+    [B in EliteBehavior]: EliteBehaviorModule<
+        EliteState<(typeof ELITE_MODULES)[B]>
+    >;
+} = ELITE_MODULES;
+
+/**
+ * A spawned enemy's behavior state: plain data, so simulation snapshots can
+ * copy it along with the rest of the enemy
+ */
+export interface EnemyBehaviorState {
+    kind: EnemyKind;
+    kindState: unknown;
+    elites: Array<{ id: EliteBehavior; state: unknown }>;
+}
+
+const kindModule = (kind: EnemyKind): EnemyBehavior<unknown> =>
+    ENEMY_BEHAVIORS[kind];
+
+const eliteModule = (id: EliteBehavior): EliteBehaviorModule<unknown> =>
+    ELITE_BEHAVIORS[id];
+
+/**
+ * Builds an enemy's behavior state. Call it at spawn: kinds draw from the
+ * run's RNG as they init, so the order matters for replays and netplay.
+ */
+export function initEnemyBehavior(
+    setup: EnemySetup,
+    ctx: EnemySpawnContext
+): EnemyBehaviorState {
+    return {
+        kind: setup.kind,
+        kindState: kindModule(setup.kind).init(setup, ctx),
+        elites: setup.eliteBehaviors.map((id) => ({
+            id,
+            state: eliteModule(id).init(setup, ctx),
+        })),
+    };
+}
+
+/** Runs one tick against the pilot at the target position */
+export function updateEnemyBehavior(
+    enemy: EnemyBody,
+    behavior: EnemyBehaviorState,
+    targetX: number,
+    targetY: number,
+    speed: number,
+    ctx: EnemyContext
+) {
+    const dx = targetX - enemy.x;
+    const dy = targetY - enemy.y;
+    const dist = Math.hypot(dx, dy);
+    const dirX = dist > 0 ? dx / dist : 0;
+    const dirY = dist > 0 ? dy / dist : 0;
+    const chaser = behavior.elites.find(({ id }) => eliteModule(id).chase);
+    const fireCooldownScale = behavior.elites.reduce(
+        (scale, { id }) => scale * (eliteModule(id).fireCooldownScale ?? 1),
+        1
+    );
+    const frame: EnemyFrame = {
+        targetX,
+        targetY,
+        dirX,
+        dirY,
+        dist,
+        speed,
+        chase: (speedScale = 1) => {
+            const chaseSpeed = speed * speedScale;
+            const chase = chaser && eliteModule(chaser.id).chase;
+            if (chaser && chase) {
+                chase(
+                    enemy,
+                    chaser.state,
+                    { dirX, dirY, speed: chaseSpeed },
+                    ctx
+                );
+            } else {
+                enemy.setVelocity(dirX * chaseSpeed, dirY * chaseSpeed);
+            }
+        },
+        shoot: (gun: EnemyGun, heavy = false, dir) => {
+            const now = ctx.getTime();
+            if (!gun.cooldown || now < gun.nextFire) return;
+            gun.nextFire = now + gun.cooldown * fireCooldownScale * 1000;
+            ctx.fireBullet(
+                enemy.x,
+                enemy.y,
+                dir?.x ?? dirX,
+                dir?.y ?? dirY,
+                gun.projectileSpeed,
+                heavy
+            );
+        },
+    };
+    kindModule(behavior.kind).update(enemy, behavior.kindState, frame, ctx);
+    behavior.elites.forEach(({ id, state }) =>
+        eliteModule(id).update?.(enemy, state, ctx)
+    );
+}
+
+/** Runs death hooks: elite behaviors first, then the kind's */
+export function enemyBehaviorDied(
+    enemy: EnemyBody,
+    behavior: EnemyBehaviorState,
+    ctx: EnemyContext
+) {
+    behavior.elites.forEach(({ id, state }) =>
+        eliteModule(id).onDeath?.(enemy, state, ctx)
+    );
+    kindModule(behavior.kind).onDeath?.(enemy, behavior.kindState, ctx);
+}
+
+/** Whether the kind guards against shots at all */
+export const guardsAgainstShots = (kind: EnemyKind) =>
+    kindModule(kind).blocksShot !== undefined;
+
+/** Whether a pilot's shot at (x, y) stops against the enemy's guard */
+export function enemyBlocksShot(
+    enemy: EnemyBody,
+    behavior: EnemyBehaviorState,
+    x: number,
+    y: number
+): boolean {
+    const { blocksShot } = kindModule(behavior.kind);
+    return blocksShot?.(enemy, behavior.kindState, x, y) ?? false;
+}
+
+export function drawEnemyBehavior(
+    enemy: EnemyBody,
+    behavior: EnemyBehaviorState,
+    canvas: EnemyCanvas,
+    now: number
+) {
+    kindModule(behavior.kind).draw?.(enemy, behavior.kindState, canvas, now);
+}
+
+export const enemyXp = (kind: EnemyKind) => kindModule(kind).xp;
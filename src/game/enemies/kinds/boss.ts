@@ -0,0 +1,10 @@
+import type { EnemyBehavior } from "../EnemyBehavior";
+
+/** Boss: moves as its phase dictates; BossSystem runs its attacks */
+export const boss: EnemyBehavior<null> = {
+    xp: 3,
+    init: () => null,
+    update(enemy, _state, _frame, ctx) {
+        ctx.steerBoss(enemy);
+    },
+};
@@ -0,0 +1,10 @@
+import type { EnemyBehavior } from "../EnemyBehavior";
+
+/** Drifter: heads straight for the nearest pilot */
+export const drifter: EnemyBehavior<null> = {
+    xp: 3,
+    init: () => null,
+    update(_enemy, _state, frame) {
+        frame.chase();
+    },
+};
@@ -0,0 +1,58 @@
+import type { EnemyBehavior } from "../EnemyBehavior";
+
+export interface HealerState {
+    nextPulseAt: number;
+    radius: number;
+    fraction: number;
+}
+
+const HEALER_CLOSE_IN_BEYOND = 340;
+const HEALER_BACK_OFF_WITHIN = 260;
+const HEAL_EVERY_MS = 2800;
+const HEAL_RADIUS = 170;
+const ELITE_HEAL_RADIUS = 220;
+/** Share of each ally's max health a pulse restores */
+const HEAL_FRACTION = 0.2;
+const ELITE_HEAL_FRACTION = 0.3;
+const HEAL_COLOR = 0x7dffa8;
+
+/** Healer: keeps out of reach and pulses health back into nearby allies */
+export const healer: EnemyBehavior<HealerState> = {
+    xp: 6,
+    init: (setup, ctx) => ({
+        nextPulseAt: ctx.getTime() + HEAL_EVERY_MS,
+        radius: setup.elite ? ELITE_HEAL_RADIUS : HEAL_RADIUS,
+        fraction: setup.elite ? ELITE_HEAL_FRACTION : HEAL_FRACTION,
+    }),
+    update(enemy, state, frame, ctx) {
+        const sign =
+            frame.dist > HEALER_CLOSE_IN_BEYOND
+                ? 1
+                : frame.dist < HEALER_BACK_OFF_WITHIN
+                ? -1
+                : 0;
+        enemy.setVelocity(
+            frame.dirX * frame.speed * sign,
+            frame.dirY * frame.speed * sign
+        );
+        const now = ctx.getTime();
+        if (now < state.nextPulseAt) return;
+        state.nextPulseAt = now + HEAL_EVERY_MS;
+        ctx.healEnemiesNear(enemy, state.radius, state.fraction);
+        ctx.spawnBurstVisual(enemy.x, enemy.y, state.radius, HEAL_COLOR, 0.35);
+    },
+    draw(enemy, state, canvas, now) {
+        // The aura brightens as the next pulse comes up
+        const charge = 1 - Math.max(0, state.nextPulseAt - now) / HEAL_EVERY_MS;
+        canvas.drawArc(
+            enemy.x,
+            enemy.y,
+            state.radius,
+            0,
+            Math.PI * 2,
+            HEAL_COLOR,
+            0.08 + charge * 0.22,
+            2
+        );
+    },
+};
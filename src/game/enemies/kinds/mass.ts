@@ -0,0 +1,11 @@
+import { loadGun, type EnemyBehavior, type EnemyGun } from "../EnemyBehavior";
+
+/** Mass: a slow tank lobbing heavy shots */
+export const mass: EnemyBehavior<EnemyGun> = {
+    xp: 6,
+    init: (setup) => loadGun(setup),
+    update(_enemy, gun, frame) {
+        frame.chase(0.7);
+        frame.shoot(gun, true);
+    },
+};
@@ -0,0 +1,63 @@
+import type { EnemyBehavior, EnemySpawnContext } from "../EnemyBehavior";
+
+export interface MinelayerState {
+    waypoint: { x: number; y: number };
+    nextMineAt: number;
+    mineEveryMs: number;
+}
+
+const MINE_EVERY_MS = 2600;
+const ELITE_MINE_EVERY_MS = 1700;
+/** Mines stay dormant this long after they drop */
+export const MINE_ARM_MS = 700;
+export const MINE_LIFETIME_MS = 14000;
+/** Mines on the field at once, across every mine-layer */
+export const MAX_MINES = 24;
+const WAYPOINT_REACHED = 24;
+const WAYPOINT_MARGIN = 60;
+
+const pickWaypoint = (ctx: EnemySpawnContext) => {
+    const bounds = ctx.getBounds();
+    return {
+        x: ctx.randBetween(
+            bounds.left + WAYPOINT_MARGIN,
+            bounds.right - WAYPOINT_MARGIN
+        ),
+        y: ctx.randBetween(
+            bounds.top + WAYPOINT_MARGIN,
+            bounds.bottom - WAYPOINT_MARGIN
+        ),
+    };
+};
+
+/** Mine-layer: roams the arena seeding it with mines, ignoring the pilots */
+export const minelayer: EnemyBehavior<MinelayerState> = {
+    xp: 5,
+    init: (setup, ctx) => {
+        const mineEveryMs = setup.elite ? ELITE_MINE_EVERY_MS : MINE_EVERY_MS;
+        return {
+            waypoint: pickWaypoint(ctx),
+            nextMineAt: ctx.getTime() + mineEveryMs,
+            mineEveryMs,
+        };
+    },
+    update(enemy, state, frame, ctx) {
+        let dx = state.waypoint.x - enemy.x;
+        let dy = state.waypoint.y - enemy.y;
+        if (Math.hypot(dx, dy) < WAYPOINT_REACHED) {
+            state.waypoint = pickWaypoint(ctx);
+            dx = state.waypoint.x - enemy.x;
+            dy = state.waypoint.y - enemy.y;
+        }
+        const dist = Math.hypot(dx, dy) || 1;
+        enemy.setVelocity(
+            (dx / dist) * frame.speed,
+            (dy / dist) * frame.speed
+        );
+        const now = ctx.getTime();
+        if (now >= state.nextMineAt) {
+            ctx.layMine(enemy.x, enemy.y);
+            state.nextMineAt = now + state.mineEveryMs;
+        }
+    },
+};
@@ -0,0 +1,33 @@
+import { loadGun, type EnemyBehavior, type EnemyGun } from "../EnemyBehavior";
+
+export interface OrbiterState {
+    angle: number;
+    radius: number;
+    /** 1 for counterclockwise, -1 for clockwise */
+    direction: number;
+    gun: EnemyGun;
+}
+
+/** Orbiter: circles the pilot, shooting inward */
+export const orbiter: EnemyBehavior<OrbiterState> = {
+    xp: 4,
+    init: (setup, ctx) => ({
+        angle: ctx.randFloat(0, Math.PI * 2),
+        radius: ctx.randBetween(120, 200),
+        direction: ctx.rngNext() > 0.5 ? 1 : -1,
+        gun: loadGun(setup),
+    }),
+    update(enemy, state, frame) {
+        state.angle += frame.speed * 0.008 * state.direction;
+        const dx = frame.targetX + Math.cos(state.angle) * state.radius - enemy.x;
+        const dy = frame.targetY + Math.sin(state.angle) * state.radius - enemy.y;
+        const dist = Math.hypot(dx, dy);
+        if (dist > 5) {
+            const moveSpeed = Math.min(frame.speed, dist * 3);
+            enemy.setVelocity((dx / dist) * moveSpeed, (dy / dist) * moveSpeed);
+        } else {
+            enemy.setVelocity(0, 0);
+        }
+        frame.shoot(state.gun);
+    },
+};
@@ -0,0 +1,49 @@
+import type { EnemyBehavior } from "../EnemyBehavior";
+
+export interface PhantomState {
+    nextTeleport: number;
+    teleportCooldown: number;
+}
+
+const EDGE_MARGIN = 40;
+const TELEPORT_COLOR = 0x9b6dff;
+
+/** Phantom: blinks in around the pilot, drifting slowly between blinks */
+export const phantom: EnemyBehavior<PhantomState> = {
+    xp: 4,
+    init: (setup, ctx) => ({
+        nextTeleport: ctx.getTime() + ctx.randBetween(1500, 3000),
+        teleportCooldown: setup.elite ? 1200 : 2000,
+    }),
+    update(enemy, state, frame, ctx) {
+        const now = ctx.getTime();
+        if (now < state.nextTeleport) {
+            const driftSpeed = frame.speed * 0.4;
+            enemy.setVelocity(frame.dirX * driftSpeed, frame.dirY * driftSpeed);
+            return;
+        }
+        const angle = ctx.randFloat(0, Math.PI * 2);
+        const distance = ctx.randBetween(100, 200);
+        const bounds = ctx.getBounds();
+        const x = clamp(
+            frame.targetX + Math.cos(angle) * distance,
+            bounds.left + EDGE_MARGIN,
+            bounds.right - EDGE_MARGIN
+        );
+        const y = clamp(
+            frame.targetY + Math.sin(angle) * distance,
+            bounds.top + EDGE_MARGIN,
+            bounds.bottom - EDGE_MARGIN
+        );
+        ctx.spawnBurstVisual(enemy.x, enemy.y, 30, TELEPORT_COLOR, 0.6);
+        enemy.setPosition(x, y);
+        ctx.spawnBurstVisual(x, y, 30, TELEPORT_COLOR, 0.6);
+        state.nextTeleport =
+            now + state.teleportCooldown + ctx.randBetween(-300, 300);
+        // Brief pause after landing
+        enemy.setVelocity(0, 0);
+    },
+};
+
+const clamp = (value: number, min: number, max: number) =>
+    Math.min(Math.max(value, min), max);
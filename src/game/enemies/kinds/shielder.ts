@@ -0,0 +1,81 @@
+import type { EnemyBehavior } from "../EnemyBehavior";
+
+export interface ShielderState {
+    /** Angle the barrier faces */
+    facing: number;
+    halfArc: number;
+    lastTurnAt: number;
+}
+
+/** Stops short of the pilot so the barrier covers whoever is behind it */
+const SHIELDER_GUARD_RANGE = 170;
+const BARRIER_RADIUS = 56;
+/** How far either side of the barrier's line a shot still hits it */
+const BARRIER_THICKNESS = 14;
+/** Radians per second; flanking a shielder gets shots past its barrier */
+const BARRIER_TURN_RATE = 1.6;
+const BARRIER_HALF_ARC = 0.9;
+const ELITE_BARRIER_HALF_ARC = 1.25;
+const BARRIER_COLOR = 0x8fd3ff;
+
+/** Whether (x, y) lies on a barrier facing `facing` from (cx, cy) */
+function barrierCovers(
+    cx: number,
+    cy: number,
+    facing: number,
+    halfArc: number,
+    x: number,
+    y: number
+): boolean {
+    const dist = Math.hypot(x - cx, y - cy);
+    if (Math.abs(dist - BARRIER_RADIUS) > BARRIER_THICKNESS) return false;
+    return Math.abs(angleBetween(Math.atan2(y - cy, x - cx), facing)) <= halfArc;
+}
+
+/** Turns `from` toward `to` by at most `maxStep`, the short way round */
+function turnToward(from: number, to: number, maxStep: number): number {
+    const diff = angleBetween(to, from);
+    return from + Math.max(-maxStep, Math.min(maxStep, diff));
+}
+
+const angleBetween = (a: number, b: number) =>
+    Math.atan2(Math.sin(a - b), Math.cos(a - b));
+
+/** Shielder: holds a frontal barrier that eats shots meant for its allies */
+export const shielder: EnemyBehavior<ShielderState> = {
+    xp: 5,
+    init: (setup, ctx) => ({
+        facing: 0,
+        halfArc: setup.elite ? ELITE_BARRIER_HALF_ARC : BARRIER_HALF_ARC,
+        lastTurnAt: ctx.getTime(),
+    }),
+    update(enemy, state, frame, ctx) {
+        if (frame.dist > SHIELDER_GUARD_RANGE) {
+            frame.chase();
+        } else {
+            enemy.setVelocity(0, 0);
+        }
+        const now = ctx.getTime();
+        const dt = (now - state.lastTurnAt) / 1000;
+        state.lastTurnAt = now;
+        state.facing = turnToward(
+            state.facing,
+            Math.atan2(frame.dirY, frame.dirX),
+            BARRIER_TURN_RATE * dt
+        );
+    },
+    draw(enemy, state, canvas) {
+        canvas.drawArc(
+            enemy.x,
+            enemy.y,
+            BARRIER_RADIUS,
+            state.facing - state.halfArc,
+            state.facing + state.halfArc,
+            BARRIER_COLOR,
+            0.75,
+            5
+        );
+    },
+    blocksShot: (enemy, state, x, y) =>
+        barrierCovers(enemy.x, enemy.y, state.facing, state.halfArc, x, y),
+};
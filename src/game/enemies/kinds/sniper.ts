@@ -0,0 +1,67 @@
+import { loadGun, type EnemyBehavior, type EnemyGun } from "../EnemyBehavior";
+
+export interface SniperState {
+    gun: EnemyGun;
+    /** When the shot goes off, while the laser is up */
+    aimUntil: number | null;
+    aim: { x: number; y: number };
+    aimMs: number;
+}
+
+const SNIPER_CLOSE_IN_BEYOND = 420;
+const SNIPER_BACK_OFF_WITHIN = 320;
+const SNIPER_AIM_MS = 900;
+const ELITE_SNIPER_AIM_MS = 650;
+const LASER_LENGTH = 1400;
+const LASER_COLOR = 0xff4d6d;
+
+/**
+ * Sniper: hangs back at long range, then stops and paints a laser line for a
+ * moment before a heavy shot goes down it. The line locks when it appears,
+ * so stepping off it dodges the shot.
+ */
+export const sniper: EnemyBehavior<SniperState> = {
+    xp: 5,
+    init: (setup) => ({
+        gun: loadGun(setup),
+        aimUntil: null,
+        aim: { x: 1, y: 0 },
+        aimMs: setup.elite ? ELITE_SNIPER_AIM_MS : SNIPER_AIM_MS,
+    }),
+    update(enemy, state, frame, ctx) {
+        const now = ctx.getTime();
+        if (state.aimUntil === null) {
+            const sign =
+                frame.dist > SNIPER_CLOSE_IN_BEYOND
+                    ? 1
+                    : frame.dist < SNIPER_BACK_OFF_WITHIN
+                    ? -1
+                    : 0;
+            enemy.setVelocity(
+                frame.dirX * frame.speed * sign,
+                frame.dirY * frame.speed * sign
+            );
+            if (!state.gun.cooldown || now < state.gun.nextFire) return;
+            state.aimUntil = now + state.aimMs;
+            state.aim = { x: frame.dirX, y: frame.dirY };
+        }
+        enemy.setVelocity(0, 0);
+        if (now >= state.aimUntil) {
+            state.aimUntil = null;
+            frame.shoot(state.gun, true, state.aim);
+        }
+    },
+    draw(enemy, state, canvas, now) {
+        if (state.aimUntil === null) return;
+        const charge = 1 - (state.aimUntil - now) / state.aimMs;
+        canvas.drawLine(
+            enemy.x,
+            enemy.y,
+            enemy.x + state.aim.x * LASER_LENGTH,
+            enemy.y + state.aim.y * LASER_LENGTH,
+            LASER_COLOR,
+            0.2 + charge * 0.5,
+            1 + charge * 2
+        );
+    },
+};
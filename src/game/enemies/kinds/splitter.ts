@@ -0,0 +1,33 @@
+import type { EnemyBehavior } from "../EnemyBehavior";
+
+export interface SplitterState {
+    splitCount: number;
+    elite: boolean;
+}
+
+const SPLIT_DISTANCE = 30;
+
+/** Splitter: chases, then bursts into smaller splitters when destroyed */
+export const splitter: EnemyBehavior<SplitterState> = {
+    xp: 5,
+    init: (setup) => ({
+        splitCount: setup.mini ? 0 : setup.splitCount ?? 2,
+        elite: setup.elite,
+    }),
+    update(_enemy, _state, frame) {
+        frame.chase();
+    },
+    onDeath(enemy, state, ctx) {
+        if (state.splitCount <= 0) return;
+        ctx.spawnBurstVisual(enemy.x, enemy.y, 40, 0xff9944, 0.7);
+        const angleStep = (Math.PI * 2) / state.splitCount;
+        for (let i = 0; i < state.splitCount; i++) {
+            const angle = angleStep * i + ctx.randFloat(-0.3, 0.3);
+            ctx.spawnMiniSplitter(
+                enemy.x + Math.cos(angle) * SPLIT_DISTANCE,
+                enemy.y + Math.sin(angle) * SPLIT_DISTANCE,
+                state.elite
+            );
+        }
+    },
+};
@@ -0,0 +1,23 @@
+import { loadGun, type EnemyBehavior, type EnemyGun } from "../EnemyBehavior";
+
+const CLOSE_IN_BEYOND = 260;
+const BACK_OFF_WITHIN = 180;
+
+/** Watcher: keeps its distance and takes aimed shots */
+export const watcher: EnemyBehavior<EnemyGun> = {
+    xp: 4,
+    init: (setup) => loadGun(setup),
+    update(enemy, gun, frame) {
+        const sign =
+            frame.dist > CLOSE_IN_BEYOND
+                ? 1
+                : frame.dist < BACK_OFF_WITHIN
+                ? -1
+                : 0;
+        enemy.setVelocity(
+            frame.dirX * frame.speed * sign,
+            frame.dirY * frame.speed * sign
+        );
+        frame.shoot(gun);
+    },
+};
@@ -16,6 +16,7 @@ export const gameEvents = new Phaser.Events.EventEmitter();
 export const GAME_EVENT_KEYS = {
 	runStarted: "run-started",
 	runEnded: "run-ended",
+	replayEnded: "replay-ended",
 	waveStarted: "wave-started",
 	levelUp: "level-up",
 	bossPhaseChanged: "boss-phase-changed",
@@ -0,0 +1,10 @@
+// Effect colors, kept free of Phaser so the simulation can name them too.
+export const COLOR_ACCENT = 0x9ff0ff;
+export const COLOR_CHARGE = 0xf7d46b;
+export const COLOR_PULSE = 0xa0f4ff;
+export const COLOR_OVERLOAD = 0xffd7a6;
+export const COLOR_BARRIER = 0x8fd3ff;
+export const COLOR_MINE = 0xf4b860;
+
+// Sprites are drawn at this scale; effect radii are given before it
+export const OBJECT_SCALE = 0.7;
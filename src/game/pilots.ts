@@ -0,0 +1,50 @@
+/**
+ * Pilot seats for co-op runs, kept free of Phaser so the headless sim seats
+ * and spaces pilots exactly like the scene does.
+ */
+
+import type { PilotId, RunMode, TwinControlConfig } from "../models/types";
+
+/** Seats in the order they fill */
+export const PILOT_IDS: readonly PilotId[] = ["p1", "p2", "p3", "p4"];
+
+export const MAX_PILOTS = PILOT_IDS.length;
+
+/** Distance of each pilot from the playfield center at the start of a run */
+const SPAWN_OFFSET = 32;
+
+export const isCoopMode = (mode: RunMode) =>
+    mode === "twin" || mode === "online";
+
+/**
+ * Pilots taking part in a run. Local twin always seats p1 and p2, falling
+ * back to default controls for either; other seats join only when bound.
+ */
+export function seatedPilots(
+    mode: RunMode,
+    controls?: TwinControlConfig
+): PilotId[] {
+    if (!isCoopMode(mode)) return ["p1"];
+    const alwaysSeated = mode === "twin" ? 2 : 1;
+    return PILOT_IDS.filter(
+        (id, index) => index < alwaysSeated || !!controls?.[id]
+    );
+}
+
+/**
+ * Start offset from the playfield center. One pilot starts centered, two
+ * side by side, three or four on the corners of a square.
+ */
+export function pilotSpawnOffset(
+    index: number,
+    count: number
+): { x: number; y: number } {
+    if (count <= 1) return { x: 0, y: 0 };
+    const x = index % 2 === 0 ? -SPAWN_OFFSET : SPAWN_OFFSET;
+    if (count === 2) return { x, y: 0 };
+    return { x, y: index < 2 ? -SPAWN_OFFSET : SPAWN_OFFSET };
+}
+
+/** Each pilot past the first adds half a wave's worth of enemies */
+export const coopEnemyCountMultiplier = (pilotCount: number) =>
+    1 + Math.max(0, pilotCount - 1) * 0.5;
@@ -0,0 +1,76 @@
+/**
+ * ReplayPlayer - Feeds recorded per-tick input back into the simulation
+ */
+
+import {
+    decompressInput,
+    type PlayerInput,
+} from "../../network/DeterministicSync";
+import type { ReplayInputFrame, RunReplay } from "../../models/types";
+import type { ReplayPilotId } from "./ReplayRecorder";
+
+interface StreamCursor {
+    frameIndex: number;
+    frameStartTick: number;
+}
+
+export class ReplayPlayer {
+    readonly replay: RunReplay;
+    private cursors = new Map<ReplayPilotId, StreamCursor>();
+    private upgradeIndex = 0;
+
+    constructor(replay: RunReplay) {
+        this.replay = replay;
+    }
+
+    /** Input recorded for a pilot at a tick, or null past the end of the stream */
+    inputAt(pilotId: ReplayPilotId, tick: number): PlayerInput | null {
+        const frames = this.replay.inputs[pilotId];
+        if (!frames || frames.length === 0) return null;
+        const cursor = this.cursorFor(pilotId, tick);
+        const frame = this.seek(frames, cursor, tick);
+        if (!frame) return null;
+        return decompressInput({
+            t: tick,
+            mx: frame[1],
+            my: frame[2],
+            ax: frame[3],
+            ay: frame[4],
+            f: frame[5],
+        });
+    }
+
+    /** Next recorded upgrade pick, in the order they were applied */
+    nextUpgradePick(): string | undefined {
+        const pick = this.replay.upgradePicks[this.upgradeIndex];
+        if (pick !== undefined) {
+            this.upgradeIndex += 1;
+        }
+        return pick;
+    }
+
+    private cursorFor(pilotId: ReplayPilotId, tick: number): StreamCursor {
+        let cursor = this.cursors.get(pilotId);
+        if (!cursor || tick < cursor.frameStartTick) {
+            cursor = { frameIndex: 0, frameStartTick: 0 };
+            this.cursors.set(pilotId, cursor);
+        }
+        return cursor;
+    }
+
+    private seek(
+        frames: ReplayInputFrame[],
+        cursor: StreamCursor,
+        tick: number
+    ): ReplayInputFrame | null {
+        while (cursor.frameIndex < frames.length) {
+            const frame = frames[cursor.frameIndex];
+            if (tick < cursor.frameStartTick + frame[0]) {
+                return frame;
+            }
+            cursor.frameStartTick += frame[0];
+            cursor.frameIndex += 1;
+        }
+        return null;
+    }
+}
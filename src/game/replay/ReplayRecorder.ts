@@ -0,0 +1,195 @@
+/**
+ * ReplayRecorder - Captures per-tick pilot input for deterministic playback
+ *
+ * A run is fully described by its seed, affix, boss, mode, the meta state that
+ * feeds upgrade rolls, and the input stream. Inputs are stored as compressed
+ * packets (see DeterministicSync) and run-length encoded, since most ticks
+ * repeat the previous one.
+ */
+
+import {
+    compressInput,
+    type PlayerInput,
+} from "../../network/DeterministicSync";
+import type {
+    PilotId,
+    ReplayInputFrame,
+    RunReplay,
+    RunSummary,
+} from "../../models/types";
+
+/**
+ * Bumped whenever what a replay records changes: a replay from an older
+ * layout would play back a different run than the one recorded
+ */
+export const REPLAY_VERSION = 2;
+
+/** Whether this build plays a replay back as the run it recorded */
+export const isPlayableReplay = (replay: RunReplay): boolean =>
+    replay.version === REPLAY_VERSION;
+
+export type ReplayPilotId = PilotId;
+
+export type ReplayHeader = Pick<
+    RunReplay,
+    | "seedId"
+    | "seedValue"
+    | "affixIds"
+    | "bossId"
+    | "mode"
+    | "difficultyMultiplier"
+    | "unlockedUpgrades"
+    | "upgradeBoosts"
+>;
+
+/** Append a packet to a stream, extending the last frame when it repeats */
+export function appendReplayFrame(
+    frames: ReplayInputFrame[],
+    input: PlayerInput,
+    ticks = 1
+): void {
+    if (ticks <= 0) return;
+    const packet = compressInput(input);
+    const last = frames[frames.length - 1];
+    if (
+        last &&
+        last[1] === packet.mx &&
+        last[2] === packet.my &&
+        last[3] === packet.ax &&
+        last[4] === packet.ay &&
+        last[5] === packet.f
+    ) {
+        last[0] += ticks;
+        return;
+    }
+    frames.push([ticks, packet.mx, packet.my, packet.ax, packet.ay, packet.f]);
+}
+
+export class ReplayRecorder {
+    private header: ReplayHeader | null = null;
+    private streams = new Map<ReplayPilotId, ReplayInputFrame[]>();
+    private pending = new Map<ReplayPilotId, PlayerInput>();
+    private upgradePicks: string[] = [];
+    private lastTick = 0;
+
+    /** Start a new recording, discarding anything captured before */
+    begin(header: ReplayHeader): void {
+        this.header = header;
+        this.streams.clear();
+        this.pending.clear();
+        this.upgradePicks = [];
+        this.lastTick = 0;
+    }
+
+    /** Stop recording without producing a replay */
+    cancel(): void {
+        this.header = null;
+        this.streams.clear();
+        this.pending.clear();
+        this.upgradePicks = [];
+    }
+
+    get isRecording(): boolean {
+        return this.header !== null;
+    }
+
+    /**
+     * Capture a pilot's input for a simulation tick. Capturing the same tick
+     * again keeps the latest stick values and any fire/dash press.
+     */
+    capture(pilotId: ReplayPilotId, input: PlayerInput): void {
+        if (!this.header) return;
+        this.lastTick = Math.max(this.lastTick, input.tick);
+        const pending = this.pending.get(pilotId);
+        if (!pending) {
+            // Pilot joined late: pad the stream with idle ticks
+            if (input.tick > 0) {
+                this.appendIdle(pilotId, input.tick);
+            }
+            this.pending.set(pilotId, { ...input });
+            return;
+        }
+        if (input.tick === pending.tick) {
+            this.pending.set(pilotId, {
+                ...input,
+                fire: input.fire || pending.fire,
+                dash: input.dash || pending.dash,
+            });
+            return;
+        }
+        if (input.tick < pending.tick) return;
+        this.flushPending(pilotId, pending, input.tick);
+        this.pending.set(pilotId, { ...input });
+    }
+
+    /** Record an upgrade pick, in the order picks were applied */
+    recordUpgrade(id: string): void {
+        if (!this.header) return;
+        this.upgradePicks.push(id);
+    }
+
+    /** Finish the recording and build the replay for a completed run */
+    finish(summary: RunSummary): RunReplay | null {
+        if (!this.header) return null;
+        const tickCount = this.lastTick + 1;
+        this.pending.forEach((pending, pilotId) => {
+            this.flushPending(pilotId, pending, tickCount);
+        });
+        const inputs: RunReplay["inputs"] = {};
+        this.streams.forEach((frames, pilotId) => {
+            inputs[pilotId] = frames;
+        });
+        const replay: RunReplay = {
+            ...this.header,
+            version: REPLAY_VERSION,
+            runId: summary.runId,
+            recordedAt: summary.timestamp,
+            tickCount,
+            inputs,
+            upgradePicks: [...this.upgradePicks],
+            summary,
+        };
+        this.cancel();
+        return replay;
+    }
+
+    private stream(pilotId: ReplayPilotId): ReplayInputFrame[] {
+        let frames = this.streams.get(pilotId);
+        if (!frames) {
+            frames = [];
+            this.streams.set(pilotId, frames);
+        }
+        return frames;
+    }
+
+    private appendIdle(pilotId: ReplayPilotId, ticks: number): void {
+        appendReplayFrame(
+            this.stream(pilotId),
+            {
+                tick: 0,
+                moveX: 0,
+                moveY: 0,
+                aimX: 1,
+                aimY: 0,
+                fire: false,
+                dash: false,
+            },
+            ticks
+        );
+    }
+
+    /** Write the pending tick, holding it across any ticks without a frame */
+    private flushPending(
+        pilotId: ReplayPilotId,
+        pending: PlayerInput,
+        untilTick: number
+    ): void {
+        const frames = this.stream(pilotId);
+        appendReplayFrame(frames, pending, 1);
+        const gap = untilTick - pending.tick - 1;
+        if (gap > 0) {
+            // A dash is a press, not a hold: only the first tick keeps it
+            appendReplayFrame(frames, { ...pending, dash: false }, gap);
+        }
+    }
+}
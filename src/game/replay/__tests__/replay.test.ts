@@ -0,0 +1,125 @@
+/**
+ * Replay recording and playback round-trip tests
+ */
+
+import { describe, it, expect } from 'vitest';
+import { REPLAY_VERSION, ReplayRecorder, isPlayableReplay, type ReplayHeader } from '../ReplayRecorder';
+import { ReplayPlayer } from '../ReplayPlayer';
+import type { PlayerInput } from '../../../network/DeterministicSync';
+import type { RunSummary } from '../../../models/types';
+
+const header: ReplayHeader = {
+  seedId: 'week-42',
+  seedValue: 1234,
+  affixIds: ['nimble-foes'],
+  bossId: 'sentinel',
+  mode: 'standard',
+  difficultyMultiplier: 1,
+  unlockedUpgrades: ['power-shot'],
+  upgradeBoosts: {},
+};
+
+const summary: RunSummary = {
+  runId: 'run-1',
+  timestamp: 1000,
+  durationSeconds: 2,
+  wavesCleared: 1,
+  bossDefeated: false,
+  enemiesDestroyed: 0,
+  upgrades: [],
+  seedId: 'week-42',
+};
+
+const input = (tick: number, patch: Partial<PlayerInput> = {}): PlayerInput => ({
+  tick,
+  moveX: 0,
+  moveY: 0,
+  aimX: 1,
+  aimY: 0,
+  fire: false,
+  dash: false,
+  ...patch,
+});
+
+describe('Replay recording', () => {
+  it('run-length encodes repeated ticks', () => {
+    const recorder = new ReplayRecorder();
+    recorder.begin(header);
+    for (let tick = 0; tick < 30; tick++) {
+      recorder.capture('p1', input(tick, { moveX: 1 }));
+    }
+    const replay = recorder.finish(summary);
+    expect(replay?.tickCount).toBe(30);
+    expect(replay?.inputs.p1).toEqual([[30, 127, 0, 127, 0, 0]]);
+  });
+
+  it('holds input across skipped ticks and keeps presses within a tick', () => {
+    const recorder = new ReplayRecorder();
+    recorder.begin(header);
+    recorder.capture('p1', input(0));
+    recorder.capture('p1', input(1, { dash: true }));
+    recorder.capture('p1', input(1, { moveY: -1 }));
+    recorder.capture('p1', input(4));
+    const replay = recorder.finish(summary)!;
+
+    const player = new ReplayPlayer(replay);
+    expect(player.inputAt('p1', 1)?.dash).toBe(true);
+    expect(player.inputAt('p1', 2)?.moveY).toBe(-1);
+    expect(player.inputAt('p1', 2)?.dash).toBe(false);
+    expect(player.inputAt('p1', 3)?.moveY).toBe(-1);
+    expect(player.inputAt('p1', 4)?.moveY).toBe(0);
+    expect(player.inputAt('p1', 5)).toBeNull();
+  });
+
+  it('plays back recorded inputs and upgrade picks in order', () => {
+    const recorder = new ReplayRecorder();
+    recorder.begin(header);
+    const recorded: PlayerInput[] = [];
+    for (let tick = 0; tick < 120; tick++) {
+      const angle = Math.floor(tick / 10) * 0.5;
+      const next = input(tick, {
+        moveX: tick % 40 < 20 ? 1 : 0,
+        aimX: Math.cos(angle),
+        aimY: Math.sin(angle),
+        fire: tick % 7 === 0,
+      });
+      recorded.push(next);
+      recorder.capture('p1', next);
+    }
+    recorder.recordUpgrade('power-shot');
+    recorder.recordUpgrade('rapid-fire');
+    const replay = recorder.finish(summary)!;
+
+    expect(replay.runId).toBe('run-1');
+    expect(replay.seedValue).toBe(1234);
+
+    const player = new ReplayPlayer(replay);
+    recorded.forEach((expected) => {
+      const actual = player.inputAt('p1', expected.tick)!;
+      expect(actual.moveX).toBeCloseTo(expected.moveX, 1);
+      expect(actual.aimX).toBeCloseTo(expected.aimX, 1);
+      expect(actual.aimY).toBeCloseTo(expected.aimY, 1);
+      expect(actual.fire).toBe(expected.fire);
+    });
+    expect(player.nextUpgradePick()).toBe('power-shot');
+    expect(player.nextUpgradePick()).toBe('rapid-fire');
+    expect(player.nextUpgradePick()).toBeUndefined();
+  });
+
+  it('plays back only replays recorded in the current layout', () => {
+    const recorder = new ReplayRecorder();
+    recorder.begin(header);
+    recorder.capture('p1', input(0));
+    const replay = recorder.finish(summary)!;
+
+    expect(replay.version).toBe(REPLAY_VERSION);
+    expect(isPlayableReplay(replay)).toBe(true);
+    expect(isPlayableReplay({ ...replay, version: REPLAY_VERSION - 1 })).toBe(false);
+  });
+
+  it('produces nothing when not recording', () => {
+    const recorder = new ReplayRecorder();
+    recorder.capture('p1', input(0));
+    expect(recorder.finish(summary)).toBeNull();
+  });
+});
@@ -19,9 +19,14 @@ export class BootScene extends Phaser.Scene {
             "phantom",
             "orbiter",
             "splitter",
+            "shielder",
+            "sniper",
+            "minelayer",
+            "healer",
             "boss",
             "bullet",
             "enemy-bullet",
+            "mine",
             "xp",
             "elite-drifter",
             "elite-watcher",
@@ -29,6 +34,10 @@ export class BootScene extends Phaser.Scene {
             "elite-phantom",
             "elite-orbiter",
             "elite-splitter",
+            "elite-shielder",
+            "elite-sniper",
+            "elite-minelayer",
+            "elite-healer",
             "boss-sentinel",
             "boss-swarm-core",
             "boss-obelisk",
@@ -1,6 +1,6 @@
 import type Phaser from "phaser";
 import type { GamepadControlState } from "../input/GamepadAdapter";
-import type { ControlBinding } from "../../models/types";
+import type { ControlBinding, PilotId } from "../../models/types";
 
 export type PlayerStats = {
     moveSpeed: number;
@@ -42,19 +42,17 @@ export type MomentumState = {
     bonus: number;
 };
 
+/** A pilot's ship on screen and the controls it is read from */
 export type PilotRuntime = {
-    id: "p1" | "p2";
-    sprite: Phaser.Physics.Arcade.Image;
-    ability: AbilityState;
-    charge: ChargeRuntime;
-    momentum: MomentumState;
-    shield: ShieldState;
+    id: PilotId;
+    sprite: Phaser.GameObjects.Image;
     lastAimDirection: Phaser.Math.Vector2;
-    lastShotAt: number;
-    invulnUntil: number;
     gamepadState: GamepadControlState;
     control: ControlBinding;
+    /** Held for the next tick, so a press between ticks isn't lost */
+    dashQueued: boolean;
     shieldRing?: Phaser.GameObjects.Arc;
+    reviveRing?: Phaser.GameObjects.Arc;
 };
 
 export type UpgradeState = {
@@ -1,4 +1,3 @@
-import Phaser from "phaser";
 import { getUpgradeDefinition } from "../../../config/upgrades";
 import {
     canStackUpgrade,
@@ -8,15 +7,23 @@ import {
     getLegendaryAdjustments,
 } from "../../../config/upgradeBalance";
 import { SYNERGY_DEFINITIONS } from "../../../config/synergies";
-import type { UpgradeDefinition } from "../../../models/types";
-import { useMetaStore } from "../../../state/useMetaStore";
-import { useRunStore } from "../../../state/useRunStore";
-import { useUIStore } from "../../../state/useUIStore";
-import type { PlayerStats, PilotRuntime } from "../MainScene.types";
+import type {
+    UpgradeDefinition,
+    UpgradeInstance,
+} from "../../../models/types";
+import type {
+    AbilityState,
+    ChargeRuntime,
+    MomentumState,
+    PlayerStats,
+    ShieldState,
+} from "../MainScene.types";
 
 const OBJECT_SCALE = 0.7;
 const PROJECTILE_MAX_LIFETIME_MS = 3800;
 
+const degToRad = (degrees: number) => (degrees * Math.PI) / 180;
+
 export type CapacitorConfig = {
     stacks: number;
     idleMs: number;
@@ -139,20 +146,26 @@ export type ChargeState = {
 
 export type UpgradeStacks = { [id: string]: number };
 
+/** Every upgrade config and stack count, copied for rollback snapshots */
+export type UpgradeManagerState = Record<string, unknown>;
+
+/** The slice of pilot state upgrades touch, so headless runs can supply it too */
+export type UpgradePilot = {
+    ability: AbilityState;
+    charge: ChargeRuntime;
+    shield: ShieldState;
+    momentum: MomentumState;
+};
+
 export interface UpgradeManagerCallbacks {
     getPlayerStats: () => PlayerStats;
     setPlayerStats: (stats: Partial<PlayerStats>) => void;
-    getPlayerState: () => PilotRuntime | undefined;
-    getPlayerTwoState: () => PilotRuntime | undefined;
+    /** Every pilot in the run; stat-wide upgrades reach each of them */
+    getPilots: () => UpgradePilot[];
     enforceHealthCap: () => void;
-    setPaused: (paused: boolean) => void;
-    spawnBurstVisual: (
-        x: number,
-        y: number,
-        radius: number,
-        color: number,
-        alpha: number
-    ) => void;
+    syncVitals: () => void;
+    onUpgradeApplied: (upgrade: UpgradeInstance) => void;
+    onSynergyEnabled: (id: string) => void;
     defaultShieldState: () => {
         hp: number;
         activeUntil: number;
@@ -222,7 +235,7 @@ export class UpgradeManager {
         active: false,
         fireRateMultiplier: 4,
         damageMultiplier: 0.6,
-        inaccuracyRad: Phaser.Math.DegToRad(32),
+        inaccuracyRad: degToRad(32),
     };
     bloodFuel: BloodFuelConfig = {
         stacks: 0,
@@ -260,6 +273,21 @@ export class UpgradeManager {
         this.callbacks = callbacks;
     }
 
+    saveState(): UpgradeManagerState {
+        const state: UpgradeManagerState = {};
+        Object.entries(this).forEach(([key, value]) => {
+            if (key !== "callbacks") state[key] = structuredClone(value);
+        });
+        // Snapshots cross the network as JSON, which has no sets
+        state.activeSynergies = Array.from(this.activeSynergies);
+        return state;
+    }
+
+    loadState(state: UpgradeManagerState) {
+        Object.assign(this, structuredClone(state));
+        this.activeSynergies = new Set(state.activeSynergies as string[]);
+    }
+
     reset() {
         this.capacitor = {
             stacks: 0,
@@ -316,7 +344,7 @@ export class UpgradeManager {
             active: false,
             fireRateMultiplier: 4,
             damageMultiplier: 0.6,
-            inaccuracyRad: Phaser.Math.DegToRad(32),
+            inaccuracyRad: degToRad(32),
         };
         this.bloodFuel = {
             stacks: 0,
@@ -363,12 +391,10 @@ export class UpgradeManager {
 
         this.stacks[id] = current + 1;
         this.pendingOptions = [];
-        useUIStore.getState().actions.closeUpgradeSelection();
-        this.callbacks.setPaused(false);
         this.applyEffects(def);
         this.checkSynergies();
 
-        useRunStore.getState().actions.addUpgrade({
+        this.callbacks.onUpgradeApplied({
             id: def.id,
             stacks: this.stacks[id],
         });
@@ -391,8 +417,7 @@ export class UpgradeManager {
         if (this.activeSynergies.has(id)) return;
         this.activeSynergies.add(id);
         const stats = this.callbacks.getPlayerStats();
-        const p1 = this.callbacks.getPlayerState();
-        const p2 = this.callbacks.getPlayerTwoState();
+        const pilots = this.callbacks.getPilots();
 
         switch (id) {
             case "railgun": {
@@ -440,8 +465,9 @@ export class UpgradeManager {
                 this.bulletHell.inaccuracyRad *= 0.5;
                 break;
             case "phantom-striker":
-                if (p1) p1.ability.dashCooldownMs *= 0.75;
-                if (p2) p2.ability.dashCooldownMs *= 0.75;
+                pilots.forEach((pilot) => {
+                    pilot.ability.dashCooldownMs *= 0.75;
+                });
                 break;
             case "gravity-well":
                 this.explosive.radius *= 1.3;
@@ -462,36 +488,12 @@ export class UpgradeManager {
                 break;
         }
 
-        const metaState = useMetaStore.getState();
-        const previousUnlockCount =
-            metaState.lifetimeStats.synergyUnlockCounts[id] ?? 0;
-        const synergyDef = SYNERGY_DEFINITIONS.find((s) => s.id === id);
-
-        if (previousUnlockCount === 0 && synergyDef) {
-            metaState.actions.showAchievement(
-                id,
-                synergyDef.name,
-                synergyDef.description
-            );
-        }
-
-        useRunStore.getState().actions.unlockSynergy(id);
-        const anchor = p1?.sprite ?? p2?.sprite ?? null;
-        if (anchor) {
-            this.callbacks.spawnBurstVisual(
-                anchor.x,
-                anchor.y,
-                38 * OBJECT_SCALE,
-                0xffd7a6,
-                0.85
-            );
-        }
+        this.callbacks.onSynergyEnabled(id);
     }
 
     private applyEffects(def: UpgradeDefinition) {
         const stats = this.callbacks.getPlayerStats();
-        const p1 = this.callbacks.getPlayerState();
-        const p2 = this.callbacks.getPlayerTwoState();
+        const pilots = this.callbacks.getPilots();
 
         switch (def.id) {
             case "power-shot": {
@@ -571,12 +573,7 @@ export class UpgradeManager {
                     health: Math.min(stats.maxHealth + 1, stats.health + 1),
                 });
                 this.callbacks.enforceHealthCap();
-                useRunStore
-                    .getState()
-                    .actions.setVitals(
-                        this.callbacks.getPlayerStats().health,
-                        this.callbacks.getPlayerStats().maxHealth
-                    );
+                this.callbacks.syncVitals();
                 break;
             }
             case "sidecar":
@@ -642,16 +639,11 @@ export class UpgradeManager {
                 this.chargeState.idleMs = idleMs;
                 this.chargeState.damageBonus = damageBonus;
                 this.chargeState.sizeBonus = sizeBonus;
-                if (p1) {
-                    p1.charge.idleMs = idleMs;
-                    p1.charge.damageBonus = damageBonus;
-                    p1.charge.sizeBonus = sizeBonus;
-                }
-                if (p2) {
-                    p2.charge.idleMs = idleMs;
-                    p2.charge.damageBonus = damageBonus;
-                    p2.charge.sizeBonus = sizeBonus;
-                }
+                pilots.forEach((pilot) => {
+                    pilot.charge.idleMs = idleMs;
+                    pilot.charge.damageBonus = damageBonus;
+                    pilot.charge.sizeBonus = sizeBonus;
+                });
                 break;
             }
             case "shield-pickup": {
@@ -665,8 +657,9 @@ export class UpgradeManager {
                     cooldownMs,
                     nextReadyAt: 0,
                 };
-                if (p1) p1.shield = this.callbacks.defaultShieldState();
-                if (p2) p2.shield = this.callbacks.defaultShieldState();
+                pilots.forEach((pilot) => {
+                    pilot.shield = this.callbacks.defaultShieldState();
+                });
                 break;
             }
             case "kinetic-siphon": {
@@ -704,8 +697,9 @@ export class UpgradeManager {
                     timerMs: 0,
                     bonus: 0,
                 };
-                if (p1) p1.momentum = this.callbacks.defaultMomentumState();
-                if (p2) p2.momentum = this.callbacks.defaultMomentumState();
+                pilots.forEach((pilot) => {
+                    pilot.momentum = this.callbacks.defaultMomentumState();
+                });
                 break;
             }
             case "split-shot": {
@@ -765,7 +759,7 @@ export class UpgradeManager {
             case "heatseeker": {
                 const stacks = this.stacks[def.id];
                 const range = 240 + (stacks - 1) * 60;
-                const turnRate = Phaser.Math.DegToRad(
+                const turnRate = degToRad(
                     stacks === 1 ? 10 : stacks === 2 ? 30 : 90
                 );
                 this.homing = { stacks, range, turnRate };
@@ -790,12 +784,7 @@ export class UpgradeManager {
                     maxHealth: Math.min(stats.maxHealth, 1),
                     health: Math.min(stats.health, 1),
                 });
-                useRunStore
-                    .getState()
-                    .actions.setVitals(
-                        this.callbacks.getPlayerStats().health,
-                        this.callbacks.getPlayerStats().maxHealth
-                    );
+                this.callbacks.syncVitals();
                 break;
             }
             case "singularity-rounds":
@@ -815,7 +804,7 @@ export class UpgradeManager {
                     active: true,
                     fireRateMultiplier,
                     damageMultiplier,
-                    inaccuracyRad: Phaser.Math.DegToRad(34),
+                    inaccuracyRad: degToRad(34),
                 };
                 this.callbacks.setPlayerStats({
                     fireRate: stats.fireRate * fireRateMultiplier,
@@ -0,0 +1,51 @@
+/**
+ * Season rolls - the affixes and boss a seed plays with
+ *
+ * Both come from the seed value alone, so everyone entering the same seed or
+ * seed code meets the same affixes and boss. Most seeds roll one affix; a
+ * hard week stacks two or three that don't conflict.
+ */
+
+import { AFFIXES, canStackAffix, composeAffixes } from "../config/affixes";
+import { BOSSES } from "../config/bosses";
+import type { BossDefinition, WeeklyAffix } from "../models/types";
+import { Prng, pickFromList } from "../utils/seed";
+
+/** Chance a seed rolls a hard week with stacked affixes */
+export const HARD_WEEK_CHANCE = 0.2;
+
+/** Chance a hard week stacks a third affix */
+export const HARD_WEEK_THIRD_AFFIX_CHANCE = 0.35;
+
+export interface SeasonRoll {
+    /** Rolled affixes, one or more, in stacking order */
+    affixes: WeeklyAffix[];
+    /** The affixes composed into the one the run plays with */
+    affix: WeeklyAffix;
+    boss: BossDefinition;
+    hardWeek: boolean;
+}
+
+export function rollSeason(seedValue: number): SeasonRoll {
+    const affixRng = new Prng(seedValue ^ 0x9e3779b9);
+    const bossRng = new Prng(seedValue);
+    // The stack draws from its own stream so the lead affix stays the one
+    // the seed rolled before affixes could stack
+    const stackRng = new Prng(seedValue ^ 0x85ebca6b);
+    const affixes = [pickFromList(AFFIXES, affixRng)];
+    const hardWeek = stackRng.next() < HARD_WEEK_CHANCE;
+    if (hardWeek) {
+        const size = stackRng.next() < HARD_WEEK_THIRD_AFFIX_CHANCE ? 3 : 2;
+        while (affixes.length < size) {
+            const pool = AFFIXES.filter((a) => canStackAffix(affixes, a));
+            if (pool.length === 0) break;
+            affixes.push(pickFromList(pool, stackRng));
+        }
+    }
+    return {
+        affixes,
+        affix: composeAffixes(affixes) ?? affixes[0],
+        boss: BOSSES[bossRng.nextInt(BOSSES.length)] ?? BOSSES[0],
+        hardWeek: affixes.length > 1,
+    };
+}
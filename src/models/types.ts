@@ -2,19 +2,21 @@ export type Rarity = "common" | "rare" | "legendary";
 
 export type UpgradeTuning = Record<string, number>;
 
-export type RunMode = "standard" | "infinite" | "twin" | "online";
+export type RunMode = "standard" | "infinite" | "twin" | "online" | "bossRush";
 
 export type InputMode = "keyboardMouse" | "controller";
 
 export type ControlBinding =
     | { type: "keyboardMouse"; label?: string }
     | { type: "gamepad"; id?: string; index?: number; label?: string }
-    | { type: "remote"; peerId?: string; label?: string };
+    | { type: "remote"; peerId?: string; label?: string }
+    | { type: "replay"; label?: string };
 
-export type TwinControlConfig = {
-    p1: ControlBinding;
-    p2: ControlBinding;
-};
+/** Co-op seats; p1 is the host or the first local pilot */
+export type PilotId = "p1" | "p2" | "p3" | "p4";
+
+/** Controls for each seated pilot; seats without a binding sit the run out */
+export type TwinControlConfig = Partial<Record<PilotId, ControlBinding>>;
 
 export interface UpgradeDefinition {
     id: string;
@@ -52,9 +54,52 @@ export interface RunSummary {
     upgrades: UpgradeInstance[];
     seedId: string;
     bossId?: string;
+    /** Every affix the run stacked, in roll order */
+    affixIds?: string[];
+    /** Single affix saved before affixes could stack; read via runAffixIds */
     affixId?: string;
     synergies?: string[];
     mode?: RunMode;
+    /** Downed pilots brought back by a partner; co-op runs only */
+    revives?: number;
+    /** Mini-bosses met and felled, by id */
+    miniBossEncounters?: Record<string, number>;
+    miniBossKills?: Record<string, number>;
+}
+
+/** Run-length encoded input: [ticks, moveX, moveY, aimX, aimY, flags] as int8 packets */
+export type ReplayInputFrame = [number, number, number, number, number, number];
+
+export interface RunReplay {
+    version: number;
+    runId: string;
+    recordedAt: number;
+    seedId: string;
+    seedValue: number;
+    affixIds?: string[];
+    /** Single affix saved before affixes could stack; read via runAffixIds */
+    affixId?: string;
+    bossId?: string;
+    mode: RunMode;
+    // Meta state that shapes the run, captured so playback rolls the same options
+    difficultyMultiplier: number;
+    unlockedUpgrades: string[];
+    upgradeBoosts: Record<string, number>;
+    tickCount: number;
+    inputs: Partial<Record<PilotId, ReplayInputFrame[]>>;
+    upgradePicks: string[];
+    summary: RunSummary;
+}
+
+/** What every peer builds an online run from; the host sends it with the start */
+export interface RunSetup {
+    seedId: string;
+    seedValue: number;
+    affixIds: string[];
+    bossId: string;
+    difficultyMultiplier: number;
+    unlockedUpgrades: string[];
+    upgradeBoosts: Record<string, number>;
 }
 
 export interface Settings {
@@ -74,6 +119,10 @@ export type EnemyKind =
     | "phantom"
     | "orbiter"
     | "splitter"
+    | "shielder"
+    | "sniper"
+    | "minelayer"
+    | "healer"
     | "boss";
 
 export type EliteBehavior =
@@ -95,7 +144,32 @@ export interface EnemyDefinition {
 
 export interface WaveDefinition {
     id: string;
+    /** Sub-waves, in the order their triggers are checked */
+    groups: WaveGroup[];
+}
+
+/** How a group is laid out as it spawns; scatter is spread along the edges */
+export type SpawnFormation =
+    | "scatter"
+    | "ring"
+    | "line"
+    | "pincer"
+    | "corner-stack";
+
+export type SpawnSide = "top" | "bottom" | "left" | "right";
+
+export interface WaveGroup {
     enemies: EnemySpawn[];
+    /** Defaults to scatter */
+    formation?: SpawnFormation;
+    /** Edge the group comes in from; a random one when unset */
+    side?: SpawnSide;
+    /** Milliseconds after the wave starts before the group can spawn */
+    delayMs?: number;
+    /** Share of the wave spawned so far (0-1) that must be destroyed first */
+    afterCleared?: number;
+    /** Named mini-boss (config/miniBosses) that arrives with the group */
+    miniBoss?: string;
 }
 
 export interface EnemySpawn {
@@ -109,6 +183,20 @@ export interface UpgradeOption {
     stacks: number;
 }
 
+export type BossMovementStyle = "orbit" | "hunt" | "strafe" | "anchor";
+
+export interface BossPhaseDefinition {
+    // Pattern pool for this phase; a subset of the boss's patterns
+    patterns: string[];
+    // Scales every pattern's base cooldown (lower fires more often)
+    cooldownMultiplier: number;
+    movement: BossMovementStyle;
+    // Chance a quick secondary pattern follows each volley
+    overlapChance: number;
+    // Escorts arrive on this timer regardless of the pattern queue
+    summonIntervalMs?: number;
+}
+
 export interface BossDefinition {
     id: string;
     name: string;
@@ -120,6 +208,34 @@ export interface BossDefinition {
         projectileSpeedMultiplier?: number;
     };
     patterns: string[];
+    // Phases 1-3, entered at 100%, 66% and 33% health
+    phases: [BossPhaseDefinition, BossPhaseDefinition, BossPhaseDefinition];
+}
+
+/**
+ * A named elite that fights as its base kind, with a health bar and a few of
+ * the boss patterns on top
+ */
+export interface MiniBossDefinition {
+    id: string;
+    name: string;
+    description: string;
+    kind: Exclude<EnemyKind, "boss">;
+    // Applied on top of the elite kind's health
+    healthMultiplier: number;
+    // Relative to a regular enemy sprite
+    scale: number;
+    tint: number;
+    // Boss patterns, fired in this order on a loop
+    patterns: string[];
+    // Scales every pattern's base cooldown (lower fires more often)
+    cooldownMultiplier: number;
+    // Minis shed on death; splitters only
+    splitCount?: number;
+    // Picks from rare and legendary upgrades granted on the kill
+    rareDrops: number;
+    // What it costs out of a generated infinite-mode wave's budget
+    threat: number;
 }
 
 export interface WeeklyAffix {
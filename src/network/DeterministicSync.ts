@@ -6,9 +6,12 @@
  * - Each player is authoritative for: their ship, their bullets
  * - Sync inputs, not transforms
  * - Projectiles: fire-and-forget with deterministic simulation
- * - Corrections only when drift exceeds threshold
+ * - Late inputs rewind and resimulate (see RollbackSession)
  */
 
+import type { PilotId } from "../models/types";
+import type { SimSnapshot } from "../sim/HeadlessSimulation";
+
 // ============================================================================
 // CONFIGURATION
 // ============================================================================
@@ -22,11 +25,11 @@ export const SIM_TICK_RATE = 60;
 /** Maximum input buffer size */
 export const INPUT_BUFFER_SIZE = 64;
 
-/** Position error threshold before correction (pixels) */
-export const CORRECTION_THRESHOLD = 50;
+/** Ticks local input is held back before it applies (rollback sessions) */
+export const DEFAULT_INPUT_DELAY_TICKS = 2;
 
-/** Snapshot rate for corrections (Hz) */
-export const SNAPSHOT_RATE = 5; // 5Hz = 200ms intervals
+/** How far back a late input can rewind the simulation (ticks) */
+export const MAX_ROLLBACK_TICKS = 15; // 250ms at 60Hz
 
 // ============================================================================
 // INPUT TYPES
@@ -65,18 +68,6 @@ export interface ProjectileSpawn {
     seed: number; // for any RNG effects
 }
 
-/** Lightweight correction snapshot */
-export interface CorrectionSnapshot {
-    tick: number;
-    entities: Array<{
-        id: string;
-        x: number;
-        y: number;
-        vx?: number;
-        vy?: number;
-    }>;
-}
-
 /** Game event (discrete, non-continuous) */
 export interface GameEvent {
     tick: number;
@@ -84,6 +75,39 @@ export interface GameEvent {
     data: any;
 }
 
+/** Upgrade pick the host settled, by its place in the run's order of picks */
+export interface UpgradePick {
+    index: number;
+    id: string | null;
+}
+
+/** A seat parked while its peer is away, back again, or out for good */
+export interface PresenceChange {
+    tick: number;
+    pilotId: PilotId;
+    presence: "present" | "away" | "out";
+}
+
+/**
+ * The run as the host has it, sent to a peer joining mid-run. The snapshot
+ * is the newest one every peer agrees on; what follows it lets the peer
+ * simulate its way up to the present.
+ */
+export interface RunTransfer {
+    /** Loaded in place of the peer's fresh simulation */
+    snapshot: SimSnapshot;
+    /** Picks the snapshot has already taken */
+    picksTaken: number;
+    /** Every pick the host has settled, in order */
+    picks: (string | null)[];
+    /** Inputs the host holds from the snapshot's tick on */
+    inputs: Partial<Record<PilotId, PlayerInput[]>>;
+    presence: PresenceChange[];
+    /** Tick the host had reached when it sent the run */
+    tick: number;
+    elapsedTime: number;
+}
+
 // ============================================================================
 // INPUT COMPRESSION
 // ============================================================================
@@ -113,6 +137,14 @@ export function decompressInput(packet: InputPacket): PlayerInput {
     };
 }
 
+/**
+ * Rounds input to what survives compression, so the live run steps on the
+ * same values a replay or a peer will decode.
+ */
+export function quantizeInput(input: PlayerInput): PlayerInput {
+    return decompressInput(compressInput(input));
+}
+
 // ============================================================================
 // INPUT BUFFER
 // ============================================================================
@@ -326,7 +358,6 @@ export type NetMessage =
     | { type: "input"; data: InputPacket }
     | { type: "proj"; data: ProjectileSpawn }
     | { type: "event"; data: GameEvent }
-    | { type: "snap"; data: CorrectionSnapshot }
     | { type: "ping"; t: number }
     | { type: "pong"; t: number; st: number };
 
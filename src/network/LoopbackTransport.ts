@@ -0,0 +1,87 @@
+/**
+ * LoopbackTransport - Peers wired together in memory
+ *
+ * Every transport made by one hub shares its rooms, so several
+ * NetworkManagers in a single process talk as if they were on a network.
+ * Messages travel as JSON, as on a real link, and land on a later macrotask,
+ * never inside the send call, which keeps the ordering honest: a peer
+ * finishes joining before anything reaches it.
+ */
+
+import { MessageRoom } from "./MessageRoom";
+import type { NetworkTransport, TransportRoom } from "./NetworkTransport";
+
+export class LoopbackHub {
+    private readonly rooms = new Map<string, Map<string, MessageRoom>>();
+    private nextPeer = 1;
+
+    /** A transport for one more peer on this hub */
+    transport(): NetworkTransport {
+        return {
+            kind: "loopback",
+            joinRoom: async (roomCode) => this.join(roomCode),
+        };
+    }
+
+    /** Peers currently in a room, for tests */
+    peersIn(roomCode: string): string[] {
+        return [...(this.rooms.get(roomCode)?.keys() ?? [])];
+    }
+
+    /** Cuts a peer off from the rest of its room, as a dropped link would */
+    partition(roomCode: string, peerId: string): void {
+        this.link(roomCode, peerId, (room, other) => room.peerLeft(other));
+    }
+
+    /** Reconnects a partitioned peer under the same id */
+    heal(roomCode: string, peerId: string): void {
+        this.link(roomCode, peerId, (room, other) => room.peerJoined(other));
+    }
+
+    private link(
+        roomCode: string,
+        peerId: string,
+        change: (room: MessageRoom, other: string) => void
+    ): void {
+        const members = this.rooms.get(roomCode);
+        const self = members?.get(peerId);
+        if (!members || !self) return;
+        members.forEach((peer, otherId) => {
+            if (otherId === peerId) return;
+            setTimeout(() => change(self, otherId), 0);
+            setTimeout(() => change(peer, peerId), 0);
+        });
+    }
+
+    private join(roomCode: string): TransportRoom {
+        const members =
+            this.rooms.get(roomCode) ?? new Map<string, MessageRoom>();
+        this.rooms.set(roomCode, members);
+        const selfId = `loopback-${this.nextPeer++}`;
+
+        const room = new MessageRoom(selfId, {
+            post: (action, data, to) => {
+                members.forEach((peer, peerId) => {
+                    if (peerId === selfId || (to && to !== peerId)) return;
+                    // Framed like the relay's JSON, so tests see the real wire
+                    const { data: copy } = JSON.parse(JSON.stringify({ data }));
+                    setTimeout(() => peer.deliver(action, copy, selfId), 0);
+                });
+            },
+            close: () => {
+                members.delete(selfId);
+                if (members.size === 0) this.rooms.delete(roomCode);
+                members.forEach((peer) =>
+                    setTimeout(() => peer.peerLeft(selfId), 0)
+                );
+            },
+        });
+
+        members.forEach((peer, peerId) => {
+            room.peerJoined(peerId);
+            setTimeout(() => peer.peerJoined(selfId), 0);
+        });
+        members.set(selfId, room);
+        return room;
+    }
+}
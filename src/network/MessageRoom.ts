@@ -0,0 +1,91 @@
+/**
+ * MessageRoom - TransportRoom over a plain message pipe
+ *
+ * The relay and loopback transports both carry named JSON messages between
+ * peer ids; this turns that pipe into the action API NetworkManager expects.
+ * Peers already in the room when a join handler registers are replayed to
+ * it, so late handlers see the same joins they would have on Trystero.
+ */
+
+import type {
+    ReceiveAction,
+    SendAction,
+    TransportRoom,
+} from "./NetworkTransport";
+
+export interface MessagePipe {
+    post(action: string, data: unknown, to?: string): void;
+    close(): void;
+}
+
+type Receiver = (data: unknown, peerId: string) => void;
+type PeerHandler = (peerId: string) => void;
+
+export class MessageRoom implements TransportRoom {
+    readonly selfId: string;
+    private readonly pipe: MessagePipe;
+    private readonly receivers = new Map<string, Receiver>();
+    private readonly peers = new Set<string>();
+    private joinHandlers: PeerHandler[] = [];
+    private leaveHandlers: PeerHandler[] = [];
+    private open = true;
+
+    constructor(selfId: string, pipe: MessagePipe) {
+        this.selfId = selfId;
+        this.pipe = pipe;
+    }
+
+    get peerIds(): string[] {
+        return [...this.peers];
+    }
+
+    makeAction<T>(name: string): [SendAction<T>, ReceiveAction<T>] {
+        const send: SendAction<T> = (data, peerId) => {
+            if (this.open) this.pipe.post(name, data, peerId);
+        };
+        const receive: ReceiveAction<T> = (handler) => {
+            this.receivers.set(name, (data, peerId) =>
+                handler(data as T, peerId)
+            );
+        };
+        return [send, receive];
+    }
+
+    onPeerJoin(handler: PeerHandler): void {
+        this.joinHandlers.push(handler);
+        this.peers.forEach((peerId) => handler(peerId));
+    }
+
+    onPeerLeave(handler: PeerHandler): void {
+        this.leaveHandlers.push(handler);
+    }
+
+    leave(): void {
+        if (!this.open) return;
+        this.open = false;
+        this.pipe.close();
+        this.receivers.clear();
+        this.peers.clear();
+        this.joinHandlers = [];
+        this.leaveHandlers = [];
+    }
+
+    /** A message from another peer arrived */
+    deliver(action: string, data: unknown, from: string): void {
+        if (!this.open || !this.peers.has(from)) return;
+        this.receivers.get(action)?.(data, from);
+    }
+
+    peerJoined(peerId: string): void {
+        if (!this.open || peerId === this.selfId || this.peers.has(peerId)) {
+            return;
+        }
+        this.peers.add(peerId);
+        this.joinHandlers.forEach((handler) => handler(peerId));
+    }
+
+    peerLeft(peerId: string): void {
+        if (!this.peers.delete(peerId)) return;
+        this.leaveHandlers.forEach((handler) => handler(peerId));
+    }
+}
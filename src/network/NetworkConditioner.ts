@@ -0,0 +1,185 @@
+/**
+ * NetworkConditioner - Makes a good connection behave like a bad one
+ *
+ * Wraps a transport room so every message sent or received through it can
+ * be delayed, jittered, dropped, duplicated or held back behind later ones.
+ * Conditions apply each way, so a conditioned peer sees roughly twice the
+ * latency added to its round trips. With every condition at zero messages
+ * pass straight through, untouched and synchronous.
+ *
+ * Session control (roster, start) rides reliable, ordered channels on a real
+ * link, so actions named reliable are only ever delayed: never lost,
+ * duplicated or reordered.
+ */
+
+import type { TransportRoom } from "./NetworkTransport";
+
+export interface NetworkConditions {
+    /** Added to every message, each way */
+    latencyMs: number;
+    /** Each message lands up to this much earlier or later */
+    jitterMs: number;
+    /** Share of messages dropped, 0 to 1 */
+    lossRate: number;
+    /** Share of messages delivered twice */
+    duplicateRate: number;
+    /** Share of messages held back long enough for later ones to overtake */
+    reorderRate: number;
+}
+
+export interface ConditionerStats {
+    messages: number;
+    dropped: number;
+    duplicated: number;
+    reordered: number;
+}
+
+/** Extra hold for a reordered message, a few network ticks */
+export const REORDER_HOLD_MS = 80;
+
+export const PERFECT_NETWORK: NetworkConditions = {
+    latencyMs: 0,
+    jitterMs: 0,
+    lossRate: 0,
+    duplicateRate: 0,
+    reorderRate: 0,
+};
+
+export const NETWORK_PRESETS: Record<string, NetworkConditions> = {
+    Perfect: PERFECT_NETWORK,
+    Broadband: { ...PERFECT_NETWORK, latencyMs: 25, jitterMs: 5 },
+    Mobile: {
+        latencyMs: 70,
+        jitterMs: 30,
+        lossRate: 0.02,
+        duplicateRate: 0,
+        reorderRate: 0.02,
+    },
+    "Busy Wi-Fi": {
+        latencyMs: 110,
+        jitterMs: 60,
+        lossRate: 0.05,
+        duplicateRate: 0.01,
+        reorderRate: 0.05,
+    },
+    Awful: {
+        latencyMs: 220,
+        jitterMs: 120,
+        lossRate: 0.15,
+        duplicateRate: 0.05,
+        reorderRate: 0.1,
+    },
+};
+
+const emptyStats = (): ConditionerStats => ({
+    messages: 0,
+    dropped: 0,
+    duplicated: 0,
+    reordered: 0,
+});
+
+export class NetworkConditioner {
+    private _conditions: NetworkConditions = { ...PERFECT_NETWORK };
+    private _stats: ConditionerStats = emptyStats();
+    private readonly random: () => number;
+    /** Last scheduled delivery per reliable channel, to keep it in order */
+    private readonly releaseAt = new Map<string, number>();
+
+    constructor(random: () => number = Math.random) {
+        this.random = random;
+    }
+
+    get conditions(): NetworkConditions {
+        return { ...this._conditions };
+    }
+
+    get stats(): ConditionerStats {
+        return { ...this._stats };
+    }
+
+    /** Whether any condition is set, i.e. messages are being tampered with */
+    get active(): boolean {
+        return Object.values(this._conditions).some((value) => value > 0);
+    }
+
+    setConditions(conditions: Partial<NetworkConditions>): void {
+        this._conditions = { ...this._conditions, ...conditions };
+    }
+
+    resetStats(): void {
+        this._stats = emptyStats();
+    }
+
+    /** Routes a room's actions through the current conditions */
+    wrap(room: TransportRoom, reliable: string[] = []): TransportRoom {
+        let open = true;
+        return {
+            selfId: room.selfId,
+            makeAction: <T>(name: string) => {
+                const [send, receive] = room.makeAction<T>(name);
+                const ordered = reliable.includes(name);
+                return [
+                    (data: T, peerId?: string) =>
+                        this.pass(`out:${name}`, ordered, () => {
+                            if (open) send(data, peerId);
+                        }),
+                    (handler: (data: T, peerId: string) => void) =>
+                        receive((data, peerId) =>
+                            this.pass(`in:${name}`, ordered, () => {
+                                if (open) handler(data, peerId);
+                            })
+                        ),
+                ];
+            },
+            onPeerJoin: (handler) => room.onPeerJoin(handler),
+            onPeerLeave: (handler) => room.onPeerLeave(handler),
+            leave: () => {
+                open = false;
+                room.leave();
+            },
+        };
+    }
+
+    private pass(channel: string, reliable: boolean, deliver: () => void) {
+        if (!this.active) {
+            deliver();
+            return;
+        }
+        this._stats.messages += 1;
+        const { lossRate, duplicateRate } = this._conditions;
+        if (!reliable && this.random() < lossRate) {
+            this._stats.dropped += 1;
+            return;
+        }
+        let copies = 1;
+        if (!reliable && this.random() < duplicateRate) {
+            this._stats.duplicated += 1;
+            copies = 2;
+        }
+        for (let i = 0; i < copies; i++) {
+            setTimeout(deliver, this.delayFor(channel, reliable));
+        }
+    }
+
+    private delayFor(channel: string, reliable: boolean): number {
+        const { latencyMs, jitterMs, reorderRate } = this._conditions;
+        let delay = latencyMs + (this.random() * 2 - 1) * jitterMs;
+        if (reliable) {
+            const now = performance.now();
+            const release = Math.max(
+                now + delay,
+                this.releaseAt.get(channel) ?? 0
+            );
+            this.releaseAt.set(channel, release);
+            return release - now;
+        }
+        if (this.random() < reorderRate) {
+            this._stats.reordered += 1;
+            delay += REORDER_HOLD_MS;
+        }
+        return Math.max(0, delay);
+    }
+}
+
+/** Shared by every NetworkManager so dev settings outlive a session */
+export const networkConditioner = new NetworkConditioner();
@@ -2,10 +2,16 @@
  * NetworkManager - Coordinates deterministic networking
  *
  * Responsibilities:
- * - Manages connection via Trystero
- * - Sends/receives inputs, projectile spawns, events
- * - Handles clock synchronization
- * - Provides correction snapshots when needed
+ * - Manages connection over a pluggable transport (Trystero by default)
+ * - Seats peers in pilot slots (host) and shares the roster with guests
+ * - Promotes a guest when the host drops mid-run
+ * - Holds a dropped guest's seat for a while and resumes them on rejoin
+ * - Keeps spectators out of the roster and off every outgoing channel
+ * - Sends/receives inputs, projectile spawns, events, and the host's
+ *   upgrade picks and seat changes
+ * - Handles clock synchronization and latency estimates
+ * - Routes traffic through the network conditioner for lag testing
+ * - Carries a peer's request to have the run resent when it fell out of step
  */
 
 import {
@@ -13,15 +19,35 @@ import {
     type InputPacket,
     type ProjectileSpawn,
     type GameEvent,
-    type CorrectionSnapshot,
+    type RunTransfer,
+    type UpgradePick,
+    type PresenceChange,
     InputBuffer,
     TickClock,
     ClockSync,
     compressInput,
     decompressInput,
-    NET_TICK_RATE,
-    SNAPSHOT_RATE,
 } from "./DeterministicSync";
+import type { PilotId, RunSetup } from "../models/types";
+import {
+    type PilotRoster,
+    createRoster,
+    migrateHost,
+    pilotForPeer,
+    seatPeer,
+    unseatPeer,
+} from "./PilotRoster";
+import type {
+    NetworkTransport,
+    SendAction,
+    TransportRoom,
+} from "./NetworkTransport";
+import { selectTransport } from "./selectTransport";
+import {
+    type NetworkConditioner,
+    networkConditioner,
+} from "./NetworkConditioner";
+import { LatencyEstimator } from "./Interpolation";
 
 // ============================================================================
 // TYPES
@@ -32,53 +58,138 @@ export type ConnectionState =
     | "connecting"
     | "connected"
     | "error";
-export type NetworkRole = "host" | "guest";
+/** Spectators receive snapshots and events but never send gameplay data */
+export type NetworkRole = "host" | "guest" | "spectator";
+
+/**
+ * Roster broadcast. Each host migration bumps the epoch, so a host that went
+ * to sleep and wakes up still hosting knows it has been replaced.
+ */
+interface RosterMessage {
+    roster: PilotRoster;
+    host: string;
+    epoch: number;
+    /** Seated peers that dropped and may still rejoin */
+    away?: string[];
+    /** The host's session token, to hold its seat by if it drops */
+    token?: string;
+}
+
+interface StartMessage {
+    roster: PilotRoster;
+    setup: RunSetup;
+}
+
+interface ResumeMessage extends StartMessage {
+    transfer: RunTransfer;
+}
+
+/**
+ * A seat kept for a peer that dropped mid-run, by its session token (or its
+ * peer id when it never sent one)
+ */
+interface HeldSeat {
+    peerId: string;
+    pilotId: PilotId;
+    timer: ReturnType<typeof setTimeout>;
+}
+
+/** How long a dropped guest's seat waits for them to rejoin */
+export const RECONNECT_WINDOW_MS = 30000;
 
 export interface NetworkCallbacks {
-    onRemoteInput?: (input: PlayerInput) => void;
+    onRemoteInput?: (input: PlayerInput, peerId: string) => void;
     onProjectileSpawn?: (spawn: ProjectileSpawn) => void;
     onGameEvent?: (event: GameEvent) => void;
-    onCorrection?: (snapshot: CorrectionSnapshot) => void;
     onPeerJoin?: (peerId: string) => void;
     onPeerLeave?: (peerId: string) => void;
+    onRosterChange?: (roster: PilotRoster) => void;
+    /** The run moved to a new host, possibly this peer */
+    onHostChange?: (hostPeerId: string) => void;
     onGameStart?: () => void;
+    /** Host only: a dropped guest took its seat back and needs the run */
+    onPeerRejoin?: (peerId: string, pilotId: PilotId) => void;
+    /** Host only: a spectator arrived mid-run and needs the run */
+    onSpectatorJoin?: (peerId: string) => void;
+    /** Joining mid-run: the host sent the run to pick up */
+    onRunTransfer?: (transfer: RunTransfer) => void;
+    /** Host only: a peer's run fell out of step and needs resending */
+    onResyncRequest?: (peerId: string) => void;
+    /** The host settled an upgrade pick for the whole run */
+    onUpgradePick?: (pick: UpgradePick) => void;
+    /** The host parked, restored or retired a seat */
+    onPresenceChange?: (change: PresenceChange) => void;
 }
 
+/**
+ * Session control, plus inputs and host decisions: a rollback peer never
+ * sees a lost one again. The conditioner may delay these but never loses them.
+ */
+const RELIABLE_ACTIONS = ["i", "go", "ro", "sp", "hi", "rs", "rq", "up", "pr"];
+
 // ============================================================================
 // NETWORK MANAGER
 // ============================================================================
 
 export class NetworkManager {
     // Connection state
-    private room: any = null;
+    private transport: NetworkTransport;
+    private readonly conditioner: NetworkConditioner;
+    private room: TransportRoom | null = null;
     private _state: ConnectionState = "disconnected";
     private _role: NetworkRole = "host";
     private _roomCode: string | null = null;
     private _peerId: string | null = null;
     private _connectedPeers: string[] = [];
+    private _roster: PilotRoster = {};
+    private _spectators: string[] = [];
+    private _hostPeerId: string | null = null;
+    private hostEpoch = 0;
+    private runStarted = false;
+    private _runSetup: RunSetup | null = null;
+    private sessionToken: string | null = null;
+    // The token the current host sent, for a successor to hold its seat by
+    private hostToken: string | null = null;
+    private _awayPeers: string[] = [];
+    // Host only: who introduced itself with which token, and the seats held
+    private peerTokens = new Map<string, string>();
+    private heldSeats = new Map<string, HeldSeat>();
 
     // Timing
     private clock: TickClock = new TickClock();
     private clockSync: ClockSync = new ClockSync();
-    private lastInputSendTime: number = 0;
-    private lastSnapshotTime: number = 0;
+    private latencyEstimator = new LatencyEstimator();
     private lastPingTime: number = 0;
 
     // Input buffering
     private localInputBuffer: InputBuffer = new InputBuffer();
-    private remoteInputBuffer: InputBuffer = new InputBuffer();
+    private remoteInputBuffers = new Map<string, InputBuffer>();
 
     // Callbacks
     private callbacks: NetworkCallbacks = {};
 
-    // Trystero actions (lazy initialized)
-    private sendInput: ((data: InputPacket) => void) | null = null;
-    private sendProj: ((data: ProjectileSpawn) => void) | null = null;
-    private sendEvent: ((data: GameEvent) => void) | null = null;
-    private sendSnap: ((data: CorrectionSnapshot) => void) | null = null;
-    private sendPing: ((data: { t: number }) => void) | null = null;
-    private sendPong: ((data: { t: number; st: number }) => void) | null = null;
-    private sendStart: ((data: any) => void) | null = null;
+    // Transport actions (lazy initialized)
+    private sendInput: SendAction<InputPacket> | null = null;
+    private sendProj: SendAction<ProjectileSpawn> | null = null;
+    private sendEvent: SendAction<GameEvent> | null = null;
+    private sendPing: SendAction<{ t: number }> | null = null;
+    private sendPong: SendAction<{ t: number; st: number }> | null = null;
+    private sendStart: SendAction<StartMessage> | null = null;
+    private sendRoster: SendAction<RosterMessage> | null = null;
+    private sendSpectate: SendAction<object> | null = null;
+    private sendHello: SendAction<{ token?: string }> | null = null;
+    private sendResume: SendAction<ResumeMessage> | null = null;
+    private sendResync: SendAction<object> | null = null;
+    private sendPick: SendAction<UpgradePick> | null = null;
+    private sendPresence: SendAction<PresenceChange> | null = null;
+
+    constructor(
+        transport: NetworkTransport = selectTransport(),
+        conditioner: NetworkConditioner = networkConditioner
+    ) {
+        this.transport = transport;
+        this.conditioner = conditioner;
+    }
 
     // ========================================================================
     // GETTERS
@@ -99,9 +210,34 @@ export class NetworkManager {
     get connectedPeers(): string[] {
         return [...this._connectedPeers];
     }
+    get roster(): PilotRoster {
+        return { ...this._roster };
+    }
+    get hostPeerId(): string | null {
+        return this._hostPeerId;
+    }
+    /** What the run under way was built from, once the host has sent it */
+    get runSetup(): RunSetup | null {
+        return this._runSetup;
+    }
+    /** Seated peers that dropped mid-run and whose seats are being held */
+    get awayPeers(): string[] {
+        return [...this._awayPeers];
+    }
+    /** Host only: peers watching without a seat */
+    get spectators(): string[] {
+        return [...this._spectators];
+    }
+    /** Seat this peer flies, or null until the host seats it */
+    get localPilotId(): PilotId | null {
+        return this._peerId ? pilotForPeer(this._roster, this._peerId) : null;
+    }
     get isHost(): boolean {
         return this._role === "host";
     }
+    get isSpectator(): boolean {
+        return this._role === "spectator";
+    }
     get isConnected(): boolean {
         return this._state === "connected" && this._connectedPeers.length > 0;
     }
@@ -111,6 +247,13 @@ export class NetworkManager {
     get rtt(): number {
         return this.clockSync.rtt;
     }
+    /** One-way latency and jitter from recent clock pings */
+    get latency(): LatencyEstimator {
+        return this.latencyEstimator;
+    }
+    get transportKind(): NetworkTransport["kind"] {
+        return this.transport.kind;
+    }
 
     // ========================================================================
     // CALLBACKS
@@ -120,11 +263,20 @@ export class NetworkManager {
         this.callbacks = callbacks;
     }
 
+    /** Swaps how peers connect; only takes effect for the next room */
+    setTransport(transport: NetworkTransport): void {
+        this.transport = transport;
+    }
+
     // ========================================================================
     // CONNECTION
     // ========================================================================
 
-    async createRoom(): Promise<string> {
+    /**
+     * Opens a room and hosts it. The host gets a session token for the room
+     * too, so a guest that takes over can hold its seat if it drops.
+     */
+    async createRoom(tokenFor?: (roomCode: string) => string): Promise<string> {
         const roomCode = Math.random()
             .toString(36)
             .substring(2, 8)
@@ -134,15 +286,15 @@ export class NetworkManager {
             this._state = "connecting";
             this._role = "host";
             this._roomCode = roomCode;
+            this.sessionToken = tokenFor?.(roomCode) ?? null;
 
-            const trystero = await import("trystero/mqtt");
-            const rtcConfig = this.getRtcConfig();
-
-            this.room = trystero.joinRoom(
-                { appId: "quiet-quadrant", rtcConfig },
-                roomCode
+            this.room = this.conditioner.wrap(
+                await this.transport.joinRoom(roomCode),
+                RELIABLE_ACTIONS
             );
-            this._peerId = trystero.selfId;
+            this._peerId = this.room.selfId;
+            this._hostPeerId = this.room.selfId;
+            this._roster = createRoster(this.room.selfId);
 
             this.setupActions();
             this.setupPeerHandlers();
@@ -158,20 +310,26 @@ export class NetworkManager {
         }
     }
 
-    async joinRoom(roomCode: string): Promise<void> {
+    /**
+     * Joins a room as a guest or spectator. A guest that passes the session
+     * token it used before gets its old seat back if the host still holds it.
+     */
+    async joinRoom(
+        roomCode: string,
+        role: "guest" | "spectator" = "guest",
+        sessionToken?: string
+    ): Promise<void> {
         try {
             this._state = "connecting";
-            this._role = "guest";
+            this._role = role;
             this._roomCode = roomCode;
+            this.sessionToken = sessionToken ?? null;
 
-            const trystero = await import("trystero/mqtt");
-            const rtcConfig = this.getRtcConfig();
-
-            this.room = trystero.joinRoom(
-                { appId: "quiet-quadrant", rtcConfig },
-                roomCode
+            this.room = this.conditioner.wrap(
+                await this.transport.joinRoom(roomCode),
+                RELIABLE_ACTIONS
             );
-            this._peerId = trystero.selfId;
+            this._peerId = this.room.selfId;
 
             this.setupActions();
             this.setupPeerHandlers();
@@ -195,88 +353,73 @@ export class NetworkManager {
         this._roomCode = null;
         this._peerId = null;
         this._connectedPeers = [];
+        this._roster = {};
+        this._spectators = [];
+        this._hostPeerId = null;
+        this.hostEpoch = 0;
+        this.runStarted = false;
+        this._runSetup = null;
+        this.sessionToken = null;
+        this.hostToken = null;
+        this._awayPeers = [];
+        this.peerTokens.clear();
+        this.heldSeats.forEach((held) => clearTimeout(held.timer));
+        this.heldSeats.clear();
         this.clock.reset();
         this.clockSync.reset();
+        this.latencyEstimator = new LatencyEstimator();
         this.localInputBuffer.clear();
-        this.remoteInputBuffer.clear();
+        this.remoteInputBuffers.clear();
         this.sendInput = null;
         this.sendProj = null;
         this.sendEvent = null;
-        this.sendSnap = null;
         this.sendPing = null;
         this.sendPong = null;
         this.sendStart = null;
+        this.sendRoster = null;
+        this.sendSpectate = null;
+        this.sendHello = null;
+        this.sendResume = null;
+        this.sendResync = null;
+        this.sendPick = null;
+        this.sendPresence = null;
     }
 
-    private getRtcConfig(): RTCConfiguration {
-        const turnUrl = import.meta.env.VITE_TURN_URL || "";
-        const turnUser = import.meta.env.VITE_TURN_USERNAME || "";
-        const turnPass = import.meta.env.VITE_TURN_PASSWORD || "";
-
-        return {
-            iceServers: [
-                { urls: "stun:stun.l.google.com:19302" },
-                ...(turnUrl
-                    ? [
-                          {
-                              urls: [
-                                  `turn:${turnUrl}`,
-                                  `turn:${turnUrl}?transport=tcp`,
-                              ],
-                              username: turnUser,
-                              credential: turnPass,
-                          },
-                      ]
-                    : [
-                          {
-                              urls: [
-                                  "turn:openrelay.metered.ca:443",
-                                  "turn:openrelay.metered.ca:443?transport=tcp",
-                              ],
-                              username: "openrelayproject",
-                              credential: "openrelayproject",
-                          },
-                      ]),
-            ],
-            iceCandidatePoolSize: 4,
-        };
+    /** Gives up this peer's seat (or the hope of one) to watch instead */
+    spectate(): void {
+        if (this.isHost) return;
+        this._role = "spectator";
+        this.sendSpectate?.({});
     }
 
     private setupActions(): void {
         if (!this.room) return;
 
         // Input sync (most frequent) - "i" for minimal overhead
-        const [sendI, getI] = this.room.makeAction("i");
+        const [sendI, getI] = this.room.makeAction<InputPacket>("i");
         this.sendInput = sendI;
-        getI((data: InputPacket) => {
+        getI((data: InputPacket, peerId: string) => {
             const input = decompressInput(data);
-            this.remoteInputBuffer.set(input.tick, input);
-            this.callbacks.onRemoteInput?.(input);
+            this.remoteBufferFor(peerId).set(input.tick, input);
+            this.callbacks.onRemoteInput?.(input, peerId);
         });
 
         // Projectile spawn - "p"
-        const [sendP, getP] = this.room.makeAction("p");
+        const [sendP, getP] = this.room.makeAction<ProjectileSpawn>("p");
         this.sendProj = sendP;
         getP((data: ProjectileSpawn) => {
             this.callbacks.onProjectileSpawn?.(data);
         });
 
         // Game events - "e"
-        const [sendE, getE] = this.room.makeAction("e");
+        const [sendE, getE] = this.room.makeAction<GameEvent>("e");
         this.sendEvent = sendE;
         getE((data: GameEvent) => {
             this.callbacks.onGameEvent?.(data);
         });
 
-        // Correction snapshots - "s"
-        const [sendS, getS] = this.room.makeAction("s");
-        this.sendSnap = sendS;
-        getS((data: CorrectionSnapshot) => {
-            this.callbacks.onCorrection?.(data);
-        });
-
         // Clock sync ping - "pi"
-        const [sendPi, getPi] = this.room.makeAction("pi");
+        const [sendPi, getPi] = this.room.makeAction<{ t: number }>("pi");
         this.sendPing = sendPi;
         getPi((data: { t: number }) => {
             // Respond with pong
@@ -284,18 +427,204 @@ export class NetworkManager {
         });
 
         // Clock sync pong - "po"
-        const [sendPo, getPo] = this.room.makeAction("po");
+        const [sendPo, getPo] = this.room.makeAction<{ t: number; st: number }>("po");
         this.sendPong = sendPo;
         getPo((data: { t: number; st: number }) => {
             this.clockSync.processPong(data.t, data.st);
+            this.latencyEstimator.addSample(this.clockSync.rtt / 2);
         });
 
-        // Game start signal - "go"
-        const [sendGo, getGo] = this.room.makeAction("go");
+        // Game start signal - "go", carrying the final roster and the run
+        const [sendGo, getGo] = this.room.makeAction<StartMessage>("go");
         this.sendStart = sendGo;
-        getGo(() => {
+        getGo((data: StartMessage, peerId: string) => {
+            this.applyRoster(data.roster);
+            this._runSetup = data.setup;
+            this._hostPeerId = peerId;
+            this.runStarted = true;
             this.callbacks.onGameStart?.();
         });
+
+        // Pilot roster - "ro" (host to guests)
+        const [sendRo, getRo] = this.room.makeAction<RosterMessage>("ro");
+        this.sendRoster = sendRo;
+        getRo((data: RosterMessage) => {
+            if (data.epoch < this.hostEpoch) return;
+            if (this.isHost) {
+                // Another peer took over while this one was away
+                if (data.host === this._peerId) return;
+                if (data.epoch === this.hostEpoch) return;
+                this._role = "guest";
+                // Seats it held while cut off are the new host's to keep
+                this.heldSeats.forEach((held) => clearTimeout(held.timer));
+                this.heldSeats.clear();
+            }
+            const hostChanged = data.host !== this._hostPeerId;
+            this.hostEpoch = data.epoch;
+            this._hostPeerId = data.host;
+            this.hostToken = data.token ?? null;
+            this.applyRoster(data.roster, data.away);
+            if (hostChanged) this.callbacks.onHostChange?.(data.host);
+        });
+
+        // Spectate request - "sp" (any peer to the host)
+        const [sendSp, getSp] = this.room.makeAction<object>("sp");
+        this.sendSpectate = sendSp;
+        getSp((_data: object, peerId: string) => {
+            if (!this.isHost) return;
+            if (!this._spectators.includes(peerId)) {
+                this._spectators = [...this._spectators, peerId];
+            }
+            this.updateRoster(unseatPeer(this._roster, peerId));
+            if (this.runStarted) this.callbacks.onSpectatorJoin?.(peerId);
+        });
+
+        // Guest hello - "hi" (guest to the host). A guest is seated once it
+        // says hello; one with a token reclaims the seat held for it.
+        const [sendHi, getHi] = this.room.makeAction<{ token?: string }>("hi");
+        this.sendHello = sendHi;
+        getHi((data: { token?: string }, peerId: string) => {
+            if (!this.isHost || this._spectators.includes(peerId)) return;
+            const token = data?.token;
+            if (token) this.peerTokens.set(peerId, token);
+            const held = token ? this.heldSeats.get(token) : undefined;
+            if (!token || !held) {
+                // Sent even when the room is full so the guest learns it has
+                // no seat; a run under way takes no one new
+                this.updateRoster(
+                    this.runStarted
+                        ? this._roster
+                        : seatPeer(this._roster, peerId)
+                );
+                return;
+            }
+            this.reclaimSeat(token, held, peerId);
+        });
+
+        // Run transfer - "rs" (host to a peer joining mid-run)
+        const [sendRs, getRs] = this.room.makeAction<ResumeMessage>("rs");
+        this.sendResume = sendRs;
+        getRs((data, peerId: string) => {
+            if (this.isHost) return;
+            // A replaced host that has not heard yet may still send its run
+            if (this._hostPeerId && peerId !== this._hostPeerId) return;
+            this._hostPeerId = peerId;
+            this.runStarted = true;
+            this._runSetup = data.setup;
+            this.applyRoster(data.roster, this._awayPeers);
+            this.callbacks.onRunTransfer?.(data.transfer);
+        });
+
+        // Resync request - "rq" (any peer to the host)
+        const [sendRq, getRq] = this.room.makeAction<object>("rq");
+        this.sendResync = sendRq;
+        getRq((_data: object, peerId: string) => {
+            if (!this.isHost || !this.runStarted) return;
+            this.callbacks.onResyncRequest?.(peerId);
+        });
+
+        // Upgrade pick - "up" (host to everyone)
+        const [sendUp, getUp] = this.room.makeAction<UpgradePick>("up");
+        this.sendPick = sendUp;
+        getUp((data: UpgradePick, peerId: string) => {
+            if (peerId !== this._hostPeerId) return;
+            this.callbacks.onUpgradePick?.(data);
+        });
+
+        // Seat presence - "pr" (host to everyone)
+        const [sendPr, getPr] = this.room.makeAction<PresenceChange>("pr");
+        this.sendPresence = sendPr;
+        getPr((data: PresenceChange, peerId: string) => {
+            if (peerId !== this._hostPeerId) return;
+            this.callbacks.onPresenceChange?.(data);
+        });
+    }
+
+    private applyRoster(roster: PilotRoster, away: string[] = []): void {
+        this._roster = { ...roster };
+        this._awayPeers = [...away];
+        this.callbacks.onRosterChange?.(this.roster);
+    }
+
+    /** Host only: reseat after a join or leave and tell every guest */
+    private updateRoster(roster: PilotRoster): void {
+        if (!this.isHost || !this._peerId) return;
+        const away = [...this.heldSeats.values()].map((held) => held.peerId);
+        this.applyRoster(roster, away);
+        this.sendRoster?.({
+            roster: this._roster,
+            host: this._peerId,
+            epoch: this.hostEpoch,
+            away,
+            ...(this.sessionToken ? { token: this.sessionToken } : {}),
+        });
+    }
+
+    /**
+     * Host only: a seated peer dropped mid-run. Its ship stays seated (the
+     * scene parks it) until the peer rejoins or the window runs out and the
+     * seat is freed as if it had left for good.
+     */
+    private holdSeat(key: string, peerId: string, pilotId: PilotId): void {
+        const timer = setTimeout(() => {
+            this.heldSeats.delete(key);
+            this.updateRoster(
+                unseatPeer(this._roster, peerId, this._peerId ?? undefined)
+            );
+        }, RECONNECT_WINDOW_MS);
+        this.heldSeats.set(key, { peerId, pilotId, timer });
+        this.updateRoster(this._roster);
+    }
+
+    /** Host only: hands a held seat back to the peer that rejoined for it */
+    private reclaimSeat(key: string, held: HeldSeat, peerId: string): void {
+        clearTimeout(held.timer);
+        this.heldSeats.delete(key);
+        this.updateRoster({
+            ...unseatPeer(this._roster, peerId, this._peerId ?? undefined),
+            [held.pilotId]: peerId,
+        });
+        if (this.runStarted) {
+            this.callbacks.onPeerRejoin?.(peerId, held.pilotId);
+        }
+    }
+
+    /**
+     * Guest side: the host dropped mid-run. Every guest picks the same
+     * successor; the one it names starts hosting from its own simulation and
+     * parks the old host's seat in case it comes back.
+     */
+    private handleHostLoss(hostPeerId: string): void {
+        // Seats held for dropped guests lapse: only the old host knew the tokens
+        const present = this._awayPeers.reduce(
+            (roster, peerId) => unseatPeer(roster, peerId, hostPeerId),
+            this._roster
+        );
+        const { host } = migrateHost(present, hostPeerId);
+        if (!host) return;
+        const hostKey = this.hostToken ?? hostPeerId;
+        this.hostEpoch += 1;
+        this._hostPeerId = host;
+        this.hostToken = null;
+        if (host === this._peerId) {
+            this._role = "host";
+            this._roster = present;
+            const seat = pilotForPeer(present, hostPeerId);
+            if (seat) this.holdSeat(hostKey, hostPeerId, seat);
+            else this.updateRoster(present);
+        } else {
+            this.applyRoster(present, [hostPeerId]);
+        }
+        this.callbacks.onHostChange?.(host);
+    }
+
+    private remoteBufferFor(peerId: string): InputBuffer {
+        let buffer = this.remoteInputBuffers.get(peerId);
+        if (!buffer) {
+            buffer = new InputBuffer();
+            this.remoteInputBuffers.set(peerId, buffer);
+        }
+        return buffer;
     }
 
     private setupPeerHandlers(): void {
@@ -304,6 +633,20 @@ export class NetworkManager {
         this.room.onPeerJoin((peerId: string) => {
             this._connectedPeers.push(peerId);
             this.callbacks.onPeerJoin?.(peerId);
+            // A host whose link blinked comes back under the same id, as a
+            // guest in its old seat; after a reload it says hello instead
+            const entry = this.isHost
+                ? [...this.heldSeats].find(([, held]) => held.peerId === peerId)
+                : undefined;
+            if (entry) this.reclaimSeat(entry[0], entry[1], peerId);
+            // The host seats a peer only once it says which role it wants
+            if (this.isSpectator) this.sendSpectate?.({}, peerId);
+            if (this._role === "guest") {
+                this.sendHello?.(
+                    this.sessionToken ? { token: this.sessionToken } : {},
+                    peerId
+                );
+            }
 
             // Start clock sync
             this.sendClockPing();
@@ -313,7 +656,27 @@ export class NetworkManager {
             this._connectedPeers = this._connectedPeers.filter(
                 (id) => id !== peerId
             );
+            this.remoteInputBuffers.delete(peerId);
+            this._spectators = this._spectators.filter((id) => id !== peerId);
             this.callbacks.onPeerLeave?.(peerId);
+            if (
+                !this.isHost &&
+                this.runStarted &&
+                peerId === this._hostPeerId
+            ) {
+                this.handleHostLoss(peerId);
+                return;
+            }
+            const token = this.peerTokens.get(peerId);
+            this.peerTokens.delete(peerId);
+            const seat = pilotForPeer(this._roster, peerId);
+            if (this.isHost && this.runStarted && token && seat) {
+                this.holdSeat(token, peerId, seat);
+                return;
+            }
+            this.updateRoster(
+                unseatPeer(this._roster, peerId, this._peerId ?? undefined)
+            );
         });
     }
 
@@ -321,9 +684,9 @@ export class NetworkManager {
     // SENDING
     // ========================================================================
 
-    /** Send local input (called every network tick) */
+    /** Send local input (called every simulation tick) */
     sendLocalInput(input: PlayerInput): void {
-        if (!this.isConnected || !this.sendInput) return;
+        if (!this.isConnected || !this.sendInput || this.isSpectator) return;
 
         this.localInputBuffer.set(input.tick, input);
         this.sendInput(compressInput(input));
@@ -331,26 +694,53 @@ export class NetworkManager {
 
     /** Send projectile spawn event */
     sendProjectileSpawn(spawn: ProjectileSpawn): void {
-        if (!this.isConnected || !this.sendProj) return;
+        if (!this.isConnected || !this.sendProj || this.isSpectator) return;
         this.sendProj(spawn);
     }
 
     /** Send game event */
     sendGameEvent(event: GameEvent): void {
-        if (!this.isConnected || !this.sendEvent) return;
+        if (!this.isConnected || !this.sendEvent || this.isSpectator) return;
         this.sendEvent(event);
     }
 
-    /** Send correction snapshot (host only, periodic) */
-    sendCorrectionSnapshot(snapshot: CorrectionSnapshot): void {
-        if (!this.isConnected || !this.sendSnap || !this.isHost) return;
-        this.sendSnap(snapshot);
-    }
-
     /** Signal game start (host only) */
-    signalGameStart(): void {
+    signalGameStart(setup: RunSetup): void {
         if (!this.isConnected || !this.sendStart || !this.isHost) return;
-        this.sendStart({});
+        this.runStarted = true;
+        this._runSetup = setup;
+        this.sendStart({ roster: this._roster, setup });
+    }
+
+    /**
+     * Send the run to resume from (host only): to a peer joining mid-run, or
+     * to every peer when none is named, as a new host does on taking over
+     */
+    sendRunTransfer(peerId: string | null, transfer: RunTransfer): void {
+        if (!this.isConnected || !this.sendResume || !this.isHost) return;
+        if (!this._runSetup) return;
+        this.sendResume(
+            { roster: this._roster, setup: this._runSetup, transfer },
+            peerId ?? undefined
+        );
+    }
+
+    /** Ask the host to resend the run after this peer fell out of step */
+    requestResync(): void {
+        if (!this.isConnected || this.isHost || !this._hostPeerId) return;
+        this.sendResync?.({}, this._hostPeerId);
+    }
+
+    /** Send the pick the host settled (host only) */
+    sendUpgradePick(pick: UpgradePick): void {
+        if (!this.isConnected || !this.sendPick || !this.isHost) return;
+        this.sendPick(pick);
+    }
+
+    /** Send a seat's presence change (host only) */
+    sendPresenceChange(change: PresenceChange): void {
+        if (!this.isConnected || !this.sendPresence || !this.isHost) return;
+        this.sendPresence(change);
     }
 
     /** Send clock sync ping */
@@ -363,14 +753,17 @@ export class NetworkManager {
     // INPUT ACCESS
     // ========================================================================
 
-    /** Get remote input for a tick */
-    getRemoteInput(tick: number): PlayerInput | null {
-        return this.remoteInputBuffer.get(tick);
+    /** Get a peer's input for a tick */
+    getRemoteInput(peerId: string, tick: number): PlayerInput | null {
+        return this.remoteInputBuffers.get(peerId)?.get(tick) ?? null;
     }
 
-    /** Get latest remote input */
-    getLatestRemoteInput(): PlayerInput | null {
-        return this.remoteInputBuffer.getLatest(this.currentTick);
+    /** Get a peer's latest input */
+    getLatestRemoteInput(peerId: string): PlayerInput | null {
+        return (
+            this.remoteInputBuffers.get(peerId)?.getLatest(this.currentTick) ??
+            null
+        );
     }
 
     /** Get local input for a tick */
@@ -394,29 +787,6 @@ export class NetworkManager {
             this.lastPingTime = now;
         }
     }
-
-    /** Check if it's time to send input */
-    shouldSendInput(): boolean {
-        const now = performance.now();
-        const interval = 1000 / NET_TICK_RATE;
-        if (now - this.lastInputSendTime >= interval) {
-            this.lastInputSendTime = now;
-            return true;
-        }
-        return false;
-    }
-
-    /** Check if it's time to send snapshot (host only) */
-    shouldSendSnapshot(): boolean {
-        if (!this.isHost) return false;
-        const now = performance.now();
-        const interval = 1000 / SNAPSHOT_RATE;
-        if (now - this.lastSnapshotTime >= interval) {
-            this.lastSnapshotTime = now;
-            return true;
-        }
-        return false;
-    }
 }
 
 // Singleton instance
@@ -8,7 +8,12 @@
  * - Periodic full syncs: Recovery mechanism for lost packets
  */
 
-import type { GameStateSync } from "../state/useMultiplayerStore";
+import { PILOT_IDS } from "../game/pilots";
+import type { PilotId } from "../models/types";
+import type {
+    GameStateSync,
+    PilotSyncState,
+} from "../state/useMultiplayerStore";
 
 // ============================================================================
 // CONFIGURATION
@@ -69,10 +74,7 @@ export interface GameStateDelta {
     isFull: boolean;
 
     // Player deltas (always included - small payload)
-    players: {
-        p1?: Partial<GameStateSync["players"]["p1"]>;
-        p2?: Partial<GameStateSync["players"]["p2"]>;
-    };
+    players: Partial<Record<PilotId, Partial<PilotSyncState>>>;
 
     // Entity deltas - only changed entities
     enemyUpdates?: Array<{
@@ -274,12 +276,12 @@ function generateDeltaOnly(
     };
 
     // Player deltas
-    if (playerChanged(prev.players.p1, currentState.players.p1)) {
-        delta.players.p1 = currentState.players.p1;
-    }
-    if (playerChanged(prev.players.p2, currentState.players.p2)) {
-        delta.players.p2 = currentState.players.p2;
-    }
+    PILOT_IDS.forEach((id) => {
+        const curr = currentState.players[id];
+        if (curr && playerChanged(prev.players[id], curr)) {
+            delta.players[id] = curr;
+        }
+    });
 
     // Enemy deltas
     const enemyResult = computeEntityDeltas(
@@ -350,9 +352,10 @@ function generateDeltaOnly(
 
 /** Check if player state changed significantly */
 function playerChanged(
-    prev: GameStateSync["players"]["p1"],
-    curr: GameStateSync["players"]["p1"]
+    prev: PilotSyncState | undefined,
+    curr: PilotSyncState
 ): boolean {
+    if (!prev) return true;
     return (
         positionChanged(prev.x, prev.y, curr.x, curr.y) ||
         Math.abs(prev.rotation - curr.rotation) > ROTATION_THRESHOLD ||
@@ -560,10 +563,7 @@ function applyFullSync(
 ): GameStateSync {
     buffer.lastSeq = delta.seq;
     buffer.lastFullState = {
-        players: {
-            p1: delta.players.p1 as GameStateSync["players"]["p1"],
-            p2: delta.players.p2 as GameStateSync["players"]["p2"],
-        },
+        players: { ...delta.players } as GameStateSync["players"],
         enemies: (delta.enemyUpdates as GameStateSync["enemies"]) ?? [],
         bullets: (delta.bulletUpdates as GameStateSync["bullets"]) ?? [],
         playerBullets:
@@ -589,12 +589,14 @@ function applyDeltaToState(
     const state = buffer.reconstructedState!;
 
     // Apply player updates
-    if (delta.players.p1) {
-        Object.assign(state.players.p1, delta.players.p1);
-    }
-    if (delta.players.p2) {
-        Object.assign(state.players.p2, delta.players.p2);
-    }
+    PILOT_IDS.forEach((id) => {
+        const update = delta.players[id];
+        if (!update) return;
+        state.players[id] = {
+            ...state.players[id],
+            ...update,
+        } as PilotSyncState;
+    });
 
     // Apply enemy changes
     if (delta.enemyRemovals) {
@@ -0,0 +1,29 @@
+/**
+ * NetworkTransport - How peers find each other and exchange messages
+ *
+ * NetworkManager only needs a room: named actions that send to every peer or
+ * one of them, plus join and leave notifications. Trystero over public MQTT
+ * brokers is the default; the WebSocket relay covers networks that block
+ * those brokers, and the loopback transport wires peers together in memory.
+ */
+
+export type TransportKind = "trystero" | "relay" | "loopback";
+
+export type SendAction<T> = (data: T, peerId?: string) => void;
+export type ReceiveAction<T> = (
+    handler: (data: T, peerId: string) => void
+) => void;
+
+export interface TransportRoom {
+    readonly selfId: string;
+    /** Action names stay short: Trystero caps them at 12 bytes */
+    makeAction<T>(name: string): [SendAction<T>, ReceiveAction<T>];
+    onPeerJoin(handler: (peerId: string) => void): void;
+    onPeerLeave(handler: (peerId: string) => void): void;
+    leave(): void;
+}
+
+export interface NetworkTransport {
+    readonly kind: TransportKind;
+    joinRoom(roomCode: string): Promise<TransportRoom>;
+}
@@ -0,0 +1,89 @@
+/**
+ * PilotRoster - Which peer flies which ship in an online run
+ *
+ * The host owns the roster. It starts in p1 and seats each guest in the
+ * first free seat as they join; peers past the last seat stay unseated. Every
+ * change is broadcast, so guests learn their own seat and whose inputs drive
+ * the other ships. If the host drops mid-run, the guest in the lowest seat
+ * takes over and the old host's seat is freed for them to rejoin into.
+ */
+
+import { PILOT_IDS } from "../game/pilots";
+import type { PilotId, TwinControlConfig } from "../models/types";
+
+/** Peer id seated in each pilot slot */
+export type PilotRoster = Partial<Record<PilotId, string>>;
+
+export function createRoster(hostPeerId: string): PilotRoster {
+    return { p1: hostPeerId };
+}
+
+export function pilotForPeer(
+    roster: PilotRoster,
+    peerId: string
+): PilotId | null {
+    return PILOT_IDS.find((id) => roster[id] === peerId) ?? null;
+}
+
+/** Seats a peer in the first free slot; a full roster comes back unchanged */
+export function seatPeer(roster: PilotRoster, peerId: string): PilotRoster {
+    if (pilotForPeer(roster, peerId)) return roster;
+    const free = PILOT_IDS.find((id) => !roster[id]);
+    return free ? { ...roster, [free]: peerId } : roster;
+}
+
+/** Frees a guest's seat; the host keeps its seat while it is hosting */
+export function unseatPeer(
+    roster: PilotRoster,
+    peerId: string,
+    hostPeerId = roster.p1
+): PilotRoster {
+    const seat = pilotForPeer(roster, peerId);
+    if (!seat || peerId === hostPeerId) return roster;
+    const next = { ...roster };
+    delete next[seat];
+    return next;
+}
+
+export const seatedCount = (roster: PilotRoster) =>
+    PILOT_IDS.filter((id) => roster[id]).length;
+
+/**
+ * Hands the run to the guest in the lowest seat after the host drops. Every
+ * guest computes this from the same roster, so they agree without a vote.
+ */
+export function migrateHost(
+    roster: PilotRoster,
+    leavingHostPeerId: string
+): { roster: PilotRoster; host: string | null } {
+    const seat = pilotForPeer(roster, leavingHostPeerId);
+    const next = { ...roster };
+    if (seat) delete next[seat];
+    const successor = PILOT_IDS.find((id) => next[id]);
+    return { roster: next, host: successor ? next[successor]! : null };
+}
+
+/** Controls for an online run as seen from one peer: its own seat is local */
+export function rosterControls(
+    roster: PilotRoster,
+    selfPeerId: string
+): TwinControlConfig {
+    const controls: TwinControlConfig = {};
+    PILOT_IDS.forEach((id, index) => {
+        const peerId = roster[id];
+        if (!peerId) return;
+        const host = index === 0;
+        controls[id] =
+            peerId === selfPeerId
+                ? {
+                      type: "keyboardMouse",
+                      label: host ? "You (Host)" : "You",
+                  }
+                : {
+                      type: "remote",
+                      peerId,
+                      label: host ? "Host" : `Guest ${index}`,
+                  };
+    });
+    return controls;
+}
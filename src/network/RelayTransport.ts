@@ -0,0 +1,78 @@
+/**
+ * RelayTransport - Peers talking through the self-hosted WebSocket relay
+ *
+ * For networks that block the public MQTT brokers Trystero signals over.
+ * Run `npm run relay` on any machine the players can reach and point
+ * VITE_RELAY_URL at it; every message then travels through that relay
+ * instead of a WebRTC connection, so no STUN or TURN server is involved.
+ *
+ * Wire format (JSON text frames), matching scripts/ws-relay.cjs:
+ * - relay to client: welcome {id, peers}, join {id}, leave {id},
+ *   msg {from, action, data}
+ * - client to relay: msg {action, data, to?}
+ */
+
+import { MessageRoom } from "./MessageRoom";
+import type { NetworkTransport, TransportRoom } from "./NetworkTransport";
+
+type RelayFrame =
+    | { type: "welcome"; id: string; peers: string[] }
+    | { type: "join"; id: string }
+    | { type: "leave"; id: string }
+    | { type: "msg"; from: string; action: string; data: unknown };
+
+export class RelayTransport implements NetworkTransport {
+    readonly kind = "relay";
+    private readonly url: string;
+
+    constructor(url: string) {
+        this.url = url;
+    }
+
+    joinRoom(roomCode: string): Promise<TransportRoom> {
+        const url = new URL(this.url);
+        url.searchParams.set("room", roomCode);
+        const socket = new WebSocket(url);
+
+        return new Promise((resolve, reject) => {
+            let room: MessageRoom | null = null;
+
+            socket.onmessage = (event) => {
+                const frame = JSON.parse(String(event.data)) as RelayFrame;
+                if (frame.type === "welcome") {
+                    room = new MessageRoom(frame.id, {
+                        post: (action, data, to) => {
+                            if (socket.readyState !== WebSocket.OPEN) return;
+                            socket.send(
+                                JSON.stringify({ type: "msg", action, data, to })
+                            );
+                        },
+                        close: () => socket.close(),
+                    });
+                    frame.peers.forEach((peerId) => room?.peerJoined(peerId));
+                    resolve(room);
+                    return;
+                }
+                if (!room) return;
+                if (frame.type === "join") room.peerJoined(frame.id);
+                if (frame.type === "leave") room.peerLeft(frame.id);
+                if (frame.type === "msg") {
+                    room.deliver(frame.action, frame.data, frame.from);
+                }
+            };
+
+            socket.onerror = () => {
+                if (!room) reject(new Error(`Relay unreachable: ${this.url}`));
+            };
+
+            // The relay going away looks like every other peer leaving
+            socket.onclose = () => {
+                if (!room) {
+                    reject(new Error(`Relay closed: ${this.url}`));
+                    return;
+                }
+                room.peerIds.forEach((peerId) => room?.peerLeft(peerId));
+            };
+        });
+    }
+}
@@ -0,0 +1,423 @@
+/**
+ * RollbackSession - Fixed-step rollback netcode over the headless simulation
+ *
+ * Every peer steps the same deterministic simulation at SIM_TICK_RATE. Local
+ * input is scheduled a few ticks ahead, which hides that much latency
+ * outright. A remote pilot whose input for a tick has not arrived yet repeats
+ * its last known input. When the real input turns up and differs from that
+ * guess, the session loads the snapshot saved before that tick and
+ * resimulates to the present, so peers converge on identical state instead of
+ * being snapped back into place by correction snapshots.
+ *
+ * A peer never runs more than the rollback window past the last input it has
+ * from the others: it waits there instead, so no input is ever too late to
+ * rewind for. A host that starts first, or a peer whose tab stalls, is simply
+ * waited on.
+ *
+ * Upgrade picks and seat changes come from the host. A pick is settled only
+ * once every peer's input up to it is known, so it never needs rewinding;
+ * the run holds on it until the host's choice arrives. Seat changes are
+ * scheduled for a tick like input and rewind the same way when late.
+ */
+
+import type { PilotId } from "../models/types";
+import type {
+    HeadlessSimulation,
+    SimInputs,
+    SimSnapshot,
+} from "../sim/HeadlessSimulation";
+import {
+    type PlayerInput,
+    type PresenceChange,
+    type RunTransfer,
+    type UpgradePick,
+    DEFAULT_INPUT_DELAY_TICKS,
+    INPUT_BUFFER_SIZE,
+    InputBuffer,
+    MAX_ROLLBACK_TICKS,
+} from "./DeterministicSync";
+
+export interface RollbackOptions {
+    /** Pilot flown on this peer; spectators fly none */
+    localPilotId: PilotId | null;
+    /** Every pilot in the run, local one included */
+    pilotIds: PilotId[];
+    inputDelayTicks?: number;
+    maxRollbackTicks?: number;
+}
+
+export interface RollbackStats {
+    rollbacks: number;
+    resimulatedTicks: number;
+    /** Inputs that arrived too late to rewind for */
+    droppedInputs: number;
+}
+
+/** A session's state for a peer picking the run up mid-way */
+export type RollbackTransfer = Omit<RunTransfer, "elapsedTime">;
+
+interface SavedTick {
+    sim: SimSnapshot;
+    picksTaken: number;
+}
+
+const sameInput = (a: PlayerInput, b: PlayerInput) =>
+    a.moveX === b.moveX &&
+    a.moveY === b.moveY &&
+    a.aimX === b.aimX &&
+    a.aimY === b.aimY &&
+    a.fire === b.fire &&
+    a.dash === b.dash;
+
+export class RollbackSession {
+    readonly sim: HeadlessSimulation;
+    readonly inputDelayTicks: number;
+    private readonly maxRollbackTicks: number;
+    private readonly localPilotId: PilotId | null;
+    private readonly pilotIds: PilotId[];
+    private readonly confirmed = new Map<PilotId, InputBuffer>();
+    private readonly predicted = new Map<PilotId, InputBuffer>();
+    // Newest tick each remote pilot's input is known for
+    private readonly latestConfirmed = new Map<PilotId, number>();
+    // Ticks before this take no input from anyone
+    private confirmedBase: number;
+    private readonly snapshots = new Map<number, SavedTick>();
+    private picks: (string | null)[] = [];
+    private _picksTaken = 0;
+    private presence: PresenceChange[] = [];
+    private rollbackFrom: number | null = null;
+    private readonly _stats: RollbackStats = {
+        rollbacks: 0,
+        resimulatedTicks: 0,
+        droppedInputs: 0,
+    };
+
+    constructor(sim: HeadlessSimulation, options: RollbackOptions) {
+        this.sim = sim;
+        this.localPilotId = options.localPilotId;
+        this.pilotIds = options.pilotIds;
+        this.inputDelayTicks =
+            options.inputDelayTicks ?? DEFAULT_INPUT_DELAY_TICKS;
+        this.maxRollbackTicks = options.maxRollbackTicks ?? MAX_ROLLBACK_TICKS;
+        this.confirmedBase = sim.state.tick + this.inputDelayTicks;
+    }
+
+    /** Next tick to simulate */
+    get tick(): number {
+        return this.sim.state.tick;
+    }
+
+    get stats(): RollbackStats {
+        return { ...this._stats };
+    }
+
+    get picksTaken(): number {
+        return this._picksTaken;
+    }
+
+    /** The run is held on an upgrade pick the host hasn't settled yet */
+    get awaitingPick(): boolean {
+        return (
+            this.sim.state.pendingPick !== null &&
+            this.picks[this._picksTaken] === undefined
+        );
+    }
+
+    /** The held pick is final on every peer, so the host may settle it */
+    get pickReady(): boolean {
+        return this.awaitingPick && this.confirmedTick >= this.tick;
+    }
+
+    /**
+     * First tick still simulated on a guess: some pilot in the run has no
+     * known input for it yet. Everything before it is the same on every peer.
+     */
+    get confirmedTick(): number {
+        let tick = this.tick;
+        this.sim.state.pilots.forEach((pilot) => {
+            if (pilot.id === this.localPilotId) return;
+            if (pilot.away || pilot.life.status === "out") return;
+            if (!this.pilotIds.includes(pilot.id)) return;
+            const latest =
+                this.latestConfirmed.get(pilot.id) ?? this.confirmedBase - 1;
+            tick = Math.min(tick, latest + 1);
+        });
+        return tick;
+    }
+
+    /**
+     * Another tick would run further past confirmedTick than a late input
+     * could rewind, so the session waits for the others to catch up
+     */
+    get stalled(): boolean {
+        return this.tick - this.confirmedTick >= this.maxRollbackTicks;
+    }
+
+    /** Length of the event log up to confirmedTick; no rewind can change it */
+    get confirmedEventCount(): number {
+        const tick = Math.max(
+            this.confirmedTick,
+            this.tick - this.maxRollbackTicks
+        );
+        if (tick >= this.tick) return this.sim.state.events.length;
+        return this.snapshots.get(tick)?.sim.eventCount ?? 0;
+    }
+
+    /**
+     * Schedules this peer's input for the tick it will apply on. Returns the
+     * stamped input, which is what goes out to the other peers.
+     */
+    addLocalInput(input: Omit<PlayerInput, "tick">): PlayerInput {
+        const scheduled = { ...input, tick: this.tick + this.inputDelayTicks };
+        if (this.localPilotId) {
+            this.bufferFor(this.confirmed, this.localPilotId).set(
+                scheduled.tick,
+                scheduled
+            );
+        }
+        return scheduled;
+    }
+
+    /**
+     * Records a peer's input; a wrong guess for a past tick queues a rewind.
+     * Returns false for one too old to rewind for: this run has parted ways
+     * with that peer's and needs resyncing from the host.
+     */
+    addRemoteInput(pilotId: PilotId, input: PlayerInput): boolean {
+        if (input.tick < this.tick - this.maxRollbackTicks) {
+            this._stats.droppedInputs += 1;
+            return false;
+        }
+        const buffer = this.bufferFor(this.confirmed, pilotId);
+        const known = buffer.get(input.tick);
+        if (known && sameInput(known, input)) return true;
+        buffer.set(input.tick, input);
+        this.latestConfirmed.set(
+            pilotId,
+            Math.max(this.latestConfirmed.get(pilotId) ?? -1, input.tick)
+        );
+        if (input.tick >= this.tick) return true;
+        const guess = this.predicted.get(pilotId)?.get(input.tick);
+        if (guess && sameInput(guess, input)) return true;
+        this.rewindFrom(input.tick);
+        return true;
+    }
+
+    /** Host: settles the held pick for every peer. Returns what to send them */
+    choosePick(id: string | null): UpgradePick | null {
+        if (!this.awaitingPick) return null;
+        const pick = { index: this._picksTaken, id };
+        this.addPick(pick);
+        this.takeSettledPicks();
+        return pick;
+    }
+
+    /** Records a pick the host settled; the run takes it when it gets there */
+    addPick(pick: UpgradePick): void {
+        this.picks[pick.index] = pick.id;
+    }
+
+    /**
+     * Host: parks, restores or retires a seat a few ticks ahead, like local
+     * input. Returns the change to send the other peers.
+     */
+    schedulePresence(
+        pilotId: PilotId,
+        presence: PresenceChange["presence"]
+    ): PresenceChange {
+        const change = {
+            tick: this.tick + this.inputDelayTicks,
+            pilotId,
+            presence,
+        };
+        this.addPresence(change);
+        return change;
+    }
+
+    /** Records a seat change; one for a past tick queues a rewind */
+    addPresence(change: PresenceChange): void {
+        // Too late to rewind for: it lands as early as the session can manage
+        const tick = Math.max(change.tick, this.tick - this.maxRollbackTicks);
+        this.presence.push({ ...change, tick });
+        if (tick < this.tick) this.rewindFrom(tick);
+    }
+
+    /**
+     * Advances one fixed tick, first replaying any ticks late inputs changed.
+     * Returns false, leaving the tick unplayed, while the run is held on a
+     * pick, stalled or over.
+     */
+    advance(): boolean {
+        if (this.rollbackFrom !== null) {
+            this.rollback(this.rollbackFrom);
+        }
+        if (this.stalled) return false;
+        return this.stepOnce();
+    }
+
+    /** Everything a peer joining now needs to catch up with this one */
+    transfer(): RollbackTransfer {
+        const from = Math.max(
+            this.confirmedTick,
+            this.tick - this.maxRollbackTicks
+        );
+        const saved = from < this.tick ? this.snapshots.get(from) : undefined;
+        const snapshot = saved?.sim ?? this.sim.saveState();
+        const start = snapshot.state.tick;
+        const inputs: RollbackTransfer["inputs"] = {};
+        this.confirmed.forEach((buffer, pilotId) => {
+            const held: PlayerInput[] = [];
+            for (let t = start; t < start + INPUT_BUFFER_SIZE; t++) {
+                const input = buffer.get(t);
+                if (input) held.push(input);
+            }
+            inputs[pilotId] = held;
+        });
+        return {
+            snapshot,
+            picksTaken: saved?.picksTaken ?? this._picksTaken,
+            picks: [...this.picks],
+            inputs,
+            presence: this.presence.filter((change) => change.tick >= start),
+            tick: this.tick,
+        };
+    }
+
+    /**
+     * Picks a run up from another peer's transfer and simulates ahead to
+     * `targetTick`, where that peer should be by now
+     */
+    resume(transfer: RollbackTransfer, targetTick = transfer.tick): void {
+        const sent = this.localPilotId
+            ? this.confirmed.get(this.localPilotId)
+            : undefined;
+        // The other peer's event log stays with it; this one's carries on
+        this.sim.loadState({
+            ...transfer.snapshot,
+            eventCount: this.sim.state.events.length,
+        });
+        this.snapshots.clear();
+        this.confirmed.clear();
+        this.predicted.clear();
+        this.latestConfirmed.clear();
+        this.rollbackFrom = null;
+        this.confirmedBase = this.tick;
+        this.picks = [...transfer.picks];
+        this._picksTaken = transfer.picksTaken;
+        this.presence = [...transfer.presence];
+        Object.entries(transfer.inputs).forEach(([pilotId, inputs]) => {
+            inputs?.forEach((input) => {
+                if (pilotId === this.localPilotId) {
+                    this.bufferFor(this.confirmed, pilotId).set(
+                        input.tick,
+                        input
+                    );
+                } else {
+                    this.addRemoteInput(pilotId as PilotId, input);
+                }
+            });
+        });
+        // Input this peer sent that the host hadn't got yet is still on its
+        // way; the host takes it, or drops it and resyncs this peer again
+        if (sent && this.localPilotId) {
+            const own = this.bufferFor(this.confirmed, this.localPilotId);
+            const start = transfer.snapshot.state.tick;
+            for (let t = start; t < start + INPUT_BUFFER_SIZE; t++) {
+                const input = sent.get(t);
+                if (input && !own.get(t)) own.set(t, input);
+            }
+        }
+        while (this.tick < targetTick && this.stepOnce()) {
+            this._stats.resimulatedTicks += 1;
+        }
+    }
+
+    private rewindFrom(tick: number): void {
+        this.rollbackFrom = Math.min(this.rollbackFrom ?? tick, tick);
+    }
+
+    private rollback(fromTick: number): void {
+        this.rollbackFrom = null;
+        const saved = this.snapshots.get(fromTick);
+        if (!saved) return;
+        const target = this.tick;
+        this.sim.loadState(saved.sim);
+        this._picksTaken = saved.picksTaken;
+        this._stats.rollbacks += 1;
+        // A pick not settled yet holds the replay short of the present
+        while (this.tick < target && this.stepOnce()) {
+            this._stats.resimulatedTicks += 1;
+        }
+    }
+
+    private stepOnce(): boolean {
+        if (this.sim.finished || !this.takeSettledPicks()) return false;
+        const tick = this.tick;
+        this.snapshots.set(tick, {
+            sim: this.sim.saveState(),
+            picksTaken: this._picksTaken,
+        });
+        this.snapshots.delete(tick - this.maxRollbackTicks - 1);
+        this.applyPresence(tick);
+        const inputs: SimInputs = {};
+        this.pilotIds.forEach((id) => {
+            const input = this.inputFor(id, tick);
+            if (input) inputs[id] = input;
+        });
+        this.sim.step(inputs);
+        return true;
+    }
+
+    /** Takes every settled pick the run is held on; false if one is missing */
+    private takeSettledPicks(): boolean {
+        while (this.sim.state.pendingPick) {
+            const id = this.picks[this._picksTaken];
+            if (id === undefined) return false;
+            // Same fallback on every peer, so a pick that can't apply lapses
+            if (!this.sim.choose(id)) this.sim.choose(null);
+            this._picksTaken += 1;
+        }
+        return true;
+    }
+
+    private applyPresence(tick: number): void {
+        this.presence = this.presence.filter(
+            (change) => change.tick >= tick - this.maxRollbackTicks
+        );
+        this.presence.forEach((change) => {
+            if (change.tick !== tick) return;
+            if (change.presence === "out") {
+                this.sim.retirePilot(change.pilotId);
+            } else {
+                this.sim.setPilotAway(
+                    change.pilotId,
+                    change.presence === "away"
+                );
+            }
+        });
+    }
+
+    /** Confirmed input when known, otherwise the last one held (no dash) */
+    private inputFor(pilotId: PilotId, tick: number): PlayerInput | null {
+        const buffer = this.confirmed.get(pilotId);
+        const confirmed = buffer?.get(tick);
+        if (confirmed) return confirmed;
+        const last = buffer?.getLatest(tick);
+        if (!last) return null;
+        const guess = { ...last, tick, dash: false };
+        this.bufferFor(this.predicted, pilotId).set(tick, guess);
+        return guess;
+    }
+
+    private bufferFor(
+        buffers: Map<PilotId, InputBuffer>,
+        pilotId: PilotId
+    ): InputBuffer {
+        let buffer = buffers.get(pilotId);
+        if (!buffer) {
+            buffer = new InputBuffer();
+            buffers.set(pilotId, buffer);
+        }
+        return buffer;
+    }
+}
@@ -0,0 +1,77 @@
+/**
+ * TrysteroTransport - WebRTC peers found through Trystero's MQTT signaling
+ *
+ * The default transport. Peers meet over public MQTT brokers and then talk
+ * directly over WebRTC, falling back to a TURN relay when NAT gets in the
+ * way: the one from VITE_TURN_URL if set, otherwise the public open relay.
+ */
+
+import type { NetworkTransport, TransportRoom } from "./NetworkTransport";
+
+const APP_ID = "quiet-quadrant";
+
+export class TrysteroTransport implements NetworkTransport {
+    readonly kind = "trystero";
+
+    async joinRoom(roomCode: string): Promise<TransportRoom> {
+        const trystero = await import("trystero/mqtt");
+        const room = trystero.joinRoom(
+            { appId: APP_ID, rtcConfig: getRtcConfig() },
+            roomCode
+        );
+
+        return {
+            selfId: trystero.selfId,
+            makeAction: <T>(name: string) => {
+                // Payloads are plain JSON; Trystero's payload type isn't exported
+                const [send, receive] = room.makeAction<never>(name);
+                return [
+                    (data: T, peerId?: string) => {
+                        void send(data as never, peerId);
+                    },
+                    (handler: (data: T, peerId: string) => void) =>
+                        receive((data, peerId) => handler(data, peerId)),
+                ];
+            },
+            onPeerJoin: (handler) => room.onPeerJoin(handler),
+            onPeerLeave: (handler) => room.onPeerLeave(handler),
+            leave: () => {
+                void room.leave();
+            },
+        };
+    }
+}
+
+function getRtcConfig(): RTCConfiguration {
+    const turnUrl = import.meta.env.VITE_TURN_URL || "";
+    const turnUser = import.meta.env.VITE_TURN_USERNAME || "";
+    const turnPass = import.meta.env.VITE_TURN_PASSWORD || "";
+
+    return {
+        iceServers: [
+            { urls: "stun:stun.l.google.com:19302" },
+            ...(turnUrl
+                ? [
+                      {
+                          urls: [
+                              `turn:${turnUrl}`,
+                              `turn:${turnUrl}?transport=tcp`,
+                          ],
+                          username: turnUser,
+                          credential: turnPass,
+                      },
+                  ]
+                : [
+                      {
+                          urls: [
+                              "turn:openrelay.metered.ca:443",
+                              "turn:openrelay.metered.ca:443?transport=tcp",
+                          ],
+                          username: "openrelayproject",
+                          credential: "openrelayproject",
+                      },
+                  ]),
+        ],
+        iceCandidatePoolSize: 4,
+    };
+}
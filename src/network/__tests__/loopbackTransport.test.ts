@@ -0,0 +1,389 @@
+/**
+ * Netcode over the in-memory transport: real NetworkManagers seat each other,
+ * exchange inputs and hand the run over when the host leaves, with no
+ * brokers or WebRTC involved
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { LoopbackHub } from '../LoopbackTransport';
+import { NetworkManager, RECONNECT_WINDOW_MS } from '../NetworkManager';
+import type { PlayerInput, RunTransfer } from '../DeterministicSync';
+import { RollbackSession } from '../RollbackSession';
+import { pilotForPeer } from '../PilotRoster';
+import { selectTransport } from '../selectTransport';
+import { HeadlessSimulation } from '../../sim/HeadlessSimulation';
+import { SYNERGY_DEFINITIONS } from '../../config/synergies';
+import type { PilotId, RunSetup } from '../../models/types';
+
+/** Lets every queued delivery, and the replies they trigger, land */
+const settle = async () => {
+  for (let i = 0; i < 10; i++) await new Promise((resolve) => setTimeout(resolve, 0));
+};
+
+const openRoom = async (guests: number) => {
+  const hub = new LoopbackHub();
+  const host = new NetworkManager(hub.transport());
+  const code = await host.createRoom();
+  const peers: NetworkManager[] = [];
+  for (let i = 0; i < guests; i++) {
+    const guest = new NetworkManager(hub.transport());
+    await guest.joinRoom(code);
+    peers.push(guest);
+  }
+  await settle();
+  return { hub, code, host, guests: peers };
+};
+
+/** A peer's run as it stands; each peer numbers its own event log */
+const runOf = (sim: HeadlessSimulation) => JSON.stringify({ ...sim.saveState(), eventCount: undefined });
+
+const input: PlayerInput = {
+  tick: 12,
+  moveX: 1,
+  moveY: 0,
+  aimX: 0,
+  aimY: -1,
+  fire: true,
+  dash: false,
+};
+
+const setup: RunSetup = {
+  seedId: 'week-2026-42',
+  seedValue: 4242,
+  affixIds: ['swarm'],
+  bossId: 'overseer',
+  difficultyMultiplier: 1.5,
+  unlockedUpgrades: ['power-shot'],
+  upgradeBoosts: { 'power-shot': 1 },
+};
+
+describe('loopback transport', () => {
+  it('seats guests and shares the roster with every peer', async () => {
+    const { hub, code, host, guests } = await openRoom(2);
+    expect(hub.peersIn(code)).toHaveLength(3);
+    expect(host.roster).toEqual({ p1: host.peerId, p2: guests[0].peerId, p3: guests[1].peerId });
+    guests.forEach((guest) => {
+      expect(guest.roster).toEqual(host.roster);
+      expect(guest.hostPeerId).toBe(host.peerId);
+    });
+    expect(guests[1].localPilotId).toBe('p3');
+  });
+
+  it('delivers inputs and the start signal between peers', async () => {
+    const { host, guests } = await openRoom(1);
+    const received: string[] = [];
+    let started = false;
+    host.setCallbacks({ onRemoteInput: (_input, peerId) => received.push(peerId) });
+    guests[0].setCallbacks({ onGameStart: () => (started = true) });
+
+    guests[0].sendLocalInput(input);
+    host.signalGameStart(setup);
+    await settle();
+
+    expect(received).toEqual([guests[0].peerId]);
+    expect(host.getRemoteInput(guests[0].peerId ?? '', input.tick)).toEqual(input);
+    expect(started).toBe(true);
+    expect(guests[0].runSetup).toEqual(setup);
+  });
+
+  it('takes upgrade picks and seat changes from the host only', async () => {
+    const { host, guests } = await openRoom(2);
+    const heard: string[] = [];
+    guests[1].setCallbacks({
+      onUpgradePick: (pick) => heard.push(`pick:${pick.index}:${pick.id}`),
+      onPresenceChange: (change) => heard.push(`${change.pilotId}:${change.presence}`),
+    });
+
+    host.sendUpgradePick({ index: 0, id: 'rapid-fire' });
+    host.sendPresenceChange({ tick: 40, pilotId: 'p2', presence: 'away' });
+    guests[0].sendUpgradePick({ index: 1, id: 'power-shot' });
+    await settle();
+
+    expect(heard).toEqual(['pick:0:rapid-fire', 'p2:away']);
+  });
+
+  it('carries a resync request to the host once the run is under way', async () => {
+    const { host, guests } = await openRoom(1);
+    const asked: string[] = [];
+    host.setCallbacks({ onResyncRequest: (peerId) => asked.push(peerId) });
+
+    guests[0].requestResync();
+    await settle();
+    host.signalGameStart(setup);
+    await settle();
+    guests[0].requestResync();
+    await settle();
+
+    expect(asked).toEqual([guests[0].peerId]);
+  });
+
+  it('keeps spectators out of the roster and off the input channel', async () => {
+    const { hub, code, host, guests } = await openRoom(1);
+    const watcher = new NetworkManager(hub.transport());
+    await watcher.joinRoom(code, 'spectator');
+    const received: string[] = [];
+    host.setCallbacks({ onRemoteInput: (_input, peerId) => received.push(peerId) });
+    await settle();
+
+    watcher.sendLocalInput(input);
+    await settle();
+
+    expect(host.spectators).toEqual([watcher.peerId]);
+    expect(Object.values(host.roster)).toEqual([host.peerId, guests[0].peerId]);
+    expect(watcher.localPilotId).toBeNull();
+    expect(received).toEqual([]);
+  });
+
+  it('never seats a late spectator and hands it the run under way', async () => {
+    const { hub, code, host, guests } = await openRoom(1);
+    host.signalGameStart(setup);
+    await settle();
+    const asked: string[] = [];
+    const rosters: string[][] = [];
+    host.setCallbacks({
+      onSpectatorJoin: (peerId) => asked.push(peerId),
+      onRosterChange: (roster) => rosters.push(Object.values(roster) as string[]),
+    });
+
+    const watcher = new NetworkManager(hub.transport());
+    await watcher.joinRoom(code, 'spectator');
+    await settle();
+
+    expect(asked).toEqual([watcher.peerId]);
+    rosters.forEach((seated) => expect(seated).not.toContain(watcher.peerId));
+    expect(host.roster).toEqual({ p1: host.peerId, p2: guests[0].peerId });
+  });
+
+  it('hands a late spectator a run it can resume off the wire', async () => {
+    const { hub, code, host } = await openRoom(1);
+    host.signalGameStart(setup);
+    await settle();
+    const session = (localPilotId: 'p1' | null) =>
+      new RollbackSession(new HeadlessSimulation({ seedValue: 7, mode: 'online' }), {
+        localPilotId,
+        pilotIds: ['p1', 'p2'],
+      });
+    const run = session('p1');
+    const [synergy] = SYNERGY_DEFINITIONS;
+    synergy.requires.forEach((id) => run.sim.upgrades.apply(id));
+    host.setCallbacks({
+      onSpectatorJoin: (peerId) => host.sendRunTransfer(peerId, { ...run.transfer(), elapsedTime: 40 }),
+    });
+
+    const watcher = new NetworkManager(hub.transport());
+    const received: RunTransfer[] = [];
+    watcher.setCallbacks({ onRunTransfer: (data) => received.push(data) });
+    await watcher.joinRoom(code, 'spectator');
+    await settle();
+
+    expect(received).toHaveLength(1);
+    const watching = session(null);
+    watching.resume(received[0]);
+    expect(watching.sim.upgrades.activeSynergies.has(synergy.id)).toBe(true);
+    expect(runOf(watching.sim)).toBe(runOf(run.sim));
+  });
+
+  it('promotes the lowest seated guest when the host leaves mid-run', async () => {
+    const { host, guests } = await openRoom(2);
+    host.signalGameStart(setup);
+    await settle();
+
+    const departedId = host.peerId;
+    host.disconnect();
+    await settle();
+
+    const [successor, other] = guests;
+    expect(successor.isHost).toBe(true);
+    expect(other.hostPeerId).toBe(successor.peerId);
+    expect(other.roster).toEqual(successor.roster);
+    expect(successor.roster.p1).toBe(departedId);
+    expect(other.awayPeers).toEqual([departedId]);
+  });
+
+  it('brings every guest into step with a new host that heard more of the old one', async () => {
+    const { host, guests } = await openRoom(2);
+    host.signalGameStart(setup);
+    await settle();
+    const pilotIds: PilotId[] = ['p1', 'p2', 'p3'];
+    const peers = [host, ...guests].map((nm) => ({
+      nm,
+      session: new RollbackSession(new HeadlessSimulation({ seedValue: 7, mode: 'online', pilots: pilotIds }), {
+        localPilotId: nm.localPilotId,
+        pilotIds,
+      }),
+    }));
+    const [, successor, other] = peers;
+    // The old host's last inputs reach its successor but die on the way to the other guest
+    let cutOff = false;
+    peers.forEach(({ nm, session }) =>
+      nm.setCallbacks({
+        onRemoteInput: (input, peerId) => {
+          const pilotId = pilotForPeer(nm.roster, peerId);
+          if (!pilotId || (cutOff && nm === other.nm && pilotId === 'p1')) return;
+          session.addRemoteInput(pilotId, input);
+        },
+        onPresenceChange: (change) => session.addPresence(change),
+        onRunTransfer: (transfer) => session.resume(transfer),
+        // What the scene does on taking over: park the old seat, send its run
+        onHostChange: () => {
+          if (!nm.isHost) return;
+          nm.sendPresenceChange(session.schedulePresence('p1', 'away'));
+          nm.sendRunTransfer(null, { ...session.transfer(), elapsedTime: 0 });
+        },
+      })
+    );
+    const play = async (players: typeof peers, ticks: number) => {
+      for (let i = 0; i < ticks; i++) {
+        players.forEach(({ nm, session }) => {
+          const tick = session.tick;
+          nm.sendLocalInput(
+            session.addLocalInput({ moveX: tick % 2 ? 1 : -1, moveY: 0, aimX: 1, aimY: 0, fire: true, dash: false })
+          );
+          session.advance();
+        });
+        await settle();
+      }
+    };
+
+    await play(peers, 30);
+    cutOff = true;
+    await play(peers, 5);
+    host.disconnect();
+    await settle();
+    await play([successor, other], 30);
+
+    expect(successor.nm.isHost).toBe(true);
+    expect(other.session.tick).toBe(successor.session.tick);
+    expect(runOf(other.session.sim)).toBe(runOf(successor.session.sim));
+  });
+});
+
+describe('reconnecting guests', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  const transfer: RunTransfer = {
+    ...new RollbackSession(new HeadlessSimulation({ seedValue: 7, mode: 'online' }), {
+      localPilotId: 'p1',
+      pilotIds: ['p1', 'p2'],
+    }).transfer(),
+    elapsedTime: 95,
+  };
+
+  /** A host and one guest, mid-run, the guest holding a session token */
+  const runWithGuest = async () => {
+    const hub = new LoopbackHub();
+    const host = new NetworkManager(hub.transport());
+    const code = await host.createRoom();
+    const guest = new NetworkManager(hub.transport());
+    await guest.joinRoom(code, 'guest', 'token-a');
+    await vi.advanceTimersByTimeAsync(0);
+    host.signalGameStart(setup);
+    await vi.advanceTimersByTimeAsync(0);
+    return { hub, code, host, guest };
+  };
+
+  it('holds a dropped guest\'s seat and hands it back with the run on rejoin', async () => {
+    const { hub, code, host, guest } = await runWithGuest();
+    const rejoined: string[] = [];
+    host.setCallbacks({ onPeerRejoin: (peerId, pilotId) => rejoined.push(`${peerId}:${pilotId}`) });
+
+    const droppedId = guest.peerId;
+    guest.disconnect();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(host.roster.p2).toBe(droppedId);
+    expect(host.awayPeers).toEqual([droppedId]);
+
+    const returning = new NetworkManager(hub.transport());
+    let received: RunTransfer | null = null;
+    returning.setCallbacks({ onRunTransfer: (data) => (received = data) });
+    await returning.joinRoom(code, 'guest', 'token-a');
+    await vi.advanceTimersByTimeAsync(0);
+
+    expect(host.roster).toEqual({ p1: host.peerId, p2: returning.peerId });
+    expect(host.awayPeers).toEqual([]);
+    expect(rejoined).toEqual([`${returning.peerId}:p2`]);
+
+    host.sendRunTransfer(returning.peerId ?? '', transfer);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(received).toEqual(transfer);
+    expect(returning.runSetup).toEqual(setup);
+    expect(returning.localPilotId).toBe('p2');
+  });
+
+  it('parks a dropped host\'s seat and brings it back as a guest', async () => {
+    const { hub, code, host, guest } = await runWithGuest();
+    const formerId = host.peerId ?? '';
+    hub.partition(code, formerId);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(guest.isHost).toBe(true);
+    expect(guest.roster.p1).toBe(formerId);
+    expect(guest.awayPeers).toEqual([formerId]);
+
+    const rejoined: string[] = [];
+    guest.setCallbacks({ onPeerRejoin: (peerId, pilotId) => rejoined.push(`${peerId}:${pilotId}`) });
+    let received: RunTransfer | null = null;
+    host.setCallbacks({ onRunTransfer: (data) => (received = data) });
+    hub.heal(code, formerId);
+    // Deliveries nested this deep are clamped to a few milliseconds
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(host.isHost).toBe(false);
+    expect(host.hostPeerId).toBe(guest.peerId);
+    expect(guest.awayPeers).toEqual([]);
+    expect(rejoined).toEqual([`${formerId}:p1`]);
+
+    guest.sendRunTransfer(formerId, transfer);
+    await vi.advanceTimersByTimeAsync(0);
+    expect(received).toEqual(transfer);
+    expect(host.localPilotId).toBe('p1');
+    expect(host.roster).toEqual(guest.roster);
+  });
+
+  it('keeps a dropped host\'s seat for it to reclaim by token after a reload', async () => {
+    const hub = new LoopbackHub();
+    const host = new NetworkManager(hub.transport());
+    const code = await host.createRoom(() => 'token-h');
+    const guest = new NetworkManager(hub.transport());
+    await guest.joinRoom(code, 'guest', 'token-a');
+    // The guest learns the host's token from the roster it is seated with
+    await vi.advanceTimersByTimeAsync(10);
+    host.signalGameStart(setup);
+    await vi.advanceTimersByTimeAsync(0);
+
+    host.disconnect();
+    await vi.advanceTimersByTimeAsync(0);
+    expect(guest.isHost).toBe(true);
+
+    const rejoined: string[] = [];
+    guest.setCallbacks({ onPeerRejoin: (peerId, pilotId) => rejoined.push(`${peerId}:${pilotId}`) });
+    const reloaded = new NetworkManager(hub.transport());
+    await reloaded.joinRoom(code, 'guest', 'token-h');
+    await vi.advanceTimersByTimeAsync(10);
+
+    expect(guest.roster).toEqual({ p1: reloaded.peerId, p2: guest.peerId });
+    expect(guest.awayPeers).toEqual([]);
+    expect(rejoined).toEqual([`${reloaded.peerId}:p1`]);
+    expect(reloaded.localPilotId).toBe('p1');
+  });
+
+  it('gives the seat up once the reconnect window passes', async () => {
+    const { host, guest } = await runWithGuest();
+    const droppedId = guest.peerId;
+    guest.disconnect();
+    await vi.advanceTimersByTimeAsync(RECONNECT_WINDOW_MS - 1);
+    expect(host.roster.p2).toBe(droppedId);
+
+    await vi.advanceTimersByTimeAsync(1);
+    expect(host.roster.p2).toBeUndefined();
+    expect(host.awayPeers).toEqual([]);
+  });
+});
+
+describe('transport selection', () => {
+  it('uses the relay only when one is configured', () => {
+    expect(selectTransport({}).kind).toBe('trystero');
+    expect(selectTransport({ VITE_RELAY_URL: ' ' }).kind).toBe('trystero');
+    expect(selectTransport({ VITE_RELAY_URL: 'ws://10.0.0.5:8787' }).kind).toBe('relay');
+  });
+});
@@ -0,0 +1,77 @@
+/**
+ * Network conditioner: messages between two loopback peers are delayed,
+ * lost, duplicated and reordered as configured, reliable channels only ever
+ * wait, and a perfect network leaves traffic alone
+ */
+
+import { afterEach, beforeEach, describe, it, expect, vi } from 'vitest';
+import { LoopbackHub } from '../LoopbackTransport';
+import { NetworkConditioner, PERFECT_NETWORK, REORDER_HOLD_MS } from '../NetworkConditioner';
+
+/** Cycles through fixed rolls so outcomes don't depend on Math.random */
+const scriptedRandom = (rolls: number[]) => {
+  let i = 0;
+  return () => rolls[i++ % rolls.length];
+};
+
+const link = async (conditioner: NetworkConditioner, reliable: string[] = []) => {
+  const hub = new LoopbackHub();
+  const sender = conditioner.wrap(await hub.transport().joinRoom('LAG'), reliable);
+  const receiver = await hub.transport().joinRoom('LAG');
+  const [send] = sender.makeAction<number>('n');
+  const [, onNumber] = receiver.makeAction<number>('n');
+  const got: number[] = [];
+  onNumber((n) => got.push(n));
+  await vi.advanceTimersByTimeAsync(0);
+  return { send, got };
+};
+
+describe('network conditioner', () => {
+  beforeEach(() => vi.useFakeTimers());
+  afterEach(() => vi.useRealTimers());
+
+  it('passes traffic through untouched on a perfect network', async () => {
+    const conditioner = new NetworkConditioner();
+    const { send, got } = await link(conditioner);
+    [1, 2, 3].forEach((n) => send(n));
+    await vi.advanceTimersByTimeAsync(0);
+    expect(got).toEqual([1, 2, 3]);
+    expect(conditioner.active).toBe(false);
+    expect(conditioner.stats.messages).toBe(0);
+  });
+
+  it('holds messages back by the configured latency', async () => {
+    const conditioner = new NetworkConditioner(scriptedRandom([0.5]));
+    conditioner.setConditions({ latencyMs: 100, jitterMs: 40 });
+    const { send, got } = await link(conditioner);
+    send(1);
+    await vi.advanceTimersByTimeAsync(99);
+    expect(got).toEqual([]);
+    // The loopback hop itself takes one more timer tick
+    await vi.advanceTimersByTimeAsync(2);
+    expect(got).toEqual([1]);
+  });
+
+  it('drops, duplicates and reorders by the configured rates', async () => {
+    // Rolls per message: loss, duplicate, jitter, reorder (and again per copy)
+    const conditioner = new NetworkConditioner(
+      scriptedRandom([0.9, 0.9, 0.5, 0.9, 0.1, 0.9, 0.9, 0.5, 0.1, 0.9, 0.1, 0.5, 0.9, 0.5, 0.9]),
+    );
+    conditioner.setConditions({ latencyMs: 20, lossRate: 0.2, duplicateRate: 0.2, reorderRate: 0.2 });
+    const { send, got } = await link(conditioner);
+    [1, 2, 3, 4].forEach((n) => send(n));
+    await vi.advanceTimersByTimeAsync(20 + REORDER_HOLD_MS + 2);
+    expect(got).toEqual([1, 4, 4, 3]);
+    expect(conditioner.stats).toEqual({ messages: 4, dropped: 1, duplicated: 1, reordered: 1 });
+  });
+
+  it('never loses or reorders reliable channels', async () => {
+    const conditioner = new NetworkConditioner(scriptedRandom([0, 0.99, 0.3]));
+    conditioner.setConditions({ ...PERFECT_NETWORK, latencyMs: 50, jitterMs: 45, lossRate: 1 });
+    const { send, got } = await link(conditioner, ['n']);
+    [1, 2, 3, 4, 5].forEach((n) => send(n));
+    await vi.advanceTimersByTimeAsync(200);
+    expect(got).toEqual([1, 2, 3, 4, 5]);
+    expect(conditioner.stats.dropped).toBe(0);
+  });
+});
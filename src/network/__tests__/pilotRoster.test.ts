@@ -0,0 +1,78 @@
+/**
+ * Pilot roster tests: the host seats up to three guests in order, frees seats
+ * as they leave, hands off to the lowest seat when it drops, and every peer
+ * derives the same controls from the roster
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  createRoster,
+  migrateHost,
+  pilotForPeer,
+  rosterControls,
+  seatPeer,
+  seatedCount,
+  unseatPeer,
+} from '../PilotRoster';
+import { pilotSpawnOffset, seatedPilots } from '../../game/pilots';
+
+const fullRoster = () =>
+  ['b', 'c', 'd'].reduce((roster, peer) => seatPeer(roster, peer), createRoster('host'));
+
+describe('pilot roster', () => {
+  it('seats guests in order and leaves extra peers unseated', () => {
+    const roster = fullRoster();
+    expect(roster).toEqual({ p1: 'host', p2: 'b', p3: 'c', p4: 'd' });
+    expect(seatPeer(roster, 'e')).toBe(roster);
+    expect(seatPeer(roster, 'c')).toBe(roster);
+    expect(pilotForPeer(roster, 'e')).toBeNull();
+    expect(seatedCount(roster)).toBe(4);
+  });
+
+  it('frees a seat when a guest leaves but never the host seat', () => {
+    const roster = unseatPeer(fullRoster(), 'b');
+    expect(roster).toEqual({ p1: 'host', p3: 'c', p4: 'd' });
+    expect(unseatPeer(roster, 'host')).toBe(roster);
+    expect(seatPeer(roster, 'e').p2).toBe('e');
+  });
+
+  it('gives each peer local control of its own seat only', () => {
+    const roster = fullRoster();
+    const hostView = rosterControls(roster, 'host');
+    const guestView = rosterControls(roster, 'c');
+    expect(hostView.p1?.type).toBe('keyboardMouse');
+    expect(hostView.p3).toEqual({ type: 'remote', peerId: 'c', label: 'Guest 2' });
+    expect(guestView.p1).toEqual({ type: 'remote', peerId: 'host', label: 'Host' });
+    expect(guestView.p3?.type).toBe('keyboardMouse');
+    expect(seatedPilots('online', guestView)).toEqual(['p1', 'p2', 'p3', 'p4']);
+  });
+
+  it('hands the run to the lowest seated guest and seats the old host back as a guest', () => {
+    const { roster, host } = migrateHost(unseatPeer(fullRoster(), 'b'), 'host');
+    expect(host).toBe('c');
+    expect(roster).toEqual({ p3: 'c', p4: 'd' });
+    const rejoined = seatPeer(roster, 'host');
+    expect(pilotForPeer(rejoined, 'host')).toBe('p1');
+    expect(unseatPeer(rejoined, 'c', 'c')).toBe(rejoined);
+    expect(unseatPeer(rejoined, 'host', 'c')).toEqual(roster);
+    expect(migrateHost({ p1: 'host' }, 'host').host).toBeNull();
+  });
+});
+
+describe('pilot seats', () => {
+  it('seats twin pilots by default and online pilots only when bound', () => {
+    expect(seatedPilots('standard', { p2: { type: 'gamepad' } })).toEqual(['p1']);
+    expect(seatedPilots('twin')).toEqual(['p1', 'p2']);
+    expect(seatedPilots('online', rosterControls({ p1: 'host', p3: 'c' }, 'host'))).toEqual([
+      'p1',
+      'p3',
+    ]);
+  });
+
+  it('spreads every pilot to its own start position', () => {
+    expect(pilotSpawnOffset(0, 1)).toEqual({ x: 0, y: 0 });
+    expect([0, 1].map((i) => pilotSpawnOffset(i, 2).x)).toEqual([-32, 32]);
+    const corners = [0, 1, 2, 3].map((i) => JSON.stringify(pilotSpawnOffset(i, 4)));
+    expect(new Set(corners).size).toBe(4);
+  });
+});
@@ -0,0 +1,290 @@
+/**
+ * Rollback tests: two peers exchanging inputs over a laggy link end up in
+ * exactly the state a lockstep run with the same inputs reaches
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { PilotId } from '../../models/types';
+import { MAX_ROLLBACK_TICKS, type PlayerInput, type PresenceChange } from '../DeterministicSync';
+import { RollbackSession } from '../RollbackSession';
+import { HeadlessSimulation } from '../../sim/HeadlessSimulation';
+import { SYNERGY_DEFINITIONS } from '../../config/synergies';
+
+/** Ticks the pilots send input for; afterwards both hold their last input */
+const INPUT_TICKS = 200;
+const TICKS = INPUT_TICKS + 30;
+const DELAY = 2;
+
+// Each pilot weaves and fires in bursts, changing input often enough to force rewinds
+const inputFor = (pilotId: PilotId, tick: number): Omit<PlayerInput, 'tick'> => {
+  const phase = pilotId === 'p1' ? 0 : 1;
+  const turn = Math.floor(tick / 7) + phase;
+  return {
+    moveX: turn % 2 === 0 ? 1 : -1,
+    moveY: turn % 3 === 0 ? 0.5 : -0.5,
+    aimX: 1,
+    aimY: 0,
+    fire: turn % 4 !== 0,
+    dash: tick % 50 === phase * 25,
+  };
+};
+
+const newSim = () => new HeadlessSimulation({ seedValue: 77, mode: 'twin' });
+
+const fingerprint = (sim: HeadlessSimulation) =>
+  JSON.stringify({
+    tick: sim.state.tick,
+    pilots: sim.state.pilots.map((p) => [p.x, p.y, p.vx, p.vy]),
+    enemies: sim.state.enemies.map((e) => [e.id, e.x, e.y, e.health]),
+    bullets: sim.state.bullets.length,
+    stats: sim.state.stats,
+    rng: sim.state.rng,
+  });
+
+/** What a pilot sends on a tick: its script, then its last input held */
+const heldInput = (pilotId: PilotId, tick: number) =>
+  tick < INPUT_TICKS ? inputFor(pilotId, tick) : { ...inputFor(pilotId, INPUT_TICKS - 1), dash: false };
+
+/** Both pilots' inputs applied on the tick they were scheduled for */
+const lockstep = () => {
+  const sim = newSim();
+  const held = (id: PilotId, tick: number) => ({ ...heldInput(id, tick - DELAY), tick });
+  while (sim.state.tick < TICKS) {
+    const tick = sim.state.tick;
+    sim.step(tick < DELAY ? {} : { p1: held('p1', tick), p2: held('p2', tick) });
+  }
+  return sim;
+};
+
+/**
+ * Both pilots play over a link `latencyTicks` long. `onTick` may act on the
+ * sessions before each tick; a watcher, once resumed, receives every input.
+ */
+const playOnline = (
+  latencyTicks: number,
+  onTick?: (tick: number, sessions: RollbackSession[]) => void,
+  watcher?: RollbackSession
+) => {
+  const peers = (['p1', 'p2'] as PilotId[]).map((id) => ({
+    id,
+    session: new RollbackSession(newSim(), {
+      localPilotId: id,
+      pilotIds: ['p1', 'p2'],
+      inputDelayTicks: DELAY,
+    }),
+    inbox: [] as { at: number; input: PlayerInput }[],
+  }));
+  const watcherInbox: { at: number; from: PilotId; input: PlayerInput }[] = [];
+  for (let tick = 0; tick < TICKS; tick++) {
+    onTick?.(tick, peers.map((peer) => peer.session));
+    peers.forEach((peer) => {
+      const input = peer.session.addLocalInput(heldInput(peer.id, tick));
+      peers
+        .filter((other) => other !== peer)
+        .forEach((other) => other.inbox.push({ at: tick + latencyTicks, input }));
+      watcherInbox.push({ at: tick + latencyTicks, from: peer.id, input });
+      peer.inbox
+        .filter((msg) => msg.at === tick)
+        .forEach((msg) => peer.session.addRemoteInput(peer.id === 'p1' ? 'p2' : 'p1', msg.input));
+      peer.session.advance();
+    });
+    if (watcher && watcher.tick > 0) {
+      watcherInbox
+        .filter((msg) => msg.at === tick)
+        .forEach((msg) => watcher.addRemoteInput(msg.from, msg.input));
+      watcher.advance();
+    }
+  }
+  return peers.map((peer) => peer.session);
+};
+
+describe('RollbackSession', () => {
+  it('never rewinds when the input delay covers the latency', () => {
+    const sessions = playOnline(DELAY);
+    const reference = fingerprint(lockstep());
+    sessions.forEach((session) => {
+      expect(session.stats.rollbacks).toBe(0);
+      expect(fingerprint(session.sim)).toBe(reference);
+    });
+  });
+
+  it('rewinds and resimulates late inputs into the lockstep result', () => {
+    const sessions = playOnline(DELAY + 6);
+    sessions.forEach((session) => {
+      expect(session.stats.rollbacks).toBeGreaterThan(0);
+      expect(session.stats.resimulatedTicks).toBeGreaterThan(session.stats.rollbacks);
+    });
+    const reference = fingerprint(lockstep());
+    sessions.forEach((session) => expect(fingerprint(session.sim)).toBe(reference));
+  });
+
+  it('waits at the edge of the rollback window for a peer that falls behind', () => {
+    const [fast, slow] = (['p1', 'p2'] as PilotId[]).map(
+      (id) =>
+        new RollbackSession(newSim(), {
+          localPilotId: id,
+          pilotIds: ['p1', 'p2'],
+          inputDelayTicks: DELAY,
+        })
+    );
+    const pilotOf = (session: RollbackSession): PilotId => (session === fast ? 'p1' : 'p2');
+    const play = (session: RollbackSession, ticks: number) => {
+      const sent: PlayerInput[] = [];
+      for (let i = 0; i < ticks; i++) {
+        const input = session.addLocalInput(heldInput(pilotOf(session), session.tick));
+        if (!session.advance()) break;
+        sent.push(input);
+      }
+      return sent;
+    };
+    const deliver = (to: RollbackSession, inputs: PlayerInput[]) =>
+      inputs.forEach((input) => expect(to.addRemoteInput(to === fast ? 'p2' : 'p1', input)).toBe(true));
+
+    // The slow peer is still loading while the fast one plays on
+    const early = play(fast, 60);
+    expect(fast.stalled).toBe(true);
+    expect(fast.tick).toBe(DELAY + MAX_ROLLBACK_TICKS);
+    deliver(slow, early);
+    for (let round = 0; round < 8; round++) {
+      const fromSlow = play(slow, 10);
+      const fromFast = play(fast, 10);
+      deliver(fast, fromSlow);
+      deliver(slow, fromFast);
+    }
+    // Level the two, then one more tick settles any rewind still queued
+    [fast, slow].forEach((session) => {
+      const other = session === fast ? slow : fast;
+      while (session.tick < other.tick) deliver(other, play(session, 1));
+    });
+    [fast, slow].forEach((session) => play(session, 1));
+    expect(fast.tick).toBe(slow.tick);
+    expect(fingerprint(fast.sim)).toBe(fingerprint(slow.sim));
+  });
+
+  it('holds every peer on a pick until the host settles it', () => {
+    const [host, guest] = (['p1', 'p2'] as PilotId[]).map((id) => {
+      const sim = new HeadlessSimulation({ seedValue: 77, mode: 'twin', interactivePicks: true });
+      sim.state.pendingLevelUps = 1;
+      return new RollbackSession(sim, {
+        localPilotId: id,
+        pilotIds: ['p1', 'p2'],
+        inputDelayTicks: DELAY,
+      });
+    });
+    [host, guest].forEach((session) => expect(session.advance()).toBe(true));
+    [host, guest].forEach((session) => {
+      expect(session.advance()).toBe(false);
+      expect(session.awaitingPick).toBe(true);
+    });
+    expect(host.pickReady).toBe(true);
+    const choice = host.sim.state.pendingPick!.options[0];
+    const pick = host.choosePick(choice)!;
+    expect(pick).toEqual({ index: 0, id: choice });
+    guest.addPick(pick);
+    [host, guest].forEach((session) => {
+      expect(session.advance()).toBe(true);
+      expect(session.picksTaken).toBe(1);
+      expect(session.sim.upgrades.stacks[choice]).toBe(1);
+    });
+    expect(fingerprint(guest.sim)).toBe(fingerprint(host.sim));
+  });
+
+  it('rewinds a seat change that arrives late into the same run', () => {
+    let change: PresenceChange | null = null;
+    const [host, guest] = playOnline(DELAY, (tick, sessions) => {
+      if (tick === 60) change = sessions[0].schedulePresence('p2', 'away');
+      if (tick === 66 && change) sessions[1].addPresence(change);
+    });
+    expect(guest.stats.rollbacks).toBeGreaterThan(0);
+    [host, guest].forEach((session) =>
+      expect(session.sim.state.pilots.find((p) => p.id === 'p2')?.away).toBe(true)
+    );
+    expect(fingerprint(guest.sim)).toBe(fingerprint(host.sim));
+  });
+
+  it('catches a peer joining mid-run up from a transfer', () => {
+    const spectator = new RollbackSession(newSim(), {
+      localPilotId: null,
+      pilotIds: ['p1', 'p2'],
+    });
+    const join = (tick: number, sessions: RollbackSession[]) => {
+      if (tick === 100) spectator.resume(sessions[0].transfer());
+    };
+    const [host] = playOnline(DELAY + 4, join, spectator);
+    expect(spectator.tick).toBe(host.tick);
+    expect(fingerprint(spectator.sim)).toBe(fingerprint(host.sim));
+  });
+
+  it('resumes from a transfer that crossed the wire as JSON', () => {
+    const [synergy] = SYNERGY_DEFINITIONS;
+    const session = (localPilotId: PilotId) =>
+      new RollbackSession(newSim(), { localPilotId, pilotIds: ['p1', 'p2'] });
+    const host = session('p1');
+    synergy.requires.forEach((id) => host.sim.upgrades.apply(id));
+    const guest = session('p2');
+    guest.resume(JSON.parse(JSON.stringify(host.transfer())));
+    expect(guest.sim.upgrades.activeSynergies.has(synergy.id)).toBe(true);
+    for (let i = 0; i < 60; i++) {
+      const inputs = { p1: { ...inputFor('p1', i), tick: i }, p2: { ...inputFor('p2', i), tick: i } };
+      [host, guest].forEach((peer) => peer.sim.step(inputs));
+    }
+    expect(fingerprint(guest.sim)).toBe(fingerprint(host.sim));
+  });
+
+  it('turns away an input too old to rewind for', () => {
+    const host = new RollbackSession(newSim(), {
+      localPilotId: 'p1',
+      pilotIds: ['p1', 'p2'],
+      inputDelayTicks: DELAY,
+    });
+    for (let tick = 0; tick < 40; tick++) {
+      host.addLocalInput(heldInput('p1', tick));
+      expect(host.addRemoteInput('p2', { ...heldInput('p2', tick), tick: tick + DELAY })).toBe(true);
+      host.advance();
+    }
+    const stale = { ...heldInput('p2', 5), tick: 5 + DELAY, fire: false };
+    expect(host.addRemoteInput('p2', stale)).toBe(false);
+    expect(host.stats.droppedInputs).toBe(1);
+  });
+
+  it('keeps the input a resynced peer already sent the host', () => {
+    const [host, guest] = (['p1', 'p2'] as PilotId[]).map(
+      (id) =>
+        new RollbackSession(newSim(), {
+          localPilotId: id,
+          pilotIds: ['p1', 'p2'],
+          inputDelayTicks: DELAY,
+        })
+    );
+    const inFlight: PlayerInput[] = [];
+    const exchange = (ticks: number, holdBackFrom = Infinity) => {
+      for (let i = 0; i < ticks; i++) {
+        guest.addRemoteInput('p1', host.addLocalInput(heldInput('p1', host.tick)));
+        const sent = guest.addLocalInput(heldInput('p2', guest.tick));
+        if (guest.tick < holdBackFrom) host.addRemoteInput('p2', sent);
+        else inFlight.push(sent);
+        host.advance();
+        guest.advance();
+      }
+    };
+    // The guest's last few inputs, a change of heading among them, are still
+    // on the wire when the host resends the run
+    exchange(24, 20);
+    guest.resume(host.transfer());
+    inFlight.forEach((input) => host.addRemoteInput('p2', input));
+    exchange(10);
+    expect(fingerprint(guest.sim)).toBe(fingerprint(host.sim));
+  });
+
+  it('rewinds the whole simulation, upgrades included', () => {
+    const sim = newSim();
+    sim.upgrades.apply('power-shot');
+    const saved = sim.saveState();
+    const before = fingerprint(sim);
+    sim.upgrades.apply('power-shot');
+    for (let i = 0; i < 30; i++) sim.step({ p1: { ...inputFor('p1', i), tick: i } });
+    sim.loadState(saved);
+    expect(sim.upgrades.stacks['power-shot']).toBe(1);
+    expect(fingerprint(sim)).toBe(before);
+  });
+});
@@ -0,0 +1,19 @@
+import type { NetworkTransport } from "./NetworkTransport";
+import { RelayTransport } from "./RelayTransport";
+import { TrysteroTransport } from "./TrysteroTransport";
+
+export interface TransportEnvironment {
+    VITE_RELAY_URL?: string;
+}
+
+/**
+ * Uses the self-hosted relay when the build names one, for networks where
+ * the public MQTT brokers are blocked; Trystero otherwise.
+ */
+export function selectTransport(
+    env: TransportEnvironment = import.meta.env
+): NetworkTransport {
+    const relayUrl = env.VITE_RELAY_URL?.trim();
+    if (relayUrl) return new RelayTransport(relayUrl);
+    return new TrysteroTransport();
+}
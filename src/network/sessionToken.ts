@@ -0,0 +1,16 @@
+/**
+ * Session tokens let a guest who dropped out of a room claim its seat back.
+ * One token per room code, kept in sessionStorage so it survives a reload of
+ * the tab but not a new one.
+ */
+
+const tokenKey = (roomCode: string) => `quiet-quadrant:session:${roomCode}`;
+
+export function sessionTokenFor(roomCode: string): string {
+    if (typeof window === "undefined") return crypto.randomUUID();
+    const stored = window.sessionStorage.getItem(tokenKey(roomCode));
+    if (stored) return stored;
+    const token = crypto.randomUUID();
+    window.sessionStorage.setItem(tokenKey(roomCode), token);
+    return token;
+}
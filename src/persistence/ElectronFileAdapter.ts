@@ -0,0 +1,40 @@
+import {
+	KeyValueAdapter,
+	type KeyValueStore,
+	type SaveKey,
+} from "./KeyValueAdapter";
+
+/** Save-file access exposed by electron/preload.cjs */
+export interface ElectronStorageBridge {
+	read(key: SaveKey): Promise<string | null>;
+	write(key: SaveKey, value: string): Promise<void>;
+}
+
+/**
+ * JSON files in the app's user-data directory, written by the main process.
+ * Slots with no file yet are read from the fallback so saves from builds that
+ * used localStorage carry over.
+ */
+export class ElectronFileStore implements KeyValueStore {
+	private readonly bridge: ElectronStorageBridge;
+	private readonly fallback: KeyValueStore;
+
+	constructor(bridge: ElectronStorageBridge, fallback: KeyValueStore) {
+		this.bridge = bridge;
+		this.fallback = fallback;
+	}
+
+	async read(key: SaveKey): Promise<string | null> {
+		return (await this.bridge.read(key)) ?? this.fallback.read(key);
+	}
+
+	write(key: SaveKey, value: string): Promise<void> {
+		return this.bridge.write(key, value);
+	}
+}
+
+export class ElectronFileAdapter extends KeyValueAdapter {
+	constructor(bridge: ElectronStorageBridge, fallback: KeyValueStore) {
+		super(new ElectronFileStore(bridge, fallback), "save files");
+	}
+}
@@ -0,0 +1,73 @@
+import {
+	KeyValueAdapter,
+	type KeyValueStore,
+	type SaveKey,
+} from "./KeyValueAdapter";
+
+const DB_NAME = "quiet-quadrant";
+const DB_VERSION = 1;
+const STORE_NAME = "saves";
+
+const promisify = <T>(request: IDBRequest<T>) =>
+	new Promise<T>((resolve, reject) => {
+		request.onsuccess = () => resolve(request.result);
+		request.onerror = () => reject(request.error);
+	});
+
+function openDatabase(factory: IDBFactory) {
+	const request = factory.open(DB_NAME, DB_VERSION);
+	request.onupgradeneeded = () => {
+		request.result.createObjectStore(STORE_NAME);
+	};
+	return promisify(request);
+}
+
+/**
+ * IndexedDB slots. When the database can't be opened (private browsing,
+ * blocked storage) every call goes to the fallback store instead, and slots
+ * never written here are read from it so older localStorage saves carry over.
+ */
+export class IndexedDbStore implements KeyValueStore {
+	private readonly factory: IDBFactory;
+	private readonly fallback: KeyValueStore;
+	private db: Promise<IDBDatabase | null> | null = null;
+
+	constructor(factory: IDBFactory, fallback: KeyValueStore) {
+		this.factory = factory;
+		this.fallback = fallback;
+	}
+
+	private open() {
+		this.db ??= openDatabase(this.factory).catch((err) => {
+			console.warn("IndexedDB unavailable, using fallback storage", err);
+			return null;
+		});
+		return this.db;
+	}
+
+	async read(key: SaveKey): Promise<string | null> {
+		const db = await this.open();
+		if (!db) return this.fallback.read(key);
+		const store = db.transaction(STORE_NAME).objectStore(STORE_NAME);
+		const value = await promisify<unknown>(store.get(key));
+		return typeof value === "string" ? value : this.fallback.read(key);
+	}
+
+	async write(key: SaveKey, value: string): Promise<void> {
+		const db = await this.open();
+		if (!db) return this.fallback.write(key, value);
+		const transaction = db.transaction(STORE_NAME, "readwrite");
+		transaction.objectStore(STORE_NAME).put(value, key);
+		await new Promise<void>((resolve, reject) => {
+			transaction.oncomplete = () => resolve();
+			transaction.onerror = () => reject(transaction.error);
+			transaction.onabort = () => reject(transaction.error);
+		});
+	}
+}
+
+export class IndexedDbAdapter extends KeyValueAdapter {
+	constructor(factory: IDBFactory, fallback: KeyValueStore) {
+		super(new IndexedDbStore(factory, fallback), "IndexedDB");
+	}
+}
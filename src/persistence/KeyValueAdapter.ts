@@ -0,0 +1,84 @@
+import type { RunReplay } from "../models/types";
+import { migrateMeta, META_SCHEMA_VERSION } from "./metaMigrations";
+import type {
+	MetaStatePayload,
+	PersistenceAdapter,
+} from "./PersistenceAdapter";
+
+/**
+ * Save slots every backend stores. metaBackup holds the last raw meta blob a
+ * load had to migrate or couldn't read.
+ */
+export type SaveKey = "meta" | "metaBackup" | "replays";
+
+/** A backend that stores one JSON string per save slot */
+export interface KeyValueStore {
+	read(key: SaveKey): Promise<string | null>;
+	write(key: SaveKey, value: string): Promise<void>;
+}
+
+/**
+ * Persistence on top of any string store: parsing, schema checks and
+ * error logging live here so each backend only moves strings.
+ */
+export class KeyValueAdapter implements PersistenceAdapter {
+	private readonly store: KeyValueStore;
+	private readonly label: string;
+
+	constructor(store: KeyValueStore, label: string) {
+		this.store = store;
+		this.label = label;
+	}
+
+	async loadMeta(): Promise<MetaStatePayload | null> {
+		let raw: string | null = null;
+		try {
+			raw = await this.store.read("meta");
+			if (!raw) return null;
+			const { payload, fromVersion } = migrateMeta(JSON.parse(raw));
+			if (fromVersion !== META_SCHEMA_VERSION) await this.backupMeta(raw);
+			return payload;
+		} catch (err) {
+			console.warn(`Failed to load meta from ${this.label}`, err);
+			// The next save replaces this blob, so keep it somewhere
+			if (raw) await this.backupMeta(raw);
+			return null;
+		}
+	}
+
+	private async backupMeta(raw: string) {
+		try {
+			await this.store.write("metaBackup", raw);
+		} catch (err) {
+			console.warn(`Failed to back up meta in ${this.label}`, err);
+		}
+	}
+
+	async saveMeta(meta: MetaStatePayload): Promise<void> {
+		try {
+			await this.store.write("meta", JSON.stringify(meta));
+		} catch (err) {
+			console.warn(`Failed to save meta to ${this.label}`, err);
+		}
+	}
+
+	async loadReplays(): Promise<RunReplay[]> {
+		try {
+			const raw = await this.store.read("replays");
+			if (!raw) return [];
+			const parsed = JSON.parse(raw) as RunReplay[];
+			return Array.isArray(parsed) ? parsed : [];
+		} catch (err) {
+			console.warn(`Failed to load replays from ${this.label}`, err);
+			return [];
+		}
+	}
+
+	async saveReplays(replays: RunReplay[]): Promise<void> {
+		try {
+			await this.store.write("replays", JSON.stringify(replays));
+		} catch (err) {
+			console.warn(`Failed to save replays to ${this.label}`, err);
+		}
+	}
+}
@@ -1,31 +1,29 @@
-import type {
-	MetaStatePayload,
-	PersistenceAdapter,
-} from "./PersistenceAdapter";
+import {
+	KeyValueAdapter,
+	type KeyValueStore,
+	type SaveKey,
+} from "./KeyValueAdapter";
 
-const STORAGE_KEY = "quiet-quadrant:meta:v1";
+const STORAGE_KEYS: Record<SaveKey, string> = {
+	meta: "quiet-quadrant:meta:v1",
+	metaBackup: "quiet-quadrant:meta-backup",
+	replays: "quiet-quadrant:replays:v1",
+};
 
-export class LocalStorageAdapter implements PersistenceAdapter {
-	async loadMeta(): Promise<MetaStatePayload | null> {
+/** localStorage slots; also where saves from before the other backends live */
+export const localStorageStore: KeyValueStore = {
+	async read(key) {
 		if (typeof window === "undefined") return null;
-		try {
-			const raw = window.localStorage.getItem(STORAGE_KEY);
-			if (!raw) return null;
-			const parsed = JSON.parse(raw) as MetaStatePayload;
-			if (parsed.schemaVersion !== 1) return null;
-			return parsed;
-		} catch (err) {
-			console.warn("Failed to load meta from localStorage", err);
-			return null;
-		}
-	}
-
-	async saveMeta(meta: MetaStatePayload): Promise<void> {
+		return window.localStorage.getItem(STORAGE_KEYS[key]);
+	},
+	async write(key, value) {
 		if (typeof window === "undefined") return;
-		try {
-			window.localStorage.setItem(STORAGE_KEY, JSON.stringify(meta));
-		} catch (err) {
-			console.warn("Failed to save meta to localStorage", err);
-		}
+		window.localStorage.setItem(STORAGE_KEYS[key], value);
+	},
+};
+
+export class LocalStorageAdapter extends KeyValueAdapter {
+	constructor() {
+		super(localStorageStore, "localStorage");
 	}
 }
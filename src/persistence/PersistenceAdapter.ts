@@ -2,6 +2,7 @@ import type {
     CardCollection,
     LifetimeStats,
     PerSeedBest,
+    RunReplay,
     RunSummary,
     Settings,
 } from "../models/types";
@@ -13,6 +14,7 @@ export interface MetaStatePayload {
     settings: Settings;
     bestRunsBySeed?: PerSeedBest;
     topRuns?: RunSummary[];
+    bossRushTopRuns?: RunSummary[];
     lifetimeStats?: LifetimeStats;
     cardCollection?: CardCollection;
 }
@@ -20,4 +22,6 @@ export interface MetaStatePayload {
 export interface PersistenceAdapter {
     loadMeta(): Promise<MetaStatePayload | null>;
     saveMeta(meta: MetaStatePayload): Promise<void>;
+    loadReplays(): Promise<RunReplay[]>;
+    saveReplays(replays: RunReplay[]): Promise<void>;
 }
@@ -0,0 +1,115 @@
+/**
+ * Meta migration tests: old payloads are upgraded rather than discarded, and
+ * anything unreadable is backed up before the next save can replace it
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { KeyValueStore, SaveKey } from '../KeyValueAdapter';
+import { KeyValueAdapter } from '../KeyValueAdapter';
+import {
+  META_MIGRATIONS,
+  META_SCHEMA_VERSION,
+  migrateMeta,
+  validateMetaPayload,
+} from '../metaMigrations';
+
+const memoryStore = (initial: Partial<Record<SaveKey, string>> = {}) => {
+  const slots = { ...initial };
+  const store: KeyValueStore = {
+    read: async (key) => slots[key] ?? null,
+    write: async (key, value) => {
+      slots[key] = value;
+    },
+  };
+  return { store, slots };
+};
+
+const run = (runId: string, affixId?: string) => ({
+  runId,
+  timestamp: 1,
+  durationSeconds: 60,
+  wavesCleared: 4,
+  bossDefeated: false,
+  enemiesDestroyed: 30,
+  upgrades: [],
+  seedId: 'week-1',
+  ...(affixId ? { affixId } : {}),
+});
+
+const v1Payload = {
+  schemaVersion: 1,
+  totalRuns: 42,
+  settings: { masterVolume: 0.5 },
+  bestRun: run('best', 'ironclad'),
+  bestRunsBySeed: { 'week-1': run('best', 'ironclad') },
+  topRuns: [run('a', 'sluggish'), run('b')],
+  lifetimeStats: { totalRuns: 42 },
+  cardCollection: {
+    unlockedUpgrades: ['power-shot', 'prism-spread'],
+    upgradeBoosts: { 'power-shot': 3 },
+    totalCardsCollected: 19,
+  },
+};
+
+describe('migrateMeta', () => {
+  it('runs every migration in order up to the current version', () => {
+    const versions = META_MIGRATIONS.map((m) => m.version);
+    expect(versions).toEqual([...versions].sort((a, b) => a - b));
+    expect(versions.at(-1)).toBe(META_SCHEMA_VERSION);
+  });
+
+  it('moves v1 single affixes into affix lists and keeps everything else', () => {
+    const { payload, fromVersion } = migrateMeta(structuredClone(v1Payload));
+    expect(fromVersion).toBe(1);
+    expect(payload.schemaVersion).toBe(META_SCHEMA_VERSION);
+    expect(payload.bestRun?.affixIds).toEqual(['ironclad']);
+    expect(payload.bestRun?.affixId).toBeUndefined();
+    expect(payload.bestRunsBySeed?.['week-1'].affixIds).toEqual(['ironclad']);
+    expect(payload.topRuns?.map((r) => r.affixIds)).toEqual([['sluggish'], undefined]);
+    expect(payload.cardCollection).toEqual(v1Payload.cardCollection);
+    expect(payload.lifetimeStats).toEqual(v1Payload.lifetimeStats);
+    expect(payload.totalRuns).toBe(42);
+  });
+
+  it('treats unversioned payloads as v1 and leaves current ones alone', () => {
+    const unversioned: Partial<typeof v1Payload> = { ...v1Payload };
+    delete unversioned.schemaVersion;
+    expect(migrateMeta(unversioned).fromVersion).toBe(1);
+    const current = migrateMeta(v1Payload).payload;
+    expect(migrateMeta(current)).toEqual({ payload: current, fromVersion: META_SCHEMA_VERSION });
+  });
+
+  it('rejects newer and malformed payloads', () => {
+    expect(() => migrateMeta({ ...v1Payload, schemaVersion: META_SCHEMA_VERSION + 1 })).toThrow(
+      /newer/
+    );
+    expect(() => migrateMeta({ ...v1Payload, topRuns: 'lots' })).toThrow(/topRuns/);
+    expect(validateMetaPayload({ ...v1Payload, cardCollection: { unlockedUpgrades: 3 } })).toEqual([
+      'schemaVersion is 1',
+      'cardCollection is malformed',
+    ]);
+  });
+});
+
+describe('KeyValueAdapter meta loading', () => {
+  it('migrates old saves and backs up the original blob', async () => {
+    const raw = JSON.stringify(v1Payload);
+    const { store, slots } = memoryStore({ meta: raw });
+    const meta = await new KeyValueAdapter(store, 'memory').loadMeta();
+    expect(meta?.cardCollection?.upgradeBoosts).toEqual({ 'power-shot': 3 });
+    expect(slots.metaBackup).toBe(raw);
+  });
+
+  it('backs up a blob it cannot load instead of losing it', async () => {
+    const { store, slots } = memoryStore({ meta: '{"schemaVersion":9,"totalRuns":1}' });
+    expect(await new KeyValueAdapter(store, 'memory').loadMeta()).toBeNull();
+    expect(slots.metaBackup).toBe('{"schemaVersion":9,"totalRuns":1}');
+  });
+
+  it('does not touch the backup for current saves', async () => {
+    const current = migrateMeta(v1Payload).payload;
+    const { store, slots } = memoryStore({ meta: JSON.stringify(current) });
+    expect(await new KeyValueAdapter(store, 'memory').loadMeta()).toEqual(current);
+    expect(slots.metaBackup).toBeUndefined();
+  });
+});
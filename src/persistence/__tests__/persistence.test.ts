@@ -0,0 +1,91 @@
+/**
+ * Persistence tests: backend selection, legacy save carry-over and the
+ * fallback when IndexedDB can't open
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { MetaStatePayload } from '../PersistenceAdapter';
+import type { KeyValueStore, SaveKey } from '../KeyValueAdapter';
+import { ElectronFileAdapter, type ElectronStorageBridge } from '../ElectronFileAdapter';
+import { IndexedDbAdapter } from '../IndexedDbAdapter';
+import { LocalStorageAdapter } from '../LocalStorageAdapter';
+import { selectPersistenceAdapter } from '../selectPersistenceAdapter';
+
+const memoryStore = (initial: Partial<Record<SaveKey, string>> = {}) => {
+  const slots = { ...initial };
+  const store: KeyValueStore & { slots: typeof slots } = {
+    slots,
+    read: async (key) => slots[key] ?? null,
+    write: async (key, value) => {
+      slots[key] = value;
+    },
+  };
+  return store;
+};
+
+const meta = (totalRuns: number): MetaStatePayload => ({
+  schemaVersion: 1,
+  totalRuns,
+  settings: {} as MetaStatePayload['settings'],
+});
+
+// An IDBFactory whose open() always fails, like Firefox private browsing
+const brokenIndexedDb = {
+  open: () => {
+    const request = { error: new Error('blocked') } as unknown as IDBOpenDBRequest;
+    queueMicrotask(() => request.onerror?.(new Event('error')));
+    return request;
+  },
+} as unknown as IDBFactory;
+
+describe('selectPersistenceAdapter', () => {
+  it('prefers Electron save files, then IndexedDB, then localStorage', () => {
+    const storage = memoryStore();
+    expect(
+      selectPersistenceAdapter({
+        electronAPI: { platform: 'linux', isElectron: true, storage },
+        indexedDB: brokenIndexedDb,
+      })
+    ).toBeInstanceOf(ElectronFileAdapter);
+    expect(selectPersistenceAdapter({ indexedDB: brokenIndexedDb })).toBeInstanceOf(
+      IndexedDbAdapter
+    );
+    const browser = { electronAPI: { platform: 'web', isElectron: false } };
+    expect(selectPersistenceAdapter(browser)).toBeInstanceOf(LocalStorageAdapter);
+    expect(selectPersistenceAdapter(undefined)).toBeInstanceOf(LocalStorageAdapter);
+  });
+});
+
+describe('ElectronFileAdapter', () => {
+  it('writes save files and carries over older saves', async () => {
+    const bridge: ElectronStorageBridge & { slots: Partial<Record<SaveKey, string>> } =
+      memoryStore();
+    const legacy = memoryStore({ meta: JSON.stringify(meta(7)) });
+    const adapter = new ElectronFileAdapter(bridge, legacy);
+
+    expect((await adapter.loadMeta())?.totalRuns).toBe(7);
+    await adapter.saveMeta(meta(8));
+    expect(JSON.parse(bridge.slots.meta!).totalRuns).toBe(8);
+    expect((await adapter.loadMeta())?.totalRuns).toBe(8);
+    expect(await adapter.loadReplays()).toEqual([]);
+  });
+
+  it('ignores saves it cannot read', async () => {
+    const adapter = new ElectronFileAdapter(
+      memoryStore({ meta: '{not json', replays: '{"runId":"x"}' }),
+      memoryStore()
+    );
+    expect(await adapter.loadMeta()).toBeNull();
+    expect(await adapter.loadReplays()).toEqual([]);
+  });
+});
+
+describe('IndexedDbAdapter', () => {
+  it('falls back when the database cannot open', async () => {
+    const fallback = memoryStore();
+    const adapter = new IndexedDbAdapter(brokenIndexedDb, fallback);
+    await adapter.saveMeta(meta(3));
+    expect(JSON.parse(fallback.slots.meta!).totalRuns).toBe(3);
+    expect((await adapter.loadMeta())?.totalRuns).toBe(3);
+  });
+});
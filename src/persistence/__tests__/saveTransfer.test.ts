@@ -0,0 +1,124 @@
+/**
+ * Save transfer tests: files and codes round-trip, damaged imports are
+ * rejected, and merging two devices never double-counts
+ */
+
+import { describe, it, expect } from 'vitest';
+import type { MetaStatePayload } from '../PersistenceAdapter';
+import { META_SCHEMA_VERSION } from '../metaMigrations';
+import {
+  SAVE_CODE_PREFIX,
+  createSaveExport,
+  encodeSaveCode,
+  parseSaveImport,
+} from '../saveTransfer';
+import { mergeMetaPayloads } from '../../state/useMetaStore';
+
+const run = (runId: string, wavesCleared: number, seedId = 'week-1') => ({
+  runId,
+  timestamp: 1,
+  durationSeconds: 100 - wavesCleared,
+  wavesCleared,
+  bossDefeated: wavesCleared >= 10,
+  enemiesDestroyed: wavesCleared * 10,
+  upgrades: [],
+  seedId,
+});
+
+const payload = (overrides: Partial<MetaStatePayload> = {}): MetaStatePayload => ({
+  schemaVersion: META_SCHEMA_VERSION,
+  totalRuns: 12,
+  settings: {
+    masterVolume: 0.6,
+    musicVolume: 0.5,
+    sfxVolume: 0.7,
+    muteAll: false,
+    muteMusic: false,
+    difficultyMultiplier: 1,
+    inputMode: 'keyboardMouse',
+  },
+  topRuns: [run('a', 6), run('b', 3)],
+  cardCollection: {
+    unlockedUpgrades: ['power-shot'],
+    upgradeBoosts: { 'power-shot': 2 },
+    totalCardsCollected: 4,
+  },
+  ...overrides,
+});
+
+describe('save export and import', () => {
+  it('round-trips through a save file and a transfer code', async () => {
+    const save = createSaveExport(payload(), 1000);
+    const fromFile = await parseSaveImport(JSON.stringify(save, null, 2));
+    expect(fromFile.meta).toEqual(save.meta);
+
+    const code = await encodeSaveCode(save);
+    expect(code.startsWith(`${SAVE_CODE_PREFIX}z`)).toBe(true);
+    expect(code).toMatch(/^[A-Za-z0-9_-]+$/);
+    const fromCode = await parseSaveImport(`  ${code}\n`);
+    expect(fromCode.meta).toEqual(save.meta);
+    expect(fromCode.exportedAt).toBe(1000);
+  });
+
+  it('rejects tampered, truncated and foreign imports', async () => {
+    const save = createSaveExport(payload());
+    const tampered = { ...save, meta: { ...save.meta, totalRuns: 9999 } };
+    await expect(parseSaveImport(JSON.stringify(tampered))).rejects.toThrow(/integrity/);
+    const code = await encodeSaveCode(save);
+    await expect(parseSaveImport(code.slice(0, code.length / 2))).rejects.toThrow(/damaged/);
+    await expect(parseSaveImport('{"hello":"world"}')).rejects.toThrow(/isn't a Quiet Quadrant/);
+    await expect(parseSaveImport('not even json')).rejects.toThrow(/isn't a Quiet Quadrant/);
+  });
+
+  it('migrates exports made with an older schema', async () => {
+    const old = { ...payload(), schemaVersion: 1, bestRun: { ...run('x', 8), affixId: 'ironclad' } };
+    const save = createSaveExport(old as MetaStatePayload);
+    const imported = await parseSaveImport(JSON.stringify(save));
+    expect(imported.meta.schemaVersion).toBe(META_SCHEMA_VERSION);
+    expect(imported.meta.bestRun?.affixIds).toEqual(['ironclad']);
+  });
+});
+
+describe('mergeMetaPayloads', () => {
+  it('keeps the best of both devices without double counting', () => {
+    const home = payload({
+      totalRuns: 30,
+      topRuns: [run('a', 6), run('c', 9)],
+      bestRunsBySeed: { 'week-1': run('a', 6) },
+      cardCollection: {
+        unlockedUpgrades: ['power-shot', 'prism-spread'],
+        upgradeBoosts: { 'power-shot': 1, 'prism-spread': 3 },
+        totalCardsCollected: 9,
+      },
+      settings: { ...payload().settings, masterVolume: 0.1 },
+    });
+    const merged = mergeMetaPayloads(payload(), home);
+    expect(merged.totalRuns).toBe(30);
+    expect(merged.topRuns?.map((r) => r.runId)).toEqual(['c', 'a', 'b']);
+    expect(merged.bestRunsBySeed?.['week-1'].runId).toBe('a');
+    expect(merged.cardCollection).toEqual({
+      unlockedUpgrades: ['power-shot', 'prism-spread'],
+      upgradeBoosts: { 'power-shot': 2, 'prism-spread': 3 },
+      totalCardsCollected: 9,
+    });
+    // Settings are per device
+    expect(merged.settings.masterVolume).toBe(0.6);
+    expect(mergeMetaPayloads(merged, home)).toEqual(merged);
+  });
+
+  it('takes the fastest victory and the most recent daily streak', () => {
+    const stats = (overrides: Record<string, unknown>) =>
+      payload({ lifetimeStats: overrides as unknown as MetaStatePayload['lifetimeStats'] });
+    const merged = mergeMetaPayloads(
+      stats({ fastestVictorySeconds: null, lastPlayedDate: '2026-10-17', currentDailyStreak: 5 }),
+      stats({ fastestVictorySeconds: 412, lastPlayedDate: '2026-10-18', currentDailyStreak: 2 })
+    );
+    expect(merged.lifetimeStats?.fastestVictorySeconds).toBe(412);
+    expect(merged.lifetimeStats?.currentDailyStreak).toBe(2);
+    expect(merged.lifetimeStats?.lastPlayedDate).toBe('2026-10-18');
+    const neverWon = stats({ fastestVictorySeconds: null });
+    expect(mergeMetaPayloads(neverWon, neverWon).lifetimeStats?.fastestVictorySeconds).toBe(
+      Infinity
+    );
+  });
+});
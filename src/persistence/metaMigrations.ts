@@ -0,0 +1,147 @@
+/**
+ * Meta save migrations
+ *
+ * Every load runs the stored payload through the migrations after its
+ * schemaVersion, in order, then validates the result. A payload that can't
+ * be migrated throws instead of being silently replaced, so the adapter can
+ * keep the raw blob as a backup.
+ */
+
+import type { RunSummary } from "../models/types";
+import type { MetaStatePayload } from "./PersistenceAdapter";
+
+export const META_SCHEMA_VERSION = 2;
+
+type RawPayload = Record<string, unknown>;
+
+interface MetaMigration {
+	/** Version the migration produces */
+	version: number;
+	migrate(payload: RawPayload): RawPayload;
+}
+
+/** Rewrites every stored run summary in the payload */
+const mapStoredRuns = (
+	payload: RawPayload,
+	update: (run: RunSummary) => RunSummary,
+): RawPayload => {
+	const runs = (value: unknown) =>
+		Array.isArray(value) ? (value as RunSummary[]).map(update) : value;
+	const bySeed = payload.bestRunsBySeed as
+		| Record<string, RunSummary>
+		| undefined;
+	return {
+		...payload,
+		bestRun: payload.bestRun
+			? update(payload.bestRun as RunSummary)
+			: payload.bestRun,
+		bestRunsBySeed: bySeed
+			? Object.fromEntries(
+					Object.entries(bySeed).map(([id, run]) => [id, update(run)]),
+				)
+			: bySeed,
+		topRuns: runs(payload.topRuns),
+		bossRushTopRuns: runs(payload.bossRushTopRuns),
+	};
+};
+
+// Ordered by version; never edit a shipped migration, add a new one
+export const META_MIGRATIONS: MetaMigration[] = [
+	{
+		// Runs list every stacked affix instead of a single affixId
+		version: 2,
+		migrate: (payload) =>
+			mapStoredRuns(payload, ({ affixId, ...run }) =>
+				affixId && !run.affixIds ? { ...run, affixIds: [affixId] } : run,
+			),
+	},
+];
+
+const isRecord = (value: unknown): value is RawPayload =>
+	typeof value === "object" && value !== null && !Array.isArray(value);
+
+const isRun = (value: unknown) =>
+	isRecord(value) &&
+	typeof value.runId === "string" &&
+	typeof value.wavesCleared === "number";
+
+/** Problems with a payload that claims the current schema; empty when valid */
+export function validateMetaPayload(value: unknown): string[] {
+	if (!isRecord(value)) return ["payload is not an object"];
+	const problems: string[] = [];
+	if (value.schemaVersion !== META_SCHEMA_VERSION) {
+		problems.push(`schemaVersion is ${String(value.schemaVersion)}`);
+	}
+	if (typeof value.totalRuns !== "number") {
+		problems.push("totalRuns is not a number");
+	}
+	if (!isRecord(value.settings)) problems.push("settings is not an object");
+	if (value.bestRun !== undefined && !isRun(value.bestRun)) {
+		problems.push("bestRun is not a run");
+	}
+	if (
+		value.bestRunsBySeed !== undefined &&
+		!(
+			isRecord(value.bestRunsBySeed) &&
+			Object.values(value.bestRunsBySeed).every(isRun)
+		)
+	) {
+		problems.push("bestRunsBySeed holds something other than runs");
+	}
+	(["topRuns", "bossRushTopRuns"] as const).forEach((key) => {
+		const runs = value[key];
+		if (runs !== undefined && !(Array.isArray(runs) && runs.every(isRun))) {
+			problems.push(`${key} is not a list of runs`);
+		}
+	});
+	if (value.lifetimeStats !== undefined && !isRecord(value.lifetimeStats)) {
+		problems.push("lifetimeStats is not an object");
+	}
+	const cards = value.cardCollection;
+	if (
+		cards !== undefined &&
+		!(
+			isRecord(cards) &&
+			Array.isArray(cards.unlockedUpgrades) &&
+			isRecord(cards.upgradeBoosts)
+		)
+	) {
+		problems.push("cardCollection is malformed");
+	}
+	return problems;
+}
+
+/**
+ * Brings a parsed payload up to META_SCHEMA_VERSION. Returns the version it
+ * started from so callers can tell whether anything changed.
+ */
+export function migrateMeta(value: unknown): {
+	payload: MetaStatePayload;
+	fromVersion: number;
+} {
+	if (!isRecord(value)) throw new Error("Meta payload is not an object");
+	// Payloads from before versioning carried no schemaVersion
+	const fromVersion =
+		typeof value.schemaVersion === "number" ? value.schemaVersion : 1;
+	if (fromVersion > META_SCHEMA_VERSION) {
+		throw new Error(
+			`Meta payload is schema ${fromVersion}, newer than ${META_SCHEMA_VERSION}`,
+		);
+	}
+	const migrated = META_MIGRATIONS.filter(
+		(m) => m.version > fromVersion,
+	).reduce(
+		(payload, migration) => ({
+			...migration.migrate(payload),
+			schemaVersion: migration.version,
+		}),
+		{ ...value, schemaVersion: fromVersion },
+	);
+	const problems = validateMetaPayload(migrated);
+	if (problems.length > 0) {
+		throw new Error(
+			`Meta payload from schema ${fromVersion} is invalid: ${problems.join("; ")}`,
+		);
+	}
+	return { payload: migrated as unknown as MetaStatePayload, fromVersion };
+}
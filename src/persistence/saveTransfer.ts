@@ -0,0 +1,147 @@
+/**
+ * Save export and import across devices
+ *
+ * An export wraps the meta payload with a checksum. It travels either as a
+ * JSON file or as a transfer code: the same JSON deflated and base64url
+ * encoded behind a short prefix, small enough to paste between the web,
+ * Android and desktop builds. Imports verify the checksum, then run the
+ * payload through the meta migrations so older exports still load.
+ */
+
+import { hashSeed } from "../utils/seed";
+import { migrateMeta } from "./metaMigrations";
+import type { MetaStatePayload } from "./PersistenceAdapter";
+
+const SAVE_FORMAT = "quiet-quadrant-save";
+const SAVE_FORMAT_VERSION = 1;
+
+/** Transfer codes start with this, then "z" (deflated) or "p" (plain) */
+export const SAVE_CODE_PREFIX = "QQS1";
+
+export interface SaveExport {
+	format: typeof SAVE_FORMAT;
+	version: number;
+	exportedAt: number;
+	checksum: string;
+	meta: MetaStatePayload;
+}
+
+const checksumOf = (meta: unknown) =>
+	hashSeed(JSON.stringify(meta)).toString(16).padStart(8, "0");
+
+export function createSaveExport(
+	meta: MetaStatePayload,
+	now = Date.now(),
+): SaveExport {
+	return {
+		format: SAVE_FORMAT,
+		version: SAVE_FORMAT_VERSION,
+		exportedAt: now,
+		checksum: checksumOf(meta),
+		meta,
+	};
+}
+
+export const saveExportFileName = (exportedAt: number) =>
+	`quiet-quadrant-save-${new Date(exportedAt).toISOString().slice(0, 10)}.json`;
+
+const toBase64Url = (bytes: Uint8Array) => {
+	let binary = "";
+	for (let i = 0; i < bytes.length; i += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+	}
+	return btoa(binary)
+		.replace(/\+/g, "-")
+		.replace(/\//g, "_")
+		.replace(/=+$/, "");
+};
+
+const fromBase64Url = (text: string) => {
+	const binary = atob(text.replace(/-/g, "+").replace(/_/g, "/"));
+	return Uint8Array.from(binary, (c) => c.charCodeAt(0));
+};
+
+const pipeBytes = async (bytes: Uint8Array, stream: GenericTransformStream) =>
+	new Uint8Array(
+		await new Response(
+			new Blob([bytes as BlobPart]).stream().pipeThrough(stream),
+		).arrayBuffer(),
+	);
+
+// Older WebViews lack CompressionStream; their codes are just longer
+const canCompress = () => typeof CompressionStream !== "undefined";
+
+export async function encodeSaveCode(save: SaveExport): Promise<string> {
+	const bytes = new TextEncoder().encode(JSON.stringify(save));
+	if (!canCompress()) return `${SAVE_CODE_PREFIX}p${toBase64Url(bytes)}`;
+	const deflated = await pipeBytes(
+		bytes,
+		new CompressionStream("deflate-raw"),
+	);
+	return `${SAVE_CODE_PREFIX}z${toBase64Url(deflated)}`;
+}
+
+async function decodeSaveCode(code: string): Promise<unknown> {
+	const mode = code.charAt(SAVE_CODE_PREFIX.length);
+	const body = code.slice(SAVE_CODE_PREFIX.length + 1).replace(/\s+/g, "");
+	let bytes: Uint8Array;
+	try {
+		bytes = fromBase64Url(body);
+		if (mode === "z") {
+			if (typeof DecompressionStream === "undefined") {
+				throw new Error("This device can't unpack compressed codes");
+			}
+			bytes = await pipeBytes(
+				bytes,
+				new DecompressionStream("deflate-raw"),
+			);
+		} else if (mode !== "p") {
+			throw new Error(`Unknown transfer code type "${mode}"`);
+		}
+		return JSON.parse(new TextDecoder().decode(bytes));
+	} catch (err) {
+		throw new Error("The transfer code is incomplete or damaged", {
+			cause: err,
+		});
+	}
+}
+
+/**
+ * Reads an exported JSON file or transfer code. Throws with a message fit
+ * for the player when the text isn't a save, is damaged or can't migrate.
+ */
+export async function parseSaveImport(text: string): Promise<SaveExport> {
+	const trimmed = text.trim();
+	let parsed: unknown;
+	try {
+		parsed = trimmed.startsWith(SAVE_CODE_PREFIX)
+			? await decodeSaveCode(trimmed)
+			: JSON.parse(trimmed);
+	} catch (err) {
+		if (trimmed.startsWith(SAVE_CODE_PREFIX)) throw err;
+		throw new Error("That isn't a Quiet Quadrant save file or code");
+	}
+	const save = parsed as Partial<SaveExport> | null;
+	if (save?.format !== SAVE_FORMAT || typeof save.version !== "number") {
+		throw new Error("That isn't a Quiet Quadrant save file or code");
+	}
+	if (save.version > SAVE_FORMAT_VERSION) {
+		throw new Error("This save comes from a newer version of the game");
+	}
+	if (save.checksum !== checksumOf(save.meta)) {
+		throw new Error("The save failed its integrity check");
+	}
+	let payload: MetaStatePayload;
+	try {
+		payload = migrateMeta(save.meta).payload;
+	} catch (err) {
+		throw new Error("The save's progress data is malformed", { cause: err });
+	}
+	return {
+		format: SAVE_FORMAT,
+		version: save.version,
+		exportedAt: save.exportedAt ?? 0,
+		checksum: save.checksum,
+		meta: payload,
+	};
+}
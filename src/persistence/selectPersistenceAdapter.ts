@@ -0,0 +1,29 @@
+import { ElectronFileAdapter } from "./ElectronFileAdapter";
+import { IndexedDbAdapter } from "./IndexedDbAdapter";
+import { LocalStorageAdapter, localStorageStore } from "./LocalStorageAdapter";
+import type { PersistenceAdapter } from "./PersistenceAdapter";
+
+export type PersistenceEnvironment = Partial<
+	Pick<Window, "electronAPI" | "indexedDB">
+>;
+
+/**
+ * Picks the roomiest backend the runtime offers: save files under Electron,
+ * then IndexedDB, then localStorage. localStorage stays the fallback for
+ * the others and the source of saves made before they existed.
+ */
+export function selectPersistenceAdapter(
+	env: PersistenceEnvironment | undefined = typeof window === "undefined"
+		? undefined
+		: window,
+): PersistenceAdapter {
+	const storage = env?.electronAPI?.storage;
+	if (storage) return new ElectronFileAdapter(storage, localStorageStore);
+	if (env?.indexedDB) {
+		return new IndexedDbAdapter(env.indexedDB, localStorageStore);
+	}
+	return new LocalStorageAdapter();
+}
+
+/** Shared by every store so there's one connection per backend */
+export const persistenceAdapter = selectPersistenceAdapter();
@@ -0,0 +1,471 @@
+/**
+ * HeadlessSimulation - Runs Quiet Quadrant at a fixed 60Hz tick without Phaser
+ *
+ * The game's rules live here: MainScene steps this same simulation and only
+ * draws its state and plays its effects. A run is fully determined by its
+ * seed, its options, the inputs and the upgrade picks, so the same script
+ * always produces the same result. Picks come from a policy for bots and
+ * tests, or wait on choose() when a player makes them.
+ */
+
+import { composeAffixes, getAffixes, runAffixIds } from "../config/affixes";
+import { BOSSES } from "../config/bosses";
+import { UPGRADE_CATALOG } from "../config/upgrades";
+import { PILOT_IDS } from "../game/pilots";
+import {
+    UpgradeManager,
+    type UpgradeManagerState,
+} from "../game/scenes/managers/UpgradeManager";
+import { ReplayPlayer } from "../game/replay/ReplayPlayer";
+import type {
+    BossDefinition,
+    CardCollection,
+    Rarity,
+    RunMode,
+    RunReplay,
+    UpgradeDefinition,
+    UpgradeInstance,
+    WeeklyAffix,
+} from "../models/types";
+import type { PlayerInput } from "../network/DeterministicSync";
+import {
+    SIM_DT_MS,
+    cloneSimState,
+    createSimState,
+    type SimEvent,
+    type SimOutcome,
+    type SimPendingPick,
+    type SimPilotId,
+    type SimState,
+} from "./SimState";
+import { rollUpgradeOptions } from "./upgradeRolls";
+import { BOSS_RUSH_OPENING_PICKS } from "./bossRushRules";
+import { BossSystem } from "./systems/BossSystem";
+import { CombatSystem } from "./systems/CombatSystem";
+import { EnemySystem } from "./systems/EnemySystem";
+import { MiniBossSystem } from "./systems/MiniBossSystem";
+import { PlayerSystem } from "./systems/PlayerSystem";
+import { ProjectileSystem } from "./systems/ProjectileSystem";
+import { WAVE_INTERMISSION_MS, WaveSystem } from "./systems/WaveSystem";
+
+export type SimInputs = Partial<Record<SimPilotId, PlayerInput>>;
+
+/** Produces the inputs for a tick; may read state to steer a scripted pilot */
+export type SimInputScript = (tick: number, state: SimState) => SimInputs;
+
+/** Chooses an upgrade id from the rolled options, or null to skip */
+export type UpgradePickPolicy = (
+    options: UpgradeDefinition[],
+    state: SimState,
+    stacks: Record<string, number>
+) => string | null;
+
+export interface HeadlessSimulationOptions {
+    seedValue: number;
+    mode?: RunMode;
+    affix?: WeeklyAffix | null;
+    boss?: BossDefinition;
+    difficulty?: number;
+    /** Defaults to the mode's own seats */
+    pilots?: SimPilotId[];
+    /** Defaults to every upgrade unlocked with no boosts */
+    cardCollection?: Pick<CardCollection, "unlockedUpgrades" | "upgradeBoosts">;
+    /** Defaults to the first option offered */
+    pickUpgrade?: UpgradePickPolicy;
+    /**
+     * Hold each pick in state.pendingPick until choose() is called, instead
+     * of asking pickUpgrade
+     */
+    interactivePicks?: boolean;
+}
+
+export interface SimResult {
+    outcome: SimOutcome;
+    ticks: number;
+    durationSeconds: number;
+    /** 1-based wave the run ended on, as RunSummary reports it */
+    wavesCleared: number;
+    level: number;
+    enemiesDestroyed: number;
+    revives: number;
+    bossDefeated: boolean;
+    bossTimeToKillMs: number | null;
+    upgrades: UpgradeInstance[];
+    synergies: string[];
+    events: SimEvent[];
+}
+
+/**
+ * Everything needed to rewind a simulation to an earlier tick. The event log
+ * only grows, so a snapshot keeps its length rather than a copy of it.
+ */
+export interface SimSnapshot {
+    state: SimState;
+    eventCount: number;
+    upgrades: UpgradeManagerState;
+    acquired: UpgradeInstance[];
+}
+
+export const pickFirstUpgrade: UpgradePickPolicy = (options) =>
+    options[0]?.id ?? null;
+
+export class HeadlessSimulation {
+    readonly state: SimState;
+    readonly upgrades: UpgradeManager;
+    private readonly cardCollection: Pick<
+        CardCollection,
+        "unlockedUpgrades" | "upgradeBoosts"
+    >;
+    private readonly pickUpgrade: UpgradePickPolicy;
+    private readonly interactivePicks: boolean;
+    private readonly acquired: UpgradeInstance[] = [];
+
+    constructor(options: HeadlessSimulationOptions) {
+        this.state = createSimState({
+            seedValue: options.seedValue,
+            mode: options.mode ?? "standard",
+            pilots: options.pilots,
+            affix: options.affix ?? null,
+            boss: options.boss ?? BOSSES[0],
+            difficulty: options.difficulty ?? 1,
+        });
+        this.cardCollection = options.cardCollection ?? {
+            unlockedUpgrades: UPGRADE_CATALOG.map((u) => u.id),
+            upgradeBoosts: {},
+        };
+        this.pickUpgrade = options.pickUpgrade ?? pickFirstUpgrade;
+        this.interactivePicks = options.interactivePicks ?? false;
+        this.upgrades = new UpgradeManager({
+            getPlayerStats: () => this.state.stats,
+            setPlayerStats: (stats) => {
+                this.state.stats = { ...this.state.stats, ...stats };
+            },
+            getPilots: () => this.state.pilots,
+            enforceHealthCap: () => {
+                const stats = this.state.stats;
+                const cap = this.upgrades.glassCannonCap;
+                if (cap !== null) {
+                    stats.maxHealth = Math.min(stats.maxHealth, cap);
+                }
+                stats.health = Math.min(stats.health, stats.maxHealth);
+            },
+            syncVitals: () => {},
+            onUpgradeApplied: (upgrade) => this.recordUpgrade(upgrade),
+            onSynergyEnabled: (synergyId) =>
+                this.state.events.push({
+                    tick: this.state.tick,
+                    type: "synergyEnabled",
+                    synergyId,
+                }),
+            defaultShieldState: () => ({
+                hp: 0,
+                activeUntil: 0,
+                nextReadyAt: 0,
+            }),
+            defaultMomentumState: () => ({ timerMs: 0, bonus: 0 }),
+        });
+        if (this.state.mode === "bossRush") {
+            this.state.pendingDraftPicks = BOSS_RUSH_OPENING_PICKS;
+            this.resolveUpgradePicks();
+        }
+        // Every run opens on the countdown to its first wave
+        this.state.pendingWaveIndex = 0;
+        this.state.intermissionRemainingMs = WAVE_INTERMISSION_MS;
+    }
+
+    /** Builds a simulation with the seed, affixes, boss and picks of a replay */
+    static fromReplay(replay: RunReplay): {
+        sim: HeadlessSimulation;
+        script: SimInputScript;
+    } {
+        const player = new ReplayPlayer(replay);
+        const sim = new HeadlessSimulation({
+            seedValue: replay.seedValue,
+            mode: replay.mode,
+            affix: composeAffixes(getAffixes(runAffixIds(replay))),
+            boss: BOSSES.find((b) => b.id === replay.bossId),
+            difficulty: replay.difficultyMultiplier,
+            cardCollection: {
+                unlockedUpgrades: replay.unlockedUpgrades,
+                upgradeBoosts: replay.upgradeBoosts,
+            },
+            pickUpgrade: (options) => {
+                const pick = player.nextUpgradePick();
+                return options.some((u) => u.id === pick) ? pick ?? null : null;
+            },
+        });
+        const script: SimInputScript = (tick) => {
+            const inputs: SimInputs = {};
+            PILOT_IDS.forEach((id) => {
+                const input = player.inputAt(id, tick);
+                if (input) inputs[id] = input;
+            });
+            return inputs;
+        };
+        return { sim, script };
+    }
+
+    get finished() {
+        return this.state.outcome !== "running";
+    }
+
+    /** Upgrades taken so far, with their stacks */
+    get acquiredUpgrades(): readonly UpgradeInstance[] {
+        return this.acquired;
+    }
+
+    /**
+     * Advances the simulation by one fixed tick. The run holds still while a
+     * pick is pending, so those calls are no-ops.
+     */
+    step(inputs: SimInputs = {}) {
+        const state = this.state;
+        if (this.finished || state.pendingPick) return;
+        state.effects = [];
+
+        PlayerSystem.update(state, this.upgrades, inputs);
+        EnemySystem.update(state, this.upgrades);
+        BossSystem.update(state);
+        MiniBossSystem.update(state);
+        ProjectileSystem.update(state, this.upgrades);
+        CombatSystem.update(state, this.upgrades);
+        this.resolveUpgradePicks();
+        this.prune();
+        if (!this.finished) {
+            WaveSystem.update(state, this.unlockedCount());
+        }
+
+        state.tick += 1;
+        state.timeMs = state.tick * SIM_DT_MS;
+        if (this.finished) {
+            state.events.push({
+                tick: state.tick,
+                type: "runEnded",
+                outcome: state.outcome,
+            });
+        }
+    }
+
+    saveState(): SimSnapshot {
+        return {
+            state: cloneSimState({ ...this.state, events: [] }),
+            eventCount: this.state.events.length,
+            upgrades: this.upgrades.saveState(),
+            acquired: structuredClone(this.acquired),
+        };
+    }
+
+    /** Rewinds in place; the snapshot stays untouched and can be loaded again */
+    loadState(snapshot: SimSnapshot) {
+        // Rewinding only drops what was logged after the snapshot
+        const { events } = this.state;
+        events.length = Math.min(events.length, snapshot.eventCount);
+        Object.assign(this.state, cloneSimState(snapshot.state), { events });
+        this.upgrades.loadState(snapshot.upgrades);
+        this.acquired.splice(
+            0,
+            this.acquired.length,
+            ...structuredClone(snapshot.acquired)
+        );
+    }
+
+    /** Steps until the run ends or maxTicks elapse, then reports the result */
+    run(script: SimInputScript, opts: { maxTicks: number }): SimResult {
+        while (!this.finished && this.state.tick < opts.maxTicks) {
+            this.step(script(this.state.tick, this.state));
+        }
+        return this.result();
+    }
+
+    result(): SimResult {
+        const state = this.state;
+        const { spawnedAt, defeatedAt } = state.boss;
+        return {
+            outcome: state.outcome,
+            ticks: state.tick,
+            durationSeconds: state.timeMs / 1000,
+            wavesCleared: state.waveIndex + 1,
+            level: state.level,
+            enemiesDestroyed: state.enemiesDestroyed,
+            revives: state.revives,
+            bossDefeated: state.bossCleared,
+            bossTimeToKillMs:
+                spawnedAt !== null && defeatedAt !== null
+                    ? defeatedAt - spawnedAt
+                    : null,
+            upgrades: [...this.acquired],
+            synergies: [...this.upgrades.activeSynergies],
+            events: [...state.events],
+        };
+    }
+
+    /**
+     * Takes an option of the pending pick, or skips it with null. Returns
+     * false, leaving the pick open, if the upgrade can't be applied.
+     */
+    choose(id: string | null): boolean {
+        const state = this.state;
+        const pick = state.pendingPick;
+        if (!pick) return false;
+        if (id !== null) {
+            if (!pick.options.includes(id) || !this.upgrades.apply(id)) {
+                return false;
+            }
+        }
+        state.pendingPick = null;
+        this.upgrades.pendingOptions = [];
+        state.events.push(
+            pick.kind === "levelUp"
+                ? { tick: state.tick, type: "levelUp", level: state.level, picked: id }
+                : { tick: state.tick, type: "upgradeDrafted", picked: id }
+        );
+        this.resolveUpgradePicks();
+        return true;
+    }
+
+    /**
+     * Parks a seat whose peer dropped, or brings it back; a returning ship
+     * gets a second of grace
+     */
+    setPilotAway(id: SimPilotId, away: boolean) {
+        const pilot = this.state.pilots.find((p) => p.id === id);
+        if (!pilot || pilot.away === away) return;
+        pilot.away = away;
+        pilot.vx = 0;
+        pilot.vy = 0;
+        if (!away && pilot.life.status === "up") {
+            pilot.invulnUntil = this.state.timeMs + 1000;
+        }
+    }
+
+    /** Takes a seat given up for good out of the run */
+    retirePilot(id: SimPilotId) {
+        const pilot = this.state.pilots.find((p) => p.id === id);
+        if (!pilot || pilot.life.status === "out") return;
+        pilot.away = false;
+        pilot.life.status = "out";
+        this.state.events.push({
+            tick: this.state.tick,
+            type: "pilotOut",
+            pilotId: id,
+        });
+    }
+
+    /** Dev helper: clears the field and starts the wave at `index` */
+    jumpToWave(index: number) {
+        const state = this.state;
+        state.enemies = [];
+        state.enemyBullets = [];
+        state.pickups = [];
+        state.volleys = [];
+        state.boss.enemyId = null;
+        WaveSystem.startWave(state, index, this.unlockedCount());
+    }
+
+    private resolveUpgradePicks() {
+        if (this.interactivePicks) {
+            this.openNextPick();
+            return;
+        }
+        const state = this.state;
+        while (state.pendingLevelUps > 0) {
+            state.pendingLevelUps -= 1;
+            state.events.push({
+                tick: state.tick,
+                type: "levelUp",
+                level: state.level,
+                picked: this.offerUpgrade(),
+            });
+        }
+        while (state.pendingDraftPicks > 0) {
+            state.pendingDraftPicks -= 1;
+            state.events.push({
+                tick: state.tick,
+                type: "upgradeDrafted",
+                picked: this.offerUpgrade(),
+            });
+        }
+        while (state.pendingRarePicks > 0) {
+            state.pendingRarePicks -= 1;
+            state.events.push({
+                tick: state.tick,
+                type: "upgradeDrafted",
+                picked: this.offerUpgrade("rare"),
+            });
+        }
+    }
+
+    /** Puts the next owed pick on screen; owed picks with no options lapse */
+    private openNextPick() {
+        const state = this.state;
+        while (!state.pendingPick) {
+            let kind: SimPendingPick["kind"];
+            if (state.pendingLevelUps > 0) {
+                state.pendingLevelUps -= 1;
+                kind = "levelUp";
+            } else if (state.pendingDraftPicks > 0) {
+                state.pendingDraftPicks -= 1;
+                kind = "draft";
+            } else if (state.pendingRarePicks > 0) {
+                state.pendingRarePicks -= 1;
+                kind = "rare";
+            } else {
+                return;
+            }
+            const options = this.rollOptions(
+                kind === "rare" ? "rare" : undefined
+            );
+            if (options.length === 0) continue;
+            this.upgrades.pendingOptions = options;
+            state.pendingPick = { kind, options: options.map((u) => u.id) };
+        }
+    }
+
+    private rollOptions(minRarity?: Rarity): UpgradeDefinition[] {
+        const state = this.state;
+        return rollUpgradeOptions({
+            rng: state.rng,
+            stacks: this.upgrades.stacks,
+            cardCollection: this.cardCollection,
+            affix: state.affix,
+            minRarity,
+        });
+    }
+
+    /** Rolls options, lets the policy pick, and returns the applied id */
+    private offerUpgrade(minRarity?: Rarity): string | null {
+        const state = this.state;
+        const options = this.rollOptions(minRarity);
+        this.upgrades.pendingOptions = options;
+        const picked =
+            options.length > 0
+                ? this.pickUpgrade(options, state, this.upgrades.stacks)
+                : null;
+        const applied = picked !== null && this.upgrades.apply(picked);
+        this.upgrades.pendingOptions = [];
+        return applied ? picked : null;
+    }
+
+    private recordUpgrade(upgrade: UpgradeInstance) {
+        const existing = this.acquired.find((u) => u.id === upgrade.id);
+        if (existing) {
+            existing.stacks = upgrade.stacks;
+        } else {
+            this.acquired.push({ ...upgrade });
+        }
+    }
+
+    private prune() {
+        const state = this.state;
+        state.enemies = state.enemies.filter((enemy) => enemy.alive);
+        state.bullets = state.bullets.filter((bullet) => bullet.alive);
+        state.enemyBullets = state.enemyBullets.filter(
+            (bullet) => bullet.alive
+        );
+        state.pickups = state.pickups.filter((pickup) => pickup.alive);
+    }
+
+    private unlockedCount() {
+        return this.cardCollection.unlockedUpgrades.length;
+    }
+}
@@ -0,0 +1,493 @@
+/**
+ * SimState - Plain-object game state for the simulation
+ *
+ * Everything a run needs to advance lives here as plain data, so it can be
+ * cloned for rollback and stepped without a renderer. MainScene draws from it.
+ */
+
+import type { SfxKey } from "../audio/SoundManager";
+import type {
+    AbilityState,
+    ChargeRuntime,
+    MomentumState,
+    PlayerStats,
+    ShieldState,
+} from "../game/scenes/MainScene.types";
+import { GAME_HEIGHT, GAME_WIDTH } from "../game/dimensions";
+import type { EnemyBehaviorState } from "../game/enemies/enemyRegistry";
+import {
+    coopEnemyCountMultiplier,
+    isCoopMode,
+    pilotSpawnOffset,
+    seatedPilots,
+} from "../game/pilots";
+import type {
+    BossDefinition,
+    EnemyKind,
+    PilotId,
+    RunMode,
+    WaveGroup,
+    WeeklyAffix,
+} from "../models/types";
+import { SIM_TICK_RATE } from "../network/DeterministicSync";
+import { createPilotLife, type PilotLife } from "./reviveRules";
+import { Prng } from "../utils/seed";
+
+export const SIM_DT = 1 / SIM_TICK_RATE;
+export const SIM_DT_MS = 1000 / SIM_TICK_RATE;
+
+/** Arena bounds; MainScene frames the same rectangle */
+export const ARENA = {
+    left: 32,
+    top: 32,
+    right: GAME_WIDTH - 32,
+    bottom: GAME_HEIGHT - 32,
+};
+
+/** Collision radii, derived from the scaled sprite sizes */
+export const RADII = {
+    player: 10,
+    enemy: 16,
+    miniEnemy: 10,
+    boss: 40,
+    bullet: 5,
+    enemyBullet: 5,
+    mine: 10,
+    pickup: 12,
+};
+
+/** Delay between a spawn cue and the enemy becoming active */
+export const SPAWN_CUE_MS = 1500;
+
+export type SimPilotId = PilotId;
+
+export interface SimPilot {
+    id: SimPilotId;
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    aimX: number;
+    aimY: number;
+    ability: AbilityState;
+    charge: ChargeRuntime;
+    momentum: MomentumState;
+    shield: ShieldState;
+    lastShotAt: number;
+    invulnUntil: number;
+    life: PilotLife;
+    /** Parked while its online peer is away: holds still, out of reach */
+    away: boolean;
+}
+
+export interface SimEnemy {
+    id: number;
+    kind: EnemyKind;
+    elite: boolean;
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    radius: number;
+    health: number;
+    maxHealth: number;
+    speed: number;
+    damage: number;
+    activeAt: number;
+    alive: boolean;
+    /** Its kind's and elite behaviors' state (see enemyRegistry) */
+    behavior: EnemyBehaviorState;
+    lastHitCrit: boolean;
+    /** Named mini-boss (config/miniBosses) this enemy plays, null otherwise */
+    miniBossId: string | null;
+    nextPatternAt: number;
+    patternCursor: number;
+}
+
+export interface SimBullet {
+    id: number;
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    radius: number;
+    damage: number;
+    pierce: number;
+    bounces: number;
+    heavy: boolean;
+    expireAt: number | null;
+    hitIds: number[];
+    alive: boolean;
+    /** Fired from a full capacitor charge */
+    charged: boolean;
+    /** Split shots fork once, on their first hit */
+    canFork: boolean;
+    source: SimBulletSource;
+}
+
+export type SimBulletSource =
+    | "primary"
+    | "afterimage"
+    | "dash-spark"
+    | "fork"
+    | "shrapnel"
+    | "crit-shrapnel";
+
+export interface SimEnemyBullet {
+    id: number;
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    radius: number;
+    damage: number;
+    alive: boolean;
+    /** Mines only: dormant until armAt, gone after expireAt */
+    armAt?: number;
+    expireAt?: number;
+}
+
+export interface SimPickup {
+    id: number;
+    x: number;
+    y: number;
+    vx: number;
+    vy: number;
+    value: number;
+    magnetized: boolean;
+    alive: boolean;
+}
+
+export interface SimBossState {
+    template: BossDefinition;
+    enemyId: number | null;
+    phase: number;
+    maxHealth: number;
+    /** Relative bullet speed on top of the patterns' base values */
+    projectileSpeedScale: number;
+    nextPatternAt: number;
+    /** 0 while the current phase has no escort timer */
+    nextSummonAt: number;
+    patternQueue: string[];
+    patternCursor: number;
+    spinAngle: number;
+    spawnedAt: number | null;
+    defeatedAt: number | null;
+}
+
+/** A boss volley waiting on its delay: later pulse rings, lane waves, overlaps */
+export type SimVolley =
+    | {
+          fireAt: number;
+          type: "ring";
+          x: number;
+          y: number;
+          phase: number;
+          speedScale: number;
+          speed: number;
+      }
+    | {
+          fireAt: number;
+          type: "lanes";
+          x: number;
+          y: number;
+          phase: number;
+          speedScale: number;
+      }
+    | { fireAt: number; type: "overlap"; pattern: string };
+
+/** Upgrade options waiting on a player's choice */
+export interface SimPendingPick {
+    kind: "levelUp" | "draft" | "rare";
+    options: string[];
+}
+
+export type SimOutcome = "running" | "victory" | "defeat";
+
+export type SimEvent =
+    | { tick: number; type: "waveStarted"; wave: number }
+    | { tick: number; type: "levelUp"; level: number; picked: string | null }
+    | { tick: number; type: "upgradeDrafted"; picked: string | null }
+    | { tick: number; type: "bossSpawned"; bossId: string }
+    | { tick: number; type: "bossPhaseChanged"; phase: number }
+    | { tick: number; type: "bossDefeated"; bossId: string }
+    | { tick: number; type: "miniBossSpawned"; miniBossId: string }
+    | { tick: number; type: "miniBossDefeated"; miniBossId: string }
+    | { tick: number; type: "playerDamaged"; amount: number }
+    | { tick: number; type: "pilotDowned"; pilotId: SimPilotId }
+    | { tick: number; type: "pilotRevived"; pilotId: SimPilotId }
+    | { tick: number; type: "pilotOut"; pilotId: SimPilotId }
+    | { tick: number; type: "synergyEnabled"; synergyId: string }
+    | { tick: number; type: "runEnded"; outcome: SimOutcome };
+
+/**
+ * Feedback from the last step for the renderer to play; the run never reads
+ * it back, so resimulated steps can drop theirs
+ */
+export type SimEffect =
+    | {
+          type: "burst";
+          x: number;
+          y: number;
+          radius: number;
+          color: number;
+          alpha: number;
+      }
+    | { type: "shake"; durationMs: number; intensity: number }
+    | { type: "sfx"; key: SfxKey }
+    | { type: "muzzleFlash"; x: number; y: number }
+    | { type: "dashTrail"; x: number; y: number; dirX: number; dirY: number }
+    | { type: "enemyHit"; enemyId: number; crit: boolean }
+    | {
+          type: "chainArc";
+          fromX: number;
+          fromY: number;
+          toX: number;
+          toY: number;
+      }
+    | { type: "pilotHit"; pilotId: SimPilotId; contact: boolean };
+
+export interface SimState {
+    tick: number;
+    timeMs: number;
+    rng: Prng;
+    mode: RunMode;
+    affix: WeeklyAffix | null;
+    stats: PlayerStats;
+    pilots: SimPilot[];
+    enemies: SimEnemy[];
+    bullets: SimBullet[];
+    enemyBullets: SimEnemyBullet[];
+    pickups: SimPickup[];
+    boss: SimBossState;
+    volleys: SimVolley[];
+    waveIndex: number;
+    intermissionRemainingMs: number;
+    pendingWaveIndex: number | null;
+    nextWaveCheckAt: number;
+    /** The current wave's groups still waiting on their trigger */
+    waveGroups: WaveGroup[];
+    waveStartedAt: number;
+    /** Enemies the current wave's groups have spawned so far */
+    waveSpawned: number;
+    baseDifficulty: number;
+    difficulty: number;
+    enemyHealthScale: number;
+    modeEnemyCountMultiplier: number;
+    enemyDamageTakenMultiplier: number;
+    xp: number;
+    level: number;
+    nextXpThreshold: number;
+    pendingLevelUps: number;
+    // Boss rush picks that aren't tied to a level-up
+    pendingDraftPicks: number;
+    // Guaranteed rare-or-better picks from mini-boss kills
+    pendingRarePicks: number;
+    // The pick on screen; the run holds still until it's chosen
+    pendingPick: SimPendingPick | null;
+    enemiesDestroyed: number;
+    revives: number;
+    bossCleared: boolean;
+    outcome: SimOutcome;
+    nextEntityId: number;
+    events: SimEvent[];
+    effects: SimEffect[];
+}
+
+/** Deep copy for rollback snapshots; the rng keeps its class so it can advance */
+export function cloneSimState(state: SimState): SimState {
+    const { rng, ...rest } = state;
+    return {
+        ...structuredClone(rest),
+        rng: Object.assign(Object.create(Prng.prototype), rng),
+    };
+}
+
+export function createPilot(
+    id: SimPilotId,
+    x: number,
+    y: number,
+    affix: WeeklyAffix | null
+): SimPilot {
+    const dashCooldownMult = affix?.dashCooldownMultiplier ?? 1;
+    return {
+        id,
+        x,
+        y,
+        vx: 0,
+        vy: 0,
+        aimX: 1,
+        aimY: 0,
+        ability: {
+            dashCooldownMs: 1600 * dashCooldownMult,
+            dashDurationMs: 220,
+            nextDashAt: 0,
+            activeUntil: 0,
+        },
+        charge: {
+            ready: false,
+            holdMs: 0,
+            damageBonus: 0.9,
+            sizeBonus: 0.2,
+            idleMs: 1000,
+        },
+        momentum: { timerMs: 0, bonus: 0 },
+        shield: { hp: 0, activeUntil: 0, nextReadyAt: 0 },
+        lastShotAt: 0,
+        invulnUntil: 0,
+        life: createPilotLife(),
+        away: false,
+    };
+}
+
+export function defaultPlayerStats(affix: WeeklyAffix | null): PlayerStats {
+    const stats: PlayerStats = {
+        moveSpeed: 240,
+        damage: 12,
+        fireRate: 4,
+        projectileSpeed: 520,
+        projectiles: 1,
+        pierce: 0,
+        bounce: 0,
+        maxHealth: 5,
+        health: 5,
+        critChance: 0.05,
+        critMultiplier: 2,
+    };
+    if (affix?.playerDamageMultiplier) {
+        stats.damage *= affix.playerDamageMultiplier;
+    }
+    if (affix?.playerSpeedMultiplier) {
+        stats.moveSpeed *= affix.playerSpeedMultiplier;
+    }
+    return stats;
+}
+
+export interface SimStateOptions {
+    seedValue: number;
+    mode: RunMode;
+    /** Seats flying this run; defaults to the mode's own seats */
+    pilots?: PilotId[];
+    affix: WeeklyAffix | null;
+    boss: BossDefinition;
+    difficulty: number;
+}
+
+export function createSimState(options: SimStateOptions): SimState {
+    const coop = isCoopMode(options.mode);
+    const seats = options.pilots ?? seatedPilots(options.mode);
+    const pilots = seats.map((id, index) => {
+        const offset = pilotSpawnOffset(index, seats.length);
+        return createPilot(
+            id,
+            GAME_WIDTH / 2 + offset.x,
+            GAME_HEIGHT / 2 + offset.y,
+            options.affix
+        );
+    });
+    return {
+        tick: 0,
+        timeMs: 0,
+        rng: new Prng(options.seedValue),
+        mode: options.mode,
+        affix: options.affix,
+        stats: defaultPlayerStats(options.affix),
+        pilots,
+        enemies: [],
+        bullets: [],
+        enemyBullets: [],
+        pickups: [],
+        boss: {
+            template: options.boss,
+            enemyId: null,
+            phase: 1,
+            maxHealth: 0,
+            projectileSpeedScale: 1,
+            nextPatternAt: 0,
+            nextSummonAt: 0,
+            patternQueue: [],
+            patternCursor: 0,
+            spinAngle: 0,
+            spawnedAt: null,
+            defeatedAt: null,
+        },
+        volleys: [],
+        waveIndex: 0,
+        intermissionRemainingMs: 0,
+        pendingWaveIndex: null,
+        nextWaveCheckAt: 0,
+        waveGroups: [],
+        waveStartedAt: 0,
+        waveSpawned: 0,
+        baseDifficulty: options.difficulty,
+        difficulty: options.difficulty,
+        enemyHealthScale: 1,
+        modeEnemyCountMultiplier: coopEnemyCountMultiplier(pilots.length),
+        enemyDamageTakenMultiplier: coop ? 1.2 : 1,
+        xp: 0,
+        level: 1,
+        nextXpThreshold: 12,
+        pendingLevelUps: 0,
+        pendingDraftPicks: 0,
+        pendingRarePicks: 0,
+        pendingPick: null,
+        enemiesDestroyed: 0,
+        revives: 0,
+        bossCleared: false,
+        outcome: "running",
+        nextEntityId: 1,
+        events: [],
+        effects: [],
+    };
+}
+
+export const randBetween = (rng: Prng, min: number, max: number) => {
+    if (max <= min) return min;
+    const span = max - min + 1;
+    return Math.floor(rng.next() * span) + min;
+};
+
+export const randFloat = (rng: Prng, min: number, max: number) =>
+    rng.next() * (max - min) + min;
+
+export const clamp = (value: number, min: number, max: number) =>
+    Math.max(min, Math.min(max, value));
+
+export const rotate = (x: number, y: number, angle: number) => {
+    const cos = Math.cos(angle);
+    const sin = Math.sin(angle);
+    return { x: x * cos - y * sin, y: x * sin + y * cos };
+};
+
+export const burst = (
+    state: SimState,
+    x: number,
+    y: number,
+    radius: number,
+    color: number,
+    alpha: number
+) => state.effects.push({ type: "burst", x, y, radius, color, alpha });
+
+/** Up and in the run: can move, shoot, be hit and be targeted */
+export const isFlying = (pilot: SimPilot) =>
+    pilot.life.status === "up" && !pilot.away;
+
+export function nearestPilot(
+    state: SimState,
+    x: number,
+    y: number
+): SimPilot | null {
+    let nearest: SimPilot | null = null;
+    let best = Number.POSITIVE_INFINITY;
+    for (const pilot of state.pilots) {
+        if (!isFlying(pilot)) continue;
+        const dx = pilot.x - x;
+        const dy = pilot.y - y;
+        const distSq = dx * dx + dy * dy;
+        if (distSq < best) {
+            best = distSq;
+            nearest = pilot;
+        }
+    }
+    return nearest;
+}
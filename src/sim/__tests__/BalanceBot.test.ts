@@ -0,0 +1,104 @@
+/**
+ * Balance bot tests: a small sweep must be deterministic and aggregate sanely
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  runBalanceSweep,
+  summarizeBalanceRuns,
+  NO_AFFIX_ID,
+  type BalanceRun,
+} from '../balance/BalanceBot';
+import { formatBalanceReport } from '../balance/formatBalanceReport';
+import { getPickPolicy, synergyPolicy } from '../balance/pickPolicies';
+import { BOSSES } from '../../config/bosses';
+import { AFFIXES } from '../../config/affixes';
+import { UPGRADE_CATALOG } from '../../config/upgrades';
+import { createSimState } from '../SimState';
+
+const run = (overrides: Partial<BalanceRun>): BalanceRun => ({
+  bossId: 'obelisk',
+  affixId: NO_AFFIX_ID,
+  policyId: 'first',
+  seedValue: 1,
+  outcome: 'defeat',
+  wavesCleared: 5,
+  durationSeconds: 60,
+  bossEncountered: false,
+  bossDefeated: false,
+  bossTimeToKillMs: null,
+  synergies: [],
+  upgrades: {},
+  staticDps: 1,
+  staticDefense: 0,
+  staticValid: true,
+  ...overrides,
+});
+
+describe('BalanceBot', () => {
+  it('plays every combination and is reproducible', () => {
+    const options = {
+      bosses: [BOSSES[2]],
+      affixes: [null, AFFIXES[0]],
+      policies: [getPickPolicy('offense')!, getPickPolicy('random')!],
+      seedsPerCombo: 1,
+      maxTicks: 60 * 90,
+    };
+    const progress: number[] = [];
+    const a = runBalanceSweep({ ...options, onProgress: (done) => progress.push(done) });
+    const b = runBalanceSweep(options);
+    expect(progress).toEqual([1, 2, 3, 4]);
+    expect(a.runs).toHaveLength(4);
+    expect(b).toEqual(a);
+    expect(a.survival).toHaveLength(4);
+    a.runs.forEach((r) => {
+      expect(r.bossId).toBe('obelisk');
+      expect(r.wavesCleared).toBeGreaterThanOrEqual(1);
+      expect(Object.values(r.upgrades).reduce((s, n) => s + n, 0)).toBeGreaterThan(0);
+    });
+  }, 60000);
+
+  it('aggregates survival, time-to-kill and synergy win rates', () => {
+    const report = summarizeBalanceRuns(
+      [
+        run({ wavesCleared: 4 }),
+        run({ wavesCleared: 10, outcome: 'victory', bossEncountered: true, bossDefeated: true, bossTimeToKillMs: 30000, synergies: ['glass-storm'] }),
+        run({ wavesCleared: 10, bossEncountered: true, synergies: ['glass-storm'] }),
+        run({ bossId: 'sentinel', wavesCleared: 10, outcome: 'victory', bossEncountered: true, bossDefeated: true, bossTimeToKillMs: 10000, synergies: ['glass-storm'] }),
+      ],
+      3
+    );
+    const obelisk = report.survival.find((r) => r.bossId === 'obelisk')!;
+    expect(obelisk).toMatchObject({ runs: 3, wins: 1, meanWave: 8, medianWave: 10 });
+    expect(report.bossKills.find((r) => r.bossId === 'obelisk')).toEqual({
+      bossId: 'obelisk',
+      encounters: 2,
+      kills: 1,
+      meanTimeToKillMs: 30000,
+      medianTimeToKillMs: 30000,
+    });
+    const glassStorm = report.synergies.find(
+      (r) => r.synergyId === 'glass-storm' && r.bossId === 'obelisk'
+    )!;
+    expect(glassStorm).toMatchObject({ runs: 2, wins: 1, winRate: 0.5 });
+
+    const markdown = formatBalanceReport(report);
+    expect(markdown).toContain('| glass-storm | obelisk | 2 | 1 | 50% |');
+    expect(markdown).toContain('| obelisk | 2 | 1 | 30.0s | 30.0s |');
+  });
+
+  it('drafts toward a synergy before falling back to offense', () => {
+    const pick = synergyPolicy('glass-storm').create(1);
+    const byId = (id: string) => UPGRADE_CATALOG.find((u) => u.id === id)!;
+    const state = createSimState({
+      seedValue: 1,
+      mode: 'standard',
+      affix: null,
+      boss: BOSSES[0],
+      difficulty: 1,
+    });
+    const options = [byId('power-shot'), byId('bullet-hell'), byId('plating')];
+    expect(pick(options, state, {})).toBe('bullet-hell');
+    expect(pick(options, state, { 'bullet-hell': 1 })).toBe('power-shot');
+  });
+});
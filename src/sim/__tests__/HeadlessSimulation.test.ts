@@ -0,0 +1,145 @@
+/**
+ * Headless simulation tests: seeded runs must be reproducible in Node
+ */
+
+import { describe, it, expect } from 'vitest';
+import { HeadlessSimulation, type SimInputScript } from '../HeadlessSimulation';
+import { ReplayRecorder } from '../../game/replay/ReplayRecorder';
+import { BOSSES } from '../../config/bosses';
+import type { RunSummary } from '../../models/types';
+
+const idle: SimInputScript = () => ({});
+
+// Backs away from nearby enemies while shooting at the closest one
+const kite: SimInputScript = (tick, state) => {
+  const pilot = state.pilots[0];
+  let moveX = (550 - pilot.x) / 400;
+  let moveY = (350 - pilot.y) / 300;
+  let target: { x: number; y: number } | null = null;
+  let nearest = Number.POSITIVE_INFINITY;
+  for (const enemy of state.enemies) {
+    const dist = Math.hypot(enemy.x - pilot.x, enemy.y - pilot.y) || 1;
+    if (dist < 220) {
+      moveX += ((pilot.x - enemy.x) / (dist * dist)) * 100;
+      moveY += ((pilot.y - enemy.y) / (dist * dist)) * 100;
+    }
+    if (state.timeMs >= enemy.activeAt && dist < nearest) {
+      nearest = dist;
+      target = enemy;
+    }
+  }
+  return {
+    p1: {
+      tick,
+      moveX,
+      moveY,
+      aimX: target ? target.x - pilot.x : 1,
+      aimY: target ? target.y - pilot.y : 0,
+      fire: true,
+      dash: false,
+    },
+  };
+};
+
+describe('HeadlessSimulation', () => {
+  it('produces identical results for the same seed and inputs', () => {
+    const a = new HeadlessSimulation({ seedValue: 1234 }).run(kite, { maxTicks: 3600 });
+    const b = new HeadlessSimulation({ seedValue: 1234 }).run(kite, { maxTicks: 3600 });
+    expect(b).toEqual(a);
+    expect(a.enemiesDestroyed).toBeGreaterThan(0);
+  });
+
+  it('diverges when the seed changes', () => {
+    const a = new HeadlessSimulation({ seedValue: 1 }).run(kite, { maxTicks: 1800 });
+    const b = new HeadlessSimulation({ seedValue: 2 }).run(kite, { maxTicks: 1800 });
+    expect(b.events).not.toEqual(a.events);
+  });
+
+  it('defeats a pilot that never moves or shoots', () => {
+    const result = new HeadlessSimulation({ seedValue: 7 }).run(idle, { maxTicks: 60 * 120 });
+    expect(result.outcome).toBe('defeat');
+    expect(result.enemiesDestroyed).toBe(0);
+    expect(result.events.at(-1)).toMatchObject({ type: 'runEnded', outcome: 'defeat' });
+  });
+
+  it('advances waves and applies level-up picks for an active pilot', () => {
+    const sim = new HeadlessSimulation({ seedValue: 42, boss: BOSSES[1] });
+    const result = sim.run(kite, { maxTicks: 60 * 180 });
+    expect(result.wavesCleared).toBeGreaterThan(2);
+    expect(result.level).toBeGreaterThan(1);
+    const picks = result.events.filter((e) => e.type === 'levelUp');
+    expect(picks.length).toBe(result.level - 1);
+    const stacks = result.upgrades.reduce((sum, u) => sum + u.stacks, 0);
+    expect(stacks).toBe(picks.filter((e) => e.type === 'levelUp' && e.picked).length);
+  });
+
+  it('rewinds enemy behaviors along with the rest of a snapshot', () => {
+    const sim = new HeadlessSimulation({ seedValue: 31 });
+    for (let tick = 0; tick < 600; tick++) sim.step(kite(tick, sim.state));
+    const snapshot = sim.saveState();
+    const replay = () => {
+      for (let tick = 600; tick < 900; tick++) sim.step(kite(tick, sim.state));
+      return structuredClone({ ...sim.state, rng: null });
+    };
+    const first = replay();
+    sim.loadState(snapshot);
+    expect(replay()).toEqual(first);
+    expect(first.enemies.some((enemy) => enemy.behavior.kindState !== null)).toBe(true);
+  });
+
+  it('leaves the event log out of snapshots and trims it on a rewind', () => {
+    const sim = new HeadlessSimulation({ seedValue: 31 });
+    for (let tick = 0; tick < 600; tick++) sim.step(kite(tick, sim.state));
+    const logged = [...sim.state.events];
+    const snapshot = sim.saveState();
+    expect(snapshot.state.events).toEqual([]);
+    expect(snapshot.eventCount).toBe(logged.length);
+
+    for (let tick = 600; tick < 900; tick++) sim.step(kite(tick, sim.state));
+    expect(sim.state.events.length).toBeGreaterThan(logged.length);
+    sim.loadState(snapshot);
+    expect(sim.state.events).toEqual(logged);
+  });
+
+  it('plays back a recorded replay deterministically', () => {
+    const recorder = new ReplayRecorder();
+    recorder.begin({
+      seedId: 'sim',
+      seedValue: 99,
+      bossId: 'obelisk',
+      mode: 'standard',
+      difficultyMultiplier: 1,
+      unlockedUpgrades: ['power-shot', 'rapid-fire'],
+      upgradeBoosts: {},
+    });
+    const source = new HeadlessSimulation({ seedValue: 99 });
+    for (let tick = 0; tick < 1200; tick++) {
+      const input = kite(tick, source.state).p1!;
+      recorder.capture('p1', input);
+      source.step({ p1: input });
+    }
+    recorder.recordUpgrade('rapid-fire');
+    const summary: RunSummary = {
+      runId: 'sim-run',
+      timestamp: 0,
+      durationSeconds: 20,
+      wavesCleared: 1,
+      bossDefeated: false,
+      enemiesDestroyed: 0,
+      upgrades: [],
+      seedId: 'sim',
+    };
+    const replay = recorder.finish(summary)!;
+
+    const first = HeadlessSimulation.fromReplay(replay);
+    const second = HeadlessSimulation.fromReplay(replay);
+    expect(first.sim.state.boss.template.id).toBe('obelisk');
+    const a = first.sim.run(first.script, { maxTicks: replay.tickCount });
+    const b = second.sim.run(second.script, { maxTicks: replay.tickCount });
+    expect(b).toEqual(a);
+    const firstPick = a.events.find((e) => e.type === 'levelUp');
+    if (firstPick?.type === 'levelUp') {
+      expect(firstPick.picked).toBe('rapid-fire');
+    }
+  });
+});
@@ -0,0 +1,30 @@
+/**
+ * Full balance sweep; only runs through `npm run balance`
+ *
+ * BALANCE_SEEDS sets seeds per boss × affix × policy (default 3). The markdown
+ * report and raw runs are written to balance-report/.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { mkdirSync, writeFileSync } from 'node:fs';
+import { runBalanceSweep } from '../balance/BalanceBot';
+import { formatBalanceReport } from '../balance/formatBalanceReport';
+
+const outDir = 'balance-report';
+
+describe.runIf(process.env.BALANCE_REPORT)('balance report', () => {
+  it('sweeps every boss, affix and pick policy', () => {
+    const report = runBalanceSweep({
+      seedsPerCombo: Number(process.env.BALANCE_SEEDS ?? 3),
+      onProgress: (done, total) => {
+        if (done % 25 === 0 || done === total) {
+          process.stderr.write(`balance: ${done}/${total} runs\n`);
+        }
+      },
+    });
+    mkdirSync(outDir, { recursive: true });
+    writeFileSync(`${outDir}/report.md`, formatBalanceReport(report));
+    writeFileSync(`${outDir}/runs.json`, JSON.stringify(report.runs, null, 2));
+    expect(report.runs.length).toBeGreaterThan(0);
+  }, 60 * 60 * 1000);
+});
@@ -0,0 +1,95 @@
+/**
+ * Boss phase tables: each phase swaps patterns, cooldown, movement and escorts
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  bossMoveTarget,
+  bossPhaseForHealth,
+  buildPhasePatternQueue,
+  getBossPhase,
+} from '../bossRules';
+import { createSimState } from '../SimState';
+import { BossSystem } from '../systems/BossSystem';
+import { BOSSES } from '../../config/bosses';
+
+const bossById = (id: string) => BOSSES.find((b) => b.id === id)!;
+const identity = <T>(items: T[]) => [...items];
+
+describe('boss phase rules', () => {
+  it('enters phases 2 and 3 at 66% and 33% health', () => {
+    expect(bossPhaseForHealth(1)).toBe(1);
+    expect(bossPhaseForHealth(0.66)).toBe(1);
+    expect(bossPhaseForHealth(0.65)).toBe(2);
+    expect(bossPhaseForHealth(0.33)).toBe(2);
+    expect(bossPhaseForHealth(0.2)).toBe(3);
+  });
+
+  it('gives every shipped boss a distinct behavior per phase', () => {
+    BOSSES.forEach((boss) => {
+      expect(boss.phases).toHaveLength(3);
+      const signatures = boss.phases.map((p) =>
+        JSON.stringify([p.patterns, p.movement, p.cooldownMultiplier])
+      );
+      expect(new Set(signatures).size).toBe(3);
+      boss.phases.forEach((p) => {
+        p.patterns.forEach((pattern) => expect(boss.patterns).toContain(pattern));
+      });
+    });
+  });
+
+  it('leads a new phase with the patterns it just unlocked', () => {
+    const obelisk = bossById('obelisk');
+    const queue = buildPhasePatternQueue(
+      getBossPhase(obelisk, 2),
+      getBossPhase(obelisk, 1),
+      identity
+    );
+    expect(queue).toEqual(['lane-beams', 'slam', 'ricochet-shards']);
+  });
+
+  it('moves differently per style', () => {
+    const boss = { x: 550, y: 200 };
+    const pilot = { x: 550, y: 600 };
+    const hunt = bossMoveTarget('hunt', 0, boss, pilot, 32);
+    expect(hunt.y).toBeCloseTo(400);
+    const anchor = bossMoveTarget('anchor', 0, boss, pilot, 32);
+    expect(anchor).toMatchObject({ y: 202, speedScale: 0.35 });
+    const strafe = bossMoveTarget('strafe', 900 * (Math.PI / 2), boss, null, 32);
+    expect(strafe.x).toBeCloseTo(550 + 430);
+  });
+
+  it('swaps the headless boss onto its phase table as health drops', () => {
+    const state = createSimState({
+      seedValue: 5,
+      mode: 'standard',
+      affix: null,
+      boss: bossById('swarm-core'),
+      difficulty: 1,
+    });
+    BossSystem.spawn(state);
+    const boss = state.enemies.find((e) => e.id === state.boss.enemyId)!;
+    expect(state.boss.nextSummonAt).toBe(0);
+    expect(new Set(state.boss.patternQueue)).toEqual(
+      new Set(['summon-minions', 'cone-volley'])
+    );
+
+    boss.health = boss.maxHealth * 0.5;
+    BossSystem.update(state);
+    expect(state.boss.phase).toBe(2);
+    expect(state.boss.patternQueue[0]).toBe('pulse-ring');
+
+    boss.health = boss.maxHealth * 0.2;
+    BossSystem.update(state);
+    expect(state.boss.phase).toBe(3);
+    expect(state.boss.patternQueue).not.toContain('summon-minions');
+    expect(state.boss.nextSummonAt).toBe(state.timeMs + 4500);
+
+    const before = state.enemies.length;
+    state.timeMs = state.boss.nextSummonAt;
+    state.boss.nextPatternAt = Number.POSITIVE_INFINITY;
+    BossSystem.update(state);
+    expect(state.enemies.length).toBeGreaterThan(before);
+    expect(state.boss.nextSummonAt).toBe(state.timeMs + 4500);
+  });
+});
@@ -0,0 +1,88 @@
+/**
+ * Boss rush tests: stage order, escalating tuning and the draft between fights
+ */
+
+import { describe, it, expect } from 'vitest';
+import { BOSSES } from '../../config/bosses';
+import { HeadlessSimulation } from '../HeadlessSimulation';
+import { CombatSystem } from '../systems/CombatSystem';
+import {
+  BOSS_RUSH_DRAFT_PICKS,
+  BOSS_RUSH_OPENING_PICKS,
+  BOSS_RUSH_STAGES,
+  bossKillWinsRun,
+  bossRushStageBoss,
+} from '../bossRushRules';
+
+describe('boss rush rules', () => {
+  it('fights Sentinel Core, Swarm Core and Obelisk with rising multipliers', () => {
+    expect(BOSS_RUSH_STAGES.map((s) => s.bossId)).toEqual(['sentinel', 'swarm-core', 'obelisk']);
+    BOSS_RUSH_STAGES.forEach((stage, index) => {
+      const base = BOSSES.find((b) => b.id === stage.bossId)!;
+      const boss = bossRushStageBoss(index);
+      expect(boss.id).toBe(stage.bossId);
+      expect(boss.phases).toBe(base.phases);
+      expect(boss.tuning.healthMultiplier).toBeCloseTo(
+        (base.tuning.healthMultiplier ?? 1) * stage.healthMultiplier
+      );
+      if (index > 0) {
+        const previous = BOSS_RUSH_STAGES[index - 1];
+        expect(stage.healthMultiplier).toBeGreaterThan(previous.healthMultiplier);
+        expect(stage.fireRateMultiplier).toBeGreaterThan(previous.fireRateMultiplier);
+      }
+    });
+  });
+
+  it('only wins on the last boss', () => {
+    expect(bossKillWinsRun('bossRush', 0)).toBe(false);
+    expect(bossKillWinsRun('bossRush', 1)).toBe(false);
+    expect(bossKillWinsRun('bossRush', 2)).toBe(true);
+    expect(bossKillWinsRun('standard', 10)).toBe(true);
+    expect(bossKillWinsRun('infinite', 10)).toBe(false);
+  });
+});
+
+describe('boss rush simulation', () => {
+  it('opens with a draft and goes straight to the first boss', () => {
+    const sim = new HeadlessSimulation({ seedValue: 11, mode: 'bossRush' });
+    expect(sim.state.pendingWaveIndex).toBe(0);
+    while (sim.state.pendingWaveIndex !== null) sim.step();
+    const types = sim.state.events.map((e) => e.type);
+    expect(types).toEqual([
+      ...Array(BOSS_RUSH_OPENING_PICKS).fill('upgradeDrafted'),
+      'waveStarted',
+      'bossSpawned',
+    ]);
+    expect(sim.state.enemies).toHaveLength(1);
+    expect(sim.state.boss.template.id).toBe('sentinel');
+  });
+
+  it('drafts between fights and wins after the third boss', () => {
+    const sim = new HeadlessSimulation({ seedValue: 11, mode: 'bossRush' });
+    while (!sim.finished && sim.state.tick < 60 * 60) {
+      // Clear the arena each tick so the run moves through every stage
+      sim.state.enemies
+        .filter((enemy) => enemy.alive)
+        .forEach((enemy) => CombatSystem.killEnemy(sim.state, sim.upgrades, enemy));
+      sim.step();
+    }
+    const result = sim.result();
+    const events = result.events;
+    expect(result.outcome).toBe('victory');
+    expect(result.bossDefeated).toBe(true);
+    expect(result.wavesCleared).toBe(BOSS_RUSH_STAGES.length);
+    expect(events.flatMap((e) => (e.type === 'bossSpawned' ? [e.bossId] : []))).toEqual([
+      'sentinel',
+      'swarm-core',
+      'obelisk',
+    ]);
+    expect(events.filter((e) => e.type === 'upgradeDrafted')).toHaveLength(
+      BOSS_RUSH_OPENING_PICKS + BOSS_RUSH_DRAFT_PICKS * (BOSS_RUSH_STAGES.length - 1)
+    );
+    const firstKill = events.findIndex((e) => e.type === 'bossDefeated');
+    const nextDraft = events.findIndex((e, i) => i > firstKill && e.type === 'upgradeDrafted');
+    const nextSpawn = events.findIndex((e, i) => i > firstKill && e.type === 'bossSpawned');
+    expect(nextDraft).toBeGreaterThan(firstKill);
+    expect(nextSpawn).toBeGreaterThan(nextDraft);
+  });
+});
@@ -0,0 +1,102 @@
+/**
+ * Mini-boss tests: pattern loops, rare-only rolls, and a named mini-boss
+ * spawning, firing and paying out in the headless simulation
+ */
+
+import { describe, it, expect } from 'vitest';
+import { getEnemyDefinition } from '../../config/enemies';
+import { getMiniBoss } from '../../config/miniBosses';
+import { UPGRADE_CATALOG, getUpgradeDefinition } from '../../config/upgrades';
+import { Prng } from '../../utils/seed';
+import { HeadlessSimulation } from '../HeadlessSimulation';
+import { RADII } from '../SimState';
+import {
+  miniBossPattern,
+  miniBossPatternCooldown,
+  miniBossPhase,
+  tallyMiniBoss,
+} from '../miniBossRules';
+import { rollUpgradeOptions } from '../upgradeRolls';
+import { CombatSystem } from '../systems/CombatSystem';
+import { MiniBossSystem } from '../systems/MiniBossSystem';
+
+const queen = getMiniBoss('splitter-queen')!;
+
+describe('mini-boss rules', () => {
+  it('loops through its patterns and scales their cooldowns', () => {
+    expect([0, 1, 2].map((cursor) => miniBossPattern(queen, cursor))).toEqual([
+      'ricochet-shards',
+      'slam',
+      'ricochet-shards',
+    ]);
+    expect(miniBossPatternCooldown(1000, queen, 2)).toBeCloseTo((1000 * queen.cooldownMultiplier) / 2);
+  });
+
+  it('enrages as it loses health', () => {
+    expect(miniBossPhase(100, 100)).toBe(1);
+    expect(miniBossPhase(10, 100)).toBeGreaterThan(1);
+  });
+
+  it('tallies ids without touching the previous record', () => {
+    const first = tallyMiniBoss({}, 'watcher-prime');
+    expect(tallyMiniBoss(first, 'watcher-prime')).toEqual({ 'watcher-prime': 2 });
+    expect(first).toEqual({ 'watcher-prime': 1 });
+  });
+
+  it('only offers rare or better when asked to', () => {
+    const options = rollUpgradeOptions({
+      rng: new Prng(3),
+      stacks: {},
+      cardCollection: { unlockedUpgrades: UPGRADE_CATALOG.map((u) => u.id), upgradeBoosts: {} },
+      affix: null,
+      minRarity: 'rare',
+    });
+    expect(options.length).toBeGreaterThan(0);
+    options.forEach((option) => expect(option.rarity).not.toBe('common'));
+  });
+});
+
+describe('mini-boss simulation', () => {
+  const spawnQueen = () => {
+    const sim = new HeadlessSimulation({ seedValue: 5 });
+    sim.state.enemies = [];
+    const enemy = MiniBossSystem.spawn(sim.state, queen.id)!;
+    return { sim, enemy };
+  };
+
+  it('spawns a scaled-up elite of its kind', () => {
+    const { sim, enemy } = spawnQueen();
+    const elite = getEnemyDefinition('splitter', true);
+    expect(enemy.elite).toBe(true);
+    expect(enemy.miniBossId).toBe(queen.id);
+    expect(enemy.maxHealth).toBeCloseTo(elite.health * sim.state.enemyHealthScale * queen.healthMultiplier);
+    expect(enemy.radius).toBeCloseTo(RADII.enemy * queen.scale);
+    expect(enemy.behavior.kindState).toMatchObject({ splitCount: queen.splitCount });
+    expect(sim.state.events.at(-1)).toMatchObject({ type: 'miniBossSpawned', miniBossId: queen.id });
+  });
+
+  it('fires its patterns once the spawn cue is over', () => {
+    const { sim } = spawnQueen();
+    sim.state.enemyBullets = [];
+    for (let i = 0; i < 60 * 4; i++) sim.step();
+    expect(sim.state.enemyBullets.length).toBeGreaterThan(0);
+  });
+
+  it('drops a guaranteed rare pick and its brood when killed', () => {
+    const { sim, enemy } = spawnQueen();
+    CombatSystem.killEnemy(sim.state, sim.upgrades, enemy);
+    expect(sim.state.pendingRarePicks).toBe(queen.rareDrops);
+    const minis = sim.state.enemies.filter((e) => e.alive && e.radius === RADII.miniEnemy);
+    expect(minis).toHaveLength(queen.splitCount!);
+
+    sim.step();
+    const events = sim.state.events;
+    expect(events).toContainEqual(expect.objectContaining({ type: 'miniBossDefeated', miniBossId: queen.id }));
+    const drafted = events.filter((e) => e.type === 'upgradeDrafted');
+    expect(drafted).toHaveLength(queen.rareDrops);
+    drafted.forEach((event) => {
+      const picked = event.type === 'upgradeDrafted' ? event.picked : null;
+      expect(getUpgradeDefinition(picked!)?.rarity).not.toBe('common');
+    });
+  });
+});
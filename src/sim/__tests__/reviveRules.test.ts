@@ -0,0 +1,81 @@
+/**
+ * Co-op revives: an emptied hull downs a pilot while a partner flies, the
+ * partner fills the ring to bring them back, and an unattended pilot bleeds out
+ */
+
+import { describe, it, expect } from 'vitest';
+import {
+  BLEED_OUT_MS,
+  REVIVE_RADIUS,
+  REVIVE_TIME_MS,
+  canGoDown,
+  createPilotLife,
+  downPilot,
+  tickDownedPilot,
+} from '../reviveRules';
+import { SIM_DT_MS } from '../SimState';
+import { HeadlessSimulation } from '../HeadlessSimulation';
+import { CombatSystem } from '../systems/CombatSystem';
+import { PlayerSystem } from '../systems/PlayerSystem';
+
+const downedTwinRun = () => {
+  const sim = new HeadlessSimulation({ seedValue: 5, mode: 'twin' });
+  const { state } = sim;
+  const [p1, p2] = state.pilots;
+  CombatSystem.damagePilot(state, sim.upgrades, p2, state.stats.maxHealth * 10);
+  return { sim, state, p1, p2 };
+};
+
+const step = (state: ReturnType<typeof downedTwinRun>['state'], ticks: number) => {
+  for (let i = 0; i < ticks; i++) {
+    state.timeMs += SIM_DT_MS;
+    PlayerSystem.updateDowned(state);
+  }
+};
+
+describe('revive rules', () => {
+  it('only downs pilots in co-op while a partner is still up', () => {
+    expect(canGoDown('twin', 2)).toBe(true);
+    expect(canGoDown('online', 1)).toBe(false);
+    expect(canGoDown('standard', 2)).toBe(false);
+  });
+
+  it('holds the bleed-out clock while a partner fills the ring', () => {
+    const life = createPilotLife();
+    downPilot(life, 0);
+    expect(tickDownedPilot(life, 1000, 1000, 1)).toBe('downed');
+    expect(life.bleedOutAt).toBe(BLEED_OUT_MS + 1000);
+    expect(tickDownedPilot(life, 2000, 1000, 0)).toBe('downed');
+    expect(life.reviveProgressMs).toBeLessThan(1000);
+    expect(tickDownedPilot(life, 2000 + REVIVE_TIME_MS, REVIVE_TIME_MS, 2)).toBe('revived');
+    expect(life.status).toBe('up');
+  });
+});
+
+describe('downed pilots in the headless sim', () => {
+  it('downs the pilot instead of ending the run and revives them in the ring', () => {
+    const { state, p1, p2 } = downedTwinRun();
+    expect(state.outcome).toBe('running');
+    expect(p2.life.status).toBe('downed');
+    expect(state.stats.health).toBeGreaterThan(0);
+
+    p1.x = p2.x + REVIVE_RADIUS / 2;
+    p1.y = p2.y;
+    step(state, Math.ceil(REVIVE_TIME_MS / SIM_DT_MS) + 1);
+    expect(p2.life.status).toBe('up');
+    expect(state.revives).toBe(1);
+    const pilotEvents = state.events.filter((e) => e.type.startsWith('pilot'));
+    expect(pilotEvents.map((e) => e.type)).toEqual(['pilotDowned', 'pilotRevived']);
+  });
+
+  it('loses the pilot to bleed-out and ends the run on the next breach', () => {
+    const { sim, state, p1, p2 } = downedTwinRun();
+    p1.x = p2.x + REVIVE_RADIUS * 3;
+    step(state, Math.ceil(BLEED_OUT_MS / SIM_DT_MS) + 1);
+    expect(p2.life.status).toBe('out');
+    expect(state.revives).toBe(0);
+
+    CombatSystem.damagePilot(state, sim.upgrades, p1, state.stats.maxHealth * 10);
+    expect(state.outcome).toBe('defeat');
+  });
+});
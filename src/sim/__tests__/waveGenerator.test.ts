@@ -0,0 +1,97 @@
+/**
+ * Infinite-mode wave generator: budgets, variety and mini-boss waves
+ */
+
+import { describe, it, expect } from 'vitest';
+import { INFINITE_WAVE_RULES, WAVES } from '../../config/waves';
+import { computeWaveScaling, getWaveGroups } from '../waveRules';
+import {
+  generateWaveGroups,
+  groupThreat,
+  isMiniBossWave,
+  waveThreatBudget,
+} from '../waveGenerator';
+import { MINI_BOSSES } from '../../config/miniBosses';
+import { Prng } from '../../utils/seed';
+import type { WaveGroup } from '../../models/types';
+
+const scalingFor = (index: number) =>
+  computeWaveScaling(index, {
+    infiniteMode: true,
+    baseDifficulty: 1,
+    unlockedUpgradeCount: 0,
+    modeEnemyCountMultiplier: 1,
+  });
+
+const generate = (index: number, seed = 7) =>
+  generateWaveGroups(index, scalingFor(index), { affix: null, rng: new Prng(seed) });
+
+const threatOf = (groups: WaveGroup[]) => groups.reduce((sum, group) => sum + groupThreat(group), 0);
+
+const firstGenerated = WAVES.length;
+
+describe('infinite wave generator', () => {
+  it('takes over from the authored scripts in infinite mode only', () => {
+    const index = firstGenerated;
+    const ctx = { affix: null, rng: new Prng(7) };
+    expect(getWaveGroups(index, scalingFor(index), { ...ctx, infiniteMode: true })).toEqual(generate(index));
+    expect(getWaveGroups(index, scalingFor(index), { ...ctx, infiniteMode: false })).toBe(
+      WAVES[WAVES.length - 1].groups
+    );
+  });
+
+  it('is deterministic for a seed and varies across seeds', () => {
+    expect(generate(firstGenerated + 2, 5)).toEqual(generate(firstGenerated + 2, 5));
+    const layouts = new Set(
+      [1, 2, 3, 4, 5].map((seed) => JSON.stringify(generate(firstGenerated + 2, seed)))
+    );
+    expect(layouts.size).toBeGreaterThan(1);
+  });
+
+  it('spends close to the budget without going over', () => {
+    for (let index = firstGenerated; index < firstGenerated + 30; index++) {
+      const budget = waveThreatBudget(scalingFor(index));
+      const spent = threatOf(generate(index, index));
+      expect(spent, `wave ${index + 1}`).toBeLessThanOrEqual(budget);
+      expect(spent, `wave ${index + 1}`).toBeGreaterThan(budget * 0.85);
+    }
+  });
+
+  it('grows the budget with the count scaling', () => {
+    const early = waveThreatBudget(scalingFor(firstGenerated));
+    const late = waveThreatBudget(scalingFor(firstGenerated + 10));
+    expect(late).toBeGreaterThan(early);
+  });
+
+  it('builds playable groups', () => {
+    for (let index = firstGenerated; index < firstGenerated + 20; index++) {
+      const groups = generate(index, index * 3);
+      expect(groups.length).toBeGreaterThanOrEqual(INFINITE_WAVE_RULES.minGroups);
+      expect(groups[0].delayMs ?? 0).toBe(0);
+      expect(groups[0].afterCleared ?? 0).toBe(0);
+      groups.forEach((group) => {
+        expect(group.enemies.length).toBeGreaterThan(0);
+        group.enemies.forEach((spawn) => {
+          expect(spawn.kind).not.toBe('boss');
+          expect(Number.isInteger(spawn.count) && spawn.count > 0).toBe(true);
+          expect(typeof spawn.elite).toBe('boolean');
+        });
+      });
+    }
+  });
+
+  it('closes every few waves on a named mini-boss and its elite pack', () => {
+    const interval = INFINITE_WAVE_RULES.miniBossInterval;
+    const miniBossIndex = WAVES.length - 1 + interval;
+    expect(isMiniBossWave(miniBossIndex)).toBe(true);
+    expect(isMiniBossWave(miniBossIndex - 1)).toBe(false);
+    expect(isMiniBossWave(WAVES.length - 1)).toBe(false);
+
+    const last = generate(miniBossIndex).at(-1)!;
+    expect(last.afterCleared).toBe(INFINITE_WAVE_RULES.miniBossAfterCleared);
+    expect(MINI_BOSSES.map((miniBoss) => miniBoss.id)).toContain(last.miniBoss);
+    expect(INFINITE_WAVE_RULES.miniBossKinds).toContain(last.enemies[0].kind);
+    expect(last.enemies[0].elite).toBe(true);
+    generate(miniBossIndex - 1).forEach((group) => expect(group.miniBoss).toBeUndefined());
+  });
+});
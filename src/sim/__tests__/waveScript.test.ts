@@ -0,0 +1,79 @@
+/**
+ * Wave script rules: when groups come due and where formations put enemies
+ */
+
+import { describe, it, expect } from 'vitest';
+import { clearedFraction, formationPoints, takeDueGroups } from '../waveScript';
+import { ARENA } from '../SimState';
+import { Prng } from '../../utils/seed';
+import type { WaveGroup } from '../../models/types';
+
+const inArena = ({ x, y }: { x: number; y: number }) =>
+  x >= ARENA.left && x <= ARENA.right && y >= ARENA.top && y <= ARENA.bottom;
+
+describe('group triggers', () => {
+  const now: WaveGroup = { enemies: [{ kind: 'drifter', count: 2 }] };
+  const later: WaveGroup = { enemies: [{ kind: 'watcher', count: 1 }], delayMs: 3000 };
+  const mopUp: WaveGroup = { enemies: [{ kind: 'mass', count: 1 }], afterCleared: 0.5 };
+
+  it('holds delayed groups until their time comes', () => {
+    expect(takeDueGroups([now, later], 0, 1)).toEqual({ due: [now], waiting: [later] });
+    expect(takeDueGroups([later], 3000, 0).due).toEqual([later]);
+  });
+
+  it('holds clear-triggered groups until enough of the wave is down', () => {
+    expect(clearedFraction(4, 3)).toBe(0.25);
+    expect(takeDueGroups([mopUp], 10000, clearedFraction(4, 3)).due).toEqual([]);
+    expect(takeDueGroups([mopUp], 10000, clearedFraction(4, 2)).due).toEqual([mopUp]);
+  });
+
+  it('counts a wave with nothing spawned yet as cleared', () => {
+    expect(clearedFraction(0, 0)).toBe(1);
+    // Splitter minis can outnumber what the script spawned
+    expect(clearedFraction(2, 5)).toBe(0);
+  });
+});
+
+describe('formations', () => {
+  it('spaces a ring evenly around the arena center', () => {
+    const points = formationPoints('ring', 6, ARENA, new Prng(3));
+    const cx = (ARENA.left + ARENA.right) / 2;
+    const cy = (ARENA.top + ARENA.bottom) / 2;
+    const radii = points.map((p) => Math.hypot(p.x - cx, p.y - cy));
+    expect(points).toHaveLength(6);
+    radii.forEach((r) => expect(r).toBeCloseTo(radii[0]));
+    expect(Math.hypot(points[0].x - points[1].x, points[0].y - points[1].y)).toBeCloseTo(radii[0]);
+  });
+
+  it('lines up along the given side', () => {
+    const points = formationPoints('line', 5, ARENA, new Prng(3), 'top');
+    expect(new Set(points.map((p) => p.y))).toEqual(new Set([ARENA.top + 40]));
+    const xs = points.map((p) => p.x);
+    expect(xs).toEqual([...xs].sort((a, b) => a - b));
+  });
+
+  it('splits a pincer across opposite sides', () => {
+    const points = formationPoints('pincer', 5, ARENA, new Prng(3), 'left');
+    expect(points.filter((p) => p.x === ARENA.left + 40)).toHaveLength(3);
+    expect(points.filter((p) => p.x === ARENA.right - 40)).toHaveLength(2);
+  });
+
+  it('stacks into one corner', () => {
+    const points = formationPoints('corner-stack', 7, ARENA, new Prng(3), 'bottom');
+    const cornerY = ARENA.bottom - 40;
+    expect(points[0].y).toBe(cornerY);
+    points.forEach((p) => expect(Math.abs(p.y - cornerY)).toBeLessThanOrEqual(72));
+    expect(new Set(points.map((p) => p.x)).size).toBe(3);
+  });
+
+  it('keeps every formation inside the arena', () => {
+    const rng = new Prng(11);
+    (['ring', 'line', 'pincer', 'corner-stack'] as const).forEach((formation) => {
+      for (let count = 1; count <= 12; count++) {
+        formationPoints(formation, count, ARENA, rng).forEach((p) =>
+          expect(inArena(p), `${formation} x${count}`).toBe(true)
+        );
+      }
+    });
+  });
+});
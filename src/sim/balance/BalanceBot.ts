@@ -0,0 +1,249 @@
+/**
+ * BalanceBot - Plays scripted runs across bosses, affixes and pick policies
+ *
+ * Every combination of boss × affix (plus a no-affix baseline) × pick policy
+ * is played for a number of seeds by the ScriptedPilot. Each run records what
+ * actually happened next to the static multipliers from upgradeBalance, so a
+ * build that looks fine on paper but melts (or gets melted by) a boss shows
+ * up in the report.
+ */
+
+import { AFFIXES } from "../../config/affixes";
+import { BOSSES } from "../../config/bosses";
+import {
+    calculateMaxDPSMultiplier,
+    calculateMaxDefenseMultiplier,
+    validateUpgradeCombinationDetailed,
+} from "../../config/upgradeBalance";
+import type { BossDefinition, WeeklyAffix } from "../../models/types";
+import { SIM_TICK_RATE } from "../../network/DeterministicSync";
+import { hashSeed } from "../../utils/seed";
+import { HeadlessSimulation, type SimResult } from "../HeadlessSimulation";
+import { createScriptedPilot } from "./ScriptedPilot";
+import { PICK_POLICIES, type PickPolicyDefinition } from "./pickPolicies";
+
+/** Affix id used for runs without a weekly affix */
+export const NO_AFFIX_ID = "none";
+
+export interface BalanceSweepOptions {
+    bosses?: BossDefinition[];
+    /** null entries run without an affix; defaults to none + every affix */
+    affixes?: (WeeklyAffix | null)[];
+    policies?: PickPolicyDefinition[];
+    seedsPerCombo?: number;
+    /** Hard cap per run; defaults to 20 minutes of game time */
+    maxTicks?: number;
+    onProgress?: (done: number, total: number) => void;
+}
+
+export interface BalanceRun {
+    bossId: string;
+    affixId: string;
+    policyId: string;
+    seedValue: number;
+    outcome: SimResult["outcome"];
+    wavesCleared: number;
+    durationSeconds: number;
+    bossEncountered: boolean;
+    bossDefeated: boolean;
+    bossTimeToKillMs: number | null;
+    synergies: string[];
+    upgrades: Record<string, number>;
+    /** Static upgradeBalance metrics for the final build */
+    staticDps: number;
+    staticDefense: number;
+    staticValid: boolean;
+}
+
+export interface SurvivalRow {
+    bossId: string;
+    affixId: string;
+    policyId: string;
+    runs: number;
+    wins: number;
+    meanWave: number;
+    medianWave: number;
+}
+
+export interface BossKillRow {
+    bossId: string;
+    encounters: number;
+    kills: number;
+    meanTimeToKillMs: number | null;
+    medianTimeToKillMs: number | null;
+}
+
+export interface SynergyRow {
+    synergyId: string;
+    bossId: string;
+    runs: number;
+    wins: number;
+    winRate: number;
+    meanWave: number;
+    meanStaticDps: number;
+}
+
+export interface BalanceReport {
+    seedsPerCombo: number;
+    runs: BalanceRun[];
+    survival: SurvivalRow[];
+    bossKills: BossKillRow[];
+    synergies: SynergyRow[];
+}
+
+const DEFAULT_MAX_TICKS = SIM_TICK_RATE * 60 * 20;
+
+const mean = (values: number[]) =>
+    values.length === 0
+        ? 0
+        : values.reduce((sum, value) => sum + value, 0) / values.length;
+
+const median = (values: number[]) => {
+    if (values.length === 0) return 0;
+    const sorted = [...values].sort((a, b) => a - b);
+    const mid = Math.floor(sorted.length / 2);
+    return sorted.length % 2 === 0
+        ? (sorted[mid - 1] + sorted[mid]) / 2
+        : sorted[mid];
+};
+
+const groupBy = <T>(items: T[], key: (item: T) => string) => {
+    const groups = new Map<string, T[]>();
+    items.forEach((item) => {
+        const id = key(item);
+        const group = groups.get(id);
+        if (group) group.push(item);
+        else groups.set(id, [item]);
+    });
+    return groups;
+};
+
+export function playBalanceRun(
+    boss: BossDefinition,
+    affix: WeeklyAffix | null,
+    policy: PickPolicyDefinition,
+    seedValue: number,
+    maxTicks = DEFAULT_MAX_TICKS
+): BalanceRun {
+    const sim = new HeadlessSimulation({
+        seedValue,
+        boss,
+        affix,
+        pickUpgrade: policy.create(seedValue),
+    });
+    const result = sim.run(createScriptedPilot(), { maxTicks });
+    const upgrades: Record<string, number> = {};
+    result.upgrades.forEach((u) => {
+        upgrades[u.id] = u.stacks;
+    });
+    return {
+        bossId: boss.id,
+        affixId: affix?.id ?? NO_AFFIX_ID,
+        policyId: policy.id,
+        seedValue,
+        outcome: result.outcome,
+        wavesCleared: result.wavesCleared,
+        durationSeconds: result.durationSeconds,
+        bossEncountered: result.events.some((e) => e.type === "bossSpawned"),
+        bossDefeated: result.bossDefeated,
+        bossTimeToKillMs: result.bossTimeToKillMs,
+        synergies: result.synergies,
+        upgrades,
+        staticDps: calculateMaxDPSMultiplier(upgrades),
+        staticDefense: calculateMaxDefenseMultiplier(upgrades),
+        staticValid: validateUpgradeCombinationDetailed(upgrades).valid,
+    };
+}
+
+export function summarizeBalanceRuns(
+    runs: BalanceRun[],
+    seedsPerCombo: number
+): BalanceReport {
+    const survival: SurvivalRow[] = [];
+    groupBy(runs, (r) => `${r.bossId}|${r.affixId}|${r.policyId}`).forEach(
+        (group) => {
+            const waves = group.map((r) => r.wavesCleared);
+            survival.push({
+                bossId: group[0].bossId,
+                affixId: group[0].affixId,
+                policyId: group[0].policyId,
+                runs: group.length,
+                wins: group.filter((r) => r.outcome === "victory").length,
+                meanWave: mean(waves),
+                medianWave: median(waves),
+            });
+        }
+    );
+
+    const bossKills: BossKillRow[] = [];
+    groupBy(runs, (r) => r.bossId).forEach((group, bossId) => {
+        const times = group
+            .map((r) => r.bossTimeToKillMs)
+            .filter((ms): ms is number => ms !== null);
+        bossKills.push({
+            bossId,
+            encounters: group.filter((r) => r.bossEncountered).length,
+            kills: times.length,
+            meanTimeToKillMs: times.length > 0 ? mean(times) : null,
+            medianTimeToKillMs: times.length > 0 ? median(times) : null,
+        });
+    });
+
+    const synergyRuns = runs.flatMap((run) =>
+        run.synergies.map((synergyId) => ({ synergyId, run }))
+    );
+    const synergies: SynergyRow[] = [];
+    groupBy(synergyRuns, (s) => `${s.synergyId}|${s.run.bossId}`).forEach(
+        (group) => {
+            const wins = group.filter((s) => s.run.outcome === "victory");
+            synergies.push({
+                synergyId: group[0].synergyId,
+                bossId: group[0].run.bossId,
+                runs: group.length,
+                wins: wins.length,
+                winRate: wins.length / group.length,
+                meanWave: mean(group.map((s) => s.run.wavesCleared)),
+                meanStaticDps: mean(group.map((s) => s.run.staticDps)),
+            });
+        }
+    );
+
+    return { seedsPerCombo, runs, survival, bossKills, synergies };
+}
+
+export function runBalanceSweep(
+    options: BalanceSweepOptions = {}
+): BalanceReport {
+    const bosses = options.bosses ?? BOSSES;
+    const affixes = options.affixes ?? [null, ...AFFIXES];
+    const policies = options.policies ?? PICK_POLICIES;
+    const seedsPerCombo = options.seedsPerCombo ?? 3;
+    const total =
+        bosses.length * affixes.length * policies.length * seedsPerCombo;
+    const runs: BalanceRun[] = [];
+
+    bosses.forEach((boss) => {
+        affixes.forEach((affix) => {
+            policies.forEach((policy) => {
+                for (let i = 0; i < seedsPerCombo; i++) {
+                    const affixId = affix?.id ?? NO_AFFIX_ID;
+                    const seedValue = hashSeed(
+                        `${boss.id}|${affixId}|${policy.id}|${i}`
+                    );
+                    runs.push(
+                        playBalanceRun(
+                            boss,
+                            affix,
+                            policy,
+                            seedValue,
+                            options.maxTicks
+                        )
+                    );
+                    options.onProgress?.(runs.length, total);
+                }
+            });
+        });
+    });
+
+    return summarizeBalanceRuns(runs, seedsPerCombo);
+}
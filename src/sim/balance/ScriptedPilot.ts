@@ -0,0 +1,146 @@
+/**
+ * ScriptedPilot - A simple AI pilot for balance runs
+ *
+ * Steers with weighted repulsion from enemies, incoming bullets and walls,
+ * collects XP when nothing is close, leads its shots at the nearest enemy and
+ * dashes through bullets that are about to land. It reads the same SimState a
+ * player would see and only acts through PlayerInput.
+ */
+
+import { GAME_HEIGHT, GAME_WIDTH } from "../../game/dimensions";
+import type { SimInputScript } from "../HeadlessSimulation";
+import {
+    ARENA,
+    type SimEnemy,
+    type SimPilot,
+    type SimPilotId,
+    type SimState,
+} from "../SimState";
+
+const ENEMY_AVOID_RADIUS = 240;
+const BULLET_AVOID_RADIUS = 220;
+const PICKUP_SAFE_RADIUS = 150;
+const WALL_AVOID_DISTANCE = 90;
+const DASH_THREAT_MS = 250;
+
+function nearestTarget(state: SimState, pilot: SimPilot): SimEnemy | null {
+    let target: SimEnemy | null = null;
+    let best = Number.POSITIVE_INFINITY;
+    for (const enemy of state.enemies) {
+        if (!enemy.alive || state.timeMs < enemy.activeAt) continue;
+        const dist = Math.hypot(enemy.x - pilot.x, enemy.y - pilot.y);
+        if (dist < best) {
+            best = dist;
+            target = enemy;
+        }
+    }
+    return target;
+}
+
+function steer(state: SimState, pilot: SimPilot) {
+    let moveX = 0;
+    let moveY = 0;
+    let closestEnemy = Number.POSITIVE_INFINITY;
+
+    for (const enemy of state.enemies) {
+        if (!enemy.alive) continue;
+        const dx = pilot.x - enemy.x;
+        const dy = pilot.y - enemy.y;
+        const dist = Math.hypot(dx, dy) || 1;
+        closestEnemy = Math.min(closestEnemy, dist);
+        if (dist > ENEMY_AVOID_RADIUS) continue;
+        const weight = (ENEMY_AVOID_RADIUS / dist) ** 2;
+        moveX += (dx / dist) * weight;
+        moveY += (dy / dist) * weight;
+    }
+
+    for (const bullet of state.enemyBullets) {
+        const dx = pilot.x - bullet.x;
+        const dy = pilot.y - bullet.y;
+        const dist = Math.hypot(dx, dy) || 1;
+        if (dist > BULLET_AVOID_RADIUS) continue;
+        // Only bullets heading our way matter; sidestep across their path
+        const speed = Math.hypot(bullet.vx, bullet.vy) || 1;
+        const closing = (bullet.vx * dx + bullet.vy * dy) / (speed * dist);
+        if (closing <= 0) continue;
+        const side = bullet.vx * dy - bullet.vy * dx > 0 ? 1 : -1;
+        const weight = closing * (BULLET_AVOID_RADIUS / dist) * 2;
+        moveX += (-bullet.vy / speed) * side * weight;
+        moveY += (bullet.vx / speed) * side * weight;
+    }
+
+    if (closestEnemy > PICKUP_SAFE_RADIUS) {
+        let pickupDist = Number.POSITIVE_INFINITY;
+        let pickupX = 0;
+        let pickupY = 0;
+        for (const pickup of state.pickups) {
+            const dist = Math.hypot(pickup.x - pilot.x, pickup.y - pilot.y);
+            if (dist < pickupDist) {
+                pickupDist = dist;
+                pickupX = (pickup.x - pilot.x) / (dist || 1);
+                pickupY = (pickup.y - pilot.y) / (dist || 1);
+            }
+        }
+        moveX += pickupX;
+        moveY += pickupY;
+    }
+
+    const wall = (distance: number) =>
+        distance < WALL_AVOID_DISTANCE
+            ? ((WALL_AVOID_DISTANCE - distance) / WALL_AVOID_DISTANCE) * 4
+            : 0;
+    moveX += wall(pilot.x - ARENA.left) - wall(ARENA.right - pilot.x);
+    moveY += wall(pilot.y - ARENA.top) - wall(ARENA.bottom - pilot.y);
+    // Drift back toward the middle so the pilot keeps room to kite
+    moveX += (GAME_WIDTH / 2 - pilot.x) / GAME_WIDTH;
+    moveY += (GAME_HEIGHT / 2 - pilot.y) / GAME_HEIGHT;
+
+    return { moveX, moveY };
+}
+
+function shouldDash(state: SimState, pilot: SimPilot) {
+    if (state.timeMs < pilot.ability.nextDashAt) return false;
+    const reach = 20;
+    return state.enemyBullets.some((bullet) => {
+        const dx = pilot.x - bullet.x;
+        const dy = pilot.y - bullet.y;
+        const speedSq = bullet.vx * bullet.vx + bullet.vy * bullet.vy;
+        if (speedSq === 0) return false;
+        const t = (dx * bullet.vx + dy * bullet.vy) / speedSq;
+        if (t < 0 || t * 1000 > DASH_THREAT_MS) return false;
+        const missX = dx - bullet.vx * t;
+        const missY = dy - bullet.vy * t;
+        return Math.hypot(missX, missY) < reach;
+    });
+}
+
+/** Builds an input script that flies the given pilot */
+export function createScriptedPilot(
+    pilotId: SimPilotId = "p1"
+): SimInputScript {
+    return (tick, state) => {
+        const pilot = state.pilots.find((p) => p.id === pilotId);
+        if (!pilot) return {};
+        const { moveX, moveY } = steer(state, pilot);
+        const target = nearestTarget(state, pilot);
+        let aimX = pilot.aimX;
+        let aimY = pilot.aimY;
+        if (target) {
+            const dist = Math.hypot(target.x - pilot.x, target.y - pilot.y);
+            const lead = dist / Math.max(state.stats.projectileSpeed, 1);
+            aimX = target.x + target.vx * lead - pilot.x;
+            aimY = target.y + target.vy * lead - pilot.y;
+        }
+        return {
+            [pilotId]: {
+                tick,
+                moveX,
+                moveY,
+                aimX,
+                aimY,
+                fire: target !== null,
+                dash: shouldDash(state, pilot),
+            },
+        };
+    };
+}
@@ -0,0 +1,91 @@
+/**
+ * Markdown rendering for BalanceBot reports
+ */
+
+import type { BalanceReport } from "./BalanceBot";
+
+const pct = (value: number) => `${(value * 100).toFixed(0)}%`;
+const seconds = (ms: number | null) =>
+    ms === null ? "–" : `${(ms / 1000).toFixed(1)}s`;
+
+const table = (headers: string[], rows: (string | number)[][]) =>
+    [
+        `| ${headers.join(" | ")} |`,
+        `| ${headers.map(() => "---").join(" | ")} |`,
+        ...rows.map((row) => `| ${row.join(" | ")} |`),
+    ].join("\n");
+
+export function formatBalanceReport(report: BalanceReport): string {
+    const survival = [...report.survival].sort(
+        (a, b) =>
+            a.bossId.localeCompare(b.bossId) ||
+            a.affixId.localeCompare(b.affixId) ||
+            a.policyId.localeCompare(b.policyId)
+    );
+    const synergies = [...report.synergies].sort(
+        (a, b) =>
+            a.synergyId.localeCompare(b.synergyId) ||
+            a.bossId.localeCompare(b.bossId)
+    );
+    const invalid = report.runs.filter((run) => !run.staticValid).length;
+
+    return [
+        "# Balance report",
+        "",
+        `${report.runs.length} runs, ${report.seedsPerCombo} seeds per ` +
+            `boss × affix × policy. ${invalid} final builds fail ` +
+            "validateUpgradeCombinationDetailed.",
+        "",
+        "## Boss time-to-kill",
+        "",
+        table(
+            ["Boss", "Reached", "Killed", "Mean TTK", "Median TTK"],
+            report.bossKills.map((row) => [
+                row.bossId,
+                row.encounters,
+                row.kills,
+                seconds(row.meanTimeToKillMs),
+                seconds(row.medianTimeToKillMs),
+            ])
+        ),
+        "",
+        "## Win rate per synergy",
+        "",
+        table(
+            [
+                "Synergy",
+                "Boss",
+                "Runs",
+                "Wins",
+                "Win rate",
+                "Mean wave",
+                "DPS×",
+            ],
+            synergies.map((row) => [
+                row.synergyId,
+                row.bossId,
+                row.runs,
+                row.wins,
+                pct(row.winRate),
+                row.meanWave.toFixed(1),
+                row.meanStaticDps.toFixed(2),
+            ])
+        ),
+        "",
+        "## Survival wave",
+        "",
+        table(
+            ["Boss", "Affix", "Policy", "Runs", "Wins", "Mean", "Median"],
+            survival.map((row) => [
+                row.bossId,
+                row.affixId,
+                row.policyId,
+                row.runs,
+                row.wins,
+                row.meanWave.toFixed(1),
+                row.medianWave,
+            ])
+        ),
+        "",
+    ].join("\n");
+}
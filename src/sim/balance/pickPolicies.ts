@@ -0,0 +1,97 @@
+/**
+ * Upgrade-pick policies the balance bot drafts with
+ */
+
+import { SYNERGY_DEFINITIONS } from "../../config/synergies";
+import type { UpgradeDefinition } from "../../models/types";
+import { Prng } from "../../utils/seed";
+import {
+    pickFirstUpgrade,
+    type UpgradePickPolicy,
+} from "../HeadlessSimulation";
+
+export interface PickPolicyDefinition {
+    id: string;
+    label: string;
+    /** Policies get their own RNG so they never shift the run's rolls */
+    create: (seed: number) => UpgradePickPolicy;
+}
+
+const RARITY_RANK: Record<UpgradeDefinition["rarity"], number> = {
+    common: 0,
+    rare: 1,
+    legendary: 2,
+};
+
+const preferring =
+    (score: (upgrade: UpgradeDefinition) => number): UpgradePickPolicy =>
+    (options) => {
+        let best: UpgradeDefinition | null = null;
+        let bestScore = Number.NEGATIVE_INFINITY;
+        for (const option of options) {
+            const value = score(option);
+            if (value > bestScore) {
+                best = option;
+                bestScore = value;
+            }
+        }
+        return best?.id ?? null;
+    };
+
+/** Drafts toward one synergy's requirements, then falls back to offense */
+export function synergyPolicy(synergyId: string): PickPolicyDefinition {
+    const synergy = SYNERGY_DEFINITIONS.find((s) => s.id === synergyId);
+    const requires = synergy?.requires ?? [];
+    return {
+        id: `synergy:${synergyId}`,
+        label: `Chase ${synergy?.name ?? synergyId}`,
+        create: () => (options, state, stacks) => {
+            const missing = options.find(
+                (u) => requires.includes(u.id) && (stacks[u.id] ?? 0) === 0
+            );
+            if (missing) return missing.id;
+            return preferring((u) => (u.category === "offense" ? 1 : 0))(
+                options,
+                state,
+                stacks
+            );
+        },
+    };
+}
+
+export const PICK_POLICIES: PickPolicyDefinition[] = [
+    {
+        id: "first",
+        label: "First offered",
+        create: () => pickFirstUpgrade,
+    },
+    {
+        id: "random",
+        label: "Random",
+        create: (seed) => {
+            const rng = new Prng(seed ^ 0x5bd1e995);
+            return (options) =>
+                options[Math.floor(rng.next() * options.length)]?.id ?? null;
+        },
+    },
+    {
+        id: "offense",
+        label: "Offense first",
+        create: () => preferring((u) => (u.category === "offense" ? 1 : 0)),
+    },
+    {
+        id: "defense",
+        label: "Defense first",
+        create: () => preferring((u) => (u.category === "defense" ? 1 : 0)),
+    },
+    {
+        id: "rarest",
+        label: "Highest rarity",
+        create: () => preferring((u) => RARITY_RANK[u.rarity]),
+    },
+    synergyPolicy("glass-storm"),
+];
+
+export const getPickPolicy = (id: string) =>
+    PICK_POLICIES.find((policy) => policy.id === id) ??
+    (id.startsWith("synergy:") ? synergyPolicy(id.slice(8)) : undefined);
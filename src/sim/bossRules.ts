@@ -0,0 +1,108 @@
+/**
+ * Boss phase and movement rules for the simulation's BossSystem
+ *
+ * Phases come from BossDefinition.phases: each one swaps the pattern pool,
+ * cooldown, movement style, overlap chance and escort timer.
+ */
+
+import { GAME_WIDTH } from "../game/dimensions";
+import type {
+    BossDefinition,
+    BossMovementStyle,
+    BossPhaseDefinition,
+} from "../models/types";
+
+export const BOSS_PHASE_THRESHOLDS = { phase2: 0.66, phase3: 0.33 };
+
+/** Used when a phase has no patterns to pick from */
+export const FALLBACK_BOSS_PATTERN = "ring-with-gap";
+
+export interface BossMoveTarget {
+    x: number;
+    y: number;
+    /** Multiplier on the boss's move speed */
+    speedScale: number;
+}
+
+type Point = { x: number; y: number };
+
+export function bossPhaseForHealth(healthPct: number) {
+    if (healthPct < BOSS_PHASE_THRESHOLDS.phase3) return 3;
+    if (healthPct < BOSS_PHASE_THRESHOLDS.phase2) return 2;
+    return 1;
+}
+
+export const getBossPhase = (
+    template: BossDefinition,
+    phase: number
+): BossPhaseDefinition =>
+    template.phases[Math.min(Math.max(phase, 1), 3) - 1];
+
+export const bossPatternCooldown = (
+    baseMs: number,
+    phase: BossPhaseDefinition,
+    difficulty: number
+) => (baseMs * phase.cooldownMultiplier) / difficulty;
+
+/**
+ * Queues a phase's patterns, leading with the ones the previous phase didn't
+ * have so the change in behavior shows right away.
+ */
+export function buildPhasePatternQueue(
+    phase: BossPhaseDefinition,
+    previous: BossPhaseDefinition | null,
+    shuffle: <T>(items: T[]) => T[]
+) {
+    const fresh = phase.patterns.filter(
+        (p) => previous !== null && !previous.patterns.includes(p)
+    );
+    const familiar = phase.patterns.filter((p) => !fresh.includes(p));
+    return [...shuffle(fresh), ...shuffle(familiar)];
+}
+
+/** Where a boss with the given movement style wants to be right now */
+export function bossMoveTarget(
+    style: BossMovementStyle,
+    timeMs: number,
+    boss: Point,
+    pilot: Point | null,
+    top: number
+): BossMoveTarget {
+    const centerX = GAME_WIDTH / 2;
+    switch (style) {
+        case "hunt": {
+            if (!pilot) break;
+            // Close in but hold a gap so volleys have room to spread
+            const dx = pilot.x - boss.x;
+            const dy = pilot.y - boss.y;
+            const dist = Math.hypot(dx, dy) || 1;
+            const gap = Math.min(dist, 200);
+            return {
+                x: pilot.x - (dx / dist) * gap,
+                y: pilot.y - (dy / dist) * gap,
+                speedScale: 0.9,
+            };
+        }
+        case "strafe":
+            return {
+                x: centerX + Math.sin(timeMs / 900) * (centerX - 120),
+                y: top + 110 + Math.sin(timeMs / 600) * 20,
+                speedScale: 1.1,
+            };
+        case "anchor":
+            return {
+                x: centerX + Math.cos(timeMs / 2000) * 30,
+                y: top + 170,
+                speedScale: 0.35,
+            };
+        case "orbit":
+            break;
+    }
+    let x = centerX + Math.cos(timeMs / 1400) * 140;
+    let y = top + 150 + Math.sin(timeMs / 1200) * 90;
+    if (pilot) {
+        x += (pilot.x - x) * 0.12;
+        y += (pilot.y - 80 - y) * 0.08;
+    }
+    return { x, y, speedScale: 0.65 };
+}
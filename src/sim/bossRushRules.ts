@@ -0,0 +1,85 @@
+/**
+ * Boss rush rules for the simulation
+ *
+ * A boss rush skips the waves: each stage is a single boss fight, and the
+ * run opens with an upgrade draft and drafts again between fights. Stage
+ * multipliers stack on top of the boss's own tuning.
+ */
+
+import { BOSSES } from "../config/bosses";
+import type { BossDefinition, RunMode } from "../models/types";
+
+export interface BossRushStage {
+    bossId: string;
+    healthMultiplier: number;
+    speedMultiplier: number;
+    fireRateMultiplier: number;
+    projectileSpeedMultiplier: number;
+}
+
+export const BOSS_RUSH_STAGES: BossRushStage[] = [
+    {
+        bossId: "sentinel",
+        healthMultiplier: 1,
+        speedMultiplier: 1,
+        fireRateMultiplier: 1,
+        projectileSpeedMultiplier: 1,
+    },
+    {
+        bossId: "swarm-core",
+        healthMultiplier: 1.3,
+        speedMultiplier: 1.08,
+        fireRateMultiplier: 1.12,
+        projectileSpeedMultiplier: 1.06,
+    },
+    {
+        bossId: "obelisk",
+        healthMultiplier: 1.65,
+        speedMultiplier: 1.15,
+        fireRateMultiplier: 1.25,
+        projectileSpeedMultiplier: 1.12,
+    },
+];
+
+/** Upgrade picks offered before the first fight */
+export const BOSS_RUSH_OPENING_PICKS = 3;
+
+/** Upgrade picks offered after each boss falls */
+export const BOSS_RUSH_DRAFT_PICKS = 2;
+
+/** Wave scaling index every stage uses; stage multipliers do the escalating */
+export const BOSS_RUSH_SCALING_WAVE = 0;
+
+/** The stage's boss with the stage multipliers folded into its tuning */
+export function bossRushStageBoss(index: number): BossDefinition {
+    const stage =
+        BOSS_RUSH_STAGES[
+            Math.min(Math.max(index, 0), BOSS_RUSH_STAGES.length - 1)
+        ];
+    const template = BOSSES.find((b) => b.id === stage.bossId);
+    if (!template) {
+        throw new Error(`Boss rush stage uses unknown boss "${stage.bossId}"`);
+    }
+    const tuning = template.tuning;
+    return {
+        ...template,
+        tuning: {
+            healthMultiplier:
+                (tuning.healthMultiplier ?? 1) * stage.healthMultiplier,
+            speedMultiplier:
+                (tuning.speedMultiplier ?? 1) * stage.speedMultiplier,
+            fireRateMultiplier:
+                (tuning.fireRateMultiplier ?? 1) * stage.fireRateMultiplier,
+            projectileSpeedMultiplier:
+                (tuning.projectileSpeedMultiplier ?? 1) *
+                stage.projectileSpeedMultiplier,
+        },
+    };
+}
+
+export const hasNextBossRushStage = (index: number) =>
+    index < BOSS_RUSH_STAGES.length - 1;
+
+/** Whether killing the boss at this wave or stage wins the run */
+export const bossKillWinsRun = (mode: RunMode, index: number) =>
+    mode === "bossRush" ? !hasNextBossRushStage(index) : mode !== "infinite";
@@ -0,0 +1,32 @@
+/**
+ * Mini-boss rules for the simulation
+ *
+ * A mini-boss fights as an elite of its base kind and loops through its boss
+ * patterns on top. It walks the boss phase thresholds as it loses health, so
+ * its volleys thicken and speed up the way the boss's do.
+ */
+
+import type { MiniBossDefinition } from "../models/types";
+import { FALLBACK_BOSS_PATTERN, bossPhaseForHealth } from "./bossRules";
+
+/** Wait after the spawn cue before the first pattern, before difficulty */
+export const MINI_BOSS_FIRST_PATTERN_MS = 1500;
+
+export const miniBossPattern = (miniBoss: MiniBossDefinition, cursor: number) =>
+    miniBoss.patterns[cursor % miniBoss.patterns.length] ??
+    FALLBACK_BOSS_PATTERN;
+
+export const miniBossPatternCooldown = (
+    baseMs: number,
+    miniBoss: MiniBossDefinition,
+    difficulty: number
+) => (baseMs * miniBoss.cooldownMultiplier) / difficulty;
+
+export const miniBossPhase = (health: number, maxHealth: number) =>
+    bossPhaseForHealth(maxHealth > 0 ? health / maxHealth : 1);
+
+/** Adds one to an id's tally, for RunSummary's mini-boss records */
+export const tallyMiniBoss = (
+    counts: Record<string, number>,
+    id: string
+): Record<string, number> => ({ ...counts, [id]: (counts[id] ?? 0) + 1 });
@@ -0,0 +1,94 @@
+/**
+ * Downed and revive rules for the simulation
+ *
+ * Co-op pilots share one hull. When a hit would empty it while a partner is
+ * still flying, the pilot who took it goes down instead of ending the run:
+ * the hull holds at a sliver and the downed ship sits inside a revive ring,
+ * bleeding out. Partners standing in the ring fill it, which also holds the
+ * bleed-out clock; a full ring brings the pilot back and patches the hull.
+ * A pilot who bleeds out is out for the rest of the run. The run only ends
+ * when the hull empties with nobody left to go down for.
+ */
+
+import { isCoopMode } from "../game/pilots";
+import type { RunMode } from "../models/types";
+
+export const BLEED_OUT_MS = 15000;
+export const REVIVE_TIME_MS = 2500;
+export const REVIVE_RADIUS = 64;
+/** Ring progress drains this much faster than it fills once partners step out */
+export const REVIVE_DRAIN_RATE = 0.5;
+/** Share of max hull left after a pilot goes down */
+export const DOWNED_HULL_FRACTION = 0.2;
+/** Share of max hull a revive restores the hull to, at least */
+export const REVIVE_HULL_FRACTION = 0.4;
+
+export type PilotStatus = "up" | "downed" | "out";
+
+export interface PilotLife {
+    status: PilotStatus;
+    bleedOutAt: number;
+    reviveProgressMs: number;
+}
+
+export const createPilotLife = (): PilotLife => ({
+    status: "up",
+    bleedOutAt: 0,
+    reviveProgressMs: 0,
+});
+
+/** Whether an emptied hull downs the pilot rather than ending the run */
+export const canGoDown = (mode: RunMode, pilotsUp: number) =>
+    isCoopMode(mode) && pilotsUp > 1;
+
+export function downPilot(life: PilotLife, now: number): void {
+    life.status = "downed";
+    life.bleedOutAt = now + BLEED_OUT_MS;
+    life.reviveProgressMs = 0;
+}
+
+export function revivePilot(life: PilotLife): void {
+    life.status = "up";
+    life.bleedOutAt = 0;
+    life.reviveProgressMs = 0;
+}
+
+export const withinReviveRing = (dx: number, dy: number) =>
+    dx * dx + dy * dy <= REVIVE_RADIUS * REVIVE_RADIUS;
+
+/**
+ * Advances a downed pilot by one step. Returns "revived" or "out" on the step
+ * the pilot leaves the downed state, otherwise "downed".
+ */
+export function tickDownedPilot(
+    life: PilotLife,
+    now: number,
+    dtMs: number,
+    rescuers: number
+): PilotStatus | "revived" {
+    if (life.status !== "downed") return life.status;
+    if (rescuers > 0) {
+        life.reviveProgressMs += dtMs;
+        life.bleedOutAt += dtMs;
+    } else {
+        life.reviveProgressMs = Math.max(
+            0,
+            life.reviveProgressMs - dtMs * REVIVE_DRAIN_RATE
+        );
+    }
+    if (life.reviveProgressMs >= REVIVE_TIME_MS) {
+        revivePilot(life);
+        return "revived";
+    }
+    if (now >= life.bleedOutAt) {
+        life.status = "out";
+        return "out";
+    }
+    return "downed";
+}
+
+export const hullAfterDown = (maxHealth: number) =>
+    maxHealth * DOWNED_HULL_FRACTION;
+
+export const hullAfterRevive = (health: number, maxHealth: number) =>
+    Math.min(maxHealth, Math.max(health, maxHealth * REVIVE_HULL_FRACTION));
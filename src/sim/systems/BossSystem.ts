@@ -0,0 +1,452 @@
+/**
+ * BossSystem - Boss spawn, movement, phases and bullet patterns
+ *
+ * Tuning follows the boss's phase table (see bossRules). Patterns that fire
+ * in staggered waves (pulse rings, lane beams, overlaps) queue their later
+ * volleys on the state, which fire once their delay has run.
+ */
+
+import { getEnemyDefinition } from "../../config/enemies";
+import type { EnemySpawn } from "../../models/types";
+import { GAME_WIDTH } from "../../game/dimensions";
+import {
+    FALLBACK_BOSS_PATTERN,
+    bossMoveTarget,
+    bossPatternCooldown,
+    bossPhaseForHealth,
+    buildPhasePatternQueue,
+    getBossPhase,
+} from "../bossRules";
+import { randomizeWaveSpawns } from "../waveRules";
+import {
+    ARENA,
+    RADII,
+    randBetween,
+    randFloat,
+    nearestPilot,
+    type SimEnemy,
+    type SimState,
+    type SimVolley,
+} from "../SimState";
+import { EnemySystem } from "./EnemySystem";
+
+const degToRad = (degrees: number) => (degrees * Math.PI) / 180;
+
+const phaseOf = (state: SimState) =>
+    getBossPhase(state.boss.template, state.boss.phase);
+
+const cooldownFor = (state: SimState, base: number) =>
+    bossPatternCooldown(base, phaseOf(state), state.difficulty);
+
+const shuffleWith =
+    (state: SimState) =>
+    <T>(items: T[]): T[] => {
+        const queue = [...items];
+        for (let i = queue.length - 1; i > 0; i--) {
+            const j = Math.floor(state.rng.next() * (i + 1));
+            [queue[i], queue[j]] = [queue[j], queue[i]];
+        }
+        return queue;
+    };
+
+/** Where a pattern fires from: the boss, or a mini-boss borrowing it */
+export interface PatternSource {
+    x: number;
+    y: number;
+    phase: number;
+    // Relative bullet speed on top of the pattern's base values
+    speedScale: number;
+}
+
+const speedFor = (state: SimState, phase: number, base: number) =>
+    base * state.difficulty * (1 + (phase - 1) * 0.25);
+
+const densityFor = (phase: number, base: number) =>
+    Math.floor(base * (1 + (phase - 1) * 0.3));
+
+function fire(
+    state: SimState,
+    boss: PatternSource,
+    angle: number,
+    speed: number
+) {
+    EnemySystem.fireBullet(
+        state,
+        boss.x,
+        boss.y,
+        Math.cos(angle),
+        Math.sin(angle),
+        speedFor(state, boss.phase, speed) * boss.speedScale
+    );
+}
+
+function aimAngle(state: SimState, boss: PatternSource): number | null {
+    const pilot = nearestPilot(state, boss.x, boss.y);
+    if (!pilot) return null;
+    return Math.atan2(pilot.y - boss.y, pilot.x - boss.x);
+}
+
+/** Fires a fan at the nearest pilot; false when nobody is there to aim at */
+function fan(
+    state: SimState,
+    boss: PatternSource,
+    bullets: number,
+    spread: number,
+    speed: number
+): boolean {
+    const center = aimAngle(state, boss);
+    if (center === null) return false;
+    const half = Math.floor(densityFor(boss.phase, bullets) / 2);
+    for (let i = -half; i <= half; i++) {
+        fire(state, boss, center + spread * i, speed);
+    }
+    return true;
+}
+
+function ring(
+    state: SimState,
+    boss: PatternSource,
+    bullets: number,
+    offset: number,
+    speed: number
+) {
+    const total = densityFor(boss.phase, bullets);
+    for (let i = 0; i < total; i++) {
+        fire(state, boss, offset + (Math.PI * 2 * i) / total, speed);
+    }
+}
+
+/** Eight lanes: the axes and the diagonals */
+function lanes(state: SimState, boss: PatternSource) {
+    for (let i = 0; i < 8; i++) {
+        fire(state, boss, (Math.PI / 4) * i, 240);
+    }
+}
+
+function fireVolley(state: SimState, volley: SimVolley) {
+    switch (volley.type) {
+        case "ring":
+            ring(
+                state,
+                volley,
+                16,
+                randFloat(state.rng, 0, Math.PI * 2),
+                volley.speed
+            );
+            return;
+        case "lanes":
+            lanes(state, volley);
+            return;
+        case "overlap":
+            BossSystem.runPattern(state, volley.pattern);
+    }
+}
+
+function spawnMinions(state: SimState, phase: number) {
+    const scale = 1 + (phase - 1) * 0.3;
+    const eliteChance = Math.min(0.7, 0.35 + (phase - 1) * 0.175);
+    const rng = state.rng;
+    const choices: EnemySpawn[] = [
+        {
+            kind: "drifter",
+            count: Math.floor(randBetween(rng, 3, 4) * scale),
+        },
+        {
+            kind: "watcher",
+            count: Math.floor(randBetween(rng, 1, 2) * scale),
+        },
+        {
+            kind: "mass",
+            count: Math.max(1, Math.floor(scale)),
+            elite: rng.next() < eliteChance,
+        },
+        {
+            kind: "phantom",
+            count: Math.floor(randBetween(rng, 1, 2) * scale),
+            elite: rng.next() < eliteChance,
+        },
+        {
+            kind: "orbiter",
+            count: Math.floor(randBetween(rng, 2, 3) * scale),
+        },
+        {
+            kind: "splitter",
+            count: Math.max(1, Math.floor(scale)),
+            elite: rng.next() < eliteChance,
+        },
+    ];
+    const pick = choices[Math.floor(rng.next() * choices.length)];
+    randomizeWaveSpawns([pick], state.affix, rng).forEach((spawn) => {
+        for (let i = 0; i < spawn.count; i++) {
+            EnemySystem.spawn(state, spawn.kind, spawn.elite);
+        }
+    });
+}
+
+/**
+ * Each pattern fires and returns its base cooldown in ms, or null when an
+ * aimed pattern has no pilot to aim at
+ */
+const PATTERNS: Record<
+    string,
+    (state: SimState, boss: PatternSource) => number | null
+> = {
+    "ring-with-gap": (state, boss) => {
+        const total = densityFor(boss.phase, 22);
+        const gapStart = randFloat(state.rng, 0, Math.PI * 2);
+        const gapWidth =
+            (Math.PI / 9) * Math.max(0.5, 1 - (boss.phase - 1) * 0.25);
+        for (let i = 0; i < total; i++) {
+            const angle = (Math.PI * 2 * i) / total;
+            const diff = Math.abs(
+                ((angle - gapStart + Math.PI * 2) % (Math.PI * 2)) - Math.PI
+            );
+            if (diff < gapWidth) continue;
+            fire(state, boss, angle, 280);
+        }
+        return 1100;
+    },
+    "aimed-burst": (state, boss) => {
+        const spread =
+            degToRad(8) * Math.max(0.6, 1 - (boss.phase - 1) * 0.2);
+        return fan(state, boss, 7, spread, 300) ? 950 : null;
+    },
+    "beam-spin": (state, boss) => {
+        state.boss.spinAngle +=
+            degToRad(22) * (1 + (boss.phase - 1) * 0.5);
+        ring(state, boss, 14, state.boss.spinAngle, 250);
+        return 780;
+    },
+    "summon-minions": (state, boss) => {
+        spawnMinions(state, boss.phase);
+        return 1400;
+    },
+    "cone-volley": (state, boss) => {
+        const spread =
+            degToRad(6) * Math.max(0.7, 1 - (boss.phase - 1) * 0.15);
+        return fan(state, boss, 9, spread, 300) ? 1100 : null;
+    },
+    "pulse-ring": (state, boss) => {
+        const rings = Math.min(4, 2 + (boss.phase - 1));
+        const delay = 200 * Math.max(0.5, 1 - (boss.phase - 1) * 0.25);
+        ring(state, boss, 16, randFloat(state.rng, 0, Math.PI * 2), 240);
+        for (let i = 1; i < rings; i++) {
+            state.volleys.push({
+                ...boss,
+                fireAt: state.timeMs + i * delay,
+                type: "ring",
+                speed: 240 + i * 40,
+            });
+        }
+        return 1200;
+    },
+    slam: (state, boss) => {
+        const center = aimAngle(state, boss);
+        if (center === null) return null;
+        const spread = 0.12 * Math.max(0.8, 1 - (boss.phase - 1) * 0.1);
+        fire(state, boss, center, 360);
+        const total = densityFor(boss.phase, 3);
+        for (let i = 1; i < total; i++) {
+            const side = i % 2 === 0 ? 1 : -1;
+            fire(state, boss, center + side * spread * Math.ceil(i / 2), 320);
+        }
+        return 1100;
+    },
+    "ricochet-shards": (state, boss) => {
+        const total = densityFor(boss.phase, 16);
+        const jitter = 0.05 * (1 + (boss.phase - 1) * 0.5);
+        for (let i = 0; i < total; i++) {
+            const angle =
+                (Math.PI * 2 * i) / total +
+                randFloat(state.rng, -jitter, jitter);
+            fire(state, boss, angle, 300);
+        }
+        return 900;
+    },
+    "lane-beams": (state, boss) => {
+        const waves = Math.min(3, boss.phase);
+        const delay = 150 * Math.max(0.6, 1 - (boss.phase - 1) * 0.2);
+        lanes(state, boss);
+        for (let i = 1; i < waves; i++) {
+            state.volleys.push({
+                ...boss,
+                fireAt: state.timeMs + i * delay,
+                type: "lanes",
+            });
+        }
+        return 850;
+    },
+};
+
+export const BossSystem = {
+    spawn(state: SimState) {
+        const template = state.boss.template;
+        const base = getEnemyDefinition("boss");
+        const tuning = template.tuning;
+        const health =
+            base.health *
+            (tuning.healthMultiplier ?? 1) *
+            (state.affix?.bossHealthMultiplier ?? 1) *
+            state.enemyHealthScale;
+        const boss = EnemySystem.createBoss(state, base.damage);
+        boss.x = GAME_WIDTH / 2;
+        boss.y = 140;
+        boss.radius = RADII.boss;
+        boss.health = health;
+        boss.maxHealth = health;
+        boss.speed =
+            base.speed * (tuning.speedMultiplier ?? 1) * state.difficulty;
+        state.enemies.push(boss);
+        state.boss.enemyId = boss.id;
+        state.boss.phase = 1;
+        state.boss.maxHealth = health;
+        state.boss.projectileSpeedScale =
+            (tuning.projectileSpeedMultiplier ?? 1) *
+            (state.affix?.bossProjectileSpeedMultiplier ?? 1);
+        state.boss.patternQueue = buildPhasePatternQueue(
+            phaseOf(state),
+            null,
+            shuffleWith(state)
+        );
+        state.boss.patternCursor = 0;
+        state.boss.nextPatternAt = state.timeMs + 1500 / state.difficulty;
+        this.scheduleSummon(state);
+        state.boss.spawnedAt = state.timeMs;
+        state.boss.defeatedAt = null;
+        state.events.push({
+            tick: state.tick,
+            type: "bossSpawned",
+            bossId: template.id,
+        });
+    },
+
+    update(state: SimState) {
+        this.fireDueVolleys(state);
+        const boss = this.liveBoss(state);
+        if (!boss) return;
+        this.updatePhase(state, boss);
+        const summonAt = state.boss.nextSummonAt;
+        if (summonAt > 0 && state.timeMs >= summonAt) {
+            spawnMinions(state, state.boss.phase);
+            this.scheduleSummon(state);
+        }
+        if (state.timeMs < state.boss.nextPatternAt) return;
+        this.runPattern(state, this.nextPattern(state));
+    },
+
+    liveBoss(state: SimState): SimEnemy | undefined {
+        return state.enemies.find(
+            (enemy) => enemy.id === state.boss.enemyId && enemy.alive
+        );
+    },
+
+    /**
+     * Fires a boss pattern from where the boss is now and may queue an
+     * overlapping one; an aimed pattern with nobody to aim at tries again on
+     * the next tick
+     */
+    runPattern(state: SimState, pattern: string) {
+        const boss = this.liveBoss(state);
+        if (!boss) return;
+        const cooldown = this.firePattern(state, pattern, {
+            x: boss.x,
+            y: boss.y,
+            phase: state.boss.phase,
+            speedScale: state.boss.projectileSpeedScale,
+        });
+        if (cooldown === null) return;
+        state.boss.nextPatternAt = state.timeMs + cooldownFor(state, cooldown);
+        if (state.rng.next() < phaseOf(state).overlapChance) {
+            state.volleys.push({
+                fireAt: state.timeMs + 200,
+                type: "overlap",
+                pattern:
+                    state.rng.next() < 0.5 ? "ring-with-gap" : "aimed-burst",
+            });
+        }
+    },
+
+    /** Fires one pattern from the source; returns its base cooldown in ms */
+    firePattern(
+        state: SimState,
+        pattern: string,
+        source: PatternSource
+    ): number | null {
+        const run = PATTERNS[pattern] ?? PATTERNS[FALLBACK_BOSS_PATTERN];
+        return run(state, source);
+    },
+
+    /** Later waves of staggered patterns, from the boss and mini-bosses */
+    fireDueVolleys(state: SimState) {
+        if (state.volleys.length === 0) return;
+        const due = state.volleys.filter(
+            (volley) => state.timeMs >= volley.fireAt
+        );
+        if (due.length === 0) return;
+        state.volleys = state.volleys.filter(
+            (volley) => state.timeMs < volley.fireAt
+        );
+        due.forEach((volley) => fireVolley(state, volley));
+    },
+
+    /** Steers the boss as its phase dictates; the boss kind's module calls it */
+    move(state: SimState, boss: SimEnemy) {
+        const target = bossMoveTarget(
+            phaseOf(state).movement,
+            state.timeMs,
+            boss,
+            nearestPilot(state, boss.x, boss.y),
+            ARENA.top
+        );
+        const dx = target.x - boss.x;
+        const dy = target.y - boss.y;
+        const dist = Math.hypot(dx, dy);
+        if (dist > 2) {
+            boss.vx = (dx / dist) * boss.speed * target.speedScale;
+            boss.vy = (dy / dist) * boss.speed * target.speedScale;
+        } else {
+            boss.vx = 0;
+            boss.vy = 0;
+        }
+    },
+
+    updatePhase(state: SimState, boss: SimEnemy) {
+        const phase = bossPhaseForHealth(
+            boss.health / (state.boss.maxHealth || boss.maxHealth)
+        );
+        if (phase === state.boss.phase) return;
+        const previous = phaseOf(state);
+        state.boss.phase = phase;
+        state.boss.patternQueue = buildPhasePatternQueue(
+            phaseOf(state),
+            previous,
+            shuffleWith(state)
+        );
+        state.boss.patternCursor = 0;
+        state.boss.nextPatternAt = state.timeMs + 300;
+        this.scheduleSummon(state);
+        state.events.push({
+            tick: state.tick,
+            type: "bossPhaseChanged",
+            phase,
+        });
+    },
+
+    scheduleSummon(state: SimState) {
+        const interval = phaseOf(state).summonIntervalMs;
+        state.boss.nextSummonAt = interval ? state.timeMs + interval : 0;
+    },
+
+    nextPattern(state: SimState): string {
+        const boss = state.boss;
+        if (boss.patternQueue.length === 0) {
+            boss.patternQueue = shuffleWith(state)(phaseOf(state).patterns);
+            boss.patternCursor = 0;
+            if (boss.patternQueue.length === 0) return FALLBACK_BOSS_PATTERN;
+        }
+        const pattern =
+            boss.patternQueue[boss.patternCursor % boss.patternQueue.length];
+        boss.patternCursor++;
+        return pattern;
+    },
+};
@@ -0,0 +1,592 @@
+/**
+ * CombatSystem - Overlap checks, damage, on-hit and on-kill upgrades, deaths
+ * and XP collection
+ */
+
+import type { UpgradeManager } from "../../game/scenes/managers/UpgradeManager";
+import {
+    enemyXp,
+    guardsAgainstShots,
+} from "../../game/enemies/enemyRegistry";
+import {
+    COLOR_ACCENT,
+    COLOR_BARRIER,
+    COLOR_CHARGE,
+    COLOR_MINE,
+    COLOR_OVERLOAD,
+    COLOR_PULSE,
+    OBJECT_SCALE,
+} from "../../game/palette";
+import { getMiniBoss } from "../../config/miniBosses";
+import { bossKillWinsRun } from "../bossRushRules";
+import { canGoDown, downPilot, hullAfterDown } from "../reviveRules";
+import {
+    RADII,
+    burst,
+    isFlying,
+    randBetween,
+    randFloat,
+    rotate,
+    type SimBullet,
+    type SimEnemy,
+    type SimEnemyBullet,
+    type SimPilot,
+    type SimState,
+} from "../SimState";
+import { EnemySystem } from "./EnemySystem";
+import { ProjectileSystem } from "./ProjectileSystem";
+
+/** Damage an enemy deals by ramming a pilot, before the contact surcharge */
+const CONTACT_DAMAGE = 3;
+
+const overlaps = (
+    a: { x: number; y: number },
+    ar: number,
+    b: { x: number; y: number },
+    br: number
+) => {
+    const dx = a.x - b.x;
+    const dy = a.y - b.y;
+    const reach = ar + br;
+    return dx * dx + dy * dy <= reach * reach;
+};
+
+const isLive = (state: SimState, enemy: SimEnemy) =>
+    enemy.alive && state.timeMs >= enemy.activeAt;
+
+const isMine = (bullet: SimEnemyBullet) => bullet.armAt !== undefined;
+
+/** Mines stay dormant, neither hurting nor shootable, until they arm */
+const isDormantMine = (state: SimState, bullet: SimEnemyBullet) =>
+    bullet.armAt !== undefined && state.timeMs < bullet.armAt;
+
+/** Spends one pierce, or the shot itself once none is left */
+const spendPierce = (bullet: SimBullet) => {
+    if (bullet.pierce > 0) {
+        bullet.pierce -= 1;
+    } else {
+        bullet.alive = false;
+    }
+};
+
+export const CombatSystem = {
+    update(state: SimState, upgrades: UpgradeManager) {
+        this.blockAtBarriers(state);
+        this.resolveBulletHits(state, upgrades);
+        state.pilots.forEach((pilot) => {
+            if (state.outcome !== "running") return;
+            if (!isFlying(pilot)) return;
+            state.enemies.forEach((enemy) => {
+                if (!isLive(state, enemy)) return;
+                if (overlaps(pilot, RADII.player, enemy, enemy.radius)) {
+                    this.damagePilot(
+                        state,
+                        upgrades,
+                        pilot,
+                        CONTACT_DAMAGE,
+                        enemy
+                    );
+                }
+            });
+            state.enemyBullets.forEach((bullet) => {
+                if (!bullet.alive || isDormantMine(state, bullet)) return;
+                if (overlaps(pilot, RADII.player, bullet, bullet.radius)) {
+                    bullet.alive = false;
+                    if (isMine(bullet)) {
+                        burst(
+                            state,
+                            bullet.x,
+                            bullet.y,
+                            28 * OBJECT_SCALE,
+                            COLOR_MINE,
+                            0.6
+                        );
+                    }
+                    this.damagePilot(state, upgrades, pilot, bullet.damage);
+                }
+            });
+            state.pickups.forEach((pickup) => {
+                if (!pickup.alive) return;
+                if (overlaps(pilot, RADII.player, pickup, RADII.pickup)) {
+                    pickup.alive = false;
+                    this.collectXp(state, upgrades, pickup.value);
+                }
+            });
+        });
+        this.resolveIntercepts(state);
+    },
+
+    /** Shots that reach a shielder's barrier stop there */
+    blockAtBarriers(state: SimState) {
+        const guards = state.enemies.filter(
+            (enemy) => guardsAgainstShots(enemy.kind) && isLive(state, enemy)
+        );
+        if (guards.length === 0) return;
+        state.bullets.forEach((bullet) => {
+            if (!bullet.alive) return;
+            const blocked = guards.some((guard) =>
+                EnemySystem.blocksShot(guard, bullet.x, bullet.y)
+            );
+            if (!blocked) return;
+            bullet.alive = false;
+            burst(
+                state,
+                bullet.x,
+                bullet.y,
+                14 * OBJECT_SCALE,
+                COLOR_BARRIER,
+                0.7
+            );
+        });
+    },
+
+    resolveBulletHits(state: SimState, upgrades: UpgradeManager) {
+        state.bullets.forEach((bullet) => {
+            if (!bullet.alive) return;
+            for (const enemy of state.enemies) {
+                if (!isLive(state, enemy)) continue;
+                if (bullet.hitIds.includes(enemy.id)) continue;
+                if (!overlaps(bullet, bullet.radius, enemy, enemy.radius)) {
+                    continue;
+                }
+                bullet.hitIds.push(enemy.id);
+                this.damageEnemy(state, upgrades, enemy, bullet.damage);
+                this.fork(state, upgrades, bullet, enemy);
+                const explosive = upgrades.explosive;
+                if (explosive.stacks > 0 && explosive.radius > 0) {
+                    this.applyAoeDamage(
+                        state,
+                        upgrades,
+                        enemy.x,
+                        enemy.y,
+                        explosive.radius,
+                        bullet.damage * explosive.damageMultiplier
+                    );
+                    burst(
+                        state,
+                        enemy.x,
+                        enemy.y,
+                        explosive.radius,
+                        COLOR_OVERLOAD,
+                        0.8
+                    );
+                }
+                this.pullTowards(state, upgrades, enemy);
+                spendPierce(bullet);
+                if (!bullet.alive) break;
+            }
+        });
+    },
+
+    /** Any shot sets off an armed mine; only heavy shots stop bullets */
+    resolveIntercepts(state: SimState) {
+        state.bullets.forEach((bullet) => {
+            if (!bullet.alive) return;
+            for (const other of state.enemyBullets) {
+                if (!other.alive || isDormantMine(state, other)) continue;
+                const mine = isMine(other);
+                if (!mine && !bullet.heavy) continue;
+                if (!overlaps(bullet, bullet.radius, other, other.radius)) {
+                    continue;
+                }
+                other.alive = false;
+                spendPierce(bullet);
+                burst(
+                    state,
+                    bullet.x,
+                    bullet.y,
+                    (mine ? 28 : 18) * OBJECT_SCALE,
+                    mine ? COLOR_MINE : COLOR_OVERLOAD,
+                    0.6
+                );
+                if (!bullet.alive) break;
+            }
+        });
+    },
+
+    /** Split shots fork once on their first hit, fanning past the target */
+    fork(
+        state: SimState,
+        upgrades: UpgradeManager,
+        bullet: SimBullet,
+        enemy: SimEnemy
+    ) {
+        const split = upgrades.split;
+        if (!split.enabled || !bullet.canFork || bullet.source === "fork") {
+            return;
+        }
+        bullet.canFork = false;
+        const dist = Math.hypot(enemy.x - bullet.x, enemy.y - bullet.y) || 1;
+        const baseX = (enemy.x - bullet.x) / dist;
+        const baseY = (enemy.y - bullet.y) / dist;
+        const spread = Math.max((split.spreadDegrees * Math.PI) / 180, 0.01);
+        const step = split.forks > 1 ? spread / (split.forks - 1) : 0;
+        for (let i = 0; i < split.forks; i++) {
+            const dir = rotate(baseX, baseY, -spread / 2 + step * i);
+            ProjectileSystem.spawn(state, upgrades, {
+                x: bullet.x,
+                y: bullet.y,
+                dirX: dir.x,
+                dirY: dir.y,
+                damage: bullet.damage * split.damageMultiplier,
+                pierce: bullet.pierce,
+                bounce: bullet.bounces,
+                source: "fork",
+            });
+        }
+    },
+
+    /** Singularity: a hit drags nearby enemies toward the target */
+    pullTowards(state: SimState, upgrades: UpgradeManager, target: SimEnemy) {
+        const singularity = upgrades.singularity;
+        if (!singularity.active) return;
+        const radius =
+            singularity.radius *
+            (upgrades.activeSynergies.has("black-hole-sun") ? 1.2 : 1);
+        state.enemies.forEach((enemy) => {
+            if (!enemy.alive || enemy === target) return;
+            const dx = target.x - enemy.x;
+            const dy = target.y - enemy.y;
+            const dist = Math.hypot(dx, dy);
+            if (dist <= 6 || dist > radius) return;
+            const pull = singularity.pullStrength * (1 - dist / radius);
+            enemy.vx += (dx / dist) * pull;
+            enemy.vy += (dy / dist) * pull;
+        });
+        burst(state, target.x, target.y, radius * 0.5, COLOR_CHARGE, 0.45);
+    },
+
+    applyAoeDamage(
+        state: SimState,
+        upgrades: UpgradeManager,
+        x: number,
+        y: number,
+        radius: number,
+        damage: number,
+        volatile = false
+    ) {
+        state.enemies.forEach((enemy) => {
+            if (!enemy.alive) return;
+            if (Math.hypot(enemy.x - x, enemy.y - y) <= radius + 2) {
+                this.damageEnemy(state, upgrades, enemy, damage, volatile);
+            }
+        });
+    },
+
+    /** `volatile` marks chain reaction blasts, which never set off another */
+    damageEnemy(
+        state: SimState,
+        upgrades: UpgradeManager,
+        enemy: SimEnemy,
+        damage: number,
+        volatile = false
+    ) {
+        if (!enemy.alive) return;
+        let resolved = damage;
+        enemy.lastHitCrit = false;
+        if (state.rng.next() < state.stats.critChance) {
+            enemy.lastHitCrit = true;
+            resolved *= state.stats.critMultiplier;
+        }
+        resolved *= state.enemyDamageTakenMultiplier;
+        enemy.health -= resolved;
+        state.effects.push({
+            type: "enemyHit",
+            enemyId: enemy.id,
+            crit: enemy.lastHitCrit,
+        });
+        if (enemy.health <= 0) {
+            this.killEnemy(state, upgrades, enemy, volatile);
+        }
+    },
+
+    killEnemy(
+        state: SimState,
+        upgrades: UpgradeManager,
+        enemy: SimEnemy,
+        volatile = false
+    ) {
+        enemy.alive = false;
+        this.spawnShrapnel(state, upgrades, enemy);
+
+        // Elite death blasts, splitters shedding minis and the like
+        EnemySystem.die(state, upgrades, enemy);
+        if (!volatile) this.chainReaction(state, upgrades, enemy);
+
+        state.enemiesDestroyed += 1;
+        state.pickups.push({
+            id: state.nextEntityId++,
+            x: enemy.x,
+            y: enemy.y,
+            vx: randBetween(state.rng, -40, 40),
+            vy: randBetween(state.rng, -40, 40),
+            value: enemyXp(enemy.kind),
+            magnetized: false,
+            alive: true,
+        });
+
+        if (upgrades.bloodFuel.stacks > 0) {
+            this.heal(
+                state,
+                upgrades,
+                state.stats.maxHealth * upgrades.bloodFuel.healPercent
+            );
+        }
+        state.effects.push({ type: "sfx", key: "enemyDown" });
+        this.tryChainArc(state, upgrades, enemy);
+        if (
+            upgrades.kinetic.stacks > 0 &&
+            state.timeMs >= upgrades.kinetic.nextReadyAt
+        ) {
+            upgrades.kinetic.nextReadyAt =
+                state.timeMs + upgrades.kinetic.cooldownMs;
+            this.heal(state, upgrades, upgrades.kinetic.healAmount);
+        }
+
+        if (enemy.kind === "boss") {
+            const wins = bossKillWinsRun(state.mode, state.waveIndex);
+            // A boss rush only counts as cleared once its last boss falls
+            state.bossCleared = wins || state.mode !== "bossRush";
+            state.boss.enemyId = null;
+            state.boss.defeatedAt = state.timeMs;
+            state.events.push({
+                tick: state.tick,
+                type: "bossDefeated",
+                bossId: state.boss.template.id,
+            });
+            if (wins) {
+                state.outcome = "victory";
+            }
+        }
+        const miniBoss = enemy.miniBossId
+            ? getMiniBoss(enemy.miniBossId)
+            : null;
+        if (miniBoss) {
+            state.pendingRarePicks += miniBoss.rareDrops;
+            state.effects.push({ type: "sfx", key: "bossPhaseChange" });
+            state.effects.push({
+                type: "shake",
+                durationMs: 200,
+                intensity: 0.006,
+            });
+            state.events.push({
+                tick: state.tick,
+                type: "miniBossDefeated",
+                miniBossId: miniBoss.id,
+            });
+        }
+    },
+
+    /** Shrapnel fans forward off every kill; crit kills add a slow burst */
+    spawnShrapnel(state: SimState, upgrades: UpgradeManager, enemy: SimEnemy) {
+        const shrapnel = upgrades.shrapnel;
+        if (
+            shrapnel.stacks > 0 &&
+            shrapnel.shards > 0 &&
+            shrapnel.damage > 0
+        ) {
+            for (let i = 0; i < shrapnel.shards; i++) {
+                const angle = randFloat(state.rng, -Math.PI / 3, Math.PI / 3);
+                ProjectileSystem.spawn(state, upgrades, {
+                    x: enemy.x,
+                    y: enemy.y,
+                    dirX: Math.cos(angle),
+                    dirY: Math.sin(angle),
+                    damage: shrapnel.damage,
+                    pierce: 0,
+                    bounce: 0,
+                    source: "shrapnel",
+                });
+            }
+        }
+        if (!enemy.lastHitCrit) return;
+        const damage = Math.max(1, state.stats.damage * 0.35);
+        for (let i = 0; i < 3; i++) {
+            const angle = randFloat(state.rng, 0, Math.PI * 2);
+            ProjectileSystem.spawn(state, upgrades, {
+                x: enemy.x,
+                y: enemy.y,
+                dirX: Math.cos(angle) * 0.65,
+                dirY: Math.sin(angle) * 0.65,
+                damage,
+                pierce: 0,
+                bounce: 0,
+                source: "crit-shrapnel",
+            });
+        }
+    },
+
+    /** Volatile: kills blast a share of the victim's max health around it */
+    chainReaction(state: SimState, upgrades: UpgradeManager, enemy: SimEnemy) {
+        const chain = upgrades.chainReaction;
+        if (chain.stacks <= 0 || enemy.kind === "boss") return;
+        const damage = enemy.maxHealth * chain.damagePercent;
+        if (damage <= 0) return;
+        const radius =
+            chain.radius *
+            (upgrades.activeSynergies.has("black-hole-sun") ? 1.25 : 1);
+        this.applyAoeDamage(
+            state,
+            upgrades,
+            enemy.x,
+            enemy.y,
+            radius,
+            damage,
+            true
+        );
+        burst(state, enemy.x, enemy.y, radius * 0.7, COLOR_OVERLOAD, 0.7);
+    },
+
+    tryChainArc(state: SimState, upgrades: UpgradeManager, origin: SimEnemy) {
+        const arc = upgrades.chainArc;
+        if (arc.stacks <= 0 || state.timeMs < arc.lastAt + arc.cooldownMs) {
+            return;
+        }
+        let target: SimEnemy | null = null;
+        let nearest = Number.MAX_VALUE;
+        for (const enemy of state.enemies) {
+            if (!enemy.alive || enemy === origin) continue;
+            const dist = Math.hypot(enemy.x - origin.x, enemy.y - origin.y);
+            if (dist < arc.range && dist < nearest) {
+                target = enemy;
+                nearest = dist;
+            }
+        }
+        if (!target) return;
+        arc.lastAt = state.timeMs;
+        state.effects.push({
+            type: "chainArc",
+            fromX: origin.x,
+            fromY: origin.y,
+            toX: target.x,
+            toY: target.y,
+        });
+        this.damageEnemy(
+            state,
+            upgrades,
+            target,
+            state.stats.damage * arc.damagePercent
+        );
+    },
+
+    damagePilot(
+        state: SimState,
+        upgrades: UpgradeManager,
+        pilot: SimPilot,
+        amount: number,
+        source?: SimEnemy
+    ) {
+        if (state.timeMs < pilot.invulnUntil) return;
+        if (!isFlying(pilot)) return;
+        const isContact = source !== undefined;
+        const contactMultiplier = isContact
+            ? upgrades.stabilizer.contactMultiplier
+            : 1;
+        const armor = Math.min(
+            Math.max(upgrades.plating.damageReduction, 0),
+            0.6
+        );
+        let remaining =
+            (isContact ? amount + 0.5 : amount) *
+            contactMultiplier *
+            (1 - armor);
+
+        if (pilot.shield.hp > 0 && state.timeMs <= pilot.shield.activeUntil) {
+            const absorbed = Math.min(pilot.shield.hp, remaining);
+            pilot.shield.hp -= absorbed;
+            remaining -= absorbed;
+            if (pilot.shield.hp <= 0) pilot.shield.activeUntil = 0;
+        }
+        if (remaining <= 0) return;
+
+        state.stats.health -= remaining;
+        state.events.push({
+            tick: state.tick,
+            type: "playerDamaged",
+            amount: remaining,
+        });
+        state.effects.push({
+            type: "pilotHit",
+            pilotId: pilot.id,
+            contact: isContact,
+        });
+        if (source) {
+            const dx = pilot.x - source.x;
+            const dy = pilot.y - source.y;
+            const dist = Math.hypot(dx, dy) || 1;
+            pilot.vx = (dx / dist) * 280;
+            pilot.vy = (dy / dist) * 280;
+            pilot.invulnUntil = state.timeMs + 500;
+            state.effects.push({ type: "sfx", key: "playerHit" });
+            burst(state, pilot.x, pilot.y, 36 * OBJECT_SCALE, COLOR_ACCENT, 0.9);
+        }
+        if (state.stats.health <= 0) {
+            this.breachHull(state, pilot);
+        }
+    },
+
+    /**
+     * The shared hull is empty. In co-op the pilot who took the hit goes down
+     * while a partner is still flying; otherwise the run is over.
+     */
+    breachHull(state: SimState, pilot: SimPilot) {
+        const pilotsUp = state.pilots.filter(isFlying).length;
+        if (!canGoDown(state.mode, pilotsUp)) {
+            state.outcome = "defeat";
+            return;
+        }
+        downPilot(pilot.life, state.timeMs);
+        pilot.vx = 0;
+        pilot.vy = 0;
+        pilot.shield.hp = 0;
+        pilot.shield.activeUntil = 0;
+        state.stats.health = hullAfterDown(state.stats.maxHealth);
+        burst(state, pilot.x, pilot.y, 40 * OBJECT_SCALE, 0xf14e4e, 0.9);
+        state.events.push({
+            tick: state.tick,
+            type: "pilotDowned",
+            pilotId: pilot.id,
+        });
+    },
+
+    heal(state: SimState, upgrades: UpgradeManager, amount: number) {
+        const stats = state.stats;
+        stats.health = Math.min(stats.maxHealth, stats.health + amount);
+        // Glass cannon caps the hull below whatever heals or upgrades allow
+        const cap = upgrades.glassCannonCap;
+        if (cap !== null) {
+            stats.maxHealth = Math.min(stats.maxHealth, cap);
+            stats.health = Math.min(stats.health, stats.maxHealth);
+        }
+    },
+
+    collectXp(state: SimState, upgrades: UpgradeManager, baseValue: number) {
+        const value = Math.round(baseValue * (state.affix?.xpMultiplier ?? 1));
+        state.effects.push({ type: "sfx", key: "xpPickup" });
+        const shield = upgrades.shield;
+        if (shield.stacks > 0 && state.timeMs >= shield.nextReadyAt) {
+            shield.nextReadyAt = state.timeMs + shield.cooldownMs;
+            state.pilots.forEach((pilot) => {
+                if (!isFlying(pilot)) return;
+                pilot.shield.activeUntil = state.timeMs + shield.durationMs;
+                pilot.shield.hp = shield.shieldHp;
+                pilot.shield.nextReadyAt = shield.nextReadyAt;
+                burst(
+                    state,
+                    pilot.x,
+                    pilot.y,
+                    30 * OBJECT_SCALE,
+                    COLOR_PULSE,
+                    0.9
+                );
+            });
+        }
+        state.xp += value;
+        while (state.xp >= state.nextXpThreshold) {
+            state.xp -= state.nextXpThreshold;
+            state.level += 1;
+            state.nextXpThreshold = Math.floor(state.nextXpThreshold * 1.2 + 6);
+            state.pendingLevelUps += 1;
+        }
+    },
+};
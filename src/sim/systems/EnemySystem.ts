@@ -0,0 +1,431 @@
+/**
+ * EnemySystem - Enemy spawning, steering and enemy fire
+ *
+ * Each enemy runs its kind's and elite behaviors' modules from the enemy
+ * registry; this system only hands them a body over the enemy's plain state
+ * and a context over the simulation. Visual and sound requests go out as
+ * effects for the renderer.
+ */
+
+import type { UpgradeManager } from "../../game/scenes/managers/UpgradeManager";
+import { getEnemyDefinition } from "../../config/enemies";
+import type {
+    EnemyBody,
+    EnemyCanvas,
+    EnemyContext,
+    EnemySetup,
+    EnemySpawnContext,
+} from "../../game/enemies/EnemyBehavior";
+import {
+    drawEnemyBehavior,
+    enemyBehaviorDied,
+    enemyBlocksShot,
+    initEnemyBehavior,
+    updateEnemyBehavior,
+} from "../../game/enemies/enemyRegistry";
+import {
+    MAX_MINES,
+    MINE_ARM_MS,
+    MINE_LIFETIME_MS,
+} from "../../game/enemies/kinds/minelayer";
+import type { EnemyKind, SpawnSide } from "../../models/types";
+import {
+    ARENA,
+    RADII,
+    SIM_DT,
+    SPAWN_CUE_MS,
+    burst,
+    clamp,
+    isFlying,
+    nearestPilot,
+    randBetween,
+    randFloat,
+    type SimEnemy,
+    type SimState,
+} from "../SimState";
+import { BossSystem } from "./BossSystem";
+import { CombatSystem } from "./CombatSystem";
+
+const SPAWN_MARGIN = 40;
+const SPAWN_MIN_SPACING = 60;
+const SPAWN_MAX_ATTEMPTS = 10;
+/** Velocity each of two touching enemies gets pushed apart by */
+const SEPARATION_IMPULSE = 40;
+
+/** The enemy as behavior modules see it; hooks map bodies back through it */
+interface SimEnemyBody extends EnemyBody {
+    enemy: SimEnemy;
+}
+
+const bodyOf = (enemy: SimEnemy): SimEnemyBody => ({
+    enemy,
+    get x() {
+        return enemy.x;
+    },
+    get y() {
+        return enemy.y;
+    },
+    setVelocity(vx: number, vy: number) {
+        enemy.vx = vx;
+        enemy.vy = vy;
+    },
+    setPosition(x: number, y: number) {
+        enemy.x = x;
+        enemy.y = y;
+    },
+});
+
+const spawnContext = (state: SimState): EnemySpawnContext => ({
+    getTime: () => state.timeMs,
+    getBounds: () => ARENA,
+    randFloat: (min, max) => randFloat(state.rng, min, max),
+    randBetween: (min, max) => randBetween(state.rng, min, max),
+    rngNext: () => state.rng.next(),
+});
+
+function blankEnemy(state: SimState, setup: EnemySetup): SimEnemy {
+    return {
+        id: state.nextEntityId++,
+        kind: setup.kind,
+        elite: setup.elite,
+        x: 0,
+        y: 0,
+        vx: 0,
+        vy: 0,
+        radius: RADII.enemy,
+        health: 1,
+        maxHealth: 1,
+        speed: 0,
+        damage: setup.damage,
+        activeAt: state.timeMs,
+        alive: true,
+        behavior: initEnemyBehavior(setup, spawnContext(state)),
+        lastHitCrit: false,
+        miniBossId: null,
+        nextPatternAt: 0,
+        patternCursor: 0,
+    };
+}
+
+function pickPerimeterSpawn(state: SimState, side?: SpawnSide) {
+    const rng = state.rng;
+    let candidate = { x: ARENA.left, y: ARENA.top };
+    for (let attempt = 0; attempt < SPAWN_MAX_ATTEMPTS; attempt++) {
+        const edges = [
+            {
+                x: randBetween(rng, ARENA.left, ARENA.right),
+                y: ARENA.top + SPAWN_MARGIN,
+                side: "top",
+            },
+            {
+                x: randBetween(rng, ARENA.left, ARENA.right),
+                y: ARENA.bottom - SPAWN_MARGIN,
+                side: "bottom",
+            },
+            {
+                x: ARENA.left + SPAWN_MARGIN,
+                y: randBetween(rng, ARENA.top, ARENA.bottom),
+                side: "left",
+            },
+            {
+                x: ARENA.right - SPAWN_MARGIN,
+                y: randBetween(rng, ARENA.top, ARENA.bottom),
+                side: "right",
+            },
+        ];
+        candidate =
+            edges.find((edge) => edge.side === side) ??
+            edges[Math.floor(rng.next() * edges.length)];
+        const crowded = state.enemies.some(
+            (enemy) =>
+                enemy.alive &&
+                Math.hypot(enemy.x - candidate.x, enemy.y - candidate.y) <
+                    SPAWN_MIN_SPACING
+        );
+        if (!crowded) break;
+    }
+    return candidate;
+}
+
+export const EnemySystem = {
+    /** An enemy whose movement and attacks the boss phase runs */
+    createBoss(state: SimState, damage: number): SimEnemy {
+        return blankEnemy(state, {
+            kind: "boss",
+            elite: false,
+            eliteBehaviors: [],
+            damage,
+            fireCooldown: 0,
+            projectileSpeed: 0,
+            firstShotAt: 0,
+            mini: false,
+        });
+    },
+
+    /**
+     * Spawns at `at`, or on the perimeter (along `side`, if set). A splitter
+     * sheds `splitCount` minis instead of the usual two.
+     */
+    spawn(
+        state: SimState,
+        kind: EnemyKind,
+        elite?: boolean,
+        at?: { x: number; y: number },
+        side?: SpawnSide,
+        splitCount?: number
+    ) {
+        const affix = state.affix;
+        const stats = getEnemyDefinition(kind, elite);
+        const spawn = at ?? pickPerimeterSpawn(state, side);
+        const maxHealth =
+            stats.health *
+            (affix?.enemyHealthMultiplier ?? 1) *
+            state.enemyHealthScale;
+        const enemy = blankEnemy(state, {
+            kind,
+            elite: elite ?? false,
+            eliteBehaviors: stats.eliteBehaviors ?? [],
+            damage: stats.damage * (affix?.enemyDamageMultiplier ?? 1),
+            fireCooldown: stats.fireCooldown
+                ? stats.fireCooldown / state.difficulty
+                : 0,
+            projectileSpeed: stats.projectileSpeed
+                ? stats.projectileSpeed *
+                  state.difficulty *
+                  (affix?.enemyProjectileSpeedMultiplier ?? 1)
+                : 0,
+            firstShotAt: state.timeMs + randBetween(state.rng, 400, 1200),
+            mini: false,
+            splitCount,
+        });
+        enemy.x = spawn.x;
+        enemy.y = spawn.y;
+        enemy.health = maxHealth;
+        enemy.maxHealth = maxHealth;
+        enemy.speed =
+            stats.speed * state.difficulty * (affix?.enemySpeedMultiplier ?? 1);
+        enemy.activeAt = state.timeMs + SPAWN_CUE_MS;
+        state.enemies.push(enemy);
+        return enemy;
+    },
+
+    spawnMiniSplitter(state: SimState, x: number, y: number, elite: boolean) {
+        const affix = state.affix;
+        const stats = getEnemyDefinition("splitter", elite);
+        const enemy = blankEnemy(state, {
+            kind: "splitter",
+            elite,
+            eliteBehaviors: [],
+            damage: stats.damage * 0.5 * (affix?.enemyDamageMultiplier ?? 1),
+            fireCooldown: 0,
+            projectileSpeed: 0,
+            firstShotAt: 0,
+            mini: true,
+        });
+        const maxHealth =
+            stats.health *
+            0.4 *
+            (affix?.enemyHealthMultiplier ?? 1) *
+            state.enemyHealthScale;
+        enemy.x = x;
+        enemy.y = y;
+        enemy.radius = RADII.miniEnemy;
+        enemy.health = maxHealth;
+        enemy.maxHealth = maxHealth;
+        enemy.speed =
+            stats.speed *
+            1.3 *
+            state.difficulty *
+            (affix?.enemySpeedMultiplier ?? 1);
+        const angle = randFloat(state.rng, 0, Math.PI * 2);
+        enemy.vx = Math.cos(angle) * 150;
+        enemy.vy = Math.sin(angle) * 150;
+        state.enemies.push(enemy);
+    },
+
+    /** What behavior modules call on */
+    context(state: SimState, upgrades: UpgradeManager): EnemyContext {
+        return {
+            ...spawnContext(state),
+            spawnBurstVisual: (x, y, radius, color, alpha) =>
+                burst(state, x, y, radius, color, alpha),
+            fireBullet: (x, y, dirX, dirY, speed, heavy) =>
+                EnemySystem.fireBullet(state, x, y, dirX, dirY, speed, heavy),
+            damagePilotsNear: (source, radius, amount) =>
+                state.pilots.forEach((pilot) => {
+                    if (!isFlying(pilot)) return;
+                    const dist = Math.hypot(
+                        pilot.x - source.x,
+                        pilot.y - source.y
+                    );
+                    if (dist > radius) return;
+                    CombatSystem.damagePilot(state, upgrades, pilot, amount);
+                }),
+            shakeCamera: (durationMs, intensity) =>
+                state.effects.push({ type: "shake", durationMs, intensity }),
+            playSfx: (key) => state.effects.push({ type: "sfx", key }),
+            spawnMiniSplitter: (x, y, elite) =>
+                EnemySystem.spawnMiniSplitter(state, x, y, elite),
+            steerBoss: (boss) =>
+                BossSystem.move(state, (boss as SimEnemyBody).enemy),
+            layMine: (x, y) => EnemySystem.layMine(state, x, y),
+            healEnemiesNear: (source, radius, fraction) =>
+                EnemySystem.healNear(
+                    state,
+                    (source as SimEnemyBody).enemy,
+                    radius,
+                    fraction
+                ),
+        };
+    },
+
+    update(state: SimState, upgrades: UpgradeManager) {
+        const ctx = this.context(state, upgrades);
+        state.enemies.forEach((enemy) => {
+            if (!enemy.alive || state.timeMs < enemy.activeAt) return;
+            const pilot = nearestPilot(state, enemy.x, enemy.y);
+            if (pilot) {
+                updateEnemyBehavior(
+                    bodyOf(enemy),
+                    enemy.behavior,
+                    pilot.x,
+                    pilot.y,
+                    enemy.speed,
+                    ctx
+                );
+            }
+            enemy.x = clamp(
+                enemy.x + enemy.vx * SIM_DT,
+                ARENA.left,
+                ARENA.right
+            );
+            enemy.y = clamp(
+                enemy.y + enemy.vy * SIM_DT,
+                ARENA.top,
+                ARENA.bottom
+            );
+        });
+        this.separate(state);
+    },
+
+    /** Pushes touching enemies apart so clumps loosen; the boss holds still */
+    separate(state: SimState) {
+        const movable = state.enemies.filter(
+            (enemy) =>
+                enemy.alive &&
+                enemy.kind !== "boss" &&
+                state.timeMs >= enemy.activeAt
+        );
+        for (let i = 0; i < movable.length; i++) {
+            const a = movable[i];
+            for (let j = i + 1; j < movable.length; j++) {
+                const b = movable[j];
+                const dx = a.x - b.x;
+                const dy = a.y - b.y;
+                const dist = Math.hypot(dx, dy);
+                const reach = a.radius + b.radius;
+                if (dist === 0 || dist >= reach) continue;
+                const nx = dx / dist;
+                const ny = dy / dist;
+                const push = (reach - dist) / 2;
+                a.x += nx * push;
+                a.y += ny * push;
+                b.x -= nx * push;
+                b.y -= ny * push;
+                a.vx += nx * SEPARATION_IMPULSE;
+                a.vy += ny * SEPARATION_IMPULSE;
+                b.vx -= nx * SEPARATION_IMPULSE;
+                b.vy -= ny * SEPARATION_IMPULSE;
+            }
+        }
+    },
+
+    /** Runs the enemy's death hooks: blasts, splitting and the like */
+    die(state: SimState, upgrades: UpgradeManager, enemy: SimEnemy) {
+        enemyBehaviorDied(
+            bodyOf(enemy),
+            enemy.behavior,
+            this.context(state, upgrades)
+        );
+    },
+
+    /** Paints the enemy's telegraphs and auras; the renderer calls it */
+    draw(enemy: SimEnemy, canvas: EnemyCanvas, now: number) {
+        drawEnemyBehavior(bodyOf(enemy), enemy.behavior, canvas, now);
+    },
+
+    /** Whether a pilot's shot at (x, y) stops against the enemy's guard */
+    blocksShot(enemy: SimEnemy, x: number, y: number) {
+        return enemyBlocksShot(bodyOf(enemy), enemy.behavior, x, y);
+    },
+
+    layMine(state: SimState, x: number, y: number) {
+        const laid = state.enemyBullets.filter(
+            (bullet) => bullet.alive && bullet.armAt !== undefined
+        ).length;
+        if (laid >= MAX_MINES) return;
+        state.enemyBullets.push({
+            id: state.nextEntityId++,
+            x,
+            y,
+            vx: 0,
+            vy: 0,
+            radius: RADII.mine,
+            damage: 1,
+            alive: true,
+            armAt: state.timeMs + MINE_ARM_MS,
+            expireAt: state.timeMs + MINE_LIFETIME_MS,
+        });
+    },
+
+    /** Restores a share of max health to the other enemies in range */
+    healNear(
+        state: SimState,
+        source: SimEnemy,
+        radius: number,
+        fraction: number
+    ) {
+        let healed = 0;
+        state.enemies.forEach((enemy) => {
+            if (
+                !enemy.alive ||
+                enemy === source ||
+                enemy.kind === "boss" ||
+                enemy.miniBossId
+            ) {
+                return;
+            }
+            if (Math.hypot(enemy.x - source.x, enemy.y - source.y) > radius) {
+                return;
+            }
+            if (enemy.health >= enemy.maxHealth) return;
+            enemy.health = Math.min(
+                enemy.maxHealth,
+                enemy.health + enemy.maxHealth * fraction
+            );
+            healed += 1;
+        });
+        return healed;
+    },
+
+    fireBullet(
+        state: SimState,
+        x: number,
+        y: number,
+        dirX: number,
+        dirY: number,
+        speed: number,
+        heavy = false
+    ) {
+        state.enemyBullets.push({
+            id: state.nextEntityId++,
+            x,
+            y,
+            vx: dirX * speed,
+            vy: dirY * speed,
+            radius: RADII.enemyBullet * (heavy ? 1.4 : 1),
+            damage: heavy ? 2 : 1,
+            alive: true,
+        });
+    },
+};
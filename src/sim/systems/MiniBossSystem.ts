@@ -0,0 +1,70 @@
+/**
+ * MiniBossSystem - Named mini-boss spawns and their borrowed boss patterns
+ *
+ * A mini-boss is an elite of its base kind that EnemySystem steers and
+ * CombatSystem kills like any other; this system only scales it up and fires
+ * its pattern loop (see miniBossRules).
+ */
+
+import { getMiniBoss } from "../../config/miniBosses";
+import type { SpawnSide } from "../../models/types";
+import {
+    MINI_BOSS_FIRST_PATTERN_MS,
+    miniBossPattern,
+    miniBossPatternCooldown,
+    miniBossPhase,
+} from "../miniBossRules";
+import { RADII, type SimState } from "../SimState";
+import { BossSystem } from "./BossSystem";
+import { EnemySystem } from "./EnemySystem";
+
+export const MiniBossSystem = {
+    spawn(state: SimState, id: string, side?: SpawnSide) {
+        const miniBoss = getMiniBoss(id);
+        if (!miniBoss) return null;
+        const enemy = EnemySystem.spawn(
+            state,
+            miniBoss.kind,
+            true,
+            undefined,
+            side,
+            miniBoss.splitCount
+        );
+        enemy.health *= miniBoss.healthMultiplier;
+        enemy.maxHealth *= miniBoss.healthMultiplier;
+        enemy.radius = RADII.enemy * miniBoss.scale;
+        enemy.miniBossId = miniBoss.id;
+        enemy.nextPatternAt =
+            enemy.activeAt + MINI_BOSS_FIRST_PATTERN_MS / state.difficulty;
+        state.events.push({
+            tick: state.tick,
+            type: "miniBossSpawned",
+            miniBossId: miniBoss.id,
+        });
+        return enemy;
+    },
+
+    update(state: SimState) {
+        state.enemies.forEach((enemy) => {
+            if (!enemy.alive || !enemy.miniBossId) return;
+            if (state.timeMs < enemy.nextPatternAt) return;
+            const miniBoss = getMiniBoss(enemy.miniBossId);
+            if (!miniBoss) return;
+            const pattern = miniBossPattern(miniBoss, enemy.patternCursor++);
+            const cooldown = BossSystem.firePattern(state, pattern, {
+                x: enemy.x,
+                y: enemy.y,
+                phase: miniBossPhase(enemy.health, enemy.maxHealth),
+                speedScale: 1,
+            });
+            // Aimed patterns with nobody to aim at try again next tick
+            if (cooldown === null) {
+                enemy.patternCursor--;
+                return;
+            }
+            enemy.nextPatternAt =
+                state.timeMs +
+                miniBossPatternCooldown(cooldown, miniBoss, state.difficulty);
+        });
+    },
+};
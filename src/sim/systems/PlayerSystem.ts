@@ -0,0 +1,311 @@
+/**
+ * PlayerSystem - Pilot movement, dash, primary fire, capacitor charge and
+ * co-op revives
+ */
+
+import type { UpgradeManager } from "../../game/scenes/managers/UpgradeManager";
+import { COLOR_ACCENT, COLOR_PULSE, OBJECT_SCALE } from "../../game/palette";
+import type { PlayerInput } from "../../network/DeterministicSync";
+import {
+    ARENA,
+    RADII,
+    SIM_DT,
+    SIM_DT_MS,
+    burst,
+    clamp,
+    isFlying,
+    randFloat,
+    rotate,
+    type SimPilot,
+    type SimState,
+} from "../SimState";
+import {
+    REVIVE_RADIUS,
+    hullAfterRevive,
+    tickDownedPilot,
+    withinReviveRing,
+} from "../reviveRules";
+import { CombatSystem } from "./CombatSystem";
+import { ProjectileSystem } from "./ProjectileSystem";
+
+const PLAYER_DRAG = 0.95;
+const AFTERIMAGE_SPACING = 18;
+
+export const PlayerSystem = {
+    update(
+        state: SimState,
+        upgrades: UpgradeManager,
+        inputs: Partial<Record<SimPilot["id"], PlayerInput>>
+    ) {
+        state.pilots.forEach((pilot) => {
+            if (!isFlying(pilot)) return;
+            const input = inputs[pilot.id];
+            this.move(state, pilot, upgrades, input);
+            this.updateMomentum(pilot, upgrades);
+            this.updateCharge(pilot, upgrades, input?.fire === true);
+            const shield = pilot.shield;
+            if (shield.hp > 0 && state.timeMs > shield.activeUntil) {
+                shield.hp = 0;
+                shield.activeUntil = 0;
+            }
+            if (input?.fire) {
+                this.shoot(state, pilot, upgrades, input);
+            }
+        });
+        this.updateDowned(state);
+    },
+
+    updateDowned(state: SimState) {
+        state.pilots.forEach((pilot) => {
+            if (pilot.life.status !== "downed") return;
+            const rescuers = state.pilots.filter(
+                (other) =>
+                    isFlying(other) &&
+                    withinReviveRing(other.x - pilot.x, other.y - pilot.y)
+            ).length;
+            const result = tickDownedPilot(
+                pilot.life,
+                state.timeMs,
+                SIM_DT_MS,
+                rescuers
+            );
+            if (result === "revived") {
+                state.revives += 1;
+                state.stats.health = hullAfterRevive(
+                    state.stats.health,
+                    state.stats.maxHealth
+                );
+                pilot.invulnUntil = state.timeMs + 1000;
+                burst(state, pilot.x, pilot.y, REVIVE_RADIUS, COLOR_PULSE, 0.9);
+                state.events.push({
+                    tick: state.tick,
+                    type: "pilotRevived",
+                    pilotId: pilot.id,
+                });
+            } else if (result === "out") {
+                state.events.push({
+                    tick: state.tick,
+                    type: "pilotOut",
+                    pilotId: pilot.id,
+                });
+            }
+        });
+    },
+
+    move(
+        state: SimState,
+        pilot: SimPilot,
+        upgrades: UpgradeManager,
+        input: PlayerInput | undefined
+    ) {
+        const stats = state.stats;
+        let moveX = input?.moveX ?? 0;
+        let moveY = input?.moveY ?? 0;
+        const length = Math.hypot(moveX, moveY);
+        if (length > 1) {
+            moveX /= length;
+            moveY /= length;
+        }
+        if (input && Math.hypot(input.aimX, input.aimY) > 0.1) {
+            const aimLength = Math.hypot(input.aimX, input.aimY);
+            pilot.aimX = input.aimX / aimLength;
+            pilot.aimY = input.aimY / aimLength;
+        }
+
+        if (input?.dash && state.timeMs >= pilot.ability.nextDashAt) {
+            const dashX = length > 0 ? moveX : 1;
+            const dashY = length > 0 ? moveY : 0;
+            pilot.vx = dashX * stats.moveSpeed * 3;
+            pilot.vy = dashY * stats.moveSpeed * 3;
+            pilot.ability.activeUntil =
+                state.timeMs + pilot.ability.dashDurationMs;
+            pilot.ability.nextDashAt =
+                state.timeMs + pilot.ability.dashCooldownMs;
+            pilot.invulnUntil = Math.max(
+                pilot.invulnUntil,
+                pilot.ability.activeUntil
+            );
+            this.dashed(state, pilot, upgrades, dashX, dashY);
+        }
+
+        const dashing = state.timeMs < pilot.ability.activeUntil;
+        const maxSpeed = stats.moveSpeed * (dashing ? 2.2 : 1);
+        if (length > 0) {
+            pilot.vx += moveX * stats.moveSpeed * 5 * SIM_DT;
+            pilot.vy += moveY * stats.moveSpeed * 5 * SIM_DT;
+        } else {
+            // Arcade damping: keep 95% of velocity per second
+            const damping = Math.pow(PLAYER_DRAG, SIM_DT);
+            pilot.vx *= damping;
+            pilot.vy *= damping;
+        }
+        const speed = Math.hypot(pilot.vx, pilot.vy);
+        if (speed > maxSpeed) {
+            pilot.vx = (pilot.vx / speed) * maxSpeed;
+            pilot.vy = (pilot.vy / speed) * maxSpeed;
+        }
+
+        pilot.x = clamp(
+            pilot.x + pilot.vx * SIM_DT,
+            ARENA.left + RADII.player,
+            ARENA.right - RADII.player
+        );
+        pilot.y = clamp(
+            pilot.y + pilot.vy * SIM_DT,
+            ARENA.top + RADII.player,
+            ARENA.bottom - RADII.player
+        );
+    },
+
+    /** Dash trail, afterimage shots and dash sparks */
+    dashed(
+        state: SimState,
+        pilot: SimPilot,
+        upgrades: UpgradeManager,
+        dirX: number,
+        dirY: number
+    ) {
+        state.effects.push({ type: "dashTrail", x: pilot.x, y: pilot.y, dirX, dirY });
+        const afterimage = upgrades.afterimage;
+        for (let i = 1; i <= afterimage.trailShots; i++) {
+            ProjectileSystem.spawn(state, upgrades, {
+                x: pilot.x - dirX * AFTERIMAGE_SPACING * i,
+                y: pilot.y - dirY * AFTERIMAGE_SPACING * i,
+                dirX,
+                dirY,
+                damage: afterimage.shotDamage,
+                pierce: state.stats.pierce,
+                bounce: state.stats.bounce,
+                source: "afterimage",
+            });
+        }
+        const spark = upgrades.dashSpark;
+        if (spark.shards <= 0 || spark.damage <= 0) return;
+        for (let i = 0; i < spark.shards; i++) {
+            const angle =
+                (i / spark.shards) * Math.PI * 2 +
+                randFloat(state.rng, -0.15, 0.15);
+            const dir = rotate(dirX, dirY, angle);
+            ProjectileSystem.spawn(state, upgrades, {
+                x: pilot.x,
+                y: pilot.y,
+                dirX: dir.x,
+                dirY: dir.y,
+                damage: spark.damage,
+                pierce: 0,
+                bounce: 0,
+                source: "dash-spark",
+            });
+        }
+        burst(state, pilot.x, pilot.y, 34 * OBJECT_SCALE, COLOR_ACCENT, 0.8);
+    },
+
+    /** Holding fire fills the capacitor; the next shot out spends it */
+    updateCharge(pilot: SimPilot, upgrades: UpgradeManager, fireHeld: boolean) {
+        const capacitor = upgrades.capacitor;
+        if (capacitor.stacks === 0) return;
+        if (fireHeld) {
+            pilot.charge.holdMs = Math.min(
+                capacitor.idleMs,
+                pilot.charge.holdMs + SIM_DT_MS
+            );
+            if (pilot.charge.holdMs >= capacitor.idleMs) {
+                pilot.charge.ready = true;
+            }
+        } else {
+            pilot.charge.holdMs = 0;
+            pilot.charge.ready = false;
+        }
+    },
+
+    updateMomentum(pilot: SimPilot, upgrades: UpgradeManager) {
+        if (upgrades.momentum.stacks === 0) return;
+        const moving = Math.hypot(pilot.vx, pilot.vy) > 30;
+        pilot.momentum.timerMs = moving
+            ? Math.min(
+                  upgrades.momentum.timeToMaxMs,
+                  pilot.momentum.timerMs + SIM_DT_MS
+              )
+            : Math.max(0, pilot.momentum.timerMs - SIM_DT_MS * 0.8);
+        const ratio = clamp(
+            pilot.momentum.timerMs / upgrades.momentum.timeToMaxMs,
+            0,
+            1
+        );
+        pilot.momentum.bonus = upgrades.momentum.ramp * ratio;
+    },
+
+    berserkBonus(state: SimState, upgrades: UpgradeManager) {
+        if (upgrades.berserk.stacks <= 0) return 0;
+        const maxHealth = Math.max(state.stats.maxHealth, 1);
+        const missing = 1 - clamp(state.stats.health / maxHealth, 0, 1);
+        return clamp(
+            missing * upgrades.berserk.maxBonus,
+            0,
+            upgrades.berserk.maxBonus
+        );
+    },
+
+    shoot(
+        state: SimState,
+        pilot: SimPilot,
+        upgrades: UpgradeManager,
+        input: PlayerInput
+    ) {
+        const stats = state.stats;
+        const fireRate =
+            stats.fireRate *
+            (1 + pilot.momentum.bonus) *
+            (1 + this.berserkBonus(state, upgrades));
+        const cooldown = 1000 / fireRate;
+        if (state.timeMs < pilot.lastShotAt + cooldown) return;
+
+        if (upgrades.bloodFuel.stacks > 0) {
+            const cost = stats.health * upgrades.bloodFuel.fireCostPercent;
+            stats.health -= cost;
+            if (stats.health <= 0) {
+                CombatSystem.breachHull(state, pilot);
+                return;
+            }
+        }
+        pilot.lastShotAt = state.timeMs;
+        state.effects.push({ type: "sfx", key: "shoot" });
+
+        const capacitor = upgrades.capacitor;
+        const charged = capacitor.stacks > 0 && pilot.charge.ready;
+        if (charged) {
+            pilot.charge.ready = false;
+            pilot.charge.holdMs = 0;
+        }
+        const aimLength = Math.hypot(input.aimX, input.aimY);
+        const dirX = aimLength > 0.1 ? input.aimX / aimLength : pilot.aimX;
+        const dirY = aimLength > 0.1 ? input.aimY / aimLength : pilot.aimY;
+        const count = stats.projectiles;
+        const stepRad = (upgrades.spread.spreadDegrees * Math.PI) / 180;
+
+        for (let i = 0; i < count; i++) {
+            let offset = count <= 1 ? 0 : (i - (count - 1) / 2) * stepRad;
+            if (upgrades.bulletHell.active) {
+                const maxError = upgrades.bulletHell.inaccuracyRad;
+                offset += randFloat(state.rng, -maxError, maxError);
+            }
+            const dir = rotate(dirX, dirY, offset);
+            ProjectileSystem.spawn(state, upgrades, {
+                x: pilot.x,
+                y: pilot.y,
+                dirX: dir.x,
+                dirY: dir.y,
+                damage: stats.damage * (charged ? 1 + capacitor.damageBonus : 1),
+                pierce:
+                    stats.pierce + (charged ? capacitor.chargePierceBonus : 0),
+                bounce: stats.bounce,
+                source: "primary",
+                charged,
+                sizeMultiplier: charged ? 1 + capacitor.sizeBonus : 1,
+            });
+        }
+        if (charged) {
+            state.effects.push({ type: "muzzleFlash", x: pilot.x, y: pilot.y });
+        }
+    },
+};
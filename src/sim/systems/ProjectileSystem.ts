@@ -0,0 +1,229 @@
+/**
+ * ProjectileSystem - Pilot shots, bullet and XP pickup motion, homing, bounds
+ * and bounces
+ */
+
+import type { UpgradeManager } from "../../game/scenes/managers/UpgradeManager";
+import {
+    ARENA,
+    RADII,
+    SIM_DT,
+    clamp,
+    nearestPilot,
+    type SimBulletSource,
+    type SimState,
+} from "../SimState";
+
+/** A pilot shot before the run's upgrades shape it */
+export interface ShotConfig {
+    x: number;
+    y: number;
+    /** Unit aim, scaled down for slower shots */
+    dirX: number;
+    dirY: number;
+    damage: number;
+    pierce: number;
+    bounce: number;
+    source: SimBulletSource;
+    charged?: boolean;
+    sizeMultiplier?: number;
+}
+
+// Turns `current` toward `target` by at most `step`, the short way round
+const rotateTo = (current: number, target: number, step: number) => {
+    const diff = Math.abs(target - current);
+    if (diff <= step || diff >= Math.PI * 2 - step) return target;
+    let goal = target;
+    if (diff > Math.PI) {
+        goal += goal < current ? Math.PI * 2 : -Math.PI * 2;
+    }
+    return goal > current ? current + step : current - step;
+};
+
+const BOUNDS_MARGIN = 32;
+const XP_ATTRACT_RADIUS = 180;
+const XP_ATTRACT_MIN_SPEED = 320;
+const XP_ATTRACT_MAX_SPEED = 760;
+const XP_ATTRACT_LERP_RATE = 10;
+
+export const ProjectileSystem = {
+    /** Adds a pilot shot; neutron core, quantum and railgun apply here */
+    spawn(state: SimState, upgrades: UpgradeManager, shot: ShotConfig) {
+        const heavy = upgrades.neutronCore.active;
+        const speed =
+            state.stats.projectileSpeed *
+            (heavy ? upgrades.neutronCore.speedMultiplier : 1);
+        const charged = shot.charged === true;
+        const railgun = charged && upgrades.activeSynergies.has("railgun");
+        state.bullets.push({
+            id: state.nextEntityId++,
+            x: shot.x,
+            y: shot.y,
+            vx: shot.dirX * speed,
+            vy: shot.dirY * speed,
+            radius:
+                RADII.bullet *
+                upgrades.projectileScale *
+                (shot.sizeMultiplier ?? 1),
+            damage: shot.damage,
+            pierce: railgun ? 999 : shot.pierce,
+            bounces: shot.bounce,
+            heavy,
+            expireAt: upgrades.quantum.active
+                ? state.timeMs + upgrades.quantum.projectileLifetimeMs
+                : null,
+            hitIds: [],
+            alive: true,
+            charged,
+            canFork: true,
+            source: shot.source,
+        });
+    },
+
+    update(state: SimState, upgrades: UpgradeManager) {
+        this.steerHoming(state, upgrades);
+        const left = ARENA.left - BOUNDS_MARGIN;
+        const right = ARENA.right + BOUNDS_MARGIN;
+        const top = ARENA.top - BOUNDS_MARGIN;
+        const bottom = ARENA.bottom + BOUNDS_MARGIN;
+
+        state.bullets.forEach((bullet) => {
+            if (!bullet.alive) return;
+            bullet.x += bullet.vx * SIM_DT;
+            bullet.y += bullet.vy * SIM_DT;
+            if (bullet.expireAt !== null && state.timeMs > bullet.expireAt) {
+                bullet.alive = false;
+                return;
+            }
+            if (upgrades.quantum.active) {
+                const wrap = upgrades.quantum.wrapMargin;
+                if (bullet.x < left) bullet.x = right - wrap;
+                else if (bullet.x > right) bullet.x = left + wrap;
+                if (bullet.y < top) bullet.y = bottom - wrap;
+                else if (bullet.y > bottom) bullet.y = top + wrap;
+                return;
+            }
+            let outOfBounds = false;
+            let bounced = false;
+            if (bullet.x < left || bullet.x > right) {
+                outOfBounds = true;
+                const inward = bullet.x < left ? 1 : -1;
+                bullet.x = clamp(bullet.x, left, right);
+                if (bullet.bounces > 0) {
+                    bullet.vx = inward * Math.abs(bullet.vx);
+                    bullet.bounces -= 1;
+                    bounced = true;
+                }
+            }
+            if (bullet.y < top || bullet.y > bottom) {
+                outOfBounds = true;
+                const inward = bullet.y < top ? 1 : -1;
+                bullet.y = clamp(bullet.y, top, bottom);
+                if (bullet.bounces > 0) {
+                    bullet.vy = inward * Math.abs(bullet.vy);
+                    bullet.bounces -= 1;
+                    bounced = true;
+                }
+            }
+            if (outOfBounds && !bounced) {
+                bullet.alive = false;
+            }
+        });
+
+        state.enemyBullets.forEach((bullet) => {
+            if (!bullet.alive) return;
+            if (
+                bullet.expireAt !== undefined &&
+                state.timeMs > bullet.expireAt
+            ) {
+                bullet.alive = false;
+                return;
+            }
+            bullet.x += bullet.vx * SIM_DT;
+            bullet.y += bullet.vy * SIM_DT;
+            if (
+                bullet.x < left ||
+                bullet.x > right ||
+                bullet.y < top ||
+                bullet.y > bottom
+            ) {
+                bullet.alive = false;
+            }
+        });
+
+        this.attractPickups(state, upgrades);
+    },
+
+    /** Bends every shot toward the nearest live enemy within homing range */
+    steerHoming(state: SimState, upgrades: UpgradeManager) {
+        const homing = upgrades.homing;
+        const maxTurn = homing.turnRate * SIM_DT;
+        if (homing.stacks <= 0 || maxTurn <= 0 || homing.range <= 0) return;
+        const targets = state.enemies.filter(
+            (enemy) => enemy.alive && state.timeMs >= enemy.activeAt
+        );
+        if (targets.length === 0) return;
+        state.bullets.forEach((bullet) => {
+            if (!bullet.alive) return;
+            const speed = Math.hypot(bullet.vx, bullet.vy);
+            if (speed < 10) return;
+            let target: { x: number; y: number } | null = null;
+            let nearest = homing.range * homing.range;
+            for (const enemy of targets) {
+                const dx = enemy.x - bullet.x;
+                const dy = enemy.y - bullet.y;
+                if (dx * dx + dy * dy < nearest) {
+                    nearest = dx * dx + dy * dy;
+                    target = enemy;
+                }
+            }
+            if (!target) return;
+            const angle = rotateTo(
+                Math.atan2(bullet.vy, bullet.vx),
+                Math.atan2(target.y - bullet.y, target.x - bullet.x),
+                maxTurn
+            );
+            bullet.vx = Math.cos(angle) * speed;
+            bullet.vy = Math.sin(angle) * speed;
+        });
+    },
+
+    attractPickups(state: SimState, upgrades: UpgradeManager) {
+        const radius = XP_ATTRACT_RADIUS * upgrades.magnet.radiusMult;
+        const lerp = clamp(SIM_DT * XP_ATTRACT_LERP_RATE, 0, 1);
+        state.pickups.forEach((pickup) => {
+            if (!pickup.alive) return;
+            const pilot = nearestPilot(state, pickup.x, pickup.y);
+            if (pilot) {
+                const dx = pilot.x - pickup.x;
+                const dy = pilot.y - pickup.y;
+                const dist = Math.max(Math.hypot(dx, dy), 1);
+                if (dist <= radius) pickup.magnetized = true;
+                if (pickup.magnetized) {
+                    const proximity = clamp(
+                        1 - Math.min(dist, radius) / radius,
+                        0,
+                        1
+                    );
+                    const minSpeed =
+                        XP_ATTRACT_MIN_SPEED * upgrades.magnet.speedMult;
+                    const maxSpeed =
+                        XP_ATTRACT_MAX_SPEED * upgrades.magnet.speedMult;
+                    const speed = minSpeed + (maxSpeed - minSpeed) * proximity;
+                    pickup.vx += ((dx / dist) * speed - pickup.vx) * lerp;
+                    pickup.vy += ((dy / dist) * speed - pickup.vy) * lerp;
+                }
+            }
+            pickup.x = clamp(
+                pickup.x + pickup.vx * SIM_DT,
+                ARENA.left,
+                ARENA.right
+            );
+            pickup.y = clamp(
+                pickup.y + pickup.vy * SIM_DT,
+                ARENA.top,
+                ARENA.bottom
+            );
+        });
+    },
+};
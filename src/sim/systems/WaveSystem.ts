@@ -0,0 +1,145 @@
+/**
+ * WaveSystem - Wave starts, scripted groups, intermissions and wave-clear
+ * checks
+ *
+ * In a boss rush each "wave" is one boss rush stage.
+ */
+
+import { WAVES } from "../../config/waves";
+import type { WaveGroup } from "../../models/types";
+import {
+    BOSS_RUSH_DRAFT_PICKS,
+    BOSS_RUSH_SCALING_WAVE,
+    bossRushStageBoss,
+    hasNextBossRushStage,
+} from "../bossRushRules";
+import {
+    computeWaveScaling,
+    getWaveGroups,
+    randomizeWaveGroups,
+} from "../waveRules";
+import { clearedFraction, formationPoints, takeDueGroups } from "../waveScript";
+import { ARENA, SIM_DT_MS, type SimState } from "../SimState";
+import { BossSystem } from "./BossSystem";
+import { EnemySystem } from "./EnemySystem";
+import { MiniBossSystem } from "./MiniBossSystem";
+
+export const WAVE_INTERMISSION_MS = 3000;
+
+export const WaveSystem = {
+    startWave(state: SimState, index: number, unlockedUpgradeCount: number) {
+        const infiniteMode = state.mode === "infinite";
+        const bossRush = state.mode === "bossRush";
+        state.waveIndex = index;
+        state.pendingWaveIndex = null;
+        state.intermissionRemainingMs = 0;
+        const scalingIndex = bossRush ? BOSS_RUSH_SCALING_WAVE : index;
+        const scaling = computeWaveScaling(scalingIndex, {
+            infiniteMode,
+            baseDifficulty: state.baseDifficulty,
+            unlockedUpgradeCount,
+            modeEnemyCountMultiplier: state.modeEnemyCountMultiplier,
+        });
+        state.difficulty = scaling.speedAndFire;
+        state.enemyHealthScale = scaling.healthScale;
+        state.events.push({
+            tick: state.tick,
+            type: "waveStarted",
+            wave: index + 1,
+        });
+        if (bossRush) {
+            state.boss.template = bossRushStageBoss(index);
+            BossSystem.spawn(state);
+            state.nextWaveCheckAt = state.timeMs + 700;
+            return;
+        }
+        const groups = getWaveGroups(index, scaling, {
+            infiniteMode,
+            affix: state.affix,
+            rng: state.rng,
+        });
+        state.waveGroups = randomizeWaveGroups(groups, state.affix, state.rng);
+        state.waveStartedAt = state.timeMs;
+        state.waveSpawned = 0;
+        this.releaseGroups(state);
+        state.nextWaveCheckAt = state.timeMs + 700;
+    },
+
+    /** Spawns every waiting group whose trigger has come up */
+    releaseGroups(state: SimState) {
+        if (state.waveGroups.length === 0) return;
+        const alive = state.enemies.filter((enemy) => enemy.alive).length;
+        const { due, waiting } = takeDueGroups(
+            state.waveGroups,
+            state.timeMs - state.waveStartedAt,
+            clearedFraction(state.waveSpawned, alive)
+        );
+        state.waveGroups = waiting;
+        due.forEach((group) => this.spawnGroup(state, group));
+    },
+
+    spawnGroup(state: SimState, group: WaveGroup) {
+        const spawns = group.enemies.filter((spawn) => spawn.kind !== "boss");
+        if (spawns.length < group.enemies.length) BossSystem.spawn(state);
+        const miniBoss = group.miniBoss
+            ? MiniBossSystem.spawn(state, group.miniBoss, group.side)
+            : null;
+        if (miniBoss) state.waveSpawned += 1;
+        const total = spawns.reduce((sum, spawn) => sum + spawn.count, 0);
+        const formation = group.formation ?? "scatter";
+        const points =
+            formation === "scatter"
+                ? null
+                : formationPoints(
+                      formation,
+                      total,
+                      ARENA,
+                      state.rng,
+                      group.side
+                  );
+        let slot = 0;
+        spawns.forEach((spawn) => {
+            for (let i = 0; i < spawn.count; i++) {
+                EnemySystem.spawn(
+                    state,
+                    spawn.kind,
+                    spawn.elite,
+                    points?.[slot++],
+                    group.side
+                );
+            }
+        });
+        state.waveSpawned += total;
+    },
+
+    update(state: SimState, unlockedUpgradeCount: number) {
+        if (state.pendingWaveIndex !== null) {
+            state.intermissionRemainingMs = Math.max(
+                0,
+                state.intermissionRemainingMs - SIM_DT_MS
+            );
+            if (state.intermissionRemainingMs <= 0) {
+                this.startWave(
+                    state,
+                    state.pendingWaveIndex,
+                    unlockedUpgradeCount
+                );
+            }
+            return;
+        }
+        this.releaseGroups(state);
+        const cleared =
+            state.waveGroups.length === 0 &&
+            !state.enemies.some((enemy) => enemy.alive);
+        if (!cleared || state.timeMs <= state.nextWaveCheckAt) return;
+        const bossRush = state.mode === "bossRush";
+        const hasNextWave = bossRush
+            ? hasNextBossRushStage(state.waveIndex)
+            : state.mode === "infinite" || state.waveIndex < WAVES.length - 1;
+        if (hasNextWave) {
+            if (bossRush) state.pendingDraftPicks += BOSS_RUSH_DRAFT_PICKS;
+            state.pendingWaveIndex = state.waveIndex + 1;
+            state.intermissionRemainingMs = WAVE_INTERMISSION_MS;
+        }
+    },
+};
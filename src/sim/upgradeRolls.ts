@@ -0,0 +1,92 @@
+/**
+ * Level-up upgrade rolls for the simulation.
+ */
+
+import { UPGRADE_CATALOG, UPGRADE_RARITY_ODDS } from "../config/upgrades";
+import type {
+    CardCollection,
+    Rarity,
+    UpgradeDefinition,
+    WeeklyAffix,
+} from "../models/types";
+import type { Prng } from "../utils/seed";
+
+export interface UpgradeRollContext {
+    rng: Prng;
+    stacks: Record<string, number>;
+    cardCollection: Pick<CardCollection, "unlockedUpgrades" | "upgradeBoosts">;
+    affix: WeeklyAffix | null;
+    // Drops anything below this rarity, for guaranteed rare picks
+    minRarity?: Rarity;
+}
+
+const RARITY_RANK: Record<Rarity, number> = {
+    common: 0,
+    rare: 1,
+    legendary: 2,
+};
+
+export function rollUpgradeOptions(
+    ctx: UpgradeRollContext
+): UpgradeDefinition[] {
+    const sidecarStacks = ctx.stacks["sidecar"] ?? 0;
+    const { unlockedUpgrades, upgradeBoosts } = ctx.cardCollection;
+
+    const available = UPGRADE_CATALOG.filter((u) => {
+        // Only show unlocked upgrades
+        if (!unlockedUpgrades.includes(u.id)) return false;
+        if (
+            ctx.minRarity &&
+            RARITY_RANK[u.rarity] < RARITY_RANK[ctx.minRarity]
+        ) {
+            return false;
+        }
+
+        const stacks = ctx.stacks[u.id] ?? 0;
+        // Prism Spread only matters when Sidecar is active; hide it until then.
+        if (u.id === "prism-spread" && sidecarStacks === 0) return false;
+        return u.maxStacks ? stacks < u.maxStacks : true;
+    });
+    const picks: UpgradeDefinition[] = [];
+    const rareBonus = ctx.affix?.rareUpgradeBonus ?? 0;
+    const legendaryBonus = ctx.affix?.legendaryUpgradeBonus ?? 0;
+    const numChoices = ctx.affix?.upgradeChoices ?? 3;
+    const weightFor = (u: UpgradeDefinition) => {
+        let rarityBase: number;
+        if (u.rarity === "rare") {
+            rarityBase = UPGRADE_RARITY_ODDS.rare * (1 + rareBonus);
+        } else if (u.rarity === "legendary") {
+            rarityBase = UPGRADE_RARITY_ODDS.legendary * (1 + legendaryBonus);
+        } else {
+            rarityBase = UPGRADE_RARITY_ODDS[u.rarity] ?? 0;
+        }
+        // Apply boost from card collection (each boost level adds 20% weight)
+        const boostLevel = upgradeBoosts[u.id] ?? 0;
+        const boostMultiplier = 1 + boostLevel * 0.2;
+        return Math.max(0, (u.dropWeight ?? 1) * rarityBase * boostMultiplier);
+    };
+    const weightedPool = available
+        .map((u) => ({ def: u, weight: weightFor(u) }))
+        .filter((entry) => entry.weight > 0);
+
+    for (let i = 0; i < numChoices; i++) {
+        if (weightedPool.length === 0) break;
+        const totalWeight = weightedPool.reduce(
+            (sum, entry) => sum + entry.weight,
+            0
+        );
+        if (totalWeight <= 0) break;
+        let roll = ctx.rng.next() * totalWeight;
+        let pickedIndex = weightedPool.length - 1;
+        for (let idx = 0; idx < weightedPool.length; idx++) {
+            roll -= weightedPool[idx].weight;
+            if (roll <= 0) {
+                pickedIndex = idx;
+                break;
+            }
+        }
+        picks.push(weightedPool[pickedIndex].def);
+        weightedPool.splice(pickedIndex, 1);
+    }
+    return picks;
+}
@@ -0,0 +1,174 @@
+/**
+ * Infinite-mode wave generator for the simulation.
+ *
+ * Past the authored scripts, each wave is bought from a threat budget that
+ * grows with the wave's count scaling. The budget is split over a few groups,
+ * each with its own kinds, formation and trigger, and mini-boss waves hold
+ * part of it back for a named mini-boss leading a pack of elite heavies.
+ * Everything is drawn from the run's RNG, so call it in the same order on
+ * every peer.
+ */
+
+import { MINI_BOSSES, getMiniBoss } from "../config/miniBosses";
+import {
+    ENEMY_THREAT,
+    INFINITE_WAVE_RULES as RULES,
+    WAVES,
+    type WaveEnemyKind,
+} from "../config/waves";
+import type { EnemySpawn, WaveGroup, WeeklyAffix } from "../models/types";
+import type { Prng } from "../utils/seed";
+import type { WaveScaling } from "./waveRules";
+
+const WAVE_KINDS = Object.keys(ENEMY_THREAT) as WaveEnemyKind[];
+
+const pick = <T>(items: readonly T[], rng: Prng): T =>
+    items[rng.nextInt(items.length)];
+
+const between = (rng: Prng, [min, max]: [number, number]) =>
+    min + rng.next() * (max - min);
+
+/** Waves played past the last authored one; 0 while the scripts still run */
+export const infiniteOverflow = (index: number) =>
+    Math.max(0, index - (WAVES.length - 1));
+
+export const isMiniBossWave = (index: number) => {
+    const overflow = infiniteOverflow(index);
+    return overflow > 0 && overflow % RULES.miniBossInterval === 0;
+};
+
+export const waveThreatBudget = (scaling: WaveScaling) =>
+    RULES.baseBudget * scaling.countScale;
+
+export const spawnThreat = (spawn: EnemySpawn) =>
+    spawn.kind === "boss"
+        ? 0
+        : ENEMY_THREAT[spawn.kind] *
+          spawn.count *
+          (spawn.elite ? RULES.eliteCostMultiplier : 1);
+
+export const groupThreat = (group: WaveGroup) =>
+    group.enemies.reduce((sum, spawn) => sum + spawnThreat(spawn), 0) +
+    (group.miniBoss ? getMiniBoss(group.miniBoss)?.threat ?? 0 : 0);
+
+export const generatedEliteChance = (
+    index: number,
+    affix: WeeklyAffix | null
+) =>
+    Math.min(
+        RULES.maxEliteChance,
+        RULES.baseEliteChance +
+            infiniteOverflow(index) * RULES.eliteChancePerWave +
+            (affix?.eliteChanceBonus ?? 0)
+    );
+
+/** Up to `maxKindsPerGroup` distinct kinds the share can afford */
+function pickGroupKinds(share: number, rng: Prng): WaveEnemyKind[] {
+    const affordable = WAVE_KINDS.filter(
+        (kind) => ENEMY_THREAT[kind] <= share
+    );
+    const pool = affordable.length > 0 ? affordable : ["drifter" as const];
+    const wanted = 1 + rng.nextInt(RULES.maxKindsPerGroup);
+    const kinds: WaveEnemyKind[] = [];
+    while (kinds.length < Math.min(wanted, pool.length)) {
+        const kind = pick(pool, rng);
+        if (!kinds.includes(kind)) kinds.push(kind);
+    }
+    return kinds;
+}
+
+/** Spends a share of the budget one enemy at a time; buys at least one */
+function buySpawns(
+    share: number,
+    kinds: WaveEnemyKind[],
+    eliteChance: number,
+    rng: Prng
+): EnemySpawn[] {
+    const bought = new Map<string, EnemySpawn>();
+    let left = share;
+    for (;;) {
+        const affordable = kinds.filter(
+            (kind) => ENEMY_THREAT[kind] <= left
+        );
+        if (affordable.length === 0) break;
+        const kind = pick(affordable, rng);
+        const eliteCost = ENEMY_THREAT[kind] * RULES.eliteCostMultiplier;
+        const elite = eliteCost <= left && rng.next() < eliteChance;
+        left -= elite ? eliteCost : ENEMY_THREAT[kind];
+        const key = `${kind}:${elite}`;
+        const spawn = bought.get(key);
+        if (spawn) spawn.count++;
+        else bought.set(key, { kind, count: 1, elite });
+    }
+    if (bought.size === 0) {
+        return [{ kind: kinds[0], count: 1, elite: false }];
+    }
+    return [...bought.values()];
+}
+
+function pickTrigger(rng: Prng): Pick<WaveGroup, "delayMs" | "afterCleared"> {
+    if (rng.next() < 0.5) {
+        return {
+            delayMs: Math.round(between(rng, RULES.delayRangeMs) / 500) * 500,
+        };
+    }
+    return {
+        afterCleared: Math.round(between(rng, RULES.clearedRange) * 10) / 10,
+    };
+}
+
+/**
+ * The mini-boss a wave closes on, with whatever elite heavies the rest of
+ * the share buys and a healer keeping them up
+ */
+function buildMiniBossGroup(share: number, rng: Prng): WaveGroup {
+    const miniBoss = pick(MINI_BOSSES, rng);
+    const kind = pick(RULES.miniBossKinds, rng);
+    const escortCost = ENEMY_THREAT[RULES.miniBossEscort];
+    const eliteCost = ENEMY_THREAT[kind] * RULES.eliteCostMultiplier;
+    const count = Math.max(
+        0,
+        Math.floor((share - miniBoss.threat - escortCost) / eliteCost)
+    );
+    return {
+        enemies: [
+            ...(count > 0 ? [{ kind, count, elite: true }] : []),
+            { kind: RULES.miniBossEscort, count: 1, elite: false },
+        ],
+        miniBoss: miniBoss.id,
+        formation: "ring",
+        afterCleared: RULES.miniBossAfterCleared,
+    };
+}
+
+export function generateWaveGroups(
+    index: number,
+    scaling: WaveScaling,
+    ctx: { affix: WeeklyAffix | null; rng: Prng }
+): WaveGroup[] {
+    const { rng } = ctx;
+    const eliteChance = generatedEliteChance(index, ctx.affix);
+    let budget = waveThreatBudget(scaling);
+
+    let miniBoss: WaveGroup | null = null;
+    if (isMiniBossWave(index)) {
+        miniBoss = buildMiniBossGroup(budget * RULES.miniBossShare, rng);
+        budget -= groupThreat(miniBoss);
+    }
+
+    const groupCount =
+        RULES.minGroups + rng.nextInt(RULES.maxGroups - RULES.minGroups + 1);
+    const share = Math.max(0, budget) / groupCount;
+    const groups: WaveGroup[] = [];
+    for (let i = 0; i < groupCount; i++) {
+        const kinds = pickGroupKinds(share, rng);
+        const formation = pick(RULES.formations, rng);
+        groups.push({
+            enemies: buySpawns(share, kinds, eliteChance, rng),
+            ...(formation === "scatter" ? {} : { formation }),
+            ...(i > 0 ? pickTrigger(rng) : {}),
+        });
+    }
+    if (miniBoss) groups.push(miniBoss);
+    return groups;
+}
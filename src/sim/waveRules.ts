@@ -0,0 +1,154 @@
+/**
+ * Wave rules for the simulation.
+ *
+ * These are the pure parts of wave progression: how hard a wave is, which
+ * groups of enemies it contains, and how spawn counts are randomized.
+ * Callers own the RNG, so a run consumes it in the same order every time.
+ */
+
+import { UPGRADE_CATALOG } from "../config/upgrades";
+import { WAVES } from "../config/waves";
+import type { EnemySpawn, WaveGroup, WeeklyAffix } from "../models/types";
+import type { Prng } from "../utils/seed";
+import { generateWaveGroups } from "./waveGenerator";
+
+export interface WaveScaling {
+    speedAndFire: number;
+    healthScale: number;
+    countScale: number;
+}
+
+export interface WaveScalingContext {
+    infiniteMode: boolean;
+    baseDifficulty: number;
+    unlockedUpgradeCount: number;
+    modeEnemyCountMultiplier: number;
+}
+
+export function computeWaveScaling(
+    index: number,
+    ctx: WaveScalingContext
+): WaveScaling {
+    // Enhanced wave scaling with unlock-based difficulty progression
+    // New players start easier, difficulty scales with collection progress
+
+    const overflow =
+        ctx.infiniteMode && index >= WAVES.length
+            ? index - (WAVES.length - 1)
+            : 0;
+
+    // Calculate unlock-based difficulty modifier (0.85 to 1.15)
+    // More unlocks = harder game, but starts easier for new players
+    const totalUpgrades = UPGRADE_CATALOG.length;
+    const unlockProgress = ctx.unlockedUpgradeCount / totalUpgrades; // 0 to 1
+    // Start at 0.85x difficulty, scale up to 1.15x as you unlock everything
+    const unlockDifficultyMod = 0.85 + unlockProgress * 0.3;
+
+    // Progressive scaling for standard waves (0-9) - SOFTENED
+    let baseHealthMultiplier = 1;
+    let baseSpeedMultiplier = 1;
+    let baseCountMultiplier = 1;
+
+    if (index < WAVES.length) {
+        // Early waves (0-3): Very gentle scaling for new players
+        if (index <= 3) {
+            baseHealthMultiplier = 1 + index * 0.05; // 1.0, 1.05, 1.1, 1.15
+            baseSpeedMultiplier = 1 + index * 0.03; // 1.0, 1.03, 1.06, 1.09
+            baseCountMultiplier = 1;
+        }
+        // Mid-game waves (4-6): Moderate scaling
+        else if (index <= 6) {
+            const midProgress = (index - 4) / 2; // 0 to 1 over waves 4-6
+            baseHealthMultiplier = 1.15 + midProgress * 0.35; // 1.15 to 1.5
+            baseSpeedMultiplier = 1.09 + midProgress * 0.16; // 1.09 to 1.25
+            baseCountMultiplier = 1 + midProgress * 0.1; // 1.0 to 1.1
+        }
+        // Late waves (7-9): Challenging but fair scaling
+        else {
+            const lateProgress = (index - 7) / 2; // 0 to 1 over waves 7-9
+            baseHealthMultiplier = 1.5 + lateProgress * 0.4; // 1.5 to 1.9
+            baseSpeedMultiplier = 1.25 + lateProgress * 0.2; // 1.25 to 1.45
+            baseCountMultiplier = 1.1 + lateProgress * 0.15; // 1.1 to 1.25
+        }
+    }
+
+    // Apply base difficulty, unlock modifier, and infinite mode overflow scaling
+    const speedAndFire =
+        ctx.baseDifficulty *
+        baseSpeedMultiplier *
+        unlockDifficultyMod *
+        (overflow > 0 ? 1 + overflow * 0.2 : 1); // Reduced overflow scaling
+    const healthScale =
+        ctx.baseDifficulty *
+        baseHealthMultiplier *
+        unlockDifficultyMod *
+        (overflow > 0 ? 1.15 ** overflow : 1); // Reduced from 1.2
+    const countScale =
+        baseCountMultiplier *
+        (overflow > 0 ? 1 + overflow * 0.3 : 1) * // Reduced from 0.4
+        ctx.modeEnemyCountMultiplier;
+
+    return { speedAndFire, healthScale, countScale };
+}
+
+export function getWaveGroups(
+    index: number,
+    scaling: WaveScaling,
+    ctx: { infiniteMode: boolean; affix: WeeklyAffix | null; rng: Prng }
+): WaveGroup[] {
+    if (!ctx.infiniteMode && index >= WAVES.length) {
+        return WAVES[WAVES.length - 1]?.groups ?? [];
+    }
+
+    // Past the authored scripts, infinite mode builds each wave from a budget
+    if (index >= WAVES.length) {
+        return generateWaveGroups(index, scaling, ctx);
+    }
+
+    const scaleCount = (spawn: EnemySpawn) =>
+        Math.max(1, Math.round(spawn.count * scaling.countScale));
+
+    return WAVES[index].groups.map((group) => ({
+        ...group,
+        enemies: group.enemies.map((spawn) =>
+            spawn.kind === "boss"
+                ? spawn
+                : { ...spawn, count: scaleCount(spawn) }
+        ),
+    }));
+}
+
+/** Randomizes every group's spawns up front, in script order */
+export function randomizeWaveGroups(
+    groups: WaveGroup[],
+    affix: WeeklyAffix | null,
+    rng: Prng
+): WaveGroup[] {
+    return groups.map((group) => ({
+        ...group,
+        enemies: randomizeWaveSpawns(group.enemies, affix, rng),
+    }));
+}
+
+/** Jitter spawn counts by ±1 and roll elites, as each wave starts */
+export function randomizeWaveSpawns(
+    spawns: EnemySpawn[],
+    affix: WeeklyAffix | null,
+    rng: Prng
+): EnemySpawn[] {
+    const waveCountMult = affix?.waveEnemyCountMultiplier ?? 1;
+    const eliteBonus = affix?.eliteChanceBonus ?? 0;
+    return spawns.map((spawn) => {
+        if (spawn.kind === "boss") return spawn;
+        const delta = Math.floor(rng.next() * 3) - 1;
+        const baseCount = Math.max(1, spawn.count + delta);
+        const count = Math.round(baseCount * waveCountMult);
+        const baseEliteChance = 0.12;
+        const elite =
+            spawn.elite !== undefined
+                ? spawn.elite
+                : rng.next() < baseEliteChance + eliteBonus &&
+                  (spawn.kind === "watcher" || spawn.kind === "mass");
+        return { ...spawn, count, elite };
+    });
+}
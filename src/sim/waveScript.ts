@@ -0,0 +1,180 @@
+/**
+ * Wave script rules for the simulation.
+ *
+ * Decides when a wave's groups are due and where a formation puts each
+ * enemy. Scatter groups are left to the caller's perimeter spawn, which
+ * keeps them clear of enemies already on the field.
+ */
+
+import type { SpawnFormation, SpawnSide, WaveGroup } from "../models/types";
+import type { Prng } from "../utils/seed";
+
+export interface SpawnBounds {
+    left: number;
+    right: number;
+    top: number;
+    bottom: number;
+}
+
+export interface SpawnPoint {
+    x: number;
+    y: number;
+}
+
+export const SPAWN_SIDES: SpawnSide[] = ["top", "bottom", "left", "right"];
+
+/** Distance formations keep from the arena edge */
+const FORMATION_MARGIN = 40;
+/** Share of an edge a line spreads over */
+const LINE_SPREAD = 0.8;
+/** Share of an edge each half of a pincer bunches into */
+const PINCER_SPREAD = 0.3;
+const STACK_SPACING = 36;
+const STACK_COLUMNS = 3;
+
+const OPPOSITE_SIDE: Record<SpawnSide, SpawnSide> = {
+    top: "bottom",
+    bottom: "top",
+    left: "right",
+    right: "left",
+};
+
+/** Share of the enemies spawned so far that are gone; 1 before any spawn */
+export function clearedFraction(spawned: number, alive: number): number {
+    if (spawned <= 0) return 1;
+    return Math.min(1, Math.max(0, (spawned - alive) / spawned));
+}
+
+export function groupIsDue(
+    group: WaveGroup,
+    elapsedMs: number,
+    cleared: number
+): boolean {
+    return (
+        elapsedMs >= (group.delayMs ?? 0) &&
+        cleared >= (group.afterCleared ?? 0)
+    );
+}
+
+/** Splits waiting groups into those due now and those still waiting */
+export function takeDueGroups(
+    waiting: WaveGroup[],
+    elapsedMs: number,
+    cleared: number
+): { due: WaveGroup[]; waiting: WaveGroup[] } {
+    const due: WaveGroup[] = [];
+    const stillWaiting: WaveGroup[] = [];
+    waiting.forEach((group) =>
+        (groupIsDue(group, elapsedMs, cleared) ? due : stillWaiting).push(
+            group
+        )
+    );
+    return { due, waiting: stillWaiting };
+}
+
+export const pickSide = (side: SpawnSide | undefined, rng: Prng) =>
+    side ?? SPAWN_SIDES[Math.floor(rng.next() * SPAWN_SIDES.length)];
+
+/** Points spread evenly over the middle `spread` of an edge */
+function edgePoints(
+    side: SpawnSide,
+    count: number,
+    bounds: SpawnBounds,
+    spread: number
+): SpawnPoint[] {
+    const horizontal = side === "top" || side === "bottom";
+    const start = horizontal ? bounds.left : bounds.top;
+    const length = horizontal
+        ? bounds.right - bounds.left
+        : bounds.bottom - bounds.top;
+    const fixed =
+        side === "top"
+            ? bounds.top + FORMATION_MARGIN
+            : side === "bottom"
+              ? bounds.bottom - FORMATION_MARGIN
+              : side === "left"
+                ? bounds.left + FORMATION_MARGIN
+                : bounds.right - FORMATION_MARGIN;
+    const from = start + (length * (1 - spread)) / 2;
+    return Array.from({ length: count }, (_, i) => {
+        const along = from + (length * spread * (i + 0.5)) / count;
+        return horizontal ? { x: along, y: fixed } : { x: fixed, y: along };
+    });
+}
+
+/**
+ * Where each enemy of a formation spawns. Draws from the run's RNG, so call
+ * it in the same order on every peer.
+ */
+export function formationPoints(
+    formation: Exclude<SpawnFormation, "scatter">,
+    count: number,
+    bounds: SpawnBounds,
+    rng: Prng,
+    side?: SpawnSide
+): SpawnPoint[] {
+    switch (formation) {
+        case "ring": {
+            const cx = (bounds.left + bounds.right) / 2;
+            const cy = (bounds.top + bounds.bottom) / 2;
+            const width = bounds.right - bounds.left;
+            const height = bounds.bottom - bounds.top;
+            const radius = Math.min(width, height) / 2 - FORMATION_MARGIN;
+            const offset = rng.next() * Math.PI * 2;
+            return Array.from({ length: count }, (_, i) => {
+                const angle = offset + (Math.PI * 2 * i) / count;
+                return {
+                    x: cx + Math.cos(angle) * radius,
+                    y: cy + Math.sin(angle) * radius,
+                };
+            });
+        }
+        case "line":
+            return edgePoints(pickSide(side, rng), count, bounds, LINE_SPREAD);
+        case "pincer": {
+            const first = pickSide(side, rng);
+            const firstHalf = Math.ceil(count / 2);
+            return [
+                ...edgePoints(first, firstHalf, bounds, PINCER_SPREAD),
+                ...edgePoints(
+                    OPPOSITE_SIDE[first],
+                    count - firstHalf,
+                    bounds,
+                    PINCER_SPREAD
+                ),
+            ];
+        }
+        case "corner-stack": {
+            // The side picks the edge; which end of it is a coin flip
+            const edge = pickSide(side, rng);
+            const column =
+                edge === "top" || edge === "bottom"
+                    ? rng.next() < 0.5
+                        ? "left"
+                        : "right"
+                    : edge;
+            const row =
+                edge === "left" || edge === "right"
+                    ? rng.next() < 0.5
+                        ? "top"
+                        : "bottom"
+                    : edge;
+            const stepX = column === "left" ? 1 : -1;
+            const stepY = row === "top" ? 1 : -1;
+            const cornerX =
+                column === "left"
+                    ? bounds.left + FORMATION_MARGIN
+                    : bounds.right - FORMATION_MARGIN;
+            const cornerY =
+                row === "top"
+                    ? bounds.top + FORMATION_MARGIN
+                    : bounds.bottom - FORMATION_MARGIN;
+            return Array.from({ length: count }, (_, i) => ({
+                x: cornerX + (i % STACK_COLUMNS) * STACK_SPACING * stepX,
+                y:
+                    cornerY +
+                    Math.floor(i / STACK_COLUMNS) * STACK_SPACING * stepY,
+            }));
+        }
+    }
+}
@@ -6,11 +6,12 @@ import type {
     RunSummary,
     Settings,
 } from "../models/types";
+import { runAffixIds } from "../config/affixes";
 import { UPGRADE_CATALOG } from "../config/upgrades";
-import { LocalStorageAdapter } from "../persistence/LocalStorageAdapter";
+import { getDailySeed } from "../utils/seed";
 import type { MetaStatePayload } from "../persistence/PersistenceAdapter";
-
-const adapter = new LocalStorageAdapter();
+import { META_SCHEMA_VERSION } from "../persistence/metaMigrations";
+import { persistenceAdapter } from "../persistence/selectPersistenceAdapter";
 
 const defaultSettings: Settings = {
     masterVolume: 0.6,
@@ -72,10 +73,6 @@ function getDefaultCardCollection(): CardCollection {
     };
 }
 
-function getTodayDateString(): string {
-    return new Date().toISOString().split("T")[0];
-}
-
 type StreakUpdateResult = {
     stats: LifetimeStats;
     showPopup: boolean;
@@ -83,8 +80,11 @@ type StreakUpdateResult = {
     previousStreak: number;
 };
 
-function updateDailyStreak(stats: LifetimeStats): StreakUpdateResult {
-    const today = getTodayDateString();
+/** Called when a daily seed is played; `today` is that daily's date */
+function updateDailyStreak(
+    stats: LifetimeStats,
+    today: string
+): StreakUpdateResult {
     const lastPlayed = stats.lastPlayedDate;
 
     if (!lastPlayed) {
@@ -153,6 +153,8 @@ function accumulateStats(
 ): LifetimeStats {
     const isVictory = run.bossDefeated && run.mode !== "infinite";
     const mode = run.mode ?? "standard";
+    // Boss rush stages aren't waves, so they stay out of the wave records
+    const wavesRun = mode !== "bossRush";
     const totalUpgrades = run.upgrades.reduce((sum, u) => sum + u.stacks, 0);
 
     // Update win streak
@@ -186,17 +188,23 @@ function accumulateStats(
             bossKillCounts[run.bossId] = (bossKillCounts[run.bossId] ?? 0) + 1;
         }
     }
+    // Mini-bosses share the boss tallies under their own ids
+    Object.entries(run.miniBossEncounters ?? {}).forEach(([id, count]) => {
+        bossEncounterCounts[id] = (bossEncounterCounts[id] ?? 0) + count;
+    });
+    Object.entries(run.miniBossKills ?? {}).forEach(([id, count]) => {
+        bossKillCounts[id] = (bossKillCounts[id] ?? 0) + count;
+    });
 
     // Update affix counts
     const affixPlayCounts = { ...current.affixPlayCounts };
     const affixWinCounts = { ...current.affixWinCounts };
-    if (run.affixId) {
-        affixPlayCounts[run.affixId] = (affixPlayCounts[run.affixId] ?? 0) + 1;
+    runAffixIds(run).forEach((affixId) => {
+        affixPlayCounts[affixId] = (affixPlayCounts[affixId] ?? 0) + 1;
         if (isVictory) {
-            affixWinCounts[run.affixId] =
-                (affixWinCounts[run.affixId] ?? 0) + 1;
+            affixWinCounts[affixId] = (affixWinCounts[affixId] ?? 0) + 1;
         }
-    }
+    });
 
     // Update mode counts
     const modePlayCounts = { ...current.modePlayCounts };
@@ -212,7 +220,8 @@ function accumulateStats(
             current.totalPlaytimeSeconds + run.durationSeconds,
         totalEnemiesDestroyed:
             current.totalEnemiesDestroyed + run.enemiesDestroyed,
-        totalWavesCleared: current.totalWavesCleared + run.wavesCleared,
+        totalWavesCleared:
+            current.totalWavesCleared + (wavesRun ? run.wavesCleared : 0),
         totalBossesDefeated:
             current.totalBossesDefeated + (run.bossDefeated ? 1 : 0),
         totalVictories: current.totalVictories + (isVictory ? 1 : 0),
@@ -222,10 +231,13 @@ function accumulateStats(
         currentDailyStreak: current.currentDailyStreak,
         bestDailyStreak: current.bestDailyStreak,
         lastPlayedDate: current.lastPlayedDate,
-        highestWave: Math.max(run.wavesCleared, current.highestWave),
-        fastestVictorySeconds: isVictory
-            ? Math.min(run.durationSeconds, current.fastestVictorySeconds)
-            : current.fastestVictorySeconds,
+        highestWave: wavesRun
+            ? Math.max(run.wavesCleared, current.highestWave)
+            : current.highestWave,
+        fastestVictorySeconds:
+            isVictory && wavesRun
+                ? Math.min(run.durationSeconds, current.fastestVictorySeconds)
+                : current.fastestVictorySeconds,
         mostEnemiesInRun: Math.max(
             run.enemiesDestroyed,
             current.mostEnemiesInRun
@@ -242,6 +254,161 @@ function accumulateStats(
     };
 }
 
+/** Furthest wave first, then the fastest */
+const compareTopRuns = (a: RunSummary, b: RunSummary) => {
+    if (b.wavesCleared !== a.wavesCleared)
+        return b.wavesCleared - a.wavesCleared;
+    return a.durationSeconds - b.durationSeconds;
+};
+
+/** Full clears first, then the furthest boss reached, then the fastest */
+const compareBossRushRuns = (a: RunSummary, b: RunSummary) => {
+    if (a.bossDefeated !== b.bossDefeated) return a.bossDefeated ? -1 : 1;
+    if (b.wavesCleared !== a.wavesCleared)
+        return b.wavesCleared - a.wavesCleared;
+    return a.durationSeconds - b.durationSeconds;
+};
+
+const MAX_TOP_RUNS = 20;
+
+export type SaveImportMode = "merge" | "overwrite";
+
+const furtherRun = (a?: RunSummary, b?: RunSummary) =>
+    !a || (b && b.wavesCleared > a.wavesCleared) ? b : a;
+
+const mergeRunLists = (
+    a: RunSummary[] = [],
+    b: RunSummary[] = [],
+    compare: (x: RunSummary, y: RunSummary) => number
+) =>
+    [...a, ...b.filter((run) => !a.some((r) => r.runId === run.runId))]
+        .sort(compare)
+        .slice(0, MAX_TOP_RUNS);
+
+const mergeCounts = (
+    a: Record<string, number>,
+    b: Record<string, number>
+) => {
+    const merged = { ...a };
+    Object.entries(b).forEach(([id, count]) => {
+        merged[id] = Math.max(merged[id] ?? 0, count);
+    });
+    return merged;
+};
+
+function mergeLifetimeStats(a: LifetimeStats, b: LifetimeStats) {
+    const merged = { ...a };
+    (Object.keys(b) as (keyof LifetimeStats)[]).forEach((key) => {
+        const ours = a[key];
+        const theirs = b[key];
+        if (typeof ours === "number" && typeof theirs === "number") {
+            (merged[key] as number) = Math.max(ours, theirs);
+        } else if (
+            typeof ours === "object" &&
+            typeof theirs === "object" &&
+            ours &&
+            theirs
+        ) {
+            (merged[key] as Record<string, number>) = mergeCounts(
+                ours,
+                theirs
+            );
+        }
+    });
+    // A missing fastest time is saved as null (Infinity doesn't survive JSON)
+    const times = [a.fastestVictorySeconds, b.fastestVictorySeconds].filter(
+        (t) => Number.isFinite(t) && t > 0
+    );
+    merged.fastestVictorySeconds =
+        times.length > 0 ? Math.min(...times) : Infinity;
+    // The daily streak belongs to whichever device played most recently
+    const latest = b.lastPlayedDate > a.lastPlayedDate ? b : a;
+    merged.lastPlayedDate = latest.lastPlayedDate;
+    merged.currentDailyStreak = latest.currentDailyStreak;
+    return merged;
+}
+
+/**
+ * Combines progress from two devices. Counters and records take the larger
+ * side rather than summing, so importing a save that was exported from this
+ * one (or imported twice) doesn't double anything. Settings stay local.
+ */
+export function mergeMetaPayloads(
+    current: MetaStatePayload,
+    incoming: MetaStatePayload
+): MetaStatePayload {
+    const bestRunsBySeed = { ...current.bestRunsBySeed };
+    Object.entries(incoming.bestRunsBySeed ?? {}).forEach(([seedId, run]) => {
+        bestRunsBySeed[seedId] = furtherRun(bestRunsBySeed[seedId], run)!;
+    });
+    const cards = current.cardCollection ?? getDefaultCardCollection();
+    const incomingCards = incoming.cardCollection ?? getDefaultCardCollection();
+    return {
+        schemaVersion: META_SCHEMA_VERSION,
+        bestRun: furtherRun(current.bestRun, incoming.bestRun),
+        totalRuns: Math.max(current.totalRuns, incoming.totalRuns),
+        settings: current.settings,
+        bestRunsBySeed,
+        topRuns: mergeRunLists(
+            current.topRuns,
+            incoming.topRuns,
+            compareTopRuns
+        ),
+        bossRushTopRuns: mergeRunLists(
+            current.bossRushTopRuns,
+            incoming.bossRushTopRuns,
+            compareBossRushRuns
+        ),
+        lifetimeStats: mergeLifetimeStats(
+            { ...defaultLifetimeStats, ...current.lifetimeStats },
+            { ...defaultLifetimeStats, ...incoming.lifetimeStats }
+        ),
+        cardCollection: {
+            unlockedUpgrades: [
+                ...new Set([
+                    ...cards.unlockedUpgrades,
+                    ...incomingCards.unlockedUpgrades,
+                ]),
+            ],
+            upgradeBoosts: mergeCounts(
+                cards.upgradeBoosts,
+                incomingCards.upgradeBoosts
+            ),
+            totalCardsCollected: Math.max(
+                cards.totalCardsCollected,
+                incomingCards.totalCardsCollected
+            ),
+        },
+    };
+}
+
+/** Store fields rebuilt from a saved payload, filling gaps with defaults */
+function metaStateFromPayload(payload: MetaStatePayload | null) {
+    return {
+        ...(payload && {
+            bestRun: payload.bestRun
+                ? {
+                      ...payload.bestRun,
+                      seedId: payload.bestRun.seedId ?? "legacy",
+                  }
+                : undefined,
+            totalRuns: payload.totalRuns,
+        }),
+        settings: { ...defaultSettings, ...(payload?.settings ?? {}) },
+        bestRunsBySeed: payload?.bestRunsBySeed ?? {},
+        topRuns: payload?.topRuns ?? [],
+        bossRushTopRuns: payload?.bossRushTopRuns ?? [],
+        lifetimeStats: {
+            ...defaultLifetimeStats,
+            ...(payload?.lifetimeStats ?? {}),
+        },
+        cardCollection: {
+            ...getDefaultCardCollection(),
+            ...(payload?.cardCollection ?? {}),
+        },
+    };
+}
+
 interface MetaState {
     bestRun?: RunSummary;
     totalRuns: number;
@@ -249,6 +416,8 @@ interface MetaState {
     isHydrated: boolean;
     bestRunsBySeed: PerSeedBest;
     topRuns: RunSummary[];
+    // Boss rush runs rank on their own board and never enter the ones above
+    bossRushTopRuns: RunSummary[];
     lifetimeStats: LifetimeStats;
     cardCollection: CardCollection;
     // Pending card reward after boss defeat
@@ -270,6 +439,12 @@ interface MetaState {
     };
     actions: {
         hydrateFromPersistence: () => Promise<void>;
+        /** Everything a save export carries */
+        exportMeta: () => MetaStatePayload;
+        importMeta: (
+            payload: MetaStatePayload,
+            mode: SaveImportMode
+        ) => Promise<void>;
         recordRun: (summary: RunSummary) => Promise<void>;
         updateSettings: (patch: Partial<Settings>) => Promise<void>;
         dismissStreakPopup: () => void;
@@ -294,6 +469,7 @@ export const useMetaStore = create<MetaState>()((set, get) => ({
     isHydrated: false,
     bestRunsBySeed: {},
     topRuns: [],
+    bossRushTopRuns: [],
     lifetimeStats: defaultLifetimeStats,
     cardCollection: getDefaultCardCollection(),
     pendingCardReward: {
@@ -314,143 +490,122 @@ export const useMetaStore = create<MetaState>()((set, get) => ({
     },
     actions: {
         hydrateFromPersistence: async () => {
-            const payload = await adapter.loadMeta();
-            const settings = {
-                ...defaultSettings,
-                ...(payload?.settings ?? {}),
-            };
-            const bestRun = payload?.bestRun
-                ? {
-                      ...payload.bestRun,
-                      seedId: payload.bestRun.seedId ?? "legacy",
-                  }
-                : undefined;
-            const bestRunsBySeed = payload?.bestRunsBySeed ?? {};
-            const topRuns = payload?.topRuns ?? [];
-            const lifetimeStats = {
-                ...defaultLifetimeStats,
-                ...(payload?.lifetimeStats ?? {}),
-            };
-            const cardCollection = {
-                ...getDefaultCardCollection(),
-                ...(payload?.cardCollection ?? {}),
+            const payload = await persistenceAdapter.loadMeta();
+            set(() => ({ ...metaStateFromPayload(payload), isHydrated: true }));
+        },
+        exportMeta: () => {
+            const state = get();
+            return {
+                schemaVersion: META_SCHEMA_VERSION,
+                bestRun: state.bestRun,
+                totalRuns: state.totalRuns,
+                settings: state.settings,
+                bestRunsBySeed: state.bestRunsBySeed,
+                topRuns: state.topRuns,
+                bossRushTopRuns: state.bossRushTopRuns,
+                lifetimeStats: state.lifetimeStats,
+                cardCollection: state.cardCollection,
             };
-
-            // Update daily streak on load
-            const streakResult = updateDailyStreak(lifetimeStats);
-
-            if (!payload) {
-                set(() => ({
-                    isHydrated: true,
-                    settings,
-                    bestRunsBySeed,
-                    topRuns,
-                    lifetimeStats: streakResult.stats,
-                    cardCollection,
-                    streakPopup: {
-                        show: streakResult.showPopup,
-                        streak: streakResult.stats.currentDailyStreak,
-                        isNewStreak: streakResult.isNewStreak,
-                        previousStreak: streakResult.previousStreak,
-                    },
-                }));
-                return;
-            }
-            set(() => ({
-                bestRun,
-                totalRuns: payload.totalRuns,
-                settings,
-                isHydrated: true,
-                bestRunsBySeed,
-                topRuns,
-                lifetimeStats: streakResult.stats,
-                cardCollection,
-                streakPopup: {
-                    show: streakResult.showPopup,
-                    streak: streakResult.stats.currentDailyStreak,
-                    isNewStreak: streakResult.isNewStreak,
-                    previousStreak: streakResult.previousStreak,
-                },
-            }));
-
-            // Persist updated streak if it changed
-            if (streakResult.showPopup) {
-                const meta: MetaStatePayload = {
-                    schemaVersion: 1,
-                    bestRun,
-                    totalRuns: payload.totalRuns,
-                    settings,
-                    bestRunsBySeed,
-                    topRuns,
-                    lifetimeStats: streakResult.stats,
-                };
-                await adapter.saveMeta(meta);
-            }
+        },
+        importMeta: async (payload, mode) => {
+            const meta =
+                mode === "merge"
+                    ? mergeMetaPayloads(get().actions.exportMeta(), payload)
+                    : { ...payload, schemaVersion: META_SCHEMA_VERSION };
+            await persistenceAdapter.saveMeta(meta);
+            set(() => metaStateFromPayload(meta));
         },
         recordRun: async (summary) => {
             const state = get();
-            const bestRun =
-                !state.bestRun ||
-                summary.wavesCleared > state.bestRun.wavesCleared
-                    ? summary
-                    : state.bestRun;
-            const currentSeedBest = state.bestRunsBySeed[summary.seedId];
-            const betterSeedRun =
-                !currentSeedBest ||
-                summary.wavesCleared > currentSeedBest.wavesCleared
-                    ? summary
-                    : currentSeedBest;
-            const bestRunsBySeed = {
-                ...state.bestRunsBySeed,
-                [summary.seedId]: betterSeedRun,
-            };
-            const topRuns = [
-                ...state.topRuns.filter((r) => r.runId !== summary.runId),
-                summary,
-            ]
-                .sort((a, b) => {
-                    if (b.wavesCleared !== a.wavesCleared)
-                        return b.wavesCleared - a.wavesCleared;
-                    return a.durationSeconds - b.durationSeconds;
-                })
-                .slice(0, 20);
+            let { bestRun, bestRunsBySeed, topRuns, bossRushTopRuns } = state;
+            if (summary.mode === "bossRush") {
+                bossRushTopRuns = [
+                    ...bossRushTopRuns.filter((r) => r.runId !== summary.runId),
+                    summary,
+                ]
+                    .sort(compareBossRushRuns)
+                    .slice(0, MAX_TOP_RUNS);
+            } else {
+                bestRun =
+                    !bestRun || summary.wavesCleared > bestRun.wavesCleared
+                        ? summary
+                        : bestRun;
+                const currentSeedBest = bestRunsBySeed[summary.seedId];
+                const betterSeedRun =
+                    !currentSeedBest ||
+                    summary.wavesCleared > currentSeedBest.wavesCleared
+                        ? summary
+                        : currentSeedBest;
+                bestRunsBySeed = {
+                    ...bestRunsBySeed,
+                    [summary.seedId]: betterSeedRun,
+                };
+                topRuns = [
+                    ...topRuns.filter((r) => r.runId !== summary.runId),
+                    summary,
+                ]
+                    .sort(compareTopRuns)
+                    .slice(0, MAX_TOP_RUNS);
+            }
 
             // Accumulate lifetime stats
-            const lifetimeStats = accumulateStats(state.lifetimeStats, summary);
+            let lifetimeStats = accumulateStats(state.lifetimeStats, summary);
+
+            // Only a run on the daily seed of the day it started keeps the
+            // daily streak going
+            const daily = getDailySeed(
+                summary.timestamp - summary.durationSeconds * 1000
+            );
+            const streakResult =
+                summary.seedId === daily.seedId
+                    ? updateDailyStreak(lifetimeStats, daily.date)
+                    : null;
+            if (streakResult) lifetimeStats = streakResult.stats;
 
             const meta: MetaStatePayload = {
-                schemaVersion: 1,
+                schemaVersion: META_SCHEMA_VERSION,
                 bestRun,
                 totalRuns: state.totalRuns + 1,
                 settings: state.settings,
                 bestRunsBySeed,
                 topRuns,
+                bossRushTopRuns,
                 lifetimeStats,
                 cardCollection: state.cardCollection,
             };
-            await adapter.saveMeta(meta);
+            await persistenceAdapter.saveMeta(meta);
             set(() => ({
                 bestRun,
                 totalRuns: meta.totalRuns,
                 bestRunsBySeed,
                 topRuns,
+                bossRushTopRuns,
                 lifetimeStats,
+                ...(streakResult && {
+                    streakPopup: {
+                        show: streakResult.showPopup,
+                        streak: streakResult.stats.currentDailyStreak,
+                        isNewStreak: streakResult.isNewStreak,
+                        previousStreak: streakResult.previousStreak,
+                    },
+                }),
             }));
         },
         updateSettings: async (patch) => {
             const state = get();
             const settings = { ...state.settings, ...patch };
             const meta: MetaStatePayload = {
-                schemaVersion: 1,
+                schemaVersion: META_SCHEMA_VERSION,
                 bestRun: state.bestRun,
                 totalRuns: state.totalRuns,
                 settings,
                 bestRunsBySeed: state.bestRunsBySeed,
                 topRuns: state.topRuns,
+                bossRushTopRuns: state.bossRushTopRuns,
                 lifetimeStats: state.lifetimeStats,
                 cardCollection: state.cardCollection,
             };
-            await adapter.saveMeta(meta);
+            await persistenceAdapter.saveMeta(meta);
             set(() => ({ settings }));
         },
         dismissStreakPopup: () => {
@@ -574,16 +729,17 @@ export const useMetaStore = create<MetaState>()((set, get) => ({
             collection.totalCardsCollected += 1;
 
             const meta: MetaStatePayload = {
-                schemaVersion: 1,
+                schemaVersion: META_SCHEMA_VERSION,
                 bestRun: state.bestRun,
                 totalRuns: state.totalRuns,
                 settings: state.settings,
                 bestRunsBySeed: state.bestRunsBySeed,
                 topRuns: state.topRuns,
+                bossRushTopRuns: state.bossRushTopRuns,
                 lifetimeStats: state.lifetimeStats,
                 cardCollection: collection,
             };
-            await adapter.saveMeta(meta);
+            await persistenceAdapter.saveMeta(meta);
 
             set(() => ({
                 cardCollection: collection,
@@ -16,12 +16,24 @@ import type {
     PlayerInput,
     ProjectileSpawn,
     GameEvent,
-    CorrectionSnapshot,
+    RunTransfer,
+    UpgradePick,
+    PresenceChange,
 } from "../network/DeterministicSync";
+import type { PilotRoster } from "../network/PilotRoster";
+import { sessionTokenFor } from "../network/sessionToken";
+import type { PilotId, RunSetup } from "../models/types";
 
 // Re-export types for convenience
-export type { PlayerInput, ProjectileSpawn, GameEvent, CorrectionSnapshot };
-export type { ConnectionState, NetworkRole };
+export type {
+    PlayerInput,
+    ProjectileSpawn,
+    GameEvent,
+    RunTransfer,
+    UpgradePick,
+    PresenceChange,
+};
+export type { ConnectionState, NetworkRole, PilotRoster };
 
 // ============================================================================
 // LEGACY TYPES (for backward compatibility during migration)
@@ -29,24 +41,17 @@ export type { ConnectionState, NetworkRole };
 
 export type MultiplayerMode = "local" | "host" | "join";
 
+export interface PilotSyncState {
+    x: number;
+    y: number;
+    rotation: number;
+    health: number;
+    active: boolean;
+}
+
 // Legacy GameStateSync - kept for gradual migration
 export interface GameStateSync {
-    players: {
-        p1: {
-            x: number;
-            y: number;
-            rotation: number;
-            health: number;
-            active: boolean;
-        };
-        p2: {
-            x: number;
-            y: number;
-            rotation: number;
-            health: number;
-            active: boolean;
-        };
-    };
+    players: Partial<Record<PilotId, PilotSyncState>>;
     enemies: Array<{
         id: number;
         x: number;
@@ -96,16 +101,38 @@ interface MultiplayerState {
     connectionState: ConnectionState;
     roomCode: string | null;
     isHost: boolean;
+    /** Watching the room without a seat; sends nothing that affects play */
+    isSpectator: boolean;
     peerId: string | null;
     connectedPeers: string[];
+    /** Seat of every peer, as the host assigned them */
+    roster: PilotRoster;
+    localPilotId: PilotId | null;
+    hostPeerId: string | null;
+    /** Peers watching the room, as the host knows them */
+    spectators: string[];
+    /** Seated peers that dropped mid-run; their seats wait for a rejoin */
+    awayPeers: string[];
     gameStarted: boolean;
+    /** What the host built the run from; every peer builds the same */
+    runSetup: RunSetup | null;
+    /** Run to resume from after rejoining, until the scene picks it up */
+    resumeTransfer: RunTransfer | null;
 
     // Callbacks for game integration
     onGameStart: (() => void) | null;
-    onRemoteInput: ((input: PlayerInput) => void) | null;
+    onRemoteInput: ((input: PlayerInput, peerId: string) => void) | null;
     onProjectileSpawn: ((spawn: ProjectileSpawn) => void) | null;
     onGameEvent: ((event: GameEvent) => void) | null;
-    onCorrection: ((snapshot: CorrectionSnapshot) => void) | null;
+    onHostMigration: ((hostPeerId: string) => void) | null;
+    onRosterChange: ((roster: PilotRoster, awayPeers: string[]) => void) | null;
+    onPeerRejoin: ((peerId: string, pilotId: PilotId) => void) | null;
+    onSpectatorJoin: ((peerId: string) => void) | null;
+    onResyncRequest: ((peerId: string) => void) | null;
+    /** A run already under way here takes the host's after a reconnect */
+    onRunResync: ((transfer: RunTransfer) => void) | null;
+    onUpgradePick: ((pick: UpgradePick) => void) | null;
+    onPresenceChange: ((change: PresenceChange) => void) | null;
 
     // Legacy compatibility
     latestGameState: GameStateSync | null;
@@ -124,27 +151,55 @@ interface MultiplayerState {
     actions: {
         setMode: (mode: MultiplayerMode) => void;
         createRoom: () => Promise<string>;
-        joinRoom: (roomCode: string) => Promise<void>;
+        joinRoom: (roomCode: string, asSpectator?: boolean) => Promise<void>;
+        spectate: () => void;
         disconnect: () => void;
-        startGame: () => void;
+        startGame: (setup: RunSetup) => void;
 
         // New deterministic API
         sendInput: (input: PlayerInput) => void;
         sendProjectileSpawn: (spawn: ProjectileSpawn) => void;
         sendGameEvent: (event: GameEvent) => void;
-        sendCorrection: (snapshot: CorrectionSnapshot) => void;
+        sendRunTransfer: (peerId: string | null, transfer: RunTransfer) => void;
+        sendUpgradePick: (pick: UpgradePick) => void;
+        sendPresenceChange: (change: PresenceChange) => void;
+        requestResync: () => void;
+        takeResumeTransfer: () => RunTransfer | null;
 
         // Callbacks
         setOnGameStart: (callback: (() => void) | null) => void;
         setOnRemoteInput: (
-            callback: ((input: PlayerInput) => void) | null
+            callback: ((input: PlayerInput, peerId: string) => void) | null
         ) => void;
         setOnProjectileSpawn: (
             callback: ((spawn: ProjectileSpawn) => void) | null
         ) => void;
         setOnGameEvent: (callback: ((event: GameEvent) => void) | null) => void;
-        setOnCorrection: (
-            callback: ((snapshot: CorrectionSnapshot) => void) | null
+        setOnHostMigration: (
+            callback: ((hostPeerId: string) => void) | null
+        ) => void;
+        setOnRosterChange: (
+            callback:
+                | ((roster: PilotRoster, awayPeers: string[]) => void)
+                | null
+        ) => void;
+        setOnPeerRejoin: (
+            callback: ((peerId: string, pilotId: PilotId) => void) | null
+        ) => void;
+        setOnSpectatorJoin: (
+            callback: ((peerId: string) => void) | null
+        ) => void;
+        setOnRunResync: (
+            callback: ((transfer: RunTransfer) => void) | null
+        ) => void;
+        setOnResyncRequest: (
+            callback: ((peerId: string) => void) | null
+        ) => void;
+        setOnUpgradePick: (
+            callback: ((pick: UpgradePick) => void) | null
+        ) => void;
+        setOnPresenceChange: (
+            callback: ((change: PresenceChange) => void) | null
         ) => void;
 
         // Legacy API (for gradual migration)
@@ -177,15 +232,30 @@ export const useMultiplayerStore = create<MultiplayerState>()((set, get) => ({
     connectionState: "disconnected",
     roomCode: null,
     isHost: false,
+    isSpectator: false,
     peerId: null,
     connectedPeers: [],
+    roster: {},
+    localPilotId: null,
+    hostPeerId: null,
+    spectators: [],
+    awayPeers: [],
     gameStarted: false,
+    runSetup: null,
+    resumeTransfer: null,
 
     onGameStart: null,
     onRemoteInput: null,
     onProjectileSpawn: null,
     onGameEvent: null,
-    onCorrection: null,
+    onHostMigration: null,
+    onRosterChange: null,
+    onPeerRejoin: null,
+    onSpectatorJoin: null,
+    onRunResync: null,
+    onResyncRequest: null,
+    onUpgradePick: null,
+    onPresenceChange: null,
 
     latestGameState: null,
     onGameStateUpdate: null,
@@ -216,13 +286,55 @@ export const useMultiplayerStore = create<MultiplayerState>()((set, get) => ({
                     });
                 },
                 onGameStart: () => {
-                    set({ gameStarted: true });
+                    set({ gameStarted: true, runSetup: nm.runSetup });
                     const { onGameStart } = get();
                     onGameStart?.();
                 },
-                onRemoteInput: (input) => {
+                onRosterChange: (roster) => {
+                    set({
+                        roster,
+                        localPilotId: nm.localPilotId,
+                        hostPeerId: nm.hostPeerId,
+                        spectators: nm.spectators,
+                        awayPeers: nm.awayPeers,
+                    });
+                    const { onRosterChange } = get();
+                    onRosterChange?.(roster, nm.awayPeers);
+                },
+                onPeerRejoin: (peerId, pilotId) => {
+                    const { onPeerRejoin } = get();
+                    onPeerRejoin?.(peerId, pilotId);
+                },
+                onSpectatorJoin: (peerId) => {
+                    const { onSpectatorJoin } = get();
+                    onSpectatorJoin?.(peerId);
+                },
+                onResyncRequest: (peerId) => {
+                    const { onResyncRequest } = get();
+                    onResyncRequest?.(peerId);
+                },
+                onRunTransfer: (transfer) => {
+                    const { gameStarted, onRunResync } = get();
+                    if (gameStarted && onRunResync) {
+                        onRunResync(transfer);
+                        return;
+                    }
+                    set({
+                        gameStarted: true,
+                        runSetup: nm.runSetup,
+                        resumeTransfer: transfer,
+                    });
+                    const { onGameStart } = get();
+                    onGameStart?.();
+                },
+                onHostChange: (hostPeerId) => {
+                    set({ hostPeerId, isHost: nm.isHost });
+                    const { onHostMigration } = get();
+                    onHostMigration?.(hostPeerId);
+                },
+                onRemoteInput: (input, peerId) => {
                     const { onRemoteInput } = get();
-                    onRemoteInput?.(input);
+                    onRemoteInput?.(input, peerId);
                 },
                 onProjectileSpawn: (spawn) => {
                     const { onProjectileSpawn } = get();
@@ -238,19 +350,26 @@ export const useMultiplayerStore = create<MultiplayerState>()((set, get) => ({
                         onGuestBullet?.(event.data as GuestBulletRequest);
                     }
                 },
-                onCorrection: (snapshot) => {
-                    const { onCorrection } = get();
-                    onCorrection?.(snapshot);
+                onUpgradePick: (pick) => {
+                    const { onUpgradePick } = get();
+                    onUpgradePick?.(pick);
+                },
+                onPresenceChange: (change) => {
+                    const { onPresenceChange } = get();
+                    onPresenceChange?.(change);
                 },
             });
 
             set({ connectionState: "connecting", isHost: true });
 
             try {
-                const roomCode = await nm.createRoom();
+                const roomCode = await nm.createRoom(sessionTokenFor);
                 set({
                     roomCode,
                     peerId: nm.peerId,
+                    roster: nm.roster,
+                    localPilotId: nm.localPilotId,
+                    hostPeerId: nm.hostPeerId,
                     connectionState: "connected",
                 });
                 return roomCode;
@@ -260,7 +379,7 @@ export const useMultiplayerStore = create<MultiplayerState>()((set, get) => ({
             }
         },
 
-        joinRoom: async (roomCode) => {
+        joinRoom: async (roomCode, asSpectator = false) => {
             const nm = getNetworkManager();
 
             // Set up callbacks
@@ -281,13 +400,55 @@ export const useMultiplayerStore = create<MultiplayerState>()((set, get) => ({
                     });
                 },
                 onGameStart: () => {
-                    set({ gameStarted: true });
+                    set({ gameStarted: true, runSetup: nm.runSetup });
                     const { onGameStart } = get();
                     onGameStart?.();
                 },
-                onRemoteInput: (input) => {
+                onRosterChange: (roster) => {
+                    set({
+                        roster,
+                        localPilotId: nm.localPilotId,
+                        hostPeerId: nm.hostPeerId,
+                        spectators: nm.spectators,
+                        awayPeers: nm.awayPeers,
+                    });
+                    const { onRosterChange } = get();
+                    onRosterChange?.(roster, nm.awayPeers);
+                },
+                onPeerRejoin: (peerId, pilotId) => {
+                    const { onPeerRejoin } = get();
+                    onPeerRejoin?.(peerId, pilotId);
+                },
+                onSpectatorJoin: (peerId) => {
+                    const { onSpectatorJoin } = get();
+                    onSpectatorJoin?.(peerId);
+                },
+                onResyncRequest: (peerId) => {
+                    const { onResyncRequest } = get();
+                    onResyncRequest?.(peerId);
+                },
+                onRunTransfer: (transfer) => {
+                    const { gameStarted, onRunResync } = get();
+                    if (gameStarted && onRunResync) {
+                        onRunResync(transfer);
+                        return;
+                    }
+                    set({
+                        gameStarted: true,
+                        runSetup: nm.runSetup,
+                        resumeTransfer: transfer,
+                    });
+                    const { onGameStart } = get();
+                    onGameStart?.();
+                },
+                onHostChange: (hostPeerId) => {
+                    set({ hostPeerId, isHost: nm.isHost });
+                    const { onHostMigration } = get();
+                    onHostMigration?.(hostPeerId);
+                },
+                onRemoteInput: (input, peerId) => {
                     const { onRemoteInput } = get();
-                    onRemoteInput?.(input);
+                    onRemoteInput?.(input, peerId);
                 },
                 onProjectileSpawn: (spawn) => {
                     const { onProjectileSpawn } = get();
@@ -297,16 +458,29 @@ export const useMultiplayerStore = create<MultiplayerState>()((set, get) => ({
                     const { onGameEvent } = get();
                     onGameEvent?.(event);
                 },
-                onCorrection: (snapshot) => {
-                    const { onCorrection } = get();
-                    onCorrection?.(snapshot);
+                onUpgradePick: (pick) => {
+                    const { onUpgradePick } = get();
+                    onUpgradePick?.(pick);
+                },
+                onPresenceChange: (change) => {
+                    const { onPresenceChange } = get();
+                    onPresenceChange?.(change);
                 },
             });
 
-            set({ connectionState: "connecting", isHost: false, roomCode });
+            set({
+                connectionState: "connecting",
+                isHost: false,
+                isSpectator: asSpectator,
+                roomCode,
+            });
 
             try {
-                await nm.joinRoom(roomCode);
+                await nm.joinRoom(
+                    roomCode,
+                    asSpectator ? "spectator" : "guest",
+                    asSpectator ? undefined : sessionTokenFor(roomCode)
+                );
                 set({
                     peerId: nm.peerId,
                     connectionState: "connected",
@@ -323,21 +497,34 @@ export const useMultiplayerStore = create<MultiplayerState>()((set, get) => ({
                 connectionState: "disconnected",
                 roomCode: null,
                 isHost: false,
+                isSpectator: false,
                 peerId: null,
                 connectedPeers: [],
+                roster: {},
+                localPilotId: null,
+                hostPeerId: null,
+                spectators: [],
+                awayPeers: [],
                 gameStarted: false,
+                runSetup: null,
+                resumeTransfer: null,
                 playerStates: {},
                 latestGameState: null,
             });
         },
 
-        startGame: () => {
+        spectate: () => {
+            getNetworkManager().spectate();
+            set({ isSpectator: true });
+        },
+
+        startGame: (setup) => {
             const nm = getNetworkManager();
             const { isHost } = get();
             if (isHost) {
-                nm.signalGameStart();
+                nm.signalGameStart(setup);
             }
-            set({ gameStarted: true });
+            set({ gameStarted: true, runSetup: setup });
         },
 
         // New deterministic API
@@ -356,9 +543,30 @@ export const useMultiplayerStore = create<MultiplayerState>()((set, get) => ({
             nm.sendGameEvent(event);
         },
 
-        sendCorrection: (snapshot) => {
+        sendRunTransfer: (peerId, transfer) => {
             const nm = getNetworkManager();
-            nm.sendCorrectionSnapshot(snapshot);
+            nm.sendRunTransfer(peerId, transfer);
+        },
+
+        sendUpgradePick: (pick) => {
+            const nm = getNetworkManager();
+            nm.sendUpgradePick(pick);
+        },
+
+        sendPresenceChange: (change) => {
+            const nm = getNetworkManager();
+            nm.sendPresenceChange(change);
+        },
+
+        requestResync: () => {
+            const nm = getNetworkManager();
+            nm.requestResync();
+        },
+
+        takeResumeTransfer: () => {
+            const { resumeTransfer } = get();
+            set({ resumeTransfer: null });
+            return resumeTransfer;
         },
 
         // Callback setters
@@ -367,7 +575,14 @@ export const useMultiplayerStore = create<MultiplayerState>()((set, get) => ({
         setOnProjectileSpawn: (callback) =>
             set({ onProjectileSpawn: callback }),
         setOnGameEvent: (callback) => set({ onGameEvent: callback }),
-        setOnCorrection: (callback) => set({ onCorrection: callback }),
+        setOnHostMigration: (callback) => set({ onHostMigration: callback }),
+        setOnRosterChange: (callback) => set({ onRosterChange: callback }),
+        setOnPeerRejoin: (callback) => set({ onPeerRejoin: callback }),
+        setOnSpectatorJoin: (callback) => set({ onSpectatorJoin: callback }),
+        setOnRunResync: (callback) => set({ onRunResync: callback }),
+        setOnResyncRequest: (callback) => set({ onResyncRequest: callback }),
+        setOnUpgradePick: (callback) => set({ onUpgradePick: callback }),
+        setOnPresenceChange: (callback) => set({ onPresenceChange: callback }),
 
         // Legacy API
         updatePlayerState: (playerId, state) => {
@@ -0,0 +1,66 @@
+import { create } from "zustand";
+import { isPlayableReplay } from "../game/replay/ReplayRecorder";
+import type { RunReplay } from "../models/types";
+import { persistenceAdapter } from "../persistence/selectPersistenceAdapter";
+import { useMetaStore } from "./useMetaStore";
+
+// Replays are large compared to the rest of the meta state, so only the most
+// recent few are kept, on top of those for runs on the leaderboards.
+export const MAX_STORED_REPLAYS = 5;
+
+/**
+ * Keeps every replay whose run is pinned, then the newest of the rest.
+ * `replays` is ordered newest first.
+ */
+export const retainReplays = (
+    replays: RunReplay[],
+    pinnedRunIds: ReadonlySet<string>
+): RunReplay[] => {
+    let unpinned = 0;
+    return replays.filter(
+        (replay) =>
+            pinnedRunIds.has(replay.runId) || unpinned++ < MAX_STORED_REPLAYS
+    );
+};
+
+const leaderboardRunIds = () => {
+    const { topRuns, bossRushTopRuns } = useMetaStore.getState();
+    return new Set([...topRuns, ...bossRushTopRuns].map((run) => run.runId));
+};
+
+interface ReplayState {
+    replays: RunReplay[];
+    isHydrated: boolean;
+    actions: {
+        hydrateFromPersistence: () => Promise<void>;
+        saveReplay: (replay: RunReplay) => Promise<void>;
+        getReplay: (runId: string) => RunReplay | undefined;
+    };
+}
+
+export const useReplayStore = create<ReplayState>()((set, get) => ({
+    replays: [],
+    isHydrated: false,
+    actions: {
+        hydrateFromPersistence: async () => {
+            // Not pruned here: the leaderboards may not be loaded yet. Replays
+            // this build can't play back are dropped with the next save.
+            const replays = (await persistenceAdapter.loadReplays()).filter(
+                isPlayableReplay
+            );
+            set({ replays, isHydrated: true });
+        },
+        saveReplay: async (replay) => {
+            const replays = retainReplays(
+                [
+                    replay,
+                    ...get().replays.filter((r) => r.runId !== replay.runId),
+                ],
+                leaderboardRunIds()
+            );
+            set({ replays });
+            await persistenceAdapter.saveReplays(replays);
+        },
+        getReplay: (runId) => get().replays.find((r) => r.runId === runId),
+    },
+}));
@@ -1,14 +1,32 @@
 import { create } from "zustand";
 import { WAVES } from "../config/waves";
-import type { RunMode, RunSummary, UpgradeInstance } from "../models/types";
+import type {
+	PilotId,
+	RunMode,
+	RunSummary,
+	UpgradeInstance,
+} from "../models/types";
 
 export type RunStatus = "idle" | "running" | "paused" | "ended";
 
+/** A seated pilot as the HUD lists it */
+export interface RunPilot {
+	id: PilotId;
+	label: string;
+	local: boolean;
+}
+
 interface RunState {
 	runId: string | null;
 	status: RunStatus;
 	mode: RunMode;
 	waveCap: number | null;
+	isReplay: boolean;
+	pilots: RunPilot[];
+	/** Watching an online run from a spectator seat */
+	spectating: boolean;
+	/** Pilot the spectator camera follows; null shows the whole field */
+	spectatorFocus: PilotId | null;
 	currentWave: number;
 	elapsedTime: number;
 	currentUpgrades: UpgradeInstance[];
@@ -26,15 +44,23 @@ interface RunState {
 	actions: {
 		startRun: (
 			seedId: string,
-			opts?: { mode?: RunMode; waveCap?: number | null },
+			opts?: {
+				mode?: RunMode;
+				waveCap?: number | null;
+				replay?: boolean;
+				pilots?: RunPilot[];
+				spectating?: boolean;
+			},
 		) => void;
 		endRun: (summary: RunSummary) => void;
 		setWave: (wave: number) => void;
 		addUpgrade: (upgrade: UpgradeInstance) => void;
 		unlockSynergy: (synergyId: string) => void;
 		setStatus: (status: RunStatus) => void;
+		cycleSpectatorFocus: () => void;
 		tick: (deltaSeconds: number) => void;
 		recordKill: () => void;
+		restoreProgress: (elapsedTime: number, enemiesDestroyed: number) => void;
 		setVitals: (health: number, maxHealth: number) => void;
 		setXp: (level: number, xp: number, xpThreshold: number) => void;
 		setWaveCountdown: (
@@ -50,6 +76,10 @@ const defaultState = (): Omit<RunState, "actions"> => ({
 	status: "idle",
 	mode: "standard",
 	waveCap: WAVES.length,
+	isReplay: false,
+	pilots: [],
+	spectating: false,
+	spectatorFocus: null,
 	currentWave: 1,
 	elapsedTime: 0,
 	currentUpgrades: [],
@@ -78,6 +108,9 @@ export const useRunStore = create<RunState>()((set, _get) => ({
 				achievedSynergies: [],
 				mode: opts?.mode ?? "standard",
 				waveCap: opts?.waveCap ?? null,
+				isReplay: opts?.replay ?? false,
+				pilots: opts?.pilots ?? [],
+				spectating: opts?.spectating ?? false,
 			})),
 		endRun: (summary) =>
 			set((state) => ({
@@ -106,10 +139,19 @@ export const useRunStore = create<RunState>()((set, _get) => ({
 					: { achievedSynergies: [...state.achievedSynergies, synergyId] },
 			),
 		setStatus: (status) => set(() => ({ status })),
+		cycleSpectatorFocus: () =>
+			set((state) => {
+				// Whole field, then each pilot in seat order
+				const order = [null, ...state.pilots.map((p) => p.id)];
+				const next = (order.indexOf(state.spectatorFocus) + 1) % order.length;
+				return { spectatorFocus: order[next] };
+			}),
 		tick: (deltaSeconds) =>
 			set((state) => ({ elapsedTime: state.elapsedTime + deltaSeconds })),
 		recordKill: () =>
 			set((state) => ({ enemiesDestroyed: state.enemiesDestroyed + 1 })),
+		restoreProgress: (elapsedTime, enemiesDestroyed) =>
+			set(() => ({ elapsedTime, enemiesDestroyed })),
 		setVitals: (health, maxHealth) =>
 			set(() => ({ playerHealth: health, playerMaxHealth: maxHealth })),
 		setXp: (level, xp, xpThreshold) =>
@@ -0,0 +1,94 @@
+import { useState } from "react";
+import {
+	NETWORK_PRESETS,
+	type NetworkConditions,
+	networkConditioner,
+} from "../../network/NetworkConditioner";
+
+const CONDITION_FIELDS: {
+	key: keyof NetworkConditions;
+	label: string;
+	/** Rates are edited as percentages */
+	percent?: boolean;
+}[] = [
+	{ key: "latencyMs", label: "Latency (ms)" },
+	{ key: "jitterMs", label: "Jitter (ms)" },
+	{ key: "lossRate", label: "Loss %", percent: true },
+	{ key: "duplicateRate", label: "Duplicate %", percent: true },
+	{ key: "reorderRate", label: "Reorder %", percent: true },
+];
+
+interface DevNetworkTabProps {
+	showNetStats: boolean;
+	onToggleNetStats: () => void;
+}
+
+/** Dev console tab for simulated link conditions and the stats overlay */
+export const DevNetworkTab = ({
+	showNetStats,
+	onToggleNetStats,
+}: DevNetworkTabProps) => {
+	const [conditions, setConditions] = useState(
+		() => networkConditioner.conditions,
+	);
+
+	const updateConditions = (next: Partial<NetworkConditions>) => {
+		networkConditioner.setConditions(next);
+		setConditions(networkConditioner.conditions);
+	};
+
+	return (
+		<div className="dev-config">
+			<div className="dev-section">
+				<div className="dev-section-title">Simulated Conditions</div>
+				<div className="dev-synergies">
+					{Object.entries(NETWORK_PRESETS).map(([name, preset]) => (
+						<button key={name} onClick={() => updateConditions(preset)}>
+							{name}
+						</button>
+					))}
+				</div>
+				{CONDITION_FIELDS.map(({ key, label, percent }) => (
+					<div className="dev-row" key={key}>
+						<label>{label}</label>
+						<input
+							type="number"
+							min={0}
+							max={percent ? 100 : 2000}
+							step={percent ? 1 : 10}
+							value={
+								percent ? Math.round(conditions[key] * 100) : conditions[key]
+							}
+							onChange={(e) => {
+								const value = Math.max(0, Number(e.target.value) || 0);
+								updateConditions({
+									[key]: percent ? Math.min(1, value / 100) : value,
+								});
+							}}
+						/>
+					</div>
+				))}
+				<div className="dev-note">
+					Applied to this client's traffic both ways, from the next message on.
+				</div>
+			</div>
+			<div className="dev-section">
+				<div className="dev-section-title">Link Stats</div>
+				<div className="dev-row dev-actions">
+					<button
+						className={`dev-btn ${showNetStats ? "primary" : ""}`}
+						onClick={onToggleNetStats}
+					>
+						{showNetStats ? "Hide Overlay" : "Show Overlay"}
+					</button>
+					<button
+						className="dev-btn"
+						onClick={() => networkConditioner.resetStats()}
+					>
+						Reset Counters
+					</button>
+				</div>
+			</div>
+		</div>
+	);
+};
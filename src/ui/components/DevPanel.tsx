@@ -6,6 +6,8 @@ import { UPGRADE_CATALOG } from "../../config/upgrades";
 import { gameManager } from "../../game/GameManager";
 import { useRunStore } from "../../state/useRunStore";
 import { useUIStore } from "../../state/useUIStore";
+import { DevNetworkTab } from "./DevNetworkTab";
+import { NetStatsOverlay } from "./NetStatsOverlay";
 
 const rarityOrder: Record<string, number> = {
 	legendary: 0,
@@ -13,7 +15,7 @@ const rarityOrder: Record<string, number> = {
 	common: 2,
 };
 
-type DevTab = "upgrades" | "config";
+type DevTab = "upgrades" | "config" | "network";
 
 export const DevPanel = () => {
 	const screen = useUIStore((s) => s.screen);
@@ -25,6 +27,7 @@ export const DevPanel = () => {
 	const [activeTab, setActiveTab] = useState<DevTab>("upgrades");
 	const [selectedAffix, setSelectedAffix] = useState<string>("none");
 	const [selectedBoss, setSelectedBoss] = useState<string>("none");
+	const [showNetStats, setShowNetStats] = useState(false);
 
 	if (!import.meta.env.DEV) return null;
 
@@ -108,7 +111,8 @@ export const DevPanel = () => {
 		gameManager.clearDevOverrides();
 	};
 
-	if (!open) return null;
+	const netStats = showNetStats ? <NetStatsOverlay /> : null;
+	if (!open) return netStats;
 
 	// Show config tab on title screen, upgrades tab in game
 	const showConfigTab = screen === "title" || screen === "inGame";
@@ -119,6 +123,7 @@ export const DevPanel = () => {
 
 	return (
 		<div className="dev-panel">
+			{netStats}
 			<div className="dev-header">
 				<span>Dev Console</span>
 				<div className="dev-tabs">
@@ -138,6 +143,12 @@ export const DevPanel = () => {
 							Upgrades
 						</button>
 					)}
+					<button
+						className={`dev-tab ${effectiveTab === "network" ? "active" : ""}`}
+						onClick={() => setActiveTab("network")}
+					>
+						Network
+					</button>
 				</div>
 				<button className="dev-close" onClick={() => setOpen(false)}>
 					✕
@@ -298,6 +309,13 @@ export const DevPanel = () => {
 					)}
 				</>
 			)}
+
+			{effectiveTab === "network" && (
+				<DevNetworkTab
+					showNetStats={showNetStats}
+					onToggleNetStats={() => setShowNetStats((prev) => !prev)}
+				/>
+			)}
 		</div>
 	);
 };
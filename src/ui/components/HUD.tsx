@@ -1,5 +1,4 @@
 import { useEffect, useState } from "react";
-import { AFFIXES } from "../../config/affixes";
 import { BOSSES } from "../../config/bosses";
 import { gameManager } from "../../game/GameManager";
 import { useRunStore } from "../../state/useRunStore";
@@ -13,8 +12,14 @@ export const HUD = () => {
 	const xpThreshold = useRunStore((s) => s.xpThreshold);
 	const currentWave = useRunStore((s) => s.currentWave);
 	const waveCap = useRunStore((s) => s.waveCap);
+	const bossRush = useRunStore((s) => s.mode === "bossRush");
 	const elapsedTime = useRunStore((s) => s.elapsedTime);
 	const currentSeed = useRunStore((s) => s.seedId);
+	const isReplay = useRunStore((s) => s.isReplay);
+	const pilots = useRunStore((s) => s.pilots);
+	const spectating = useRunStore((s) => s.spectating);
+	const spectatorFocus = useRunStore((s) => s.spectatorFocus);
+	const { cycleSpectatorFocus } = useRunStore((s) => s.actions);
 	const { openRunMenu } = useUIStore((s) => s.actions);
 	const [seasonInfo, setSeasonInfo] = useState(() =>
 		gameManager.getSeasonInfo(),
@@ -38,9 +43,7 @@ export const HUD = () => {
 		setSeasonInfo(gameManager.getSeasonInfo());
 	}, [currentSeed]);
 
-	const currentAffix = seasonInfo?.affix
-		? AFFIXES.find((a) => a.id === seasonInfo.affix?.id)
-		: null;
+	const currentAffixes = seasonInfo?.affixes ?? [];
 
 	const handleXpClick = () => {
 		openRunMenu();
@@ -81,7 +84,7 @@ export const HUD = () => {
 				</div>
 				<div className="hud-block compact">
 					<div className="hud-top-line">
-						<span className="label">Wave</span>
+						<span className="label">{bossRush ? "Boss" : "Wave"}</span>
 						<span className="metric">
 							{currentWave}/{waveCap ?? "∞"}
 						</span>
@@ -95,13 +98,59 @@ export const HUD = () => {
 						</span>
 					</div>
 				</div>
+				{pilots.length > 1 && (
+					<div className="hud-block compact">
+						<div className="hud-top-line">
+							<span className="label">Pilots</span>
+							<span className="tiny">{pilots.length}</span>
+						</div>
+						<div className="pilot-list">
+							{pilots.map((pilot) => (
+								<span
+									key={pilot.id}
+									className={`tiny ${pilot.local ? "" : "remote"}`}
+									title={pilot.label}
+								>
+									{pilot.id.toUpperCase()} {pilot.label}
+								</span>
+							))}
+						</div>
+					</div>
+				)}
+				{spectating && (
+					<div
+						className="hud-block compact clickable"
+						onClick={cycleSpectatorFocus}
+						title="Switch view (V)"
+					>
+						<div className="hud-top-line">
+							<span className="label">Watching</span>
+							<span className="tiny">
+								{spectatorFocus
+									? (pilots.find((p) => p.id === spectatorFocus)?.label ??
+										spectatorFocus.toUpperCase())
+									: "All pilots"}
+							</span>
+						</div>
+					</div>
+				)}
+				{isReplay && (
+					<div className="hud-block compact">
+						<div className="hud-top-line">
+							<span className="label">Replay</span>
+							<span className="tiny">Playback</span>
+						</div>
+					</div>
+				)}
 				{seasonInfo && (
 					<div 
 						className="hud-block compact affix-block"
-						title={currentAffix?.description ?? ""}
+						title={currentAffixes.map((a) => a.description).join("\n")}
 					>
 						<div className="hud-top-line">
-							<span className="label">Weekly</span>
+							<span className="label">
+								{seasonInfo.hardWeek ? "Hard Week" : "Weekly"}
+							</span>
 							<span className="tiny truncate">Seed {seasonInfo.seedId}</span>
 						</div>
 						<div className="hud-bottom-line">
@@ -111,8 +160,16 @@ export const HUD = () => {
 										seasonInfo.boss.id)
 									: "Boss: —"}
 							</span>
-							<span className="tiny truncate" style={{ textAlign: "right" }}>
-								{currentAffix?.name ?? "Affix: —"}
+							<span className="affix-list">
+								{currentAffixes.length > 0 ? (
+									currentAffixes.map((affix) => (
+										<span key={affix.id} className="tiny truncate">
+											{affix.name}
+										</span>
+									))
+								) : (
+									<span className="tiny truncate">Affix: —</span>
+								)}
 							</span>
 						</div>
 					</div>
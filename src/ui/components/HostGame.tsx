@@ -1,12 +1,15 @@
 import { useEffect, useRef, useState } from "react";
 import { gameManager } from "../../game/GameManager";
+import { MAX_PILOTS, PILOT_IDS } from "../../game/pilots";
+import { rosterControls, seatedCount } from "../../network/PilotRoster";
 import { useUIStore } from "../../state/useUIStore";
 import { useMultiplayerStore } from "../../state/useMultiplayerStore";
 import { useMenuNavigation } from "../input/useMenuNavigation";
 
 export const HostGame = () => {
 	const { setScreen } = useUIStore((s) => s.actions);
-	const { connectionState, roomCode, connectedPeers } = useMultiplayerStore();
+	const { connectionState, roomCode, roster, peerId, spectators } =
+		useMultiplayerStore();
 	const { createRoom, disconnect } = useMultiplayerStore((s: any) => s.actions);
 	const [isCreating, setIsCreating] = useState(false);
 	const [error, setError] = useState<string | null>(null);
@@ -35,20 +38,16 @@ export const HostGame = () => {
 		};
 	}, []);
 
+	const pilotCount = seatedCount(roster);
+
 	const startGame = () => {
-		if (connectedPeers.length === 0) return;
-		
-		// Signal guest to start
-		const { startGame: signalStart } = useMultiplayerStore.getState().actions;
-		signalStart();
-		
-		// Host controls p1 locally, p2 is controlled remotely
+		if (pilotCount < 2 || !peerId) return;
+
+		// Host controls p1 locally, every guest flies their own seat. The run
+		// signals the guests to start once it knows what it was built from.
 		gameManager.startRun(undefined, {
 			mode: "online",
-			twinControls: {
-				p1: { type: "keyboardMouse", label: "You (Host)" },
-				p2: { type: "remote", peerId: connectedPeers[0], label: "Guest" }
-			}
+			twinControls: rosterControls(roster, peerId)
 		});
 	};
 
@@ -62,7 +61,7 @@ export const HostGame = () => {
 	const copyRef = useRef<HTMLButtonElement>(null);
 	const backRef = useRef<HTMLButtonElement>(null);
 
-	const canStart = connectedPeers.length > 0;
+	const canStart = pilotCount > 1;
 
 	const nav = useMenuNavigation(
 		[
@@ -117,18 +116,39 @@ export const HostGame = () => {
 						<div className="room-code-display">
 							<div className="label">Room Code</div>
 							<div className="code">{roomCode}</div>
-							<p className="note">Share this code with your friend to let them join</p>
+							<p className="note">
+								Share this code with up to {MAX_PILOTS - 1} friends to let them join
+							</p>
 						</div>
 
 						<div className="connection-status">
 							<div className="label">Connection Status</div>
 							<div className="status">
 								{connectionState === "connecting" && "Waiting for connection..."}
-								{connectionState === "connected" && connectedPeers.length === 0 && "Waiting for player..."}
-								{connectionState === "connected" && connectedPeers.length > 0 && (
-									<span className="success">✓ Player connected!</span>
+								{connectionState === "connected" && pilotCount < 2 && "Waiting for players..."}
+								{connectionState === "connected" && pilotCount > 1 && (
+									<span className="success">
+										✓ {pilotCount} / {MAX_PILOTS} pilots ready
+									</span>
 								)}
 							</div>
+							<ul className="pilot-roster">
+								{PILOT_IDS.map((id, index) => (
+									<li key={id} className={roster[id] ? "seated" : "open"}>
+										<span className="label">{id.toUpperCase()}</span>
+										<span className="tiny">
+											{index === 0
+												? "You (Host)"
+												: roster[id]
+													? `Guest ${index}`
+													: "Open"}
+										</span>
+									</li>
+								))}
+							</ul>
+							{spectators.length > 0 && (
+								<p className="note">{spectators.length} watching</p>
+							)}
 						</div>
 					</>
 				)}
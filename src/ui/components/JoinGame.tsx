@@ -1,19 +1,25 @@
 import { useRef, useState } from "react";
 import { gameManager } from "../../game/GameManager";
+import { rosterControls } from "../../network/PilotRoster";
 import { useUIStore } from "../../state/useUIStore";
 import { useMultiplayerStore } from "../../state/useMultiplayerStore";
 import { useMenuNavigation } from "../input/useMenuNavigation";
 
 export const JoinGame = () => {
 	const { setScreen } = useUIStore((s) => s.actions);
-	const { connectionState } = useMultiplayerStore();
-	const { joinRoom, disconnect } = useMultiplayerStore((s: any) => s.actions);
+	const { connectionState, roster, localPilotId, isSpectator } =
+		useMultiplayerStore();
+	// The host always answers a join with the roster, seated or not
+	const roomFull = !!roster.p1 && !localPilotId && !isSpectator;
+	const { joinRoom, spectate, disconnect } = useMultiplayerStore(
+		(s: any) => s.actions,
+	);
 	const [roomCode, setRoomCode] = useState("");
 	const [error, setError] = useState<string | null>(null);
 	const [isJoining, setIsJoining] = useState(false);
 	const [inputFocused, setInputFocused] = useState(true); // Start focused
 
-	const handleJoinRoom = async () => {
+	const handleJoinRoom = async (asSpectator = false) => {
 		if (!roomCode.trim()) {
 			setError("Please enter a room code");
 			return;
@@ -22,23 +28,21 @@ export const JoinGame = () => {
 		setIsJoining(true);
 		setError(null);
 
+		// Set up before joining: a run already under way is handed over as
+		// soon as the host hears from this peer
+		const { setOnGameStart } = useMultiplayerStore.getState().actions;
+		setOnGameStart(() => {
+			const { roster, peerId, localPilotId, isSpectator, runSetup } =
+				useMultiplayerStore.getState();
+			if (!peerId || !runSetup || (!localPilotId && !isSpectator)) return;
+			// Guest flies its own seat; the host and other guests are remote.
+			// A spectator has no seat, so every pilot is remote.
+			gameManager.startOnlineRun(runSetup, rosterControls(roster, peerId));
+		});
+
 		try {
-			await joinRoom(roomCode.trim().toUpperCase());
+			await joinRoom(roomCode.trim().toUpperCase(), asSpectator);
 			setIsJoining(false);
-			
-			// Set up callback for when host starts the game
-			const { setOnGameStart } = useMultiplayerStore.getState().actions;
-			setOnGameStart(() => {
-				const { connectedPeers } = useMultiplayerStore.getState();
-				// Guest controls p2 locally, p1 is controlled remotely by host
-				gameManager.startRun(undefined, {
-					mode: "online",
-					twinControls: {
-						p1: { type: "remote", peerId: connectedPeers[0], label: "Host" },
-						p2: { type: "keyboardMouse", label: "You (Guest)" }
-					}
-				});
-			});
 		} catch (err: unknown) {
 			setIsJoining(false);
 			setError("Failed to join room. Check the code and try again.");
@@ -47,6 +51,7 @@ export const JoinGame = () => {
 	};
 
 	const joinRef = useRef<HTMLButtonElement>(null);
+	const watchRef = useRef<HTMLButtonElement>(null);
 	const backRef = useRef<HTMLButtonElement>(null);
 
 	const canJoin = roomCode.trim().length > 0 && !isJoining;
@@ -55,7 +60,12 @@ export const JoinGame = () => {
 		[
 			{
 				ref: joinRef,
-				onActivate: handleJoinRoom,
+				onActivate: () => handleJoinRoom(),
+				disabled: !canJoin
+			},
+			{
+				ref: watchRef,
+				onActivate: () => handleJoinRoom(true),
 				disabled: !canJoin
 			},
 			{
@@ -123,9 +133,26 @@ export const JoinGame = () => {
 					</div>
 				)}
 
-				{connectionState === "connected" && (
+				{connectionState === "connected" && !roomFull && (
 					<div className="status-message success">
-						<p>✓ Connected! Waiting for host to start...</p>
+						<p>
+							✓ Connected
+							{isSpectator
+								? " as a spectator"
+								: localPilotId
+									? ` as ${localPilotId.toUpperCase()}`
+									: ""}
+							! Waiting for host to start...
+						</p>
+					</div>
+				)}
+
+				{connectionState === "connected" && roomFull && (
+					<div className="error-message">
+						<p>This room is full.</p>
+						<button type="button" className="ghost tiny" onClick={spectate}>
+							Watch instead
+						</button>
 					</div>
 				)}
 
@@ -140,16 +167,26 @@ export const JoinGame = () => {
 						ref={joinRef}
 						tabIndex={0}
 						className={`primary ${nav.focusedIndex === 0 ? "nav-focused" : ""}`}
-						onClick={handleJoinRoom}
+						onClick={() => handleJoinRoom()}
 						disabled={!canJoin}
 					>
 						Join Game
 					</button>
 
 					<button
-						ref={backRef}
+						ref={watchRef}
 						tabIndex={0}
 						className={`ghost ${nav.focusedIndex === 1 ? "nav-focused" : ""}`}
+						onClick={() => handleJoinRoom(true)}
+						disabled={!canJoin}
+					>
+						Watch
+					</button>
+
+					<button
+						ref={backRef}
+						tabIndex={0}
+						className={`ghost ${nav.focusedIndex === 2 ? "nav-focused" : ""}`}
 						onClick={() => {
 							disconnect();
 							setScreen("multiplayerSetup");
@@ -1,12 +1,38 @@
 import { createRef, useEffect, useMemo, useState } from "react";
+import { runAffixIds } from "../../config/affixes";
 import { SYNERGY_DEFINITIONS } from "../../config/synergies";
 import { UPGRADE_CATALOG } from "../../config/upgrades";
 import { gameManager } from "../../game/GameManager";
+import type { RunSummary } from "../../models/types";
 import { useMetaStore } from "../../state/useMetaStore";
+import { useReplayStore } from "../../state/useReplayStore";
 import { useUIStore } from "../../state/useUIStore";
 import { useMenuNavigation } from "../input/useMenuNavigation";
 
-type LeaderboardTab = "weekly" | "all";
+type LeaderboardTab = "weekly" | "all" | "bossRush";
+
+const LEADERBOARD_TABS: { id: LeaderboardTab; label: string }[] = [
+	{ id: "weekly", label: "Weekly" },
+	{ id: "all", label: "All-Time" },
+	{ id: "bossRush", label: "Boss Rush" },
+];
+
+const padToTen = (runs: RunSummary[]) => {
+	const padded = [...runs];
+	while (padded.length < 10) {
+		padded.push({
+			runId: `empty-${padded.length}`,
+			timestamp: 0,
+			durationSeconds: 0,
+			wavesCleared: 0,
+			bossDefeated: false,
+			enemiesDestroyed: 0,
+			upgrades: [],
+			seedId: "",
+		});
+	}
+	return padded.slice(0, 10);
+};
 
 export const LeaderboardModal = () => {
 	const open = useUIStore((s) => s.leaderboardOpen);
@@ -14,7 +40,9 @@ export const LeaderboardModal = () => {
 	const bestRun = useMetaStore((s) => s.bestRun);
 	const bestRunsBySeed = useMetaStore((s) => s.bestRunsBySeed);
 	const topRuns = useMetaStore((s) => s.topRuns);
+	const bossRushTopRuns = useMetaStore((s) => s.bossRushTopRuns);
 	const isHydrated = useMetaStore((s) => s.isHydrated);
+	const replays = useReplayStore((s) => s.replays);
 	const [seasonInfo, setSeasonInfo] = useState(() =>
 		gameManager.getSeasonInfo(),
 	);
@@ -43,39 +71,51 @@ export const LeaderboardModal = () => {
 				return b.wavesCleared - a.wavesCleared;
 			return a.durationSeconds - b.durationSeconds;
 		});
-		while (sorted.length < 10) {
-			sorted.push({
-				runId: `empty-${sorted.length}`,
-				timestamp: 0,
-				durationSeconds: 0,
-				wavesCleared: 0,
-				bossDefeated: false,
-				enemiesDestroyed: 0,
-				upgrades: [],
-				seedId: "",
-			});
-		}
-		return sorted.slice(0, 10);
+		return padToTen(sorted);
 	}, [topRuns]);
 
+	// Already ranked by the meta store: full clears, furthest boss, fastest
+	const bossRushTop10 = useMemo(
+		() => padToTen(bossRushTopRuns),
+		[bossRushTopRuns],
+	);
+
 	const renderRunDetails = (runId: string) => {
-		const run = topRuns.find((r) => r.runId === runId);
+		const run = [...topRuns, ...bossRushTopRuns].find(
+			(r) => r.runId === runId,
+		);
 		if (!run) return null;
 		const synergies = (run.synergies ?? []).map(
 			(id) => SYNERGY_DEFINITIONS.find((s) => s.id === id)?.name ?? id,
 		);
+		const replay = replays.find((r) => r.runId === run.runId);
 		return (
 			<div className="run-details">
 				<div className="pill-row">
 					{run.seedId && <span className="pill">Seed {run.seedId}</span>}
 					{run.bossId && <span className="pill">Boss {run.bossId}</span>}
-					{run.affixId && <span className="pill">Affix {run.affixId}</span>}
+					{runAffixIds(run).map((id) => (
+						<span key={id} className="pill">
+							Affix {id}
+						</span>
+					))}
 					{synergies.length > 0 && (
 						<span className="pill achievement">
 							Synergies: {synergies.join(", ")}
 						</span>
 					)}
 				</div>
+				{replay && (
+					<button
+						className="ghost"
+						onClick={() => {
+							closeLeaderboard();
+							gameManager.playReplay(replay);
+						}}
+					>
+						Watch replay
+					</button>
+				)}
 				<div className="swatch-grid">
 					{run.upgrades.map((u) => {
 						const def = UPGRADE_CATALOG.find((d) => d.id === u.id);
@@ -107,26 +147,24 @@ export const LeaderboardModal = () => {
 					(r) =>
 						r.seedId === seasonInfo?.seedId || r.runId.startsWith("empty-"),
 				)
-			: top10;
+			: tab === "bossRush"
+				? bossRushTop10
+				: top10;
 
 	const tabRefs = {
 		weekly: createRef<HTMLButtonElement>(),
 		all: createRef<HTMLButtonElement>(),
+		bossRush: createRef<HTMLButtonElement>(),
 	};
 	const rowRefs = rows.map(() => createRef<HTMLButtonElement>());
 
 	const nav = useMenuNavigation(
 		[
-			{
-				ref: tabRefs.weekly,
-				onFocus: () => setTab("weekly"),
-				onActivate: () => setTab("weekly"),
-			},
-			{
-				ref: tabRefs.all,
-				onFocus: () => setTab("all"),
-				onActivate: () => setTab("all"),
-			},
+			...LEADERBOARD_TABS.map((entry) => ({
+				ref: tabRefs[entry.id],
+				onFocus: () => setTab(entry.id),
+				onActivate: () => setTab(entry.id),
+			})),
 			...rows.map((run, idx) => ({
 				ref: rowRefs[idx],
 				disabled: run.wavesCleared === 0 && run.runId.startsWith("empty-"),
@@ -165,26 +203,25 @@ export const LeaderboardModal = () => {
 				{isHydrated && (
 					<>
 						<div className="tab-row">
-							<button
-								ref={tabRefs.weekly}
-								tabIndex={0}
-								className={`tab ${tab === "weekly" ? "active" : ""} ${nav.focusedIndex === 0 ? "nav-focused" : ""}`}
-								onClick={() => setTab("weekly")}
-							>
-								Weekly
-							</button>
-							<button
-								ref={tabRefs.all}
-								tabIndex={0}
-								className={`tab ${tab === "all" ? "active" : ""} ${nav.focusedIndex === 1 ? "nav-focused" : ""}`}
-								onClick={() => setTab("all")}
-							>
-								All-Time
-							</button>
+							{LEADERBOARD_TABS.map((entry, idx) => (
+								<button
+									key={entry.id}
+									ref={tabRefs[entry.id]}
+									tabIndex={0}
+									className={`tab ${tab === entry.id ? "active" : ""} ${nav.focusedIndex === idx ? "nav-focused" : ""}`}
+									onClick={() => setTab(entry.id)}
+								>
+									{entry.label}
+								</button>
+							))}
 						</div>
 						<div className="leaderboard-card top-list">
 							<div className="tiny label">
-								{tab === "weekly" ? "Weekly Top 10" : "All-Time Top 10"}
+								{tab === "weekly"
+									? "Weekly Top 10"
+									: tab === "bossRush"
+										? "Boss Rush Top 10"
+										: "All-Time Top 10"}
 							</div>
 							<div className="leaderboard-list">
 								{rows.map((run, idx) => {
@@ -198,7 +235,7 @@ export const LeaderboardModal = () => {
 										>
 											<button
 												ref={rowRefs[idx]}
-												className={`leaderboard-row-main ${nav.focusedIndex === idx + 2 ? "nav-focused" : ""}`}
+												className={`leaderboard-row-main ${nav.focusedIndex === idx + LEADERBOARD_TABS.length ? "nav-focused" : ""}`}
 												disabled={isEmpty}
 												tabIndex={0}
 												onClick={() =>
@@ -211,7 +248,11 @@ export const LeaderboardModal = () => {
 												) : (
 													<>
 														<span className="metric">
-															Wave {run.wavesCleared}
+															{tab !== "bossRush"
+																? `Wave ${run.wavesCleared}`
+																: run.bossDefeated
+																	? "Cleared"
+																	: `Boss ${run.wavesCleared}`}
 														</span>
 														<span className="tiny">
 															{formattedTime(run.durationSeconds)} ·{" "}
@@ -234,6 +275,9 @@ export const LeaderboardModal = () => {
 							{tab === "all" && !bestRun && (
 								<div className="tiny">No runs recorded yet.</div>
 							)}
+							{tab === "bossRush" && bossRushTopRuns.length === 0 && (
+								<div className="tiny">No boss rush runs recorded yet.</div>
+							)}
 						</div>
 					</>
 				)}
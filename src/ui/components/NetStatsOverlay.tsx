@@ -0,0 +1,65 @@
+import { useEffect, useState } from "react";
+import { networkConditioner } from "../../network/NetworkConditioner";
+import { getNetworkManager } from "../../network/NetworkManager";
+import { INTERPOLATION_DELAY } from "../../network/Interpolation";
+
+const REFRESH_MS = 250;
+
+const readStats = () => {
+	const nm = getNetworkManager();
+	return {
+		transport: nm.transportKind,
+		role: nm.role,
+		connected: nm.isConnected,
+		peers: nm.connectedPeers.length,
+		rtt: nm.rtt,
+		latency: nm.latency.average,
+		jitter: nm.latency.jitter,
+		recommendedDelay: nm.latency.recommendedDelay,
+		conditioned: networkConditioner.active,
+		traffic: networkConditioner.stats,
+	};
+};
+
+const ms = (value: number) => `${Math.round(value)} ms`;
+
+/** Live link stats for tuning interpolation and the rollback input delay */
+export const NetStatsOverlay = () => {
+	const [stats, setStats] = useState(readStats);
+
+	useEffect(() => {
+		const id = window.setInterval(() => setStats(readStats()), REFRESH_MS);
+		return () => window.clearInterval(id);
+	}, []);
+
+	const { traffic } = stats;
+	const lossPct = traffic.messages
+		? ((traffic.dropped / traffic.messages) * 100).toFixed(1)
+		: "0.0";
+
+	return (
+		<div className="net-stats">
+			<div className="net-stats__title">
+				Net · {stats.transport} · {stats.connected ? stats.role : "offline"}
+			</div>
+			<div>Peers {stats.peers}</div>
+			<div>RTT {ms(stats.rtt)}</div>
+			<div>
+				Latency {ms(stats.latency)} ± {ms(stats.jitter)}
+			</div>
+			<div
+				className={
+					stats.recommendedDelay > INTERPOLATION_DELAY ? "net-stats__warn" : ""
+				}
+			>
+				Interp {ms(stats.recommendedDelay)} wanted / {INTERPOLATION_DELAY} set
+			</div>
+			{stats.conditioned && (
+				<div className="net-stats__sim">
+					Simulated: {traffic.messages} msgs, {lossPct}% lost,{" "}
+					{traffic.duplicated} dup, {traffic.reordered} late
+				</div>
+			)}
+		</div>
+	);
+};
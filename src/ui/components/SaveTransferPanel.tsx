@@ -0,0 +1,147 @@
+import { useRef, useState } from "react";
+import {
+	createSaveExport,
+	encodeSaveCode,
+	parseSaveImport,
+	saveExportFileName,
+	type SaveExport,
+} from "../../persistence/saveTransfer";
+import { useMetaStore, type SaveImportMode } from "../../state/useMetaStore";
+
+export const SaveTransferPanel = () => {
+	const { exportMeta, importMeta } = useMetaStore((s) => s.actions);
+	const [transferCode, setTransferCode] = useState<string | null>(null);
+	const [importText, setImportText] = useState("");
+	const [pendingImport, setPendingImport] = useState<SaveExport | null>(null);
+	const [status, setStatus] = useState<string | null>(null);
+	const fileInputRef = useRef<HTMLInputElement>(null);
+
+	const downloadSave = () => {
+		const save = createSaveExport(exportMeta());
+		const url = URL.createObjectURL(
+			new Blob([JSON.stringify(save, null, 2)], { type: "application/json" }),
+		);
+		const link = document.createElement("a");
+		link.href = url;
+		link.download = saveExportFileName(save.exportedAt);
+		link.click();
+		URL.revokeObjectURL(url);
+		setStatus("Save file downloaded.");
+	};
+
+	const copyTransferCode = async () => {
+		const code = await encodeSaveCode(createSaveExport(exportMeta()));
+		setTransferCode(code);
+		try {
+			await navigator.clipboard.writeText(code);
+			setStatus("Transfer code copied.");
+		} catch {
+			// Clipboard access denied; the code stays on screen to copy by hand
+			setStatus("Copy the transfer code below.");
+		}
+	};
+
+	const checkImport = async (text: string) => {
+		setPendingImport(null);
+		try {
+			const save = await parseSaveImport(text);
+			setPendingImport(save);
+			setStatus(null);
+		} catch (err) {
+			setStatus(err instanceof Error ? err.message : "Import failed.");
+		}
+	};
+
+	const loadFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+		const file = e.target.files?.[0];
+		e.target.value = "";
+		if (!file) return;
+		const text = await file.text();
+		setImportText(text);
+		await checkImport(text);
+	};
+
+	const applyImport = async (mode: SaveImportMode) => {
+		if (!pendingImport) return;
+		await importMeta(pendingImport.meta, mode);
+		setPendingImport(null);
+		setImportText("");
+		setStatus(mode === "merge" ? "Save merged." : "Save replaced.");
+	};
+
+	return (
+		<div className="stats-section save-transfer">
+			<div className="stats-section-title">Transfer Save</div>
+			<div className="note">
+				Move your cards, stats and records to another device with a save
+				file or a transfer code.
+			</div>
+			<div className="save-transfer-row">
+				<button onClick={downloadSave}>Download File</button>
+				<button onClick={copyTransferCode}>Copy Code</button>
+			</div>
+			{transferCode && (
+				<textarea
+					className="save-transfer-code"
+					readOnly
+					value={transferCode}
+					onFocus={(e) => e.target.select()}
+				/>
+			)}
+			<textarea
+				className="save-transfer-code"
+				placeholder="Paste a transfer code or save file"
+				value={importText}
+				onChange={(e) => {
+					setImportText(e.target.value);
+					setPendingImport(null);
+				}}
+				onKeyDown={(e) => e.stopPropagation()}
+			/>
+			<div className="save-transfer-row">
+				<button
+					onClick={() => checkImport(importText)}
+					disabled={!importText.trim()}
+				>
+					Check Code
+				</button>
+				<button onClick={() => fileInputRef.current?.click()}>
+					Load File
+				</button>
+				<input
+					ref={fileInputRef}
+					type="file"
+					accept=".json,application/json"
+					hidden
+					onChange={loadFile}
+				/>
+			</div>
+			{pendingImport && (
+				<div className="leaderboard-card">
+					<div className="tiny label">
+						Exported{" "}
+						{new Date(pendingImport.exportedAt).toLocaleDateString()}
+					</div>
+					<div className="tiny">
+						{pendingImport.meta.totalRuns} runs ·{" "}
+						{pendingImport.meta.cardCollection?.unlockedUpgrades.length ?? 0}{" "}
+						cards unlocked · {pendingImport.meta.topRuns?.length ?? 0} top runs
+					</div>
+					<div className="save-transfer-row">
+						<button className="primary" onClick={() => applyImport("merge")}>
+							Merge
+						</button>
+						<button className="ghost" onClick={() => applyImport("overwrite")}>
+							Overwrite
+						</button>
+					</div>
+					<div className="tiny">
+						Merge keeps the best of both saves. Overwrite replaces this
+						device's progress.
+					</div>
+				</div>
+			)}
+			{status && <div className="tiny">{status}</div>}
+		</div>
+	);
+};
@@ -1,10 +1,12 @@
 import { useMemo } from "react";
 import { AFFIXES } from "../../config/affixes";
 import { BOSSES } from "../../config/bosses";
+import { MINI_BOSSES } from "../../config/miniBosses";
 import { SYNERGY_DEFINITIONS } from "../../config/synergies";
 import { UPGRADE_CATALOG } from "../../config/upgrades";
 import { useMetaStore } from "../../state/useMetaStore";
 import { useUIStore } from "../../state/useUIStore";
+import { SaveTransferPanel } from "./SaveTransferPanel";
 
 function formatTime(seconds: number): string {
 	if (!isFinite(seconds) || seconds <= 0) return "—";
@@ -61,7 +63,7 @@ export const StatsScreen = () => {
 	}, [unlockedAchievements]);
 
 	const bossStats = useMemo(() => {
-		return BOSSES.map((boss) => ({
+		return [...BOSSES, ...MINI_BOSSES].map((boss) => ({
 			boss,
 			encounters: stats.bossEncounterCounts[boss.id] ?? 0,
 			kills: stats.bossKillCounts[boss.id] ?? 0,
@@ -245,6 +247,8 @@ export const StatsScreen = () => {
 					</div>
 				)}
 
+				<SaveTransferPanel />
+
 				<div className="actions">
 					<button className="primary" onClick={() => setScreen("title")}>
 						Back
@@ -1,18 +1,25 @@
-import { createRef, useMemo } from "react";
-import { AFFIXES } from "../../config/affixes";
+import { createRef, useMemo, useState } from "react";
+import { AFFIXES, runAffixIds } from "../../config/affixes";
 import { BOSSES } from "../../config/bosses";
 import { SYNERGY_DEFINITIONS } from "../../config/synergies";
 import { gameManager } from "../../game/GameManager";
 import { useMetaStore } from "../../state/useMetaStore";
+import { useReplayStore } from "../../state/useReplayStore";
 import { useRunStore } from "../../state/useRunStore";
 import { useUIStore } from "../../state/useUIStore";
+import { getSeedCode } from "../../utils/seed";
 import { useMenuNavigation } from "../input/useMenuNavigation";
 
 export const SummaryScreen = () => {
 	const lastRun = useRunStore((s) => s.lastRunSummary);
 	const bestRun = useMetaStore((s) => s.bestRun);
 	const bestRunsBySeed = useMetaStore((s) => s.bestRunsBySeed);
+	const bossRushBest = useMetaStore((s) => s.bossRushTopRuns[0]);
+	const replay = useReplayStore((s) =>
+		lastRun ? s.replays.find((r) => r.runId === lastRun.runId) : undefined,
+	);
 	const { setScreen } = useUIStore((s) => s.actions);
+	const [copiedCode, setCopiedCode] = useState<string | null>(null);
 	const isVictory = lastRun?.bossDefeated && lastRun?.mode !== "infinite";
 	const synergies = lastRun?.synergies ?? [];
 	const synergyDefs = synergies
@@ -30,7 +37,21 @@ export const SummaryScreen = () => {
 		return `${minutes}:${seconds}`;
 	}, [lastRun]);
 
+	const seedCode = lastRun?.seedId ? getSeedCode(lastRun.seedId) : null;
+
+	const copySeedCode = async () => {
+		if (!seedCode) return;
+		try {
+			await navigator.clipboard.writeText(seedCode);
+			setCopiedCode(seedCode);
+		} catch {
+			// Clipboard access denied; the code stays on screen to copy by hand
+		}
+	};
+
 	const runAgainRef = createRef<HTMLButtonElement>();
+	const replayRef = createRef<HTMLButtonElement>();
+	const copyRef = createRef<HTMLButtonElement>();
 	const titleRef = createRef<HTMLButtonElement>();
 	const nav = useMenuNavigation(
 		[
@@ -41,18 +62,35 @@ export const SummaryScreen = () => {
 				},
 				disabled: !lastRun,
 			},
+			{
+				ref: replayRef,
+				onActivate: () => {
+					if (replay) gameManager.playReplay(replay);
+				},
+				disabled: !replay,
+			},
+			{
+				ref: copyRef,
+				onActivate: copySeedCode,
+				disabled: !seedCode,
+			},
 			{
 				ref: titleRef,
 				onActivate: () => setScreen("title"),
 				disabled: !lastRun,
 			},
 		],
-		{ enabled: !!lastRun, columns: 2, onBack: () => setScreen("title") },
+		{ enabled: !!lastRun, columns: 4, onBack: () => setScreen("title") },
 	);
 
 	if (!lastRun) return null;
 
-	const seedBest = lastRun.seedId ? bestRunsBySeed[lastRun.seedId] : undefined;
+	const bossRush = lastRun.mode === "bossRush";
+	const affixNames = runAffixIds(lastRun).map(
+		(id) => AFFIXES.find((a) => a.id === id)?.name ?? id,
+	);
+	const seedBest =
+		lastRun.seedId && !bossRush ? bestRunsBySeed[lastRun.seedId] : undefined;
 	const modeLabel =
 		lastRun.mode === "infinite"
 			? "Infinite run"
@@ -60,7 +98,9 @@ export const SummaryScreen = () => {
 				? "Twin run (two ships, shared upgrades)"
 				: lastRun.mode === "standard"
 					? "Standard run"
-					: null;
+					: bossRush
+						? "Boss rush"
+						: null;
 
 	return (
 		<div className={`overlay summary-screen ${isVictory ? "is-victory" : ""}`}>
@@ -80,21 +120,28 @@ export const SummaryScreen = () => {
 						<div className="metric">{formattedDuration}</div>
 					</div>
 					<div>
-						<div className="label">Waves</div>
+						<div className="label">{bossRush ? "Bosses" : "Waves"}</div>
 						<div className="metric">{lastRun.wavesCleared}</div>
 					</div>
 					<div>
 						<div className="label">Enemies</div>
 						<div className="metric">{lastRun.enemiesDestroyed}</div>
 					</div>
+					{lastRun.revives !== undefined && (
+						<div>
+							<div className="label">Revives</div>
+							<div className="metric">{lastRun.revives}</div>
+						</div>
+					)}
 				</div>
 				<div className="note">
 					Seed: {lastRun.seedId}
+					{seedCode && seedCode !== lastRun.seedId ? ` · Code: ${seedCode}` : ""}
 					{lastRun.bossId
 						? ` · Boss: ${BOSSES.find((b) => b.id === lastRun.bossId)?.name ?? lastRun.bossId}`
 						: ""}
-					{lastRun.affixId
-						? ` · Affix: ${AFFIXES.find((a) => a.id === lastRun.affixId)?.name ?? lastRun.affixId}`
+					{affixNames.length > 0
+						? ` · ${affixNames.length > 1 ? "Affixes" : "Affix"}: ${affixNames.join(", ")}`
 						: ""}
 					{modeLabel ? ` · ${modeLabel}` : ""}
 				</div>
@@ -124,7 +171,17 @@ export const SummaryScreen = () => {
 						</div>
 					</div>
 				)}
-				{bestRun && (
+				{bossRush && bossRushBest && (
+					<div className="note">
+						Boss rush best:{" "}
+						{bossRushBest.bossDefeated
+							? "Cleared"
+							: `Boss ${bossRushBest.wavesCleared}`}{" "}
+						·{" "}
+						{Math.floor(bossRushBest.durationSeconds)}s
+					</div>
+				)}
+				{!bossRush && bestRun && (
 					<div className="note">
 						Best: Wave {bestRun.wavesCleared} ·{" "}
 						{Math.floor(bestRun.durationSeconds)}s
@@ -132,7 +189,8 @@ export const SummaryScreen = () => {
 				)}
 				{seedBest && seedBest.runId !== lastRun.runId && (
 					<div className="note">
-						Weekly best (Seed {lastRun.seedId}): Wave {seedBest.wavesCleared} ·{" "}
+						{lastRun.seedId.startsWith("day-") ? "Daily" : "Weekly"} best (Seed{" "}
+						{lastRun.seedId}): Wave {seedBest.wavesCleared} ·{" "}
 						{Math.floor(seedBest.durationSeconds)}s
 					</div>
 				)}
@@ -147,10 +205,30 @@ export const SummaryScreen = () => {
 					>
 						Run Again
 					</button>
+					{replay && (
+						<button
+							ref={replayRef}
+							tabIndex={0}
+							className={`ghost ${nav.focusedIndex === 1 ? "nav-focused" : ""}`}
+							onClick={() => gameManager.playReplay(replay)}
+						>
+							Watch Replay
+						</button>
+					)}
+					{seedCode && (
+						<button
+							ref={copyRef}
+							tabIndex={0}
+							className={`ghost ${nav.focusedIndex === 2 ? "nav-focused" : ""}`}
+							onClick={copySeedCode}
+						>
+							{copiedCode === seedCode ? "Code Copied" : `Copy Code ${seedCode}`}
+						</button>
+					)}
 					<button
 						ref={titleRef}
 						tabIndex={0}
-						className={`ghost ${nav.focusedIndex === 1 ? "nav-focused" : ""}`}
+						className={`ghost ${nav.focusedIndex === 3 ? "nav-focused" : ""}`}
 						onClick={() => setScreen("title")}
 					>
 						Title
@@ -1,9 +1,10 @@
 import { useEffect, useMemo, useRef, useState } from "react";
-import { AFFIXES } from "../../config/affixes";
 import { BOSSES } from "../../config/bosses";
 import { gameManager } from "../../game/GameManager";
+import { rollSeason } from "../../game/seasons";
 import { useMetaStore } from "../../state/useMetaStore";
 import { useUIStore } from "../../state/useUIStore";
+import { encodeSeedCode, resolveSeedInput } from "../../utils/seed";
 import { useMenuNavigation } from "../input/useMenuNavigation";
 import { NewVersionBanner } from "./NewVersionBanner";
 
@@ -13,7 +14,12 @@ export const TitleScreen = () => {
 		gameManager.getSeasonInfo(),
 	);
 	const [seasonExpanded, setSeasonExpanded] = useState(false);
+	const [seedInput, setSeedInput] = useState("");
+	const [seedInputFocused, setSeedInputFocused] = useState(false);
+	const [dailyInfo] = useState(() => gameManager.getDailyInfo());
 	const bestRunsBySeed = useMetaStore((s) => s.bestRunsBySeed);
+	const dailyStreak = useMetaStore((s) => s.lifetimeStats.currentDailyStreak);
+	const dailyBest = bestRunsBySeed[dailyInfo.seedId];
 
 	const weeklyBest = useMemo(() => {
 		if (!seasonInfo?.seedId) return undefined;
@@ -24,6 +30,10 @@ export const TitleScreen = () => {
 		gameManager.startRun();
 	};
 
+	const startDaily = () => {
+		gameManager.startRun(dailyInfo.seedId);
+	};
+
 	const startRandom = () => {
 		gameManager.startRun(undefined, { randomSeed: true });
 	};
@@ -36,29 +46,80 @@ export const TitleScreen = () => {
 		gameManager.startRun(undefined, { mode: "infinite" });
 	};
 
+	const startBossRush = () => {
+		gameManager.startRun(undefined, { mode: "bossRush" });
+	};
+
+	const customSeed = useMemo(() => {
+		const seed = resolveSeedInput(seedInput);
+		return seed
+			? {
+					...seed,
+					code: encodeSeedCode(seed.seedValue),
+					...rollSeason(seed.seedValue),
+				}
+			: null;
+	}, [seedInput]);
+
+	const startCustomSeed = () => {
+		if (customSeed) gameManager.startRun(customSeed.seedId);
+	};
+
+	const pasteSeed = async () => {
+		try {
+			setSeedInput((await navigator.clipboard.readText()).trim());
+		} catch {
+			// Clipboard access denied; the field still takes a normal paste
+		}
+	};
+
+	const handleSeedKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+		// Keep menu navigation from capturing typed keys
+		e.stopPropagation();
+		if (e.key === "Enter") startCustomSeed();
+		if (e.key === "Escape") (e.target as HTMLInputElement).blur();
+	};
+
 	useEffect(() => {
 		setSeasonInfo(gameManager.getSeasonInfo());
 	}, []);
 
 	const weeklyRef = useRef<HTMLButtonElement>(null);
+	const dailyRef = useRef<HTMLButtonElement>(null);
 	const randomRef = useRef<HTMLButtonElement>(null);
 	const twinRef = useRef<HTMLButtonElement>(null);
 	const infiniteRef = useRef<HTMLButtonElement>(null);
+	const bossRushRef = useRef<HTMLButtonElement>(null);
 	const collectionRef = useRef<HTMLButtonElement>(null);
 	const statsRef = useRef<HTMLButtonElement>(null);
 	const howToRef = useRef<HTMLButtonElement>(null);
+	const seedInputRef = useRef<HTMLInputElement>(null);
+	const pasteRef = useRef<HTMLButtonElement>(null);
+	const playSeedRef = useRef<HTMLButtonElement>(null);
 
 	const nav = useMenuNavigation(
 		[
 			{ ref: weeklyRef, onActivate: start },
+			{ ref: dailyRef, onActivate: startDaily },
 			{ ref: randomRef, onActivate: startRandom },
 			{ ref: twinRef, onActivate: startTwin },
 			{ ref: infiniteRef, onActivate: startInfinite },
+			{ ref: bossRushRef, onActivate: startBossRush },
 			{ ref: collectionRef, onActivate: () => setScreen("collection") },
 			{ ref: statsRef, onActivate: () => setScreen("stats") },
 			{ ref: howToRef, onActivate: () => setScreen("howToPlay") },
+			{
+				ref: seedInputRef,
+				onActivate: () => seedInputRef.current?.focus(),
+			},
+			{ ref: pasteRef, onActivate: pasteSeed },
+			{
+				ref: playSeedRef,
+				onActivate: startCustomSeed,
+				disabled: !customSeed,
+			},
 		],
-		{ enabled: true, columns: 1, onBack: undefined },
+		{ enabled: !seedInputFocused, columns: 1, onBack: undefined },
 	);
 
 	// Check if we're on mobile
@@ -89,9 +150,17 @@ export const TitleScreen = () => {
 						Weekly Run
 					</button>
 					<button
-						ref={randomRef}
+						ref={dailyRef}
 						tabIndex={0}
 						className={`ghost ${nav.focusedIndex === 1 ? "nav-focused" : ""}`}
+						onClick={startDaily}
+					>
+						Daily Run
+					</button>
+					<button
+						ref={randomRef}
+						tabIndex={0}
+						className={`ghost ${nav.focusedIndex === 2 ? "nav-focused" : ""}`}
 						onClick={startRandom}
 					>
 						Random Run
@@ -99,7 +168,7 @@ export const TitleScreen = () => {
 					<button
 						ref={twinRef}
 						tabIndex={0}
-						className={`ghost ${nav.focusedIndex === 2 ? "nav-focused" : ""}`}
+						className={`ghost ${nav.focusedIndex === 3 ? "nav-focused" : ""}`}
 						onClick={startTwin}
 					>
 						Multiplayer
@@ -107,15 +176,23 @@ export const TitleScreen = () => {
 					<button
 						ref={infiniteRef}
 						tabIndex={0}
-						className={`ghost ${nav.focusedIndex === 3 ? "nav-focused" : ""}`}
+						className={`ghost ${nav.focusedIndex === 4 ? "nav-focused" : ""}`}
 						onClick={startInfinite}
 					>
 						Infinite Mode
 					</button>
+					<button
+						ref={bossRushRef}
+						tabIndex={0}
+						className={`ghost ${nav.focusedIndex === 5 ? "nav-focused" : ""}`}
+						onClick={startBossRush}
+					>
+						Boss Rush
+					</button>
 					<button
 						ref={collectionRef}
 						tabIndex={0}
-						className={`ghost ${nav.focusedIndex === 4 ? "nav-focused" : ""}`}
+						className={`ghost ${nav.focusedIndex === 6 ? "nav-focused" : ""}`}
 						onClick={() => setScreen("collection")}
 					>
 						Collection
@@ -123,7 +200,7 @@ export const TitleScreen = () => {
 					<button
 						ref={statsRef}
 						tabIndex={0}
-						className={`ghost ${nav.focusedIndex === 5 ? "nav-focused" : ""}`}
+						className={`ghost ${nav.focusedIndex === 7 ? "nav-focused" : ""}`}
 						onClick={() => setScreen("stats")}
 					>
 						Stats
@@ -131,12 +208,56 @@ export const TitleScreen = () => {
 					<button
 						ref={howToRef}
 						tabIndex={0}
-						className={`ghost ${nav.focusedIndex === 6 ? "nav-focused" : ""}`}
+						className={`ghost ${nav.focusedIndex === 8 ? "nav-focused" : ""}`}
 						onClick={() => setScreen("howToPlay")}
 					>
 						How to Play
 					</button>
 				</div>
+				<div className="seed-entry">
+					<label htmlFor="seedInput" className="tiny label">
+						Play a Seed
+					</label>
+					<div className="seed-entry-row">
+						<input
+							id="seedInput"
+							ref={seedInputRef}
+							type="text"
+							value={seedInput}
+							onChange={(e) => setSeedInput(e.target.value)}
+							onFocus={() => setSeedInputFocused(true)}
+							onBlur={() => setSeedInputFocused(false)}
+							onKeyDown={handleSeedKeyDown}
+							placeholder="Seed code or any word"
+							maxLength={40}
+							className={`seed-input ${nav.focusedIndex === 9 ? "nav-focused" : ""}`}
+							autoComplete="off"
+						/>
+						<button
+							ref={pasteRef}
+							tabIndex={0}
+							className={`ghost ${nav.focusedIndex === 10 ? "nav-focused" : ""}`}
+							onClick={pasteSeed}
+						>
+							Paste
+						</button>
+						<button
+							ref={playSeedRef}
+							tabIndex={0}
+							className={`ghost ${nav.focusedIndex === 11 ? "nav-focused" : ""}`}
+							onClick={startCustomSeed}
+							disabled={!customSeed}
+						>
+							Play Seed
+						</button>
+					</div>
+					{customSeed && (
+						<div className="tiny">
+							Code {customSeed.code} · Boss {customSeed.boss.name} · Affix{" "}
+							{customSeed.affix.name}
+						</div>
+					)}
+				</div>
 				{seasonInfo && (
 					<div className={`season-card ${seasonExpanded ? "expanded" : ""}`}>
 						<button
@@ -144,9 +265,14 @@ export const TitleScreen = () => {
 							onClick={() => isMobile && setSeasonExpanded(!seasonExpanded)}
 							aria-expanded={seasonExpanded}
 						>
-							<div className="tiny label">This Week</div>
+							<div className="tiny label">
+								This Week{seasonInfo.hardWeek ? " · Hard Week" : ""}
+							</div>
 							<div className="season-row">
 								<span className="pill">Seed {seasonInfo.seedId}</span>
+								{seasonInfo.seedCode && (
+									<span className="pill">Code {seasonInfo.seedCode}</span>
+								)}
 								{seasonInfo.boss && (
 									<span className="pill">
 										Boss:{" "}
@@ -154,22 +280,22 @@ export const TitleScreen = () => {
 											seasonInfo.boss.name}
 									</span>
 								)}
-								{seasonInfo.affix && (
-									<span className="pill">
-										Affix:{" "}
-										{AFFIXES.find((a) => a.id === seasonInfo.affix?.id)?.name ??
-											seasonInfo.affix.name}
+								{seasonInfo.affixes.map((affix) => (
+									<span key={affix.id} className="pill">
+										Affix: {affix.name}
 									</span>
-								)}
+								))}
 							</div>
 							{isMobile && (
 								<span className="expand-icon">{seasonExpanded ? "▲" : "▼"}</span>
 							)}
 						</button>
 						<div className="season-details">
-							{seasonInfo.affix?.description && (
-								<div className="note">{seasonInfo.affix.description}</div>
-							)}
+							{seasonInfo.affixes.map((affix) => (
+								<div key={affix.id} className="note">
+									{affix.description}
+								</div>
+							))}
 							{weeklyBest && (
 								<div className="leaderboard-card">
 									<div className="tiny label">Your Weekly High Score</div>
@@ -183,6 +309,24 @@ export const TitleScreen = () => {
 						</div>
 					</div>
 				)}
+				<div className="season-card daily-card">
+					<div className="season-header">
+						<div className="tiny label">
+							Today{dailyStreak > 0 ? ` · ${dailyStreak} day streak` : ""}
+						</div>
+						<div className="season-row">
+							<span className="pill">Code {dailyInfo.seedCode}</span>
+							<span className="pill">Boss: {dailyInfo.boss.name}</span>
+							<span className="pill">Affix: {dailyInfo.affix.name}</span>
+						</div>
+						{dailyBest && (
+							<div className="tiny">
+								Today's best: Wave {dailyBest.wavesCleared} ·{" "}
+								{Math.floor(dailyBest.durationSeconds)}s
+							</div>
+						)}
+					</div>
+				</div>
 			</div>
 		</div>
 	);
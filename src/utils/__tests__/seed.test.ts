@@ -0,0 +1,77 @@
+/**
+ * Seed tests: share codes round-trip and the daily seed rolls over by UTC day
+ */
+
+import { describe, it, expect } from 'vitest';
+import { rollSeason } from '../../game/seasons';
+import {
+  createRandomSeed,
+  encodeSeedCode,
+  getDailySeed,
+  getSeedCode,
+  getSeedValue,
+  getWeeklySeed,
+  parseSeedCode,
+  resolveSeedInput,
+} from '../seed';
+
+describe('seed codes', () => {
+  it('round-trips every 32-bit seed value', () => {
+    for (const value of [1, 31, 32, 123456789, 0x7fffffff, 0xffffffff]) {
+      const code = encodeSeedCode(value);
+      expect(code).toMatch(/^[0-9A-Z]{3}-[0-9A-Z]{4}$/);
+      expect(parseSeedCode(code)).toBe(value);
+    }
+  });
+
+  it('forgives case, spacing and look-alike characters', () => {
+    const code = encodeSeedCode(0x01234567);
+    const sloppy = ` ${code.toLowerCase().replace('-', ' ').replace(/0/g, 'o').replace(/1/g, 'l')} `;
+    expect(parseSeedCode(sloppy)).toBe(0x01234567);
+    expect(parseSeedCode('not a code')).toBeNull();
+    expect(parseSeedCode('ZZZ-ZZZZ')).toBeNull();
+  });
+
+  it('gives every kind of seed id a code that plays the same seed', () => {
+    const weekly = getWeeklySeed(Date.UTC(2026, 0, 1));
+    expect(getSeedValue(weekly.seedId)).toBe(weekly.seedValue);
+    const code = getSeedCode(weekly.seedId);
+    expect(resolveSeedInput(code)?.seedValue).toBe(weekly.seedValue);
+
+    const random = createRandomSeed();
+    expect(random.seedId).toBe(encodeSeedCode(random.seedValue));
+    expect(getSeedCode(random.seedId)).toBe(random.seedId);
+  });
+
+  it('hashes custom seed names and ignores blank input', () => {
+    expect(resolveSeedInput('  nebula  ')).toEqual({
+      seedId: 'nebula',
+      seedValue: getSeedValue('nebula'),
+    });
+    expect(resolveSeedInput('   ')).toBeNull();
+  });
+
+  it('rolls the same affix and boss for a code as for its original seed', () => {
+    const seed = resolveSeedInput('nebula')!;
+    const shared = resolveSeedInput(encodeSeedCode(seed.seedValue))!;
+    expect(rollSeason(shared.seedValue)).toEqual(rollSeason(seed.seedValue));
+  });
+});
+
+describe('daily seed', () => {
+  it('changes at midnight UTC and reports that day', () => {
+    const morning = getDailySeed(Date.UTC(2026, 9, 18, 0, 5));
+    const night = getDailySeed(Date.UTC(2026, 9, 18, 23, 55));
+    const next = getDailySeed(Date.UTC(2026, 9, 19, 0, 5));
+    expect(night).toEqual(morning);
+    expect(morning.date).toBe('2026-10-18');
+    expect(next.date).toBe('2026-10-19');
+    expect(next.seedId).not.toBe(morning.seedId);
+    expect(getSeedValue(morning.seedId)).toBe(morning.seedValue);
+  });
+
+  it('does not share its seed with the weekly run', () => {
+    const now = Date.UTC(2026, 9, 18);
+    expect(getDailySeed(now).seedValue).not.toBe(getWeeklySeed(now).seedValue);
+  });
+});
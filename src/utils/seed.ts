@@ -1,4 +1,5 @@
-const WEEK_MS = 7 * 24 * 60 * 60 * 1000;
+const DAY_MS = 24 * 60 * 60 * 1000;
+const WEEK_MS = 7 * DAY_MS;
 
 export class Prng {
 	private state: number;
@@ -39,6 +40,79 @@ export const getWeeklySeed = (now = Date.now()) => {
 	return { seedId, seedValue };
 };
 
+/** Today's challenge seed; days roll over at midnight UTC */
+export const getDailySeed = (now = Date.now()) => {
+	const dayIndex = Math.floor(now / DAY_MS);
+	const seedId = `day-${dayIndex}`;
+	const seedValue = hashSeed(seedId) || 1;
+	// YYYY-MM-DD, matching LifetimeStats.lastPlayedDate
+	const date = new Date(dayIndex * DAY_MS).toISOString().split("T")[0];
+	return { seedId, seedValue, date };
+};
+
+// Crockford base32: no I, L, O or U, so codes survive being read aloud
+const SEED_CODE_ALPHABET = "0123456789ABCDEFGHJKMNPQRSTVWXYZ";
+const SEED_CODE_LENGTH = 7;
+const SEED_CODE_PATTERN = /^[0-9A-HJKMNP-TV-Z]{3}-[0-9A-HJKMNP-TV-Z]{4}$/;
+
+/** Short shareable form of a seed value, e.g. "3KQ-7M2X" */
+export const encodeSeedCode = (seedValue: number) => {
+	let value = seedValue >>> 0;
+	let digits = "";
+	for (let i = 0; i < SEED_CODE_LENGTH; i++) {
+		digits = SEED_CODE_ALPHABET[value % 32] + digits;
+		value = Math.floor(value / 32);
+	}
+	return `${digits.slice(0, 3)}-${digits.slice(3)}`;
+};
+
+/**
+ * Reads a typed or pasted seed code, forgiving case, spacing, dashes and the
+ * usual look-alikes (O for 0, I and L for 1). Returns null if it isn't one.
+ */
+export const parseSeedCode = (input: string) => {
+	const digits = input
+		.toUpperCase()
+		.replace(/[\s-]/g, "")
+		.replace(/O/g, "0")
+		.replace(/[IL]/g, "1");
+	if (digits.length !== SEED_CODE_LENGTH) return null;
+	let value = 0;
+	for (const digit of digits) {
+		const index = SEED_CODE_ALPHABET.indexOf(digit);
+		if (index < 0) return null;
+		value = value * 32 + index;
+	}
+	if (value === 0 || value > 0xffffffff) return null;
+	return value;
+};
+
+/** The seed value a seed id plays with; code ids carry their value directly */
+export const getSeedValue = (seedId: string) =>
+	(SEED_CODE_PATTERN.test(seedId) ? parseSeedCode(seedId) : null) ??
+	(hashSeed(seedId) || 1);
+
+export const getSeedCode = (seedId: string) =>
+	encodeSeedCode(getSeedValue(seedId));
+
+/**
+ * Turns seed-field input into a seed: codes resolve to the run they came from,
+ * anything else is hashed as a custom seed name.
+ */
+export const resolveSeedInput = (input: string) => {
+	const trimmed = input.trim();
+	if (!trimmed) return null;
+	const codeValue = parseSeedCode(trimmed);
+	const seedId = codeValue !== null ? encodeSeedCode(codeValue) : trimmed;
+	return { seedId, seedValue: getSeedValue(seedId) };
+};
+
+export const createRandomSeed = () => {
+	const [random] = crypto.getRandomValues(new Uint32Array(1));
+	const seedId = encodeSeedCode(random || 1);
+	return { seedId, seedValue: getSeedValue(seedId) };
+};
+
 export const pickFromList = <T>(items: T[], rng: Prng): T => {
 	if (items.length === 0) {
 		throw new Error("pickFromList called with empty list");
@@ -1,3 +1,17 @@
 /// <reference types="vite/client" />
 
 declare const __BUILD_VERSION__: string;
+
+interface ImportMetaEnv {
+	// Self-hosted WebSocket relay to connect through instead of Trystero
+	readonly VITE_RELAY_URL?: string;
+}
+
+interface Window {
+	// Set by electron/preload.cjs in the desktop build
+	electronAPI?: {
+		platform: string;
+		isElectron: boolean;
+		storage?: import("./persistence/ElectronFileAdapter").ElectronStorageBridge;
+	};
+}
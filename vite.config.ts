@@ -1,14 +1,38 @@
 import react from "@vitejs/plugin-react";
 import basicSsl from "@vitejs/plugin-basic-ssl";
-import { defineConfig } from "vite";
+import { readFileSync } from "node:fs";
+import { defineConfig, type Plugin } from "vite";
+import { formatContentIssues } from "./src/config/content/issues";
+import {
+    CONTENT_TABLE_FILES,
+    loadContentTables,
+    type ContentTableName,
+    type ContentTableSources,
+} from "./src/config/content/tables";
 
 // https://vite.dev/config/
 // Use 'docs' for GitHub Pages, 'dist' for Electron
 const outDir = process.env.BUILD_TARGET === "pages" ? "docs" : "dist";
 
+// Validate the v2/data tables before bundling so schema errors fail the build
+const contentTables = (): Plugin => ({
+    name: "content-tables",
+    buildStart() {
+        const sources = {} as ContentTableSources;
+        for (const [name, file] of Object.entries(CONTENT_TABLE_FILES)) {
+            const url = new URL(`./v2/data/${file}`, import.meta.url);
+            sources[name as ContentTableName] = readFileSync(url, "utf8");
+        }
+        const { issues } = loadContentTables(sources);
+        if (issues.length > 0) {
+            this.error(formatContentIssues(issues));
+        }
+    },
+});
+
 export default defineConfig({
     base: "./",
-    plugins: [react(), basicSsl()],
+    plugins: [contentTables(), react(), basicSsl()],
     build: {
         outDir,
     },